@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
+import { API_BASE_URL } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/session';
+import { fetchWithAudit } from '@/lib/audit-recorder';
 
 export async function PUT(
   request: NextRequest,
@@ -8,13 +9,8 @@ export async function PUT(
 ) {
   try {
     const { id } = await params;
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader) {
-      return NextResponse.json(
-        { error: 'Unauthorized - Admin access required' },
-        { status: 401 }
-      );
-    }
+    const session = await authorizeRequest("coupons:manage");
+    if (session instanceof NextResponse) return session;
 
     const body = await request.json();
     
@@ -26,12 +22,8 @@ export async function PUT(
       );
     }
 
-    const response = await fetch(`${API_BASE_URL}/api/admin/coupons/${id}`, {
+    const response = await fetchWithAudit(`${API_BASE_URL}/api/admin/coupons/${id}`, {
       method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': authHeader,
-      },
       body: JSON.stringify(body),
     });
 
@@ -0,0 +1,65 @@
+// app/api/backend/[...path]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { API_BASE_URL } from "@/lib/auth";
+import { authorizeRequest } from "@/lib/session";
+import { getBackendPermission } from "@/lib/permissions";
+import { fetchWithAudit } from "@/lib/audit-recorder";
+import { AUDIT_LOG_PATH, isAuditedMethod } from "@/lib/audit-log";
+import { ApiAuthError } from "@/lib/api-errors";
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Forwards browser requests to the backend with the session's access
+// token, refreshing it when the backend rejects it. Calls the admin's role
+// does not allow are rejected before they reach the backend, and every
+// mutating call is recorded in the audit log.
+async function proxyRequest(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params;
+  const backendPath = `/${path.join("/")}`;
+  const permission = getBackendPermission(request.method, backendPath);
+  if (permission === false) {
+    return NextResponse.json({ message: "This action is not available from the dashboard" }, { status: 403 });
+  }
+  const session = await authorizeRequest(permission);
+  if (session instanceof NextResponse) return session;
+
+  // Audit entries are only written by the route handlers themselves
+  if (backendPath.startsWith(AUDIT_LOG_PATH) && isAuditedMethod(request.method)) {
+    return NextResponse.json({ message: "The audit log is read-only" }, { status: 403 });
+  }
+
+  const search = request.nextUrl.searchParams.toString();
+  const url = `${API_BASE_URL}/${path.map(encodeURIComponent).join("/")}${search ? `?${search}` : ""}`;
+
+  try {
+    const headers: Record<string, string> = {};
+    const contentType = request.headers.get("content-type");
+    if (contentType) headers["Content-Type"] = contentType;
+
+    const hasBody = request.method !== "GET" && request.method !== "HEAD";
+    const response = await fetchWithAudit(url, {
+      method: request.method,
+      headers,
+      ...(hasBody && { body: await request.arrayBuffer() }),
+    });
+
+    return new NextResponse(response.status === 204 ? null : response.body, {
+      status: response.status,
+      headers: {
+        "Content-Type": response.headers.get("content-type") || "application/json",
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json({ message: error.message }, { status: 401 });
+    }
+    console.error("Backend proxy error:", error);
+    return NextResponse.json({ message: "Failed to reach the server" }, { status: 502 });
+  }
+}
+
+export const GET = proxyRequest;
+export const POST = proxyRequest;
+export const PUT = proxyRequest;
+export const PATCH = proxyRequest;
+export const DELETE = proxyRequest;
@@ -1,5 +1,7 @@
 // app/api/bot/[...path]/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/session';
+import { fetchWithAudit } from '@/lib/audit-recorder';
 
 const BOT_API_BASE_URL = process.env.TELEGRAM_BOT_API_URL || 'https://stocks-backend-cmjxc.ondigitalocean.app';
 
@@ -35,11 +37,16 @@ export async function DELETE(
   return proxyRequest(request, path, 'DELETE');
 }
 
+// Only admins who manage the bot may reach it, and its changes are audited
+// like every other backend write
 async function proxyRequest(
   request: NextRequest,
   path: string[],
   method: string
 ) {
+  const session = await authorizeRequest('bot:manage');
+  if (session instanceof NextResponse) return session;
+
   try {
     const url = `${BOT_API_BASE_URL}/api/${path.join('/')}`;
     const searchParams = request.nextUrl.searchParams;
@@ -54,11 +61,16 @@ async function proxyRequest(
       body = await request.text();
     }
 
-    const response = await fetch(fullUrl, {
-      method,
-      headers,
-      ...(body && { body }),
-    });
+    // The bot API takes no admin token, so requests are sent as they were
+    const response = await fetchWithAudit(
+      fullUrl,
+      {
+        method,
+        headers,
+        ...(body && { body }),
+      },
+      { actor: session.user ?? {}, send: fetch }
+    );
 
     const data = await response.text();
     
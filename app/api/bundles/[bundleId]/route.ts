@@ -1,23 +1,20 @@
 // app\api\bundles\[bundleId]\route.ts  
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-config";
-import { fetchWithAuth, API_BASE_URL } from "@/lib/auth";
+import { API_BASE_URL } from "@/lib/auth";
+import { authorizeRequest, fetchWithSession } from "@/lib/session";
+import { fetchWithAudit } from "@/lib/audit-recorder";
 
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ bundleId: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    const session = await authorizeRequest("portfolios:view");
+    if (session instanceof NextResponse) return session;
 
     const { bundleId } = await params;
 
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/bundles/${bundleId}`);
+    const response = await fetchWithSession(`${API_BASE_URL}/api/bundles/${bundleId}`);
 
     if (!response.ok) {
       const error = await response.json();
@@ -40,16 +37,13 @@ export async function PUT(
   { params }: { params: Promise<{ bundleId: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    const session = await authorizeRequest("portfolios:manage");
+    if (session instanceof NextResponse) return session;
 
     const { bundleId } = await params;
     const body = await req.json();
 
-    const response = await fetchWithAuth(
+    const response = await fetchWithAudit(
       `${API_BASE_URL}/api/bundles/${bundleId}`,
       {
         method: "PUT",
@@ -81,15 +75,12 @@ export async function DELETE(
   { params }: { params: Promise<{ bundleId: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    const session = await authorizeRequest("portfolios:manage");
+    if (session instanceof NextResponse) return session;
 
     const { bundleId } = await params;
 
-    const response = await fetchWithAuth(
+    const response = await fetchWithAudit(
       `${API_BASE_URL}/api/bundles/${bundleId}`,
       {
         method: "DELETE",
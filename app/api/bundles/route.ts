@@ -1,20 +1,17 @@
 // app\api\bundles\route.ts  
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-config";
-import { fetchWithAuth, API_BASE_URL } from "@/lib/auth";
+import { API_BASE_URL } from "@/lib/auth";
+import { authorizeRequest, fetchWithSession } from "@/lib/session";
+import { fetchWithAudit } from "@/lib/audit-recorder";
 
 export async function GET() {
   try {
-    // Get the session
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest("portfolios:view");
+    if (session instanceof NextResponse) return session;
 
     // Forward the request to the backend API
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/bundles`);
+    const response = await fetchWithSession(`${API_BASE_URL}/api/bundles`);
 
     if (!response.ok) {
       const error = await response.json();
@@ -34,17 +31,14 @@ export async function GET() {
 
 export async function POST(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    const session = await authorizeRequest("portfolios:manage");
+    if (session instanceof NextResponse) return session;
 
     // Get the request body
     const body = await req.json();
 
     // Forward the request to the backend API
-    const response = await fetchWithAuth(
+    const response = await fetchWithAudit(
       `${API_BASE_URL}/api/bundles`,
       {
         method: "POST",
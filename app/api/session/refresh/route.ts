@@ -0,0 +1,22 @@
+// app/api/session/refresh/route.ts
+import { NextResponse } from "next/server";
+import { getAdminSession, refreshAdminSession, toClientSession } from "@/lib/session";
+
+// Exchanges the session's refresh token for a new access token
+export async function POST() {
+  const session = await getAdminSession();
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const refreshed = await refreshAdminSession(session);
+    if (!refreshed) {
+      return NextResponse.json({ message: "Session expired. Please login again." }, { status: 401 });
+    }
+    return NextResponse.json(toClientSession(refreshed));
+  } catch (error) {
+    console.error("Error refreshing session:", error);
+    return NextResponse.json({ message: "Failed to refresh the session" }, { status: 502 });
+  }
+}
@@ -0,0 +1,76 @@
+// app/api/session/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { API_BASE_URL } from "@/lib/auth";
+import {
+  clearAdminSession,
+  clearTwoFactorChallenge,
+  createSessionFromLogin,
+  getAdminSession,
+  getClientHeaders,
+  saveAdminSession,
+  saveTwoFactorChallenge,
+  toClientSession,
+} from "@/lib/session";
+
+// Reports whether the caller has a session, without exposing its tokens
+export async function GET() {
+  const session = await getAdminSession();
+  return NextResponse.json(toClientSession(session), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
+
+// Logs in against the backend and keeps its tokens in the session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = await request.json().catch(() => ({}));
+    if (!email || !password) {
+      return NextResponse.json({ message: "Email and password are required" }, { status: 400 });
+    }
+
+    const response = await fetch(`${API_BASE_URL}/admin/login`, {
+      method: "POST",
+      headers: getClientHeaders(request),
+      body: JSON.stringify({ email, password }),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    // Admins with two-factor authentication get a challenge instead of
+    // tokens, answered with a code at /api/session/two-factor
+    const challengeToken = data.challengeToken || data.tempToken;
+    if (response.ok && (data.twoFactorRequired || data.requires2FA) && challengeToken) {
+      await saveTwoFactorChallenge(challengeToken);
+      return NextResponse.json({ authenticated: false, twoFactorRequired: true });
+    }
+
+    const session = response.ok ? createSessionFromLogin(data, email) : null;
+    if (!session) {
+      return NextResponse.json(
+        { message: data.message || "Login failed" },
+        { status: response.ok ? 502 : response.status }
+      );
+    }
+
+    await clearTwoFactorChallenge();
+    await saveAdminSession(session);
+
+    return NextResponse.json(toClientSession(session));
+  } catch (error) {
+    console.error("Error logging in:", error);
+    return NextResponse.json({ message: "An error occurred during login" }, { status: 500 });
+  }
+}
+
+// Logs out of the backend and clears the session cookie
+export async function DELETE() {
+  const session = await getAdminSession();
+  if (session) {
+    // Continue with local logout even if the backend call fails
+    await fetch(`${API_BASE_URL}/admin/logout`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${session.accessToken}` },
+    }).catch((error) => console.warn("Backend logout failed:", error));
+  }
+  await clearAdminSession();
+  return NextResponse.json({ authenticated: false });
+}
@@ -0,0 +1,37 @@
+// app/api/session/socket-ticket/route.ts
+import { NextResponse } from "next/server";
+import { API_BASE_URL } from "@/lib/auth";
+import { ApiAuthError } from "@/lib/api-errors";
+import { getAdminSession, fetchWithSession } from "@/lib/session";
+
+// The price WebSocket connects to the backend directly, so it cannot send
+// the session cookie. Instead the server asks the backend for a one-time
+// ticket that only authenticates a socket and expires within seconds; the
+// access token itself never reaches the browser.
+export async function POST() {
+  const session = await getAdminSession();
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const response = await fetchWithSession(`${API_BASE_URL}/admin/ws-ticket`, { method: "POST" });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data?.ticket) {
+      return NextResponse.json(
+        { message: data?.message || "Failed to issue a socket ticket" },
+        { status: response.ok ? 502 : response.status }
+      );
+    }
+    return NextResponse.json(
+      { ticket: data.ticket, expiresIn: data.expiresIn },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return NextResponse.json({ message: error.message }, { status: 401 });
+    }
+    console.error("Error issuing socket ticket:", error);
+    return NextResponse.json({ message: "Failed to issue a socket ticket" }, { status: 502 });
+  }
+}
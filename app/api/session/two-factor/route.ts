@@ -0,0 +1,54 @@
+// app/api/session/two-factor/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { API_BASE_URL } from "@/lib/auth";
+import {
+  clearTwoFactorChallenge,
+  createSessionFromLogin,
+  getClientHeaders,
+  getTwoFactorChallenge,
+  saveAdminSession,
+  toClientSession,
+} from "@/lib/session";
+
+// Completes a login by answering the two-factor challenge with an
+// authenticator code or a recovery code
+export async function POST(request: NextRequest) {
+  try {
+    const { code, recoveryCode } = await request.json().catch(() => ({}));
+    if (!code && !recoveryCode) {
+      return NextResponse.json({ message: "Enter your authentication code" }, { status: 400 });
+    }
+
+    const challengeToken = await getTwoFactorChallenge();
+    if (!challengeToken) {
+      return NextResponse.json(
+        { message: "Your sign-in has expired. Please login again.", challengeExpired: true },
+        { status: 401 }
+      );
+    }
+
+    const response = await fetch(`${API_BASE_URL}/admin/2fa/verify-login`, {
+      method: "POST",
+      headers: getClientHeaders(request),
+      body: JSON.stringify(recoveryCode ? { challengeToken, recoveryCode } : { challengeToken, code }),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    // A wrong code keeps the challenge so the admin can try again
+    const session = response.ok ? createSessionFromLogin(data) : null;
+    if (!session) {
+      return NextResponse.json(
+        { message: data.message || "Invalid authentication code" },
+        { status: response.ok ? 502 : response.status }
+      );
+    }
+
+    await clearTwoFactorChallenge();
+    await saveAdminSession(session);
+
+    return NextResponse.json(toClientSession(session));
+  } catch (error) {
+    console.error("Error verifying two-factor code:", error);
+    return NextResponse.json({ message: "An error occurred during login" }, { status: 500 });
+  }
+}
@@ -1,19 +1,16 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-config";
-import { fetchWithAuth, API_BASE_URL } from "@/lib/auth";
+import { API_BASE_URL } from "@/lib/auth";
+import { authorizeRequest, fetchWithSession } from "@/lib/session";
+import { fetchWithAudit } from "@/lib/audit-recorder";
 
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Get the session
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest();
+    if (session instanceof NextResponse) return session;
 
     const { id } = await params;
 
@@ -22,7 +19,7 @@ export async function GET(
     }
 
     // Forward the request to the backend API
-    const response = await fetchWithAuth(
+    const response = await fetchWithSession(
       `${API_BASE_URL}/api/stock-symbols/${encodeURIComponent(id)}`
     );
 
@@ -47,12 +44,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Get the session
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest("stock-symbols:manage");
+    if (session instanceof NextResponse) return session;
 
     const { id } = await params;
 
@@ -63,7 +57,7 @@ export async function PUT(
     const body = await req.json();
 
     // Forward the request to the backend API
-    const response = await fetchWithAuth(
+    const response = await fetchWithAudit(
       `${API_BASE_URL}/api/stock-symbols/${encodeURIComponent(id)}`,
       {
         method: "PUT",
@@ -95,12 +89,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Get the session
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest("stock-symbols:manage");
+    if (session instanceof NextResponse) return session;
 
     const { id } = await params;
 
@@ -109,7 +100,7 @@ export async function DELETE(
     }
 
     // Forward the request to the backend API
-    const response = await fetchWithAuth(
+    const response = await fetchWithAudit(
       `${API_BASE_URL}/api/stock-symbols/${encodeURIComponent(id)}`,
       {
         method: "DELETE",
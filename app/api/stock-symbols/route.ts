@@ -1,16 +1,13 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-config";
-import { fetchWithAuth, API_BASE_URL } from "@/lib/auth";
+import { API_BASE_URL } from "@/lib/auth";
+import { authorizeRequest, fetchWithSession } from "@/lib/session";
+import { fetchWithAudit } from "@/lib/audit-recorder";
 
 export async function GET(req: Request) {
   try {
-    // Get the session
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest();
+    if (session instanceof NextResponse) return session;
 
     // Extract search params from URL
     const { searchParams } = new URL(req.url);
@@ -18,7 +15,7 @@ export async function GET(req: Request) {
     const limit = searchParams.get('limit') || '50';
 
     // Forward the request to the backend API
-    const response = await fetchWithAuth(
+    const response = await fetchWithSession(
       `${API_BASE_URL}/api/stock-symbols?page=${page}&limit=${limit}`
     );
 
@@ -40,17 +37,14 @@ export async function GET(req: Request) {
 
 export async function POST(req: Request) {
   try {
-    // Get the session
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest("stock-symbols:manage");
+    if (session instanceof NextResponse) return session;
 
     const body = await req.json();
 
     // Forward the request to the backend API
-    const response = await fetchWithAuth(
+    const response = await fetchWithAudit(
       `${API_BASE_URL}/api/stock-symbols`,
       {
         method: "POST",
@@ -1,16 +1,12 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-config";
-import { fetchWithAuth, API_BASE_URL } from "@/lib/auth";
+import { API_BASE_URL } from "@/lib/auth";
+import { authorizeRequest, fetchWithSession } from "@/lib/session";
 
 export async function GET(req: Request) {
   try {
-    // Get the session
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest();
+    if (session instanceof NextResponse) return session;
 
     // Extract search params from URL
     const { searchParams } = new URL(req.url);
@@ -25,7 +21,7 @@ export async function GET(req: Request) {
     }
 
     // Forward the request to the backend API
-    const response = await fetchWithAuth(
+    const response = await fetchWithSession(
       `${API_BASE_URL}/api/stock-symbols/search?keyword=${encodeURIComponent(keyword)}`
     );
 
@@ -1,19 +1,15 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-config";
-import { fetchWithAuth, API_BASE_URL } from "@/lib/auth";
+import { API_BASE_URL } from "@/lib/auth";
+import { authorizeRequest, fetchWithSession } from "@/lib/session";
 
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ symbol: string }> }
 ) {
   try {
-    // Get the session
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest();
+    if (session instanceof NextResponse) return session;
 
     const { symbol } = await params;
 
@@ -22,7 +18,7 @@ export async function GET(
     }
 
     // Forward the request to the backend API
-    const response = await fetchWithAuth(
+    const response = await fetchWithSession(
       `${API_BASE_URL}/api/stock-symbols/ticker/${encodeURIComponent(symbol)}`
     );
 
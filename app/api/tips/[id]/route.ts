@@ -1,15 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { isAuthenticated } from "@/lib/auth";
+import { authorizeRequest } from "@/lib/session";
 
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Check authentication
-    if (!isAuthenticated()) {
-      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest("tips:view");
+    if (session instanceof NextResponse) return session;
 
     const { id } = await params;
     if (!id) {
@@ -70,10 +69,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Check authentication
-    if (!isAuthenticated()) {
-      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest("tips:manage");
+    if (session instanceof NextResponse) return session;
 
     const { id } = await params;
     if (!id) {
@@ -118,10 +116,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Check authentication
-    if (!isAuthenticated()) {
-      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest("tips:manage");
+    if (session instanceof NextResponse) return session;
 
     const { id } = await params;
     if (!id) {
@@ -0,0 +1,120 @@
+// app/api/tips/publish-due/route.ts
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { API_BASE_URL } from "@/lib/auth";
+import { authorizeRequest } from "@/lib/session";
+import { fetchWithAudit, type AuditContext } from "@/lib/audit-recorder";
+import { normalizeTips, tipToRequest } from "@/lib/api-tips";
+import { recordTipRevision, type CreateTipRevisionRequest } from "@/lib/api-tip-revisions";
+import { buildPublishTipRequest, isTipDue } from "@/lib/tip-publishing";
+import { diffTipFields } from "@/lib/tip-revisions";
+
+// Recorded as the actor of changes made by the cron
+const CRON_ACTOR = { username: "scheduled-publisher" };
+
+// True when the request carries `Bearer <PUBLISH_CRON_SECRET>`, compared in
+// constant time. Without the secret set the cron path is disabled.
+const isCronRequest = (request: NextRequest): boolean => {
+  const secret = process.env.PUBLISH_CRON_SECRET;
+  const authorization = request.headers.get("authorization");
+  if (!secret || !authorization) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(authorization);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+// Sends backend calls with the server's own service credential
+const sendWithServiceToken = (serviceToken: string) => (url: string, options: RequestInit = {}) => {
+  const headers = new Headers(options.headers);
+  headers.set("Content-Type", "application/json");
+  headers.set("Authorization", `Bearer ${serviceToken}`);
+  return fetch(url, { ...options, headers });
+};
+
+// Publishes every Scheduled tip whose publishAt has passed. Called by the
+// tips page while it is open and suitable for an external cron before
+// market open. Uses the caller's session, or PUBLISH_CRON_SECRET sent by a
+// cron, which then publishes with PUBLISH_CRON_SERVICE_TOKEN.
+// Send { "dryRun": true } to list due tips without publishing them.
+export async function POST(request: NextRequest) {
+  try {
+    // The caller's own token is never forwarded: the cron is checked against
+    // a server secret, anyone else needs a session that can manage tips
+    let audit: AuditContext | undefined;
+    if (isCronRequest(request)) {
+      const serviceToken = process.env.PUBLISH_CRON_SERVICE_TOKEN;
+      if (!serviceToken) {
+        console.error("PUBLISH_CRON_SERVICE_TOKEN is not set; scheduled publishing is unavailable");
+        return NextResponse.json({ message: "Scheduled publishing is not configured" }, { status: 503 });
+      }
+      audit = { actor: CRON_ACTOR, send: sendWithServiceToken(serviceToken) };
+    } else {
+      const session = await authorizeRequest("tips:manage");
+      if (session instanceof NextResponse) return session;
+    }
+    // Every write is recorded in the audit log, as the admin or the cron
+    const call = (url: string, options?: RequestInit) => fetchWithAudit(url, options, audit);
+    const saveRevision = async (tipId: string, revision: CreateTipRevisionRequest) => {
+      const response = await call(`${API_BASE_URL}/api/admin/tips/${tipId}/revisions`, {
+        method: "POST",
+        body: JSON.stringify(revision),
+      });
+      if (!response.ok) throw new Error(`Server returned ${response.status}`);
+      const data = await response.json().catch(() => ({}));
+      return data.data || data.revision || data;
+    };
+
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+
+    const tipsResponse = await call(`${API_BASE_URL}/api/tips`);
+    if (!tipsResponse.ok) {
+      return NextResponse.json(
+        { message: "Failed to fetch tips" },
+        { status: tipsResponse.status }
+      );
+    }
+
+    const tips = normalizeTips(await tipsResponse.json());
+    const now = new Date();
+    const due = tips.filter((tip) => isTipDue(tip, now));
+
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, due: due.map((tip) => tip.id), published: [], failed: [] });
+    }
+
+    const published: string[] = [];
+    const failed: Array<{ id: string; error: string }> = [];
+
+    // Sequential so one slow update does not stack up backend writes
+    for (const tip of due) {
+      try {
+        const publishRequest = buildPublishTipRequest(tip, now);
+        const response = await call(`${API_BASE_URL}/api/tips/${tip.id}`, {
+          method: "PUT",
+          body: JSON.stringify(publishRequest),
+        });
+        if (!response.ok) {
+          const error = await response.json().catch(() => ({}));
+          throw new Error(error.message || `Server returned ${response.status}`);
+        }
+        published.push(tip.id);
+
+        // Record the revision like updateTip does; it never throws, so a
+        // failure cannot report the tip as unpublished
+        const before = tipToRequest(tip);
+        await recordTipRevision(tip.id, before, diffTipFields(before, publishRequest), undefined, saveRevision);
+      } catch (error) {
+        failed.push({ id: tip.id, error: error instanceof Error ? error.message : "Failed to publish tip" });
+      }
+    }
+
+    return NextResponse.json({ dryRun: false, due: due.map((tip) => tip.id), published, failed });
+  } catch (error) {
+    console.error("Error publishing due tips:", error);
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { isAuthenticated } from "@/lib/auth";
+import { authorizeRequest } from "@/lib/session";
 import { validateTipData } from "@/lib/api-tips";
+import { validateTipPrices, withCalculatedTargetPercentage } from "@/lib/tip-prices";
+import { validateTipSchedule } from "@/lib/tip-publishing";
 
 // Validation schema for creating a tip
 const createTipSchema = z.object({
@@ -15,12 +17,15 @@ const createTipSchema = z.object({
     })
   ).min(1, "At least one content item is required"),
   description: z.string().min(1, "Description is required"),
-  status: z.enum(["Active", "Closed"]).optional(),
+  status: z.enum(["Active", "Closed", "Draft", "Scheduled"]).optional(),
+  publishAt: z.string().optional(),
   action: z.string().optional(),
   buyRange: z.string().optional(),
   targetPrice: z.string().optional(),
   targetPercentage: z.string().optional(),
   addMoreAt: z.string().optional(),
+  stopLoss: z.string().optional(),
+  mpWeightage: z.string().optional(),
   tipUrl: z.string().url("Must be a valid URL").optional().or(z.literal("")),
   exitPrice: z.string().optional(),
   exitStatus: z.string().optional(),
@@ -33,14 +38,22 @@ const createTipSchema = z.object({
       url: z.string().url("Must be a valid URL"),
     })
   ).optional(),
+}).superRefine((data, ctx) => {
+  // Reject unparseable prices and setups that contradict the action
+  validateTipPrices(data).forEach((issue) => {
+    ctx.addIssue({ code: "custom", path: [issue.field], message: issue.message });
+  });
+  const scheduleError = validateTipSchedule(data);
+  if (scheduleError) {
+    ctx.addIssue({ code: "custom", path: ["publishAt"], message: scheduleError });
+  }
 });
 
 export async function POST(req: NextRequest) {
   try {
-    // Check authentication
-    if (!isAuthenticated()) {
-      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest("tips:manage");
+    if (session instanceof NextResponse) return session;
 
     // Parse and validate request body
     const body = await req.json();
@@ -88,7 +101,7 @@ export async function POST(req: NextRequest) {
 
     // Set default values
     const processedTipData = {
-      ...tipData,
+      ...withCalculatedTargetPercentage(tipData),
       status: tipData.status || "Active",
       horizon: tipData.horizon?.trim() || "Long Term",
       // Handle both spellings of the confidence field
@@ -114,10 +127,9 @@ export async function POST(req: NextRequest) {
 
 export async function GET(req: NextRequest) {
   try {
-    // Check authentication
-    if (!isAuthenticated()) {
-      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
-    }
+    // Check the session and the admin's role
+    const session = await authorizeRequest("tips:view");
+    if (session instanceof NextResponse) return session;
 
     // TODO: Fetch tips from database
     // For now, return empty array
@@ -0,0 +1,322 @@
+// app/dashboard/audit-log/page.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Search, Eye, Download, RefreshCw } from "lucide-react";
+import { fetchAuditLogs, type AuditLogEntry, type AuditLogFilters, type AuditOutcome } from "@/lib/audit-log";
+import { downloadAuditLogs } from "@/lib/download-utils";
+
+const PAGE_SIZE = 25;
+
+// Exports take every matching entry up to this many
+const EXPORT_LIMIT = 5000;
+
+const ENTITY_TYPES = [
+  "users",
+  "subscriptions",
+  "configs",
+  "coupons",
+  "tips",
+  "portfolios",
+  "bundles",
+  "stock-symbols",
+  "faqs",
+  "notify",
+  "telegram",
+];
+
+const formatActor = (entry: AuditLogEntry) =>
+  entry.actor?.email || entry.actor?.username || entry.actor?.id || "Unknown";
+
+const formatPayload = (value: unknown) =>
+  value === undefined || value === null ? "—" : JSON.stringify(value, null, 2);
+
+export default function AuditLogPage() {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [entityFilter, setEntityFilter] = useState("");
+  const [outcomeFilter, setOutcomeFilter] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalLogs, setTotalLogs] = useState(0);
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+  const { toast } = useToast();
+
+  const getFilters = (): AuditLogFilters => ({
+    search: searchTerm || undefined,
+    entityType: entityFilter || undefined,
+    outcome: (outcomeFilter as AuditOutcome) || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  });
+
+  const loadLogs = async () => {
+    try {
+      setLoading(true);
+      const response = await fetchAuditLogs({ ...getFilters(), page: currentPage, limit: PAGE_SIZE });
+      setLogs(response.logs);
+      setTotalPages(response.pagination.totalPages);
+      setTotalLogs(response.pagination.totalLogs);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLogs();
+  }, [currentPage, entityFilter, outcomeFilter, fromDate, toDate]);
+
+  const handleSearch = () => {
+    setCurrentPage(1);
+    loadLogs();
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const response = await fetchAuditLogs({ ...getFilters(), page: 1, limit: EXPORT_LIMIT });
+      downloadAuditLogs(response.logs, "csv");
+      toast({ title: "Download started", description: `Exporting ${response.logs.length} audit log entries as CSV` });
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "No data to download",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">Every change made by an admin, who made it and how it went</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadLogs} disabled={loading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={exporting || totalLogs === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            {exporting ? "Exporting..." : "Export CSV"}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>Search by admin, entity ID or path</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-4">
+            <div className="flex-1 min-w-[220px]">
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search audit log..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <Select
+              value={entityFilter || "all"}
+              onValueChange={(value) => {
+                setEntityFilter(value === "all" ? "" : value);
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="All Entities" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Entities</SelectItem>
+                {ENTITY_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={outcomeFilter || "all"}
+              onValueChange={(value) => {
+                setOutcomeFilter(value === "all" ? "" : value);
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="All Outcomes" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Outcomes</SelectItem>
+                <SelectItem value="success">Success</SelectItem>
+                <SelectItem value="failure">Failure</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={fromDate}
+              onChange={(e) => {
+                setFromDate(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="w-[160px]"
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              value={toDate}
+              onChange={(e) => {
+                setToDate(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="w-[160px]"
+              aria-label="To date"
+            />
+            <Button onClick={handleSearch}>Search</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries ({totalLogs})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading audit log...</div>
+          ) : logs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No audit log entries found</div>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Admin</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead className="text-right">Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.map((entry, index) => (
+                    <TableRow key={entry._id || `${entry.timestamp}-${index}`}>
+                      <TableCell className="whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{formatActor(entry)}</div>
+                        {entry.actor?.role && <div className="text-xs text-muted-foreground">{entry.actor.role}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="capitalize">{entry.action}</div>
+                        <div className="font-mono text-xs text-muted-foreground">
+                          {entry.method} {entry.path}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{entry.entityType}</div>
+                        {entry.entityId && <div className="font-mono text-xs text-muted-foreground">{entry.entityId}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.outcome === "success" ? "default" : "destructive"}>
+                          {entry.outcome}
+                          {entry.status ? ` (${entry.status})` : ""}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => setSelectedEntry(entry)}>
+                          <Eye className="h-4 w-4" />
+                          <span className="sr-only">View details</span>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-2 mt-4">
+              <Button
+                variant="outline"
+                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                disabled={currentPage === 1}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {currentPage} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                disabled={currentPage === totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="capitalize">
+              {selectedEntry?.action} {selectedEntry?.entityType}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedEntry &&
+                `${formatActor(selectedEntry)} · ${new Date(selectedEntry.timestamp).toLocaleString()} · ${selectedEntry.method} ${selectedEntry.path}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEntry?.error && (
+            <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive">{selectedEntry.error}</div>
+          )}
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Before</h3>
+              <pre className="rounded-md bg-muted p-3 text-xs overflow-auto max-h-96">
+                {formatPayload(selectedEntry?.before)}
+              </pre>
+            </div>
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">After</h3>
+              <pre className="rounded-md bg-muted p-3 text-xs overflow-auto max-h-96">
+                {formatPayload(selectedEntry?.after)}
+              </pre>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
+import { TwoFactorSettings } from "@/components/two-factor-settings"
 import { useToast } from "@/hooks/use-toast"
 import { changePassword } from "@/lib/auth"
 
@@ -77,8 +78,8 @@ export default function ChangePasswordPage() {
   return (
     <div className="space-y-6">
       <div>
-        <h1 className="text-3xl font-bold">Change Password</h1>
-        <p className="text-muted-foreground">Update your admin account password</p>
+        <h1 className="text-3xl font-bold">Account Security</h1>
+        <p className="text-muted-foreground">Update your admin account password and two-factor authentication</p>
       </div>
 
       <Card className="max-w-md">
@@ -126,6 +127,8 @@ export default function ChangePasswordPage() {
           </CardFooter>
         </form>
       </Card>
+
+      <TwoFactorSettings />
     </div>
   )
 }
@@ -9,9 +9,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { CouponFormDialog } from "@/components/coupon-form-dialog";
 import { DeleteConfirmationDialog } from "@/components/delete-confirmation-dialog";
-import { Plus, Search, Edit, Trash2, Eye, Percent, IndianRupee, Download } from "lucide-react";
+import { CouponAnalyticsDialog } from "@/components/coupon-analytics-dialog";
+import { Plus, Search, Edit, Trash2, Eye, Percent, IndianRupee, Download, BarChart3, AlertTriangle } from "lucide-react";
 import {
   fetchCoupons,
   createCoupon,
@@ -21,6 +23,7 @@ import {
   type CreateCouponRequest,
 } from "@/lib/api-coupons";
 import { downloadCoupons } from "@/lib/download-utils";
+import { getCouponAlerts } from "@/lib/coupon-analytics";
 
 export default function CouponsPage() {
   const [coupons, setCoupons] = useState<Coupon[]>([]);
@@ -34,7 +37,11 @@ export default function CouponsPage() {
   const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
   const [deletingCoupon, setDeletingCoupon] = useState<Coupon | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [analyticsCoupon, setAnalyticsCoupon] = useState<Coupon | null>(null);
   const { toast } = useToast();
+  // Analytics are built from subscriptions, which need their own permission
+  const { can } = usePermissions();
+  const canViewAnalytics = can("subscriptions:view");
 
   const loadCoupons = async () => {
     try {
@@ -241,9 +248,33 @@ export default function CouponsPage() {
                         {coupon.usedCount} / {coupon.usageLimit}
                       </TableCell>
                       <TableCell>{formatDate(coupon.validUntil)}</TableCell>
-                      <TableCell>{getStatusBadge(coupon.status)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col items-start gap-1">
+                          {getStatusBadge(coupon.status)}
+                          {getCouponAlerts(coupon).map((alert) => (
+                            <Badge
+                              key={alert.kind}
+                              variant="outline"
+                              className={alert.level === "critical" ? "border-red-500 text-red-600" : "border-amber-500 text-amber-600"}
+                            >
+                              <AlertTriangle className="mr-1 h-3 w-3" />
+                              {alert.message}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
+                          {canViewAnalytics && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setAnalyticsCoupon(coupon)}
+                              title="View analytics"
+                            >
+                              <BarChart3 className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
@@ -308,6 +339,11 @@ export default function CouponsPage() {
         description="Update coupon details and settings"
       />
 
+      <CouponAnalyticsDialog
+        coupon={canViewAnalytics ? analyticsCoupon : null}
+        onOpenChange={(open) => !open && setAnalyticsCoupon(null)}
+      />
+
       <DeleteConfirmationDialog
         open={!!deletingCoupon}
         onOpenChange={(open) => !open && setDeletingCoupon(null)}
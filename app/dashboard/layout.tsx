@@ -5,6 +5,8 @@ import { Toaster } from "@/components/ui/toaster"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { CacheStatus } from "@/components/cache-status"
 import { Logo } from "@/components/logo"
+import { RoutePermissionGate } from "@/components/permission-gate"
+import { IdleTimeoutDialog } from "@/components/idle-timeout-dialog"
 
 export default function DashboardLayout({ children }: { children: ReactNode }) {
   return (
@@ -31,11 +33,12 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
         {/* Content with header offset */}
         <div className="pt-14">
           <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 max-w-[1600px]">
-            {children}
+            <RoutePermissionGate>{children}</RoutePermissionGate>
           </div>
         </div>
       </main>
 
+      <IdleTimeoutDialog />
       <Toaster />
     </div>
   )
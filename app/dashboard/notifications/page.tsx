@@ -21,8 +21,9 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { fetchPortfolios, type Portfolio } from "@/lib/api";
+import { fetchBundles, type Bundle } from "@/lib/api-bundles";
 import { sendNotification } from "@/lib/api-notifications";
-import { fetchWithAuth, API_BASE_URL } from "@/lib/auth";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Mail, Send } from "lucide-react";
 import { useEffect, useState } from "react";
@@ -36,8 +37,8 @@ const formSchema = z.object({
 });
 
 export default function NotificationsPage() {
-  const [portfolios, setPortfolios] = useState<any[]>([]);
-  const [bundles, setBundles] = useState<any[]>([]);
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [bundles, setBundles] = useState<Bundle[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
 
@@ -52,23 +53,18 @@ export default function NotificationsPage() {
 
   useEffect(() => {
     const loadData = async () => {
-      try {
-        const [portfoliosRes, bundlesRes] = await Promise.all([
-          fetchWithAuth(`${API_BASE_URL}/api/portfolios`),
-          fetchWithAuth(`${API_BASE_URL}/api/bundles`)
-        ]);
-        
-        if (portfoliosRes.ok) {
-          const portfoliosData = await portfoliosRes.json();
-          setPortfolios(portfoliosData);
-        }
-        
-        if (bundlesRes.ok) {
-          const bundlesData = await bundlesRes.json();
-          setBundles(bundlesData);
-        }
-      } catch (error) {
-        console.error("Failed to load data:", error);
+      const [portfoliosResult, bundlesResult] = await Promise.allSettled([fetchPortfolios(), fetchBundles()]);
+
+      if (portfoliosResult.status === "fulfilled") {
+        setPortfolios(portfoliosResult.value);
+      } else {
+        console.error("Failed to load portfolios:", portfoliosResult.reason);
+      }
+
+      if (bundlesResult.status === "fulfilled") {
+        setBundles(bundlesResult.value.filter((bundle) => bundle.id));
+      } else {
+        console.error("Failed to load bundles:", bundlesResult.reason);
       }
     };
     loadData();
@@ -148,7 +144,7 @@ export default function NotificationsPage() {
                               📦 Bundles
                             </SelectItem>
                             {bundles.map((bundle) => (
-                              <SelectItem key={bundle._id} value={bundle._id}>
+                              <SelectItem key={bundle.id} value={bundle.id as string}>
                                 {bundle.name}
                               </SelectItem>
                             ))}
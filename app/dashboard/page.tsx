@@ -1,15 +1,107 @@
-// app\dashboard\page.tsx  
+// app\dashboard\page.tsx
 "use client"
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Users, Briefcase, CreditCard, ArrowUpRight, ArrowDownRight, Lightbulb } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Users, Briefcase, CreditCard, ArrowUpRight, ArrowDownRight, Lightbulb, RefreshCw, Download, AlertCircle, Minus } from "lucide-react"
 import { useCache } from "@/components/cache-provider"
-import { useEffect, useState } from "react"
+import { useToast } from "@/hooks/use-toast"
+import { fetchDashboardMetrics, type DashboardMetrics, type MetricCard } from "@/lib/dashboard-metrics"
+import { downloadData } from "@/lib/download-utils"
+import { useCallback, useEffect, useState, type ElementType } from "react"
+
+const revenueChartConfig = {
+  revenue: { label: "Revenue", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig
+
+const usersChartConfig = {
+  count: { label: "New users", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+const tipsChartConfig = {
+  count: { label: "Active tips", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig
+
+const productsChartConfig = {
+  activeSubscriptions: { label: "Active subscriptions", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(value)
+
+const formatRelativeDate = (value: string) => {
+  const days = Math.floor((Date.now() - new Date(value).getTime()) / (24 * 60 * 60 * 1000))
+  if (Number.isNaN(days)) return "Unknown date"
+  if (days <= 0) return "Added today"
+  if (days === 1) return "Added yesterday"
+  return `Added ${days} days ago`
+}
+
+function StatCard({
+  title,
+  icon: Icon,
+  metric,
+  periodDays,
+  isLoading,
+}: {
+  title: string
+  icon: ElementType
+  metric?: MetricCard
+  periodDays: number
+  isLoading: boolean
+}) {
+  const delta = metric?.delta
+  const isUp = !!delta && delta.change > 0
+  const isDown = !!delta && delta.change < 0
+  const DeltaIcon = isUp ? ArrowUpRight : isDown ? ArrowDownRight : Minus
+  const colorClass = isUp ? "text-green-500" : isDown ? "text-red-500" : "text-muted-foreground"
+  const deltaLabel =
+    delta?.changePercent !== null && delta?.changePercent !== undefined
+      ? `${delta.changePercent > 0 ? "+" : ""}${delta.changePercent.toFixed(0)}%`
+      : `+${delta?.current ?? 0}`
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-xl sm:text-2xl font-bold">
+          {isLoading && !metric ? "—" : (metric?.total ?? 0).toLocaleString("en-IN")}
+        </div>
+        <p className="text-xs text-muted-foreground flex items-center">
+          <DeltaIcon className={`mr-1 h-3 w-3 ${colorClass}`} />
+          <span className={`${colorClass} font-medium mr-1`}>{deltaLabel}</span>
+          {delta?.changePercent !== null && delta?.changePercent !== undefined
+            ? `vs previous ${periodDays} days`
+            : `new in last ${periodDays} days`}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+function EmptyChart({ message }: { message: string }) {
+  return (
+    <div className="h-[250px] sm:h-[300px] flex items-center justify-center bg-muted/20 rounded-md">
+      <p className="text-sm text-muted-foreground text-center px-4">{message}</p>
+    </div>
+  )
+}
 
 export default function DashboardPage() {
   const { saveActiveTab, getActiveTab } = useCache()
+  const { toast } = useToast()
   const [activeTab, setActiveTab] = useState("overview")
+  const [metrics, setMetrics] = useState<DashboardMetrics | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
 
   // Load active tab from cache on mount
   useEffect(() => {
@@ -19,18 +111,87 @@ export default function DashboardPage() {
     }
   }, [getActiveTab])
 
+  const loadMetrics = useCallback(async (forceRefresh = false) => {
+    setIsLoading(true)
+    try {
+      const data = await fetchDashboardMetrics({ forceRefresh })
+      setMetrics(data)
+    } catch (error) {
+      console.error("Error loading dashboard metrics:", error)
+      toast({
+        title: "Failed to load dashboard",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadMetrics()
+  }, [loadMetrics])
+
   const handleTabChange = (value: string) => {
     setActiveTab(value)
     saveActiveTab("dashboard", value)
   }
 
+  const handleExportReport = () => {
+    if (!metrics) return
+    try {
+      downloadData(
+        metrics.monthlySummary.map((row) => ({ ...row })),
+        {
+          filename: `dashboard-report-${new Date().toISOString().split("T")[0]}`,
+          customHeaders: {
+            month: "Month",
+            newUsers: "New Users",
+            newSubscriptions: "New Subscriptions",
+            revenue: "Revenue",
+            newTips: "New Tips",
+          },
+        }
+      )
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const periodDays = metrics?.periodDays ?? 30
+
   return (
     <div className="space-y-4 sm:space-y-6">
-      <div className="space-y-2">
-        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Dashboard</h1>
-        <p className="text-sm sm:text-base text-muted-foreground">Welcome to Ranga One Wealth admin dashboard.</p>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="space-y-2">
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Dashboard</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">Welcome to Ranga One Wealth admin dashboard.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {metrics && (
+            <span className="text-xs text-muted-foreground">
+              Updated {new Date(metrics.generatedAt).toLocaleTimeString()}
+            </span>
+          )}
+          <Button variant="outline" size="sm" onClick={() => loadMetrics(true)} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
       </div>
 
+      {metrics && metrics.errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Some data could not be loaded</AlertTitle>
+          <AlertDescription>{metrics.errors.join(" · ")}</AlertDescription>
+        </Alert>
+      )}
+
       <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-4">
         <TabsList className="grid w-full grid-cols-3 sm:w-auto sm:grid-cols-none sm:inline-flex">
           <TabsTrigger value="overview" className="text-xs sm:text-sm">Overview</TabsTrigger>
@@ -40,71 +201,33 @@ export default function DashboardPage() {
         <TabsContent value="overview" className="space-y-4">
           {/* Stats Cards - Mobile: 1 column, SM: 2 columns, LG: 4 columns */}
           <div className="grid gap-3 sm:gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Total Users</CardTitle>
-                <Users className="h-4 w-4 text-muted-foreground" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-xl sm:text-2xl font-bold">1,248</div>
-                <p className="text-xs text-muted-foreground flex items-center">
-                  <ArrowUpRight className="mr-1 h-3 w-3 text-green-500" />
-                  <span className="text-green-500 font-medium">+12%</span> from last month
-                </p>
-              </CardContent>
-            </Card>
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Active Portfolios</CardTitle>
-                <Briefcase className="h-4 w-4 text-muted-foreground" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-xl sm:text-2xl font-bold">24</div>
-                <p className="text-xs text-muted-foreground flex items-center">
-                  <ArrowUpRight className="mr-1 h-3 w-3 text-green-500" />
-                  <span className="text-green-500 font-medium">+3</span> new this month
-                </p>
-              </CardContent>
-            </Card>
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Active Subscriptions</CardTitle>
-                <CreditCard className="h-4 w-4 text-muted-foreground" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-xl sm:text-2xl font-bold">842</div>
-                <p className="text-xs text-muted-foreground flex items-center">
-                  <ArrowDownRight className="mr-1 h-3 w-3 text-red-500" />
-                  <span className="text-red-500 font-medium">-2%</span> from last month
-                </p>
-              </CardContent>
-            </Card>
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Active Tips</CardTitle>
-                <Lightbulb className="h-4 w-4 text-muted-foreground" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-xl sm:text-2xl font-bold">76</div>
-                <p className="text-xs text-muted-foreground flex items-center">
-                  <ArrowUpRight className="mr-1 h-3 w-3 text-green-500" />
-                  <span className="text-green-500 font-medium">+18</span> new this month
-                </p>
-              </CardContent>
-            </Card>
+            <StatCard title="Total Users" icon={Users} metric={metrics?.users} periodDays={periodDays} isLoading={isLoading} />
+            <StatCard title="Portfolios" icon={Briefcase} metric={metrics?.portfolios} periodDays={periodDays} isLoading={isLoading} />
+            <StatCard title="Active Subscriptions" icon={CreditCard} metric={metrics?.activeSubscriptions} periodDays={periodDays} isLoading={isLoading} />
+            <StatCard title="Active Tips" icon={Lightbulb} metric={metrics?.activeTips} periodDays={periodDays} isLoading={isLoading} />
           </div>
-          
+
           {/* Charts Grid - Mobile: stacked, MD: side by side with responsive columns */}
           <div className="grid gap-4 grid-cols-1 lg:grid-cols-7">
             <Card className="lg:col-span-4">
               <CardHeader>
-                <CardTitle className="text-lg sm:text-xl">Portfolio Performance</CardTitle>
-                <CardDescription className="text-sm">Monthly performance of top portfolios</CardDescription>
+                <CardTitle className="text-lg sm:text-xl">Top Products</CardTitle>
+                <CardDescription className="text-sm">Portfolios and bundles by active subscriptions</CardDescription>
               </CardHeader>
               <CardContent className="pl-2">
-                <div className="h-[250px] sm:h-[300px] flex items-center justify-center bg-muted/20 rounded-md">
-                  <p className="text-sm text-muted-foreground text-center px-4">Portfolio performance chart will appear here</p>
-                </div>
+                {metrics && metrics.topProducts.length > 0 ? (
+                  <ChartContainer config={productsChartConfig} className="h-[250px] sm:h-[300px] w-full aspect-auto">
+                    <BarChart data={metrics.topProducts} layout="vertical" margin={{ left: 24 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis type="category" dataKey="productName" width={120} tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="activeSubscriptions" fill="var(--color-activeSubscriptions)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                ) : (
+                  <EmptyChart message={isLoading ? "Loading..." : "No active subscriptions yet"} />
+                )}
               </CardContent>
             </Card>
             <Card className="lg:col-span-3">
@@ -114,47 +237,164 @@ export default function DashboardPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-3 sm:space-y-4">
-                  {[1, 2, 3, 4].map((i) => (
-                    <div key={i} className="flex items-start gap-3 sm:gap-4">
-                      <div className="rounded-full p-1.5 sm:p-2 bg-primary/10 shrink-0">
-                        <Lightbulb className="h-3 w-3 sm:h-4 sm:w-4 text-primary" />
-                      </div>
-                      <div className="space-y-1 min-w-0">
-                        <p className="text-sm font-medium leading-tight">Consider increasing tech exposure</p>
-                        <p className="text-xs text-muted-foreground">Added 2 days ago</p>
+                  {metrics?.recentTips.length ? (
+                    metrics.recentTips.map((tip) => (
+                      <div key={tip.id} className="flex items-start gap-3 sm:gap-4">
+                        <div className="rounded-full p-1.5 sm:p-2 bg-primary/10 shrink-0">
+                          <Lightbulb className="h-3 w-3 sm:h-4 sm:w-4 text-primary" />
+                        </div>
+                        <div className="space-y-1 min-w-0">
+                          <p className="text-sm font-medium leading-tight truncate">{tip.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {tip.stockId} · {tip.category} · {formatRelativeDate(tip.createdAt)}
+                          </p>
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    ))
+                  ) : (
+                    <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No tips yet"}</p>
+                  )}
                 </div>
               </CardContent>
             </Card>
           </div>
         </TabsContent>
         <TabsContent value="analytics" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg sm:text-xl">Analytics</CardTitle>
-              <CardDescription className="text-sm">Detailed analytics will appear here</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="h-[300px] sm:h-[400px] flex items-center justify-center bg-muted/20 rounded-md">
-                <p className="text-sm text-muted-foreground text-center px-4">Analytics content will appear here</p>
-              </div>
-            </CardContent>
-          </Card>
+          <div className="grid gap-4 grid-cols-1 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg sm:text-xl">Revenue by Plan Type</CardTitle>
+                <CardDescription className="text-sm">Subscription revenue excluding cancelled plans</CardDescription>
+              </CardHeader>
+              <CardContent className="pl-2">
+                {metrics && metrics.revenueByPlanType.length > 0 ? (
+                  <ChartContainer config={revenueChartConfig} className="h-[250px] sm:h-[300px] w-full aspect-auto">
+                    <BarChart data={metrics.revenueByPlanType}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="planType" tickLine={false} axisLine={false} />
+                      <YAxis tickFormatter={(value) => formatCurrency(Number(value))} width={80} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                ) : (
+                  <EmptyChart message={isLoading ? "Loading..." : "No subscription revenue yet"} />
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg sm:text-xl">New Users per Week</CardTitle>
+                <CardDescription className="text-sm">Sign-ups over the last 12 weeks</CardDescription>
+              </CardHeader>
+              <CardContent className="pl-2">
+                {metrics ? (
+                  <ChartContainer config={usersChartConfig} className="h-[250px] sm:h-[300px] w-full aspect-auto">
+                    <LineChart data={metrics.newUsersPerWeek}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="weekStart" tickLine={false} axisLine={false} tickFormatter={(value) => String(value).slice(5)} />
+                      <YAxis allowDecimals={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line type="monotone" dataKey="count" stroke="var(--color-count)" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ChartContainer>
+                ) : (
+                  <EmptyChart message={isLoading ? "Loading..." : "No user data"} />
+                )}
+              </CardContent>
+            </Card>
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-lg sm:text-xl">Active Tips by Category</CardTitle>
+                <CardDescription className="text-sm">Open recommendations per subscriber tier</CardDescription>
+              </CardHeader>
+              <CardContent className="pl-2">
+                {metrics && metrics.activeTipsByCategory.length > 0 ? (
+                  <ChartContainer config={tipsChartConfig} className="h-[250px] sm:h-[300px] w-full aspect-auto">
+                    <BarChart data={metrics.activeTipsByCategory}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="category" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                ) : (
+                  <EmptyChart message={isLoading ? "Loading..." : "No active tips"} />
+                )}
+              </CardContent>
+            </Card>
+          </div>
         </TabsContent>
         <TabsContent value="reports" className="space-y-4">
           <Card>
-            <CardHeader>
-              <CardTitle className="text-lg sm:text-xl">Reports</CardTitle>
-              <CardDescription className="text-sm">Generated reports will appear here</CardDescription>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div className="space-y-1.5">
+                <CardTitle className="text-lg sm:text-xl">Monthly Summary</CardTitle>
+                <CardDescription className="text-sm">New users, subscriptions, revenue and tips for the last 6 months</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleExportReport} disabled={!metrics}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
             </CardHeader>
             <CardContent>
-              <div className="h-[300px] sm:h-[400px] flex items-center justify-center bg-muted/20 rounded-md">
-                <p className="text-sm text-muted-foreground text-center px-4">Reports content will appear here</p>
+              <div className="w-full overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Month</TableHead>
+                      <TableHead className="text-right">New Users</TableHead>
+                      <TableHead className="text-right">New Subscriptions</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                      <TableHead className="text-right">New Tips</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {metrics?.monthlySummary.map((row) => (
+                      <TableRow key={row.month}>
+                        <TableCell className="font-medium">{row.month}</TableCell>
+                        <TableCell className="text-right">{row.newUsers}</TableCell>
+                        <TableCell className="text-right">{row.newSubscriptions}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.revenue)}</TableCell>
+                        <TableCell className="text-right">{row.newTips}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
               </div>
             </CardContent>
           </Card>
+          <div className="grid gap-4 grid-cols-1 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg sm:text-xl">Subscriptions by Status</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {metrics?.subscriptionsByStatus.map((row) => (
+                  <div key={row.category} className="flex items-center justify-between text-sm">
+                    <Badge variant="outline" className="capitalize">{row.category}</Badge>
+                    <span className="font-medium">{row.count}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg sm:text-xl">Revenue by Plan Type</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {metrics?.revenueByPlanType.map((row) => (
+                  <div key={row.planType} className="flex items-center justify-between text-sm">
+                    <span className="capitalize">
+                      {row.planType} <span className="text-muted-foreground">({row.subscriptions})</span>
+                    </span>
+                    <span className="font-medium">{formatCurrency(row.revenue)}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
         </TabsContent>
       </Tabs>
     </div>
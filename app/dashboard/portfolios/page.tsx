@@ -4,7 +4,7 @@
 import { useState, useEffect, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Eye, Edit, Trash2, Plus, RefreshCw, LogIn, BarChart3, DollarSign, TrendingUp, Calendar, Filter, Download } from "lucide-react"
+import { Eye, Edit, Trash2, Plus, RefreshCw, LogIn, BarChart3, DollarSign, TrendingUp, Calendar, Filter, Download, Scale } from "lucide-react"
 import { DataTable } from "@/components/ui/data-table"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { Input } from "@/components/ui/input"
@@ -15,6 +15,7 @@ import { useIsMobile } from "@/hooks/use-mobile"
 import { PortfolioFormDialog } from "@/components/portfolio-form-dialog"
 import { PortfolioDetailsDialog } from "@/components/portfolio-details-dialog"
 import { DeleteConfirmationDialog } from "@/components/delete-confirmation-dialog"
+import { PortfolioRebalanceDialog } from "@/components/portfolio-rebalance-dialog"
 import {
   fetchPortfolios,
   deletePortfolio,
@@ -39,6 +40,7 @@ export default function PortfoliosPage() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false)
+  const [isRebalanceDialogOpen, setIsRebalanceDialogOpen] = useState(false)
   const [selectedPortfolio, setSelectedPortfolio] = useState<Portfolio | null>(null)
   const [isUserAuthenticated, setIsUserAuthenticated] = useState(true)
   const [startDate, setStartDate] = useState<string>("")
@@ -231,6 +233,11 @@ export default function PortfoliosPage() {
     setIsEditDialogOpen(true)
   }
 
+  const handleOpenRebalanceDialog = (portfolio: Portfolio) => {
+    setSelectedPortfolio(portfolio)
+    setIsRebalanceDialogOpen(true)
+  }
+
   const handleOpenDeleteDialog = (portfolio: Portfolio) => {
     setSelectedPortfolio(portfolio)
     setIsDeleteDialogOpen(true)
@@ -377,7 +384,7 @@ export default function PortfoliosPage() {
     {
       id: "actions",
       header: "",
-      size: isMobile ? 100 : 120,
+      size: isMobile ? 130 : 160,
       cell: ({ row }) => (
         <TooltipProvider>
           <div className={`flex items-center ${isMobile ? 'gap-1' : 'gap-2'}`}>
@@ -397,6 +404,14 @@ export default function PortfoliosPage() {
               </TooltipTrigger>
               <TooltipContent><p>Edit portfolio settings and holdings</p></TooltipContent>
             </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size={isMobile ? "sm" : "icon"} className={`${isMobile ? 'h-7 w-7 p-0' : ''} hover:bg-green-100 hover:text-green-600`} onClick={() => handleOpenRebalanceDialog(row.original)}>
+                  <Scale className={`${isMobile ? 'h-3 w-3' : 'h-4 w-4'}`} />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent><p>Rebalance holdings to target weights</p></TooltipContent>
+            </Tooltip>
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button variant="ghost" size={isMobile ? "sm" : "icon"} className={`${isMobile ? 'h-7 w-7 p-0' : ''} hover:bg-red-100 hover:text-red-600`} onClick={() => handleOpenDeleteDialog(row.original)}>
@@ -604,6 +619,7 @@ export default function PortfoliosPage() {
             isLoading={isDeleting}
           />
           <PortfolioDetailsDialog open={isDetailsDialogOpen} onOpenChange={setIsDetailsDialogOpen} portfolio={selectedPortfolio} />
+          <PortfolioRebalanceDialog open={isRebalanceDialogOpen} onOpenChange={setIsRebalanceDialogOpen} portfolio={selectedPortfolio} onCompleted={loadPortfolios} />
         </>
       )}
     </div>
@@ -21,9 +21,20 @@ import {
   BarChart3,
   Trash,
   AlertCircle,
+  Activity,
+  CalendarPlus,
+  ShieldCheck,
+  FileUp,
 } from "lucide-react";
-import { fetchPortfolios, Portfolio } from "@/lib/api";
-import { fetchChartData, createChartData, updateChartData, deleteChartData, fetchPortfolioPerformance, cleanupDuplicates, ChartDataResponse, ChartDataPoint, CreateChartDataRequest } from "@/lib/api-chart-data";
+import { fetchPortfolios, updatePortfolio, Portfolio } from "@/lib/api";
+import { fetchChartData, fetchAllChartData, createChartData, updateChartData, deleteChartData, fetchPortfolioPerformance, ChartDataResponse, ChartDataPoint, CreateChartDataRequest } from "@/lib/api-chart-data";
+import { computePortfolioAnalytics, toPortfolioGainFields, PortfolioAnalytics } from "@/lib/portfolio-analytics";
+import { PortfolioAnalyticsCard } from "@/components/portfolio-analytics-card";
+import { DuplicateCleanupDialog } from "@/components/duplicate-cleanup-dialog";
+import { ChartDataBackfillDialog } from "@/components/chart-data-backfill-dialog";
+import { ChartDataQualityDialog } from "@/components/chart-data-quality-dialog";
+import { ChartDataImportDialog } from "@/components/chart-data-import-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 export default function PriceHistoryPage() {
@@ -34,7 +45,11 @@ export default function PriceHistoryPage() {
   const [performanceData, setPerformanceData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingPerformance, setIsLoadingPerformance] = useState(false);
-  const [isCleaningUp, setIsCleaningUp] = useState(false);
+  const [showCleanupDialog, setShowCleanupDialog] = useState(false);
+  const [showBackfillDialog, setShowBackfillDialog] = useState(false);
+  const [showQualityDialog, setShowQualityDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [editingEntry, setEditingEntry] = useState<ChartDataPoint | null>(null);
@@ -48,6 +63,9 @@ export default function PriceHistoryPage() {
   const [calculateStartDate, setCalculateStartDate] = useState<string>("");
   const [calculateEndDate, setCalculateEndDate] = useState<string>("");
   const [calculationResult, setCalculationResult] = useState<any>(null);
+  const [analytics, setAnalytics] = useState<PortfolioAnalytics | null>(null);
+  const [isLoadingAnalytics, setIsLoadingAnalytics] = useState(false);
+  const [isApplyingGains, setIsApplyingGains] = useState(false);
   const [newEntry, setNewEntry] = useState<CreateChartDataRequest>({
     portfolio: "",
     date: new Date().toISOString(),
@@ -185,23 +203,63 @@ export default function PriceHistoryPage() {
     }
   };
 
-  const handleCleanupDuplicates = async () => {
-    setIsCleaningUp(true);
+  const loadAnalytics = async () => {
+    if (!selectedPortfolio || selectedPortfolio === "all") {
+      setAnalytics(null);
+      return;
+    }
+
+    setIsLoadingAnalytics(true);
     try {
-      const result = await cleanupDuplicates();
+      const points = await fetchAllChartData(selectedPortfolio, startDate || undefined, endDate || undefined);
+      const result = computePortfolioAnalytics(points);
+      setAnalytics(result);
+      if (!result) {
+        toast({ title: "Not enough data", description: "At least two price logs are needed for analytics", variant: "destructive" });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to compute analytics",
+        variant: "destructive",
+      });
+      setAnalytics(null);
+    } finally {
+      setIsLoadingAnalytics(false);
+    }
+  };
+
+  const handleApplyGains = async () => {
+    if (!analytics || !selectedPortfolio || selectedPortfolio === "all") return;
+    setIsApplyingGains(true);
+    try {
+      // The card may reflect the date filter; stored gains always cover the
+      // whole series, from inception to the latest price log
+      const fullAnalytics = computePortfolioAnalytics(await fetchAllChartData(selectedPortfolio));
+      const fields = fullAnalytics ? toPortfolioGainFields(fullAnalytics) : {};
+      if (Object.keys(fields).length === 0) {
+        toast({
+          title: "Nothing to update",
+          description: "The price logs do not cover a month yet, so no gains were saved.",
+        });
+        return;
+      }
+      await updatePortfolio(selectedPortfolio, fields);
+      setPortfolios(prev => prev.map(p => (p.id || p._id) === selectedPortfolio ? { ...p, ...fields } : p));
       toast({
         title: "Success",
-        description: `Cleanup completed. ${result.deletedCount || 0} duplicates removed.`,
+        description: fields.CAGRSinceInception
+          ? `Portfolio gains updated (CAGR ${fields.CAGRSinceInception}%)`
+          : "Portfolio gains updated. CAGR was left unchanged because the price logs cover less than a year.",
       });
-      loadChartData();
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to cleanup duplicate entries",
+        description: error instanceof Error ? error.message : "Failed to update portfolio gains",
         variant: "destructive",
       });
     } finally {
-      setIsCleaningUp(false);
+      setIsApplyingGains(false);
     }
   };
 
@@ -260,6 +318,7 @@ export default function PriceHistoryPage() {
       setCurrentPage(1);
       loadChartData(1);
       loadPortfolioPerformance();
+      setAnalytics(null);
       if (selectedPortfolio) {
         setNewEntry(prev => ({ ...prev, portfolio: selectedPortfolio }));
       }
@@ -312,7 +371,7 @@ export default function PriceHistoryPage() {
             Manage portfolio price logs and performance data
           </p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
           <Button 
             onClick={loadPortfolioPerformance}
             disabled={isLoadingPerformance || !selectedPortfolio || selectedPortfolio === "all"}
@@ -323,14 +382,76 @@ export default function PriceHistoryPage() {
             Performance
           </Button>
           <Button 
-            onClick={handleCleanupDuplicates}
-            disabled={isCleaningUp}
+            onClick={loadAnalytics}
+            disabled={isLoadingAnalytics || !selectedPortfolio || selectedPortfolio === "all"}
+            variant="outline"
+            className="w-full sm:w-auto"
+          >
+            <Activity className={`mr-2 h-4 w-4 ${isLoadingAnalytics ? "animate-spin" : ""}`} />
+            Analytics
+          </Button>
+          <Button 
+            onClick={() => setShowCleanupDialog(true)}
             variant="outline"
             className="w-full sm:w-auto"
           >
-            <Trash className={`mr-2 h-4 w-4 ${isCleaningUp ? "animate-spin" : ""}`} />
+            <Trash className="mr-2 h-4 w-4" />
             Cleanup
           </Button>
+          <DuplicateCleanupDialog
+            open={showCleanupDialog}
+            onOpenChange={setShowCleanupDialog}
+            portfolioId={selectedPortfolio}
+            portfolioNames={Object.fromEntries(portfolios.map(p => [p.id || p._id, p.name]))}
+            onCompleted={() => loadChartData()}
+          />
+          <Button 
+            onClick={() => setShowBackfillDialog(true)}
+            disabled={!selectedPortfolio || selectedPortfolio === "all"}
+            variant="outline"
+            className="w-full sm:w-auto"
+          >
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Backfill
+          </Button>
+          <ChartDataBackfillDialog
+            open={showBackfillDialog}
+            onOpenChange={setShowBackfillDialog}
+            portfolio={portfolios.find(p => (p.id || p._id) === selectedPortfolio)}
+            defaultStartDate={startDate || undefined}
+            defaultEndDate={endDate || undefined}
+            onCompleted={() => loadChartData()}
+          />
+          <Button 
+            onClick={() => setShowQualityDialog(true)}
+            disabled={!selectedPortfolio || selectedPortfolio === "all"}
+            variant="outline"
+            className="w-full sm:w-auto"
+          >
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Validate
+          </Button>
+          <ChartDataQualityDialog
+            open={showQualityDialog}
+            onOpenChange={setShowQualityDialog}
+            portfolio={portfolios.find(p => (p.id || p._id) === selectedPortfolio)}
+            onCompleted={() => loadChartData()}
+          />
+          <Button 
+            onClick={() => setShowImportDialog(true)}
+            disabled={!selectedPortfolio || selectedPortfolio === "all"}
+            variant="outline"
+            className="w-full sm:w-auto"
+          >
+            <FileUp className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <ChartDataImportDialog
+            open={showImportDialog}
+            onOpenChange={setShowImportDialog}
+            portfolio={portfolios.find(p => (p.id || p._id) === selectedPortfolio)}
+            onCompleted={() => loadChartData()}
+          />
           <Button 
             onClick={() => setShowCalculateDialog(true)}
             variant="outline"
@@ -615,6 +736,15 @@ export default function PriceHistoryPage() {
         </Card>
       )}
 
+      {analytics && (
+        <PortfolioAnalyticsCard
+          analytics={analytics}
+          portfolioName={portfolios.find(p => (p.id || p._id) === selectedPortfolio)?.name}
+          onApplyGains={handleApplyGains}
+          isApplying={isApplyingGains}
+        />
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -641,7 +771,17 @@ export default function PriceHistoryPage() {
                 <div className="text-sm text-muted-foreground">
                   Showing {chartData.data.length} of {chartData.total} entries (Page {chartData.pagination?.page || 1} of {chartData.pagination?.totalPages || 1})
                 </div>
-                <div className="flex gap-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-2 mr-2">
+                    <Checkbox
+                      id="flagged-only"
+                      checked={flaggedOnly}
+                      onCheckedChange={(checked) => setFlaggedOnly(checked === true)}
+                    />
+                    <label htmlFor="flagged-only" className="text-sm">
+                      Flagged only ({chartData.data.filter(p => p.dataQualityIssues?.length).length})
+                    </label>
+                  </div>
                   <Badge variant="outline">Total: {chartData.total}</Badge>
                   <Badge variant="secondary">Page: {currentPage}</Badge>
                 </div>
@@ -661,10 +801,19 @@ export default function PriceHistoryPage() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {chartData.data.map((point) => (
+                    {chartData.data.filter(p => !flaggedOnly || p.dataQualityIssues?.length).map((point) => (
                       <TableRow key={point._id || `${point.portfolio}-${point.dateOnly}`}>
                         <TableCell>
                           <div className="font-medium text-sm">{point.dateOnly.split('T')[0]}</div>
+                          {point.dataQualityIssues?.length > 0 && (
+                            <Badge
+                              variant="destructive"
+                              className="mt-1 text-[10px]"
+                              title={point.dataQualityIssues.join("\n")}
+                            >
+                              {point.dataQualityIssues.length} issue{point.dataQualityIssues.length > 1 ? 's' : ''}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="font-medium text-blue-600">
@@ -0,0 +1,277 @@
+// app/dashboard/sessions/page.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ConfirmDialog } from "@/components/confirm-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { LogOut, MonitorSmartphone, RefreshCw, UserX } from "lucide-react";
+import {
+  describeDevice,
+  fetchAllAdminSessions,
+  fetchMySessions,
+  forceLogoutAdmin,
+  revokeOtherSessions,
+  revokeSession,
+  type AdminSessionInfo,
+} from "@/lib/api-admin-sessions";
+import { getRoleLabel, normalizeRole } from "@/lib/permissions";
+
+type PendingAction =
+  | { type: "revoke"; session: AdminSessionInfo }
+  | { type: "revoke-others" }
+  | { type: "force-logout"; adminId: string; adminName: string };
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString() : "—");
+
+const formatAdmin = (session: AdminSessionInfo) =>
+  session.admin?.email || session.admin?.username || session.admin?.id || "Unknown admin";
+
+function SessionDetails({ session }: { session: AdminSessionInfo }) {
+  return (
+    <>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{describeDevice(session)}</span>
+          {session.current && <Badge>This device</Badge>}
+        </div>
+      </TableCell>
+      <TableCell>
+        <div className="font-mono text-xs">{session.ip || "—"}</div>
+        {session.location && <div className="text-xs text-muted-foreground">{session.location}</div>}
+      </TableCell>
+      <TableCell className="whitespace-nowrap">{formatDateTime(session.lastActiveAt)}</TableCell>
+      <TableCell className="whitespace-nowrap">{formatDateTime(session.createdAt)}</TableCell>
+    </>
+  );
+}
+
+export default function SessionsPage() {
+  const [sessions, setSessions] = useState<AdminSessionInfo[]>([]);
+  const [allSessions, setAllSessions] = useState<AdminSessionInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const { toast } = useToast();
+  const { can, loading: permissionsLoading } = usePermissions();
+  const canManageSessions = can("sessions:manage");
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      const [mine, everyone] = await Promise.all([
+        fetchMySessions(),
+        canManageSessions ? fetchAllAdminSessions() : Promise.resolve([]),
+      ]);
+      setSessions(mine);
+      setAllSessions(everyone);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load sessions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (permissionsLoading) return;
+    loadSessions();
+  }, [permissionsLoading, canManageSessions]);
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+    try {
+      if (pendingAction.type === "revoke") {
+        await revokeSession(pendingAction.session.id);
+        toast({ title: "Session revoked", description: `${describeDevice(pendingAction.session)} has been logged out` });
+      } else if (pendingAction.type === "revoke-others") {
+        await revokeOtherSessions();
+        toast({ title: "Other sessions logged out", description: "Only this device is still signed in" });
+      } else {
+        await forceLogoutAdmin(pendingAction.adminId);
+        toast({ title: "Admin logged out", description: `Every session of ${pendingAction.adminName} has been revoked` });
+      }
+      loadSessions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke session",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  // Other admins' sessions, grouped so they can be logged out together
+  const otherAdmins = Array.from(
+    allSessions
+      .filter((session) => session.admin?.id && !sessions.some((own) => own.id === session.id))
+      .reduce((groups, session) => {
+        const adminId = session.admin!.id!;
+        groups.set(adminId, [...(groups.get(adminId) || []), session]);
+        return groups;
+      }, new Map<string, AdminSessionInfo[]>())
+  );
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Active Sessions</h1>
+          <p className="text-muted-foreground">Devices signed in to the admin panel</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadSessions} disabled={loading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setPendingAction({ type: "revoke-others" })}
+            disabled={!hasOtherSessions}
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            Log Out Other Sessions
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5" />
+            Your Sessions ({sessions.length})
+          </CardTitle>
+          <CardDescription>A revoked device is logged out the next time it renews its session</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading sessions...</div>
+          ) : sessions.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No active sessions found</div>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Device</TableHead>
+                    <TableHead>IP Address</TableHead>
+                    <TableHead>Last Activity</TableHead>
+                    <TableHead>Signed In</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map((session) => (
+                    <TableRow key={session.id}>
+                      <SessionDetails session={session} />
+                      <TableCell className="text-right">
+                        {!session.current && (
+                          <Button variant="ghost" size="sm" onClick={() => setPendingAction({ type: "revoke", session })}>
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManageSessions && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Other Admins</CardTitle>
+            <CardDescription>Force logout revokes every session of that admin</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {loading ? (
+              <div className="text-center py-8">Loading sessions...</div>
+            ) : otherAdmins.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No other admins are signed in</div>
+            ) : (
+              otherAdmins.map(([adminId, adminSessions]) => {
+                const adminName = formatAdmin(adminSessions[0]);
+                return (
+                  <div key={adminId} className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <div className="font-medium">{adminName}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {getRoleLabel(normalizeRole(adminSessions[0].admin?.role))} · {adminSessions.length} session
+                          {adminSessions.length === 1 ? "" : "s"}
+                        </div>
+                      </div>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => setPendingAction({ type: "force-logout", adminId, adminName })}
+                      >
+                        <UserX className="mr-2 h-4 w-4" />
+                        Force Logout
+                      </Button>
+                    </div>
+                    <div className="rounded-md border overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Device</TableHead>
+                            <TableHead>IP Address</TableHead>
+                            <TableHead>Last Activity</TableHead>
+                            <TableHead>Signed In</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {adminSessions.map((session) => (
+                            <TableRow key={session.id}>
+                              <SessionDetails session={session} />
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <ConfirmDialog
+        open={!!pendingAction}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+        onConfirm={handleConfirm}
+        title={
+          pendingAction?.type === "force-logout"
+            ? "Force logout admin"
+            : pendingAction?.type === "revoke-others"
+              ? "Log out other sessions"
+              : "Revoke session"
+        }
+        description={
+          pendingAction?.type === "force-logout"
+            ? `${pendingAction.adminName} will be logged out on every device.`
+            : pendingAction?.type === "revoke-others"
+              ? "Every device except this one will be logged out."
+              : pendingAction?.type === "revoke"
+                ? `${describeDevice(pendingAction.session)} will be logged out.`
+                : ""
+        }
+        confirmText={pendingAction?.type === "force-logout" ? "Force Logout" : "Log Out"}
+      />
+    </div>
+  );
+}
@@ -2,8 +2,10 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { usePermissions } from "@/hooks/use-permissions"
 import { useToast } from "@/hooks/use-toast"
-import { PlusCircle, Pencil, Trash2, RefreshCw, Mail, Upload, MoreHorizontal, Filter } from "lucide-react"
+import { PlusCircle, Pencil, Trash2, RefreshCw, Mail, Upload, MoreHorizontal, Filter, ShieldCheck } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { fetchConfigs, createConfig, updateConfig, deleteConfig, type Config } from "@/lib/api"
 import { ConfigFormDialog } from "@/components/config-form-dialog"
@@ -32,6 +34,9 @@ export default function SettingsPage() {
   const [categoryFilter, setCategoryFilter] = useState<string>("all")
   const [activeTab, setActiveTab] = useState("configurations")
   const { toast } = useToast()
+  const { can, loading: permissionsLoading } = usePermissions()
+  const canViewConfigs = can("config:view")
+  const canEditConfigs = can("config:edit")
 
   const loadConfigs = useCallback(async () => {
     setIsLoading(true)
@@ -52,8 +57,9 @@ export default function SettingsPage() {
   }, [toast])
 
   useEffect(() => {
+    if (permissionsLoading || !canViewConfigs) return
     loadConfigs()
-  }, [loadConfigs])
+  }, [loadConfigs, permissionsLoading, canViewConfigs])
 
   // Filter configs when category filter changes
   useEffect(() => {
@@ -231,6 +237,8 @@ export default function SettingsPage() {
       cell: ({ row }) => {
         const config = row.original
 
+        if (!canEditConfigs) return null
+
         return (
           <div className="flex items-center justify-end space-x-2">
             <DropdownMenu>
@@ -274,9 +282,10 @@ export default function SettingsPage() {
         </div>
       </div>
 
-      <Tabs value={activeTab} onValueChange={setActiveTab}>
+      {/* Admins without config access only get their account settings */}
+      <Tabs value={canViewConfigs ? activeTab : "account"} onValueChange={setActiveTab}>
         <TabsList className="grid w-full grid-cols-2 md:w-auto md:inline-flex">
-          <TabsTrigger value="configurations">Configurations</TabsTrigger>
+          <TabsTrigger value="configurations" disabled={!canViewConfigs}>Configurations</TabsTrigger>
           <TabsTrigger value="account">Account Settings</TabsTrigger>
         </TabsList>
 
@@ -287,31 +296,35 @@ export default function SettingsPage() {
               <p className="text-sm text-muted-foreground">Manage system configuration settings</p>
             </div>
             <div className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:gap-2">
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button variant="outline" size="sm" className="w-full sm:w-auto">Actions</Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end">
-                  <DropdownMenuItem onClick={() => setBulkUpdateDialogOpen(true)}>
-                    <Upload className="mr-2 h-4 w-4" />
-                    Bulk Update
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setSmtpTestDialogOpen(true)}>
-                    <Mail className="mr-2 h-4 w-4" />
-                    Test SMTP
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
+              {canEditConfigs && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="w-full sm:w-auto">Actions</Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setBulkUpdateDialogOpen(true)}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Bulk Update
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setSmtpTestDialogOpen(true)}>
+                      <Mail className="mr-2 h-4 w-4" />
+                      Test SMTP
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
               <Button onClick={() => loadConfigs()} variant="outline" size="sm" className="w-full sm:w-auto">
                 <RefreshCw className="mr-2 h-4 w-4" />
                 <span className="hidden xs:inline">Refresh</span>
                 <span className="xs:hidden">Refresh</span>
               </Button>
-              <Button onClick={() => setCreateDialogOpen(true)} size="sm" className="w-full sm:w-auto">
-                <PlusCircle className="mr-2 h-4 w-4" />
-                <span className="hidden xs:inline">Add Config</span>
-                <span className="xs:hidden">Add</span>
-              </Button>
+              {canEditConfigs && (
+                <Button onClick={() => setCreateDialogOpen(true)} size="sm" className="w-full sm:w-auto">
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  <span className="hidden xs:inline">Add Config</span>
+                  <span className="xs:hidden">Add</span>
+                </Button>
+              )}
             </div>
           </div>
 
@@ -361,8 +374,14 @@ export default function SettingsPage() {
               <CardTitle>Account Settings</CardTitle>
               <CardDescription>Manage your account settings and preferences</CardDescription>
             </CardHeader>
-            <CardContent>
-              <p>Account settings content will be implemented here.</p>
+            <CardContent className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+              <p className="text-sm text-muted-foreground">Change your password and set up two-factor authentication.</p>
+              <Button asChild variant="outline" size="sm">
+                <Link href="/dashboard/change-password">
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  Account Security
+                </Link>
+              </Button>
             </CardContent>
           </Card>
         </TabsContent>
@@ -17,6 +17,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useToast } from "@/hooks/use-toast";
 import {
   fetchAdminSubscriptions,
@@ -61,6 +62,7 @@ export default function SubscriptionsPage() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isProcessingExpired, setIsProcessingExpired] = useState(false);
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const loadData = useCallback(async () => {
     setIsLoading(true);
@@ -241,10 +243,12 @@ export default function SubscriptionsPage() {
           </p>
         </div>
         <div className="flex space-x-2">
-          <Button onClick={handleProcessExpired} variant="outline" disabled={isProcessingExpired}>
-            <Clock className="mr-2 h-4 w-4" />
-            Process Expired
-          </Button>
+          {can("subscriptions:manage") && (
+            <Button onClick={handleProcessExpired} variant="outline" disabled={isProcessingExpired}>
+              <Clock className="mr-2 h-4 w-4" />
+              Process Expired
+            </Button>
+          )}
           <Button onClick={downloadCSV} variant="outline" disabled={subscriptions.length === 0}>
             <Download className="mr-2 h-4 w-4" />
             Download CSV
@@ -350,17 +354,19 @@ export default function SubscriptionsPage() {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => {
-                              setSubscriptionToDelete(subscription._id);
-                              setDeleteDialogOpen(true);
-                            }}
-                            disabled={isDeleting}
-                          >
-                            <Trash2 className="h-4 w-4 text-red-500" />
-                          </Button>
+                          {can("subscriptions:manage") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setSubscriptionToDelete(subscription._id);
+                                setDeleteDialogOpen(true);
+                              }}
+                              disabled={isDeleting}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -4,9 +4,15 @@
 import { DeleteConfirmationDialog } from "@/components/delete-confirmation-dialog";
 import { TipFormDialog } from "@/components/tip-form-dialog";
 import { TipDetailsModal } from "@/components/tip-details-modal";
+import { TipScorecardCard } from "@/components/tip-scorecard-card";
+import { TipExitDialog } from "@/components/tip-exit-dialog";
+import { TipExitAlerts } from "@/components/tip-exit-alerts";
+import { TipReviewQueue } from "@/components/tip-review-queue";
+import { TipBulkActionsDialog } from "@/components/tip-bulk-actions-dialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Card,
   CardContent,
@@ -33,6 +39,8 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/co
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useTipExitAlerts } from "@/hooks/use-tip-exit-alerts";
+import { useScheduledTipPublisher } from "@/hooks/use-scheduled-tip-publisher";
 import { fetchPortfolios, Portfolio } from "@/lib/api";
 import {
   createGeneralTip,
@@ -44,6 +52,9 @@ import {
   type Tip,
 } from "@/lib/api-tips";
 import { fetchStockSymbolById, type StockSymbol } from "@/lib/api-stock-symbols";
+import { getTipId, type TipExitAlert } from "@/lib/tip-exit";
+import { isPublishedTip } from "@/lib/tip-publishing";
+import type { TipBulkAction, TipBulkResult } from "@/lib/tip-bulk";
 import type { ColumnDef, Row } from "@tanstack/react-table";
 import {
   AlertCircle,
@@ -61,6 +72,10 @@ import {
   ChevronDown,
   SlidersHorizontal,
   MoreVertical,
+  Target,
+  LogOut,
+  Tags,
+  FolderInput,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
@@ -145,6 +160,21 @@ export default function TipsManagementPage() {
   const [error, setError] = useState<string | null>(null);
   const [filtersOpen, setFiltersOpen] = useState(false);
   const [activeFiltersCount, setActiveFiltersCount] = useState(0);
+  const [showScorecard, setShowScorecard] = useState(false);
+  const [exitDialogOpen, setExitDialogOpen] = useState(false);
+  const [exitTip, setExitTip] = useState<Tip | null>(null);
+  const [exitInitialPrice, setExitInitialPrice] = useState<number | undefined>(undefined);
+  const [selectedTipIds, setSelectedTipIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<TipBulkAction | null>(null);
+  const { alerts: exitAlerts, dismissAlert, resolveAlert } = useTipExitAlerts(allTips);
+  useScheduledTipPublisher(allTips, (result) => {
+    toast({
+      title: result.failed.length ? "Scheduled publishing finished with errors" : "Scheduled tips published",
+      description: `${result.published.length} of ${result.due.length} due tips are now live.`,
+      variant: result.failed.length ? "destructive" : "default",
+    });
+    loadAllTips();
+  });
 
   const loadPortfolios = async () => {
     try {
@@ -365,6 +395,61 @@ export default function TipsManagementPage() {
     }
   };
 
+  const openExitDialog = (tip: Tip, price?: number) => {
+    setExitTip(tip);
+    setExitInitialPrice(price);
+    setExitDialogOpen(true);
+  };
+
+  const handleTipExited = (tip: Tip) => {
+    resolveAlert(getTipId(tip));
+    loadAllTips();
+  };
+
+  const handleTipRestored = (tip: Tip) => {
+    setSelectedTip(tip);
+    loadAllTips();
+  };
+
+  // Only tips that pass the current filters take part in bulk actions
+  const selectedTips = filteredTips.filter((tip) => selectedTipIds.has(getTipId(tip)));
+  const allFilteredSelected = filteredTips.length > 0 && selectedTips.length === filteredTips.length;
+
+  const toggleTipSelection = (tip: Tip, checked: boolean) => {
+    setSelectedTipIds((current) => {
+      const next = new Set(current);
+      if (checked) next.add(getTipId(tip));
+      else next.delete(getTipId(tip));
+      return next;
+    });
+  };
+
+  const toggleAllFiltered = (checked: boolean) => {
+    setSelectedTipIds(checked ? new Set(filteredTips.map(getTipId)) : new Set());
+  };
+
+  const handleBulkCompleted = (results: TipBulkResult[]) => {
+    const failed = results.filter((result) => result.status === "failed").length;
+    const succeeded = results.filter((result) => result.status === "success").length;
+    toast({
+      title: failed ? "Bulk action finished with errors" : "Success",
+      description: `${succeeded} of ${results.length} tips updated${failed ? `, ${failed} failed` : ""}.`,
+      variant: failed ? "destructive" : "default",
+    });
+    // Keep failed and skipped tips selected so they can be retried
+    setSelectedTipIds(new Set(results.filter((result) => result.status !== "success").map((result) => result.tipId)));
+    loadAllTips();
+  };
+
+  const handleExportSelected = () => {
+    try {
+      downloadTips(selectedTips, 'csv');
+      toast({ title: "Download started", description: `${selectedTips.length} selected tips are being downloaded as CSV` });
+    } catch (error) {
+      toast({ title: "Download failed", description: "No data to download", variant: "destructive" });
+    }
+  };
+
   const openDeleteDialog = (tip: Tip) => {
     setSelectedTip(tip);
     setDeleteDialogOpen(true);
@@ -413,6 +498,10 @@ export default function TipsManagementPage() {
         return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300";
       case "closed":
         return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300";
+      case "draft":
+        return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300";
+      case "scheduled":
+        return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300";
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300";
     }
@@ -457,6 +546,24 @@ export default function TipsManagementPage() {
 
   // Mobile-optimized columns configuration
   const columns: ColumnDef<Tip>[] = [
+    {
+      id: "select",
+      size: 32,
+      header: () => (
+        <Checkbox
+          checked={allFilteredSelected ? true : selectedTips.length > 0 ? "indeterminate" : false}
+          onCheckedChange={(checked) => toggleAllFiltered(checked === true)}
+          aria-label="Select all filtered tips"
+        />
+      ),
+      cell: ({ row }: { row: Row<Tip> }) => (
+        <Checkbox
+          checked={selectedTipIds.has(getTipId(row.original))}
+          onCheckedChange={(checked) => toggleTipSelection(row.original, checked === true)}
+          aria-label="Select tip"
+        />
+      ),
+    },
     {
       accessorKey: "title",
       header: "Title",
@@ -651,6 +758,12 @@ export default function TipsManagementPage() {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-[160px]">
+                {tip.status === "Active" && (
+                  <DropdownMenuItem onClick={() => openExitDialog(tip)}>
+                    <LogOut className="mr-2 h-4 w-4" />
+                    <span>Exit Tip</span>
+                  </DropdownMenuItem>
+                )}
                 {isGeneral ? (
                   <>
                     <DropdownMenuItem onClick={() => openEditDialog(tip.id)}>
@@ -750,6 +863,8 @@ export default function TipsManagementPage() {
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="active">Active</SelectItem>
                 <SelectItem value="closed">Closed</SelectItem>
+                <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="scheduled">Scheduled</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -885,6 +1000,8 @@ export default function TipsManagementPage() {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="active">Active</SelectItem>
                   <SelectItem value="closed">Closed</SelectItem>
+                  <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -994,6 +1111,15 @@ export default function TipsManagementPage() {
                 <Download className="mr-2 h-4 w-4" />
                 Download CSV
               </Button>
+              <Button
+                onClick={() => setShowScorecard(!showScorecard)}
+                variant={showScorecard ? "secondary" : "outline"}
+                size="sm"
+                className="w-full sm:w-auto"
+              >
+                <Target className="mr-2 h-4 w-4" />
+                Scorecard
+              </Button>
               <Button
                 onClick={() => setCreateDialogOpen(true)}
                 size="sm"
@@ -1030,6 +1156,79 @@ export default function TipsManagementPage() {
           </Alert>
         )}
               
+        {/* Review Queue */}
+        <div className="px-4 mb-4 empty:hidden">
+          <TipReviewQueue
+            tips={allTips}
+            getPortfolioName={getPortfolioName}
+            onEdit={(tip) =>
+              canEditTip(tip) ? openEditDialog(getTipId(tip)) : router.push(`/dashboard/portfolios/${tip.portfolio}/tips`)
+            }
+            onChanged={loadAllTips}
+          />
+        </div>
+
+        {/* Exit Alerts */}
+        {exitAlerts.length > 0 && (
+          <div className="px-4 mb-4">
+            <TipExitAlerts
+              alerts={exitAlerts}
+              onDismiss={dismissAlert}
+              onReview={(alert: TipExitAlert) => openExitDialog(alert.tip, alert.price)}
+              onClosed={(tipId) => {
+                resolveAlert(tipId);
+                loadAllTips();
+              }}
+            />
+          </div>
+        )}
+
+        {/* Tip Scorecard */}
+        {showScorecard && (
+          <div className="px-4 mb-4">
+            <TipScorecardCard tips={filteredTips.filter(isPublishedTip)} getPortfolioName={getPortfolioName} />
+          </div>
+        )}
+
+        {/* Bulk Actions */}
+        {selectedTips.length > 0 && (
+          <div className="px-4 mb-4">
+            <Card>
+              <CardContent className="flex flex-col sm:flex-row sm:items-center gap-2 p-3">
+                <span className="text-sm font-medium sm:mr-auto">
+                  {selectedTips.length} tip{selectedTips.length > 1 ? 's' : ''} selected
+                </span>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setBulkAction("close")}>
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Close
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setBulkAction("category")}>
+                    <Tags className="mr-2 h-4 w-4" />
+                    Category
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setBulkAction("move")}>
+                    <FolderInput className="mr-2 h-4 w-4" />
+                    Move
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleExportSelected}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => setBulkAction("delete")}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedTipIds(new Set())}>
+                    <X className="mr-2 h-4 w-4" />
+                    Clear
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {/* Tips Table */}
         <div className="px-4">
           <Card>
@@ -1053,6 +1252,23 @@ export default function TipsManagementPage() {
         description="Add a new general investment tip visible to all users"
       />
 
+      <TipExitDialog
+        open={exitDialogOpen}
+        onOpenChange={setExitDialogOpen}
+        tip={exitTip}
+        initialPrice={exitInitialPrice}
+        onCompleted={handleTipExited}
+      />
+
+      <TipBulkActionsDialog
+        open={bulkAction !== null}
+        onOpenChange={(open) => !open && setBulkAction(null)}
+        action={bulkAction}
+        tips={selectedTips}
+        portfolios={portfolios}
+        onCompleted={handleBulkCompleted}
+      />
+
       {selectedTip && (
         <>
           <TipFormDialog
@@ -1079,6 +1295,7 @@ export default function TipsManagementPage() {
             open={viewModalOpen}
             onOpenChange={setViewModalOpen}
             tip={selectedTip}
+            onTipRestored={handleTipRestored}
           />
         </>
       )}
@@ -44,6 +44,7 @@ import { useCache } from "@/components/cache-provider";
 import { CACHE_KEYS } from "@/lib/cache";
 import { useScrollRestoration } from "@/hooks/use-scroll-restoration";
 import { downloadUsers } from "@/lib/download-utils";
+import { usePermissions } from "@/hooks/use-permissions";
 
 interface UsersPageState {
   searchQuery: string;
@@ -55,6 +56,7 @@ interface UsersPageState {
 
 export default function UsersPage() {
   const [users, setUsers] = useState<User[]>([]);
+  const { can } = usePermissions();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -387,68 +389,74 @@ export default function UsersPage() {
 
         return (
           <div className="flex items-center justify-end gap-1">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => {
-                setUserToEdit(user);
-                setIsEditDialogOpen(true);
-              }}
-              className="h-8 w-8 p-0"
-              title="Edit User"
-            >
-              <Edit className="h-3 w-3 sm:h-4 sm:w-4" />
-              <span className="sr-only">Edit</span>
-            </Button>
-
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => {
-                setUserToUpdatePAN(user);
-                setIsPanDialogOpen(true);
-              }}
-              className="h-8 w-8 p-0"
-              title="Update PAN"
-            >
-              <CreditCard className="h-3 w-3 sm:h-4 sm:w-4" />
-              <span className="sr-only">Update PAN</span>
-            </Button>
+            {can("users:manage") && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setUserToEdit(user);
+                    setIsEditDialogOpen(true);
+                  }}
+                  className="h-8 w-8 p-0"
+                  title="Edit User"
+                >
+                  <Edit className="h-3 w-3 sm:h-4 sm:w-4" />
+                  <span className="sr-only">Edit</span>
+                </Button>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setUserToUpdatePAN(user);
+                    setIsPanDialogOpen(true);
+                  }}
+                  className="h-8 w-8 p-0"
+                  title="Update PAN"
+                >
+                  <CreditCard className="h-3 w-3 sm:h-4 sm:w-4" />
+                  <span className="sr-only">Update PAN</span>
+                </Button>
+
+                {(user.isBanned || user.banInfo) ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setUserToUnban(user)}
+                    className="h-8 w-8 p-0"
+                    title="Unban User"
+                  >
+                    <UserCheck className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span className="sr-only">Unban</span>
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setUserToBan(user)}
+                    className="h-8 w-8 p-0"
+                    title="Ban User"
+                  >
+                    <Ban className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span className="sr-only">Ban</span>
+                  </Button>
+                )}
+              </>
+            )}
 
-            {(user.isBanned || user.banInfo) ? (
+            {can("users:delete") && (
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => setUserToUnban(user)}
-                className="h-8 w-8 p-0"
-                title="Unban User"
+                onClick={() => setUserToDelete(user)}
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                title="Delete User"
               >
-                <UserCheck className="h-3 w-3 sm:h-4 sm:w-4" />
-                <span className="sr-only">Unban</span>
-              </Button>
-            ) : (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setUserToBan(user)}
-                className="h-8 w-8 p-0"
-                title="Ban User"
-              >
-                <Ban className="h-3 w-3 sm:h-4 sm:w-4" />
-                <span className="sr-only">Ban</span>
+                <Trash2 className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="sr-only">Delete</span>
               </Button>
             )}
-
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setUserToDelete(user)}
-              className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-              title="Delete User"
-            >
-              <Trash2 className="h-3 w-3 sm:h-4 sm:w-4" />
-              <span className="sr-only">Delete</span>
-            </Button>
           </div>
         );
       },
@@ -468,38 +476,42 @@ export default function UsersPage() {
           </p>
         </div>
         <div className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row sm:items-center sm:gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={async () => {
-              try {
-                await deleteUserLogs();
-                toast({ title: "User logs deleted successfully" });
-              } catch (error) {
-                toast({ title: "Failed to delete user logs", variant: "destructive" });
-              }
-            }}
-            className="w-full sm:w-auto"
-          >
-            <FileX className="h-4 w-4 mr-2" />
-            Clear User Logs
-          </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={async () => {
-              try {
-                await deleteServerLogs();
-                toast({ title: "Server logs deleted successfully" });
-              } catch (error) {
-                toast({ title: "Failed to delete server logs", variant: "destructive" });
-              }
-            }}
-            className="w-full sm:w-auto"
-          >
-            <Server className="h-4 w-4 mr-2" />
-            Clear Server Logs
-          </Button>
+          {can("logs:delete") && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={async () => {
+                  try {
+                    await deleteUserLogs();
+                    toast({ title: "User logs deleted successfully" });
+                  } catch (error) {
+                    toast({ title: "Failed to delete user logs", variant: "destructive" });
+                  }
+                }}
+                className="w-full sm:w-auto"
+              >
+                <FileX className="h-4 w-4 mr-2" />
+                Clear User Logs
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={async () => {
+                  try {
+                    await deleteServerLogs();
+                    toast({ title: "Server logs deleted successfully" });
+                  } catch (error) {
+                    toast({ title: "Failed to delete server logs", variant: "destructive" });
+                  }
+                }}
+                className="w-full sm:w-auto"
+              >
+                <Server className="h-4 w-4 mr-2" />
+                Clear Server Logs
+              </Button>
+            </>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -532,10 +544,12 @@ export default function UsersPage() {
             />
             {loading ? "Refreshing..." : "Refresh"}
           </Button>
-          <Button size="sm" onClick={() => setIsCreateDialogOpen(true)} className="w-full sm:w-auto">
-            <UserPlus className="h-4 w-4 mr-2" />
-            Add User
-          </Button>
+          {can("users:manage") && (
+            <Button size="sm" onClick={() => setIsCreateDialogOpen(true)} className="w-full sm:w-auto">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add User
+            </Button>
+          )}
         </div>
       </div>
 
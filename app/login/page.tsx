@@ -9,13 +9,19 @@ import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
-import { loginAdmin, isAuthenticated } from "@/lib/auth"
+import { loginAdmin, isAuthenticated, verifyTwoFactorLogin, type LoginResult } from "@/lib/auth"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { TotpCodeInput } from "@/components/two-factor-settings"
+import { LOGOUT_REASON_KEY } from "@/hooks/use-idle-timeout"
 
 export default function LoginPage() {
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [isLoading, setIsLoading] = useState(false)
+  // Set once the password is accepted and a two-factor code is needed
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false)
+  const [twoFactorCode, setTwoFactorCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
   const router = useRouter()
   const { toast } = useToast()
 
@@ -23,20 +29,43 @@ export default function LoginPage() {
   useEffect(() => {
     if (isAuthenticated()) {
       router.push("/dashboard")
+      return
     }
-  }, [router])
+
+    // Explain an automatic logout once
+    if (sessionStorage.getItem(LOGOUT_REASON_KEY) === "idle") {
+      sessionStorage.removeItem(LOGOUT_REASON_KEY)
+      toast({
+        title: "Logged out for inactivity",
+        description: "Please login again to continue",
+      })
+    }
+  }, [router, toast])
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
 
     try {
-      const result = await loginAdmin(email, password)
+      const result: LoginResult = needsTwoFactor
+        ? await verifyTwoFactorLogin(twoFactorCode, useRecoveryCode)
+        : await loginAdmin(email, password)
+
+      // An expired challenge means starting again from the password
+      if (result.challengeExpired) {
+        resetTwoFactor()
+      }
 
       if (!result.success) {
         throw new Error(result.message)
       }
 
+      if (result.twoFactorRequired) {
+        setNeedsTwoFactor(true)
+        setTwoFactorCode("")
+        return
+      }
+
       toast({
         title: "Login successful",
         description: "Welcome to the admin panel",
@@ -59,6 +88,13 @@ export default function LoginPage() {
     }
   }
 
+  const resetTwoFactor = () => {
+    setNeedsTwoFactor(false)
+    setTwoFactorCode("")
+    setUseRecoveryCode(false)
+    setPassword("")
+  }
+
   return (
     <div className="flex items-center justify-center min-h-screen bg-background p-4 relative">
       {/* Theme toggle in top right */}
@@ -68,37 +104,86 @@ export default function LoginPage() {
       <Card className="w-full max-w-md mx-auto">
         <CardHeader className="space-y-2 text-center">
           <CardTitle className="text-xl sm:text-2xl font-bold">Admin Login</CardTitle>
-          <CardDescription className="text-sm sm:text-base">Enter your credentials to access the admin panel</CardDescription>
+          <CardDescription className="text-sm sm:text-base">
+            {needsTwoFactor
+              ? useRecoveryCode
+                ? "Enter one of your recovery codes"
+                : "Enter the six-digit code from your authenticator app"
+              : "Enter your credentials to access the admin panel"}
+          </CardDescription>
         </CardHeader>
         <form onSubmit={handleLogin}>
-          <CardContent className="space-y-4 px-4 sm:px-6">
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-sm font-medium">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="admin@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="h-10 sm:h-11"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-sm font-medium">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                className="h-10 sm:h-11"
-              />
-            </div>
-          </CardContent>
+          {needsTwoFactor ? (
+            <CardContent className="space-y-4 px-4 sm:px-6">
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recoveryCode" className="text-sm font-medium">Recovery Code</Label>
+                  <Input
+                    id="recoveryCode"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    required
+                    className="h-10 sm:h-11 font-mono"
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <TotpCodeInput value={twoFactorCode} onChange={setTwoFactorCode} disabled={isLoading} />
+                </div>
+              )}
+              <div className="flex justify-between text-sm">
+                <Button
+                  type="button"
+                  variant="link"
+                  className="px-0"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode)
+                    setTwoFactorCode("")
+                  }}
+                >
+                  {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                </Button>
+                <Button type="button" variant="link" className="px-0" onClick={resetTwoFactor}>
+                  Back to login
+                </Button>
+              </div>
+            </CardContent>
+          ) : (
+            <CardContent className="space-y-4 px-4 sm:px-6">
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-sm font-medium">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="admin@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="h-10 sm:h-11"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-sm font-medium">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="h-10 sm:h-11"
+                />
+              </div>
+            </CardContent>
+          )}
           <CardFooter className="flex justify-end px-4 sm:px-6 pb-6">
-            <Button type="submit" className="w-full sm:w-auto" disabled={isLoading}>
-              {isLoading ? "Logging in..." : "Login"}
+            <Button
+              type="submit"
+              className="w-full sm:w-auto"
+              disabled={isLoading || (needsTwoFactor && !useRecoveryCode && twoFactorCode.length !== 6)}
+            >
+              {isLoading ? (needsTwoFactor ? "Verifying..." : "Logging in...") : needsTwoFactor ? "Verify" : "Login"}
             </Button>
           </CardFooter>
         </form>
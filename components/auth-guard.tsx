@@ -4,7 +4,7 @@
 import type React from "react"
 import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
-import { isAuthenticated, refreshToken } from "@/lib/auth"
+import { ensureFreshSession, getSession, isAuthenticated } from "@/lib/auth"
 
 export default function AuthGuard({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(true)
@@ -26,23 +26,19 @@ export default function AuthGuard({ children }: { children: React.ReactNode }) {
         return
       }
 
-      // Even if we have a token, try to refresh it
+      // The hint cookie can outlive the session, so confirm it with the server
       try {
-        const refreshed = await refreshToken()
-        if (!refreshed) {
-          console.log("AuthGuard: Token refresh failed, redirecting to login")
+        await ensureFreshSession()
+        const session = await getSession()
+        if (!session.authenticated) {
+          console.log("AuthGuard: Session is no longer valid, redirecting to login")
           setLoading(false)
           setAuthenticated(false)
-          // Clear any remaining tokens
-          if (typeof window !== "undefined") {
-            localStorage.removeItem("adminAccessToken")
-            localStorage.removeItem("adminRefreshToken")
-          }
           window.location.href = "/login"
           return
         }
       } catch (error) {
-        console.error("AuthGuard: Error refreshing token:", error)
+        console.error("AuthGuard: Error checking session:", error)
         setLoading(false)
         setAuthenticated(false)
         window.location.href = "/login"
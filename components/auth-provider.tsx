@@ -3,11 +3,19 @@
 
 import { createContext, useContext, useEffect, useState, type ReactNode } from "react"
 import { useRouter, usePathname } from "next/navigation"
-import { isAuthenticated, refreshToken } from "@/lib/auth"
+import {
+  ensureFreshSession,
+  getSession,
+  isAuthenticated,
+  startSessionSync,
+  subscribeToSessionChanges,
+  type AdminSessionUser,
+} from "@/lib/auth"
 
 interface AuthContextType {
   isLoggedIn: boolean
   loading: boolean
+  user: AdminSessionUser | null
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -23,6 +31,7 @@ export const useAuth = () => {
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(true)
   const [isLoggedIn, setIsLoggedIn] = useState(false)
+  const [user, setUser] = useState<AdminSessionUser | null>(null)
   const [mounted, setMounted] = useState(false)
   const router = useRouter()
   const pathname = usePathname()
@@ -57,16 +66,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
 
       try {
-        // Try to refresh the token, but don't immediately redirect on failure
-        const refreshed = await refreshToken()
-        if (!refreshed) {
-
-          // Clear any remaining tokens
-          if (typeof window !== "undefined") {
-            localStorage.removeItem("adminAccessToken")
-            localStorage.removeItem("adminRefreshToken")
-          }
+        // Renew a token about to expire, then read the session from the server
+        await ensureFreshSession()
+        const session = await getSession()
+        if (!session.authenticated) {
+
           setIsLoggedIn(false)
+          setUser(null)
           setLoading(false)
           // Use window.location for a full page refresh to clear any state
           window.location.href = "/login"
@@ -74,6 +80,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         } else {
 
           setIsLoggedIn(true)
+          setUser(session.user || null)
         }
       } catch (error) {
 
@@ -85,28 +92,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     checkAuth()
+  }, [mounted, pathname, router])
 
-    // Set up a timer to refresh the token periodically (every 5 minutes)
-    const refreshInterval = setInterval(
-      async () => {
-        if (isAuthenticated()) {
-
-          try {
-            const refreshed = await refreshToken()
-            if (!refreshed) {
-
-              // Don't redirect here, let the next API call handle it
-            }
-          } catch (error) {
-
-          }
-        }
-      },
-      5 * 60 * 1000, // 5 minutes
-    )
+  // Refresh ahead of token expiry and follow logins and logouts in other tabs
+  useEffect(() => {
+    if (!mounted) return
+    const stopSessionSync = startSessionSync()
+    const unsubscribe = subscribeToSessionChanges((authenticated) => {
+      setIsLoggedIn(authenticated)
+      if (!authenticated && pathname !== "/login" && pathname !== "/") {
+        window.location.href = "/login"
+      }
+    })
 
-    return () => clearInterval(refreshInterval)
-  }, [mounted, pathname, router])
+    return () => {
+      unsubscribe()
+      stopSessionSync()
+    }
+  }, [mounted, pathname])
 
   // Don't render until mounted to prevent hydration issues
   if (!mounted) {
@@ -115,7 +118,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const contextValue: AuthContextType = {
     isLoggedIn,
-    loading
+    loading,
+    user
   }
 
   return <AuthContext.Provider value={contextValue}>{children}</AuthContext.Provider>
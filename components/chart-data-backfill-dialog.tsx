@@ -0,0 +1,310 @@
+// components/chart-data-backfill-dialog.tsx
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { AlertCircle, CalendarSearch, RefreshCw } from "lucide-react"
+import type { Portfolio } from "@/lib/api"
+import { fetchAllChartData } from "@/lib/api-chart-data"
+import {
+  NSE_HOLIDAYS,
+  buildBackfillCandidates,
+  createBackfillPoints,
+  fetchPortfolioStocks,
+  findMissingTradingDays,
+  findUncoveredHolidayYears,
+  type BackfillCandidate,
+  type BackfillResultEntry,
+} from "@/lib/chart-data-backfill"
+
+interface ChartDataBackfillDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  portfolio?: Portfolio
+  defaultStartDate?: string
+  defaultEndDate?: string
+  onCompleted?: () => void
+}
+
+const today = () => new Date().toISOString().split("T")[0]
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0]
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", minimumFractionDigits: 2 }).format(value)
+
+export function ChartDataBackfillDialog({
+  open,
+  onOpenChange,
+  portfolio,
+  defaultStartDate,
+  defaultEndDate,
+  onCompleted,
+}: ChartDataBackfillDialogProps) {
+  const { toast } = useToast()
+  const [startDate, setStartDate] = useState(defaultStartDate || daysAgo(90))
+  const [endDate, setEndDate] = useState(defaultEndDate || today())
+  const [extraHolidays, setExtraHolidays] = useState("")
+  const [candidates, setCandidates] = useState<BackfillCandidate[] | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isScanning, setIsScanning] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [progress, setProgress] = useState({ completed: 0, total: 0 })
+  const [results, setResults] = useState<BackfillResultEntry[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setStartDate(defaultStartDate || daysAgo(90))
+    setEndDate(defaultEndDate || today())
+    setCandidates(null)
+    setResults(null)
+    setError(null)
+  }, [open, defaultStartDate, defaultEndDate])
+
+  const holidays = useMemo(
+    () => [
+      ...NSE_HOLIDAYS,
+      ...extraHolidays
+        .split(/[\s,]+/)
+        .map((value) => value.trim())
+        .filter((value) => /^\d{4}-\d{2}-\d{2}$/.test(value)),
+    ],
+    [extraHolidays]
+  )
+
+  const uncoveredYears = useMemo(
+    () => (startDate && endDate && startDate <= endDate ? findUncoveredHolidayYears(startDate, endDate) : []),
+    [startDate, endDate]
+  )
+
+  const portfolioId = portfolio?.id || portfolio?._id
+
+  const handleScan = async () => {
+    if (!portfolio || !portfolioId) return
+    if (!startDate || !endDate || startDate > endDate) {
+      setError("Choose a valid date range")
+      return
+    }
+
+    setIsScanning(true)
+    setError(null)
+    setResults(null)
+    try {
+      // Include earlier history so cash can be carried into the range
+      const points = await fetchAllChartData(portfolioId, undefined, endDate)
+      const missingDays = findMissingTradingDays(
+        points.filter((point) => (point.dateOnly || "").split("T")[0] >= startDate),
+        startDate,
+        endDate,
+        holidays
+      )
+
+      const stocks = await fetchPortfolioStocks(portfolio)
+      const built = buildBackfillCandidates(portfolio, missingDays, points, stocks)
+      setCandidates(built)
+      setSelected(new Set(built.filter((candidate) => candidate.isComplete).map((candidate) => candidate.dateOnly)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to scan for gaps")
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const toggle = (dateOnly: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(dateOnly)
+      else next.delete(dateOnly)
+      return next
+    })
+  }
+
+  const handleCreate = async () => {
+    if (!portfolioId || !candidates) return
+    const toCreate = candidates.filter((candidate) => selected.has(candidate.dateOnly))
+    if (toCreate.length === 0) return
+
+    setIsCreating(true)
+    setProgress({ completed: 0, total: toCreate.length })
+    try {
+      const created = await createBackfillPoints(portfolioId, toCreate, (completed, total) => setProgress({ completed, total }))
+      setResults(created)
+      const failed = created.filter((entry) => entry.status === "failed").length
+      toast({
+        title: failed ? "Backfill finished with errors" : "Success",
+        description: `${created.length - failed} price logs created${failed ? `, ${failed} failed` : ""}.`,
+        variant: failed ? "destructive" : "default",
+      })
+      onCompleted?.()
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isCreating && onOpenChange(value)}>
+      <DialogContent className="max-w-[95vw] sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Backfill Missing Trading Days{portfolio ? ` - ${portfolio.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Rebuilds missing price logs from current holding quantities and stock price history. Weekends and exchange holidays are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!portfolio ? (
+          <p className="text-sm text-muted-foreground">Select a single portfolio to backfill.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+              <div>
+                <label className="text-sm font-medium">Start Date</label>
+                <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm font-medium">End Date</label>
+                <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Extra Holidays</label>
+                <Input
+                  value={extraHolidays}
+                  onChange={(e) => setExtraHolidays(e.target.value)}
+                  placeholder="YYYY-MM-DD, ..."
+                />
+              </div>
+              <div className="flex items-end">
+                <Button onClick={handleScan} disabled={isScanning || isCreating} className="w-full">
+                  <CalendarSearch className={`mr-2 h-4 w-4 ${isScanning ? "animate-pulse" : ""}`} />
+                  Find Gaps
+                </Button>
+              </div>
+            </div>
+
+            {uncoveredYears.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>No holiday calendar for {uncoveredYears.join(", ")}</AlertTitle>
+                <AlertDescription>
+                  Exchange holidays in {uncoveredYears.length === 1 ? "this year" : "these years"} are not known, so they
+                  would be treated as trading days. Enter them under Extra Holidays before creating price logs.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {isScanning && (
+              <div className="flex items-center justify-center p-6 text-sm">
+                <RefreshCw className="h-5 w-5 animate-spin mr-2" />
+                Scanning price logs and stock history...
+              </div>
+            )}
+
+            {isCreating && (
+              <div className="space-y-2">
+                <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  Created {progress.completed} of {progress.total}
+                </p>
+              </div>
+            )}
+
+            {results && (
+              <Alert>
+                <AlertTitle>Backfill results</AlertTitle>
+                <AlertDescription>
+                  {results.filter((entry) => entry.status === "created").length} created,{" "}
+                  {results.filter((entry) => entry.status === "failed").length} failed.
+                  {results.filter((entry) => entry.status === "failed").map((entry) => (
+                    <div key={entry.dateOnly} className="text-xs">
+                      {entry.dateOnly}: {entry.error}
+                    </div>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {candidates && !results && !isCreating && (
+              candidates.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No missing trading days in this range.</p>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="outline">Missing days: {candidates.length}</Badge>
+                    <Badge variant="outline">Fully priced: {candidates.filter((c) => c.isComplete).length}</Badge>
+                    <Badge variant="secondary">Selected: {selected.size}</Badge>
+                  </div>
+                  <ScrollArea className="h-[45vh] pr-3">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-8" />
+                          <TableHead>Date</TableHead>
+                          <TableHead className="text-right">Holdings</TableHead>
+                          <TableHead className="text-right">Cash</TableHead>
+                          <TableHead className="text-right">Portfolio Value</TableHead>
+                          <TableHead className="text-right">Index</TableHead>
+                          <TableHead>Notes</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {candidates.map((candidate) => (
+                          <TableRow key={candidate.dateOnly}>
+                            <TableCell>
+                              <Checkbox
+                                checked={selected.has(candidate.dateOnly)}
+                                onCheckedChange={(checked) => toggle(candidate.dateOnly, checked === true)}
+                              />
+                            </TableCell>
+                            <TableCell className="font-medium">{candidate.dateOnly}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(candidate.holdingsValue)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(candidate.data.cashRemaining)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(candidate.data.portfolioValue)}</TableCell>
+                            <TableCell className="text-right">{candidate.data.compareIndexValue.toLocaleString()}</TableCell>
+                            <TableCell className="text-xs">
+                              {candidate.missingSymbols.length ? (
+                                <span className="text-red-600">
+                                  {candidate.pricedHoldings}/{candidate.totalHoldings} priced; missing {candidate.missingSymbols.join(", ")}
+                                </span>
+                              ) : (
+                                <span className="text-muted-foreground">{candidate.totalHoldings} holdings priced</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleCreate}
+            disabled={!candidates || selected.size === 0 || isCreating || isScanning || !!results}
+          >
+            Create {selected.size} Price Logs
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,378 @@
+// components/chart-data-import-dialog.tsx
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { AlertCircle, ArrowLeft, FileSpreadsheet, RefreshCw, Upload } from "lucide-react"
+import type { Portfolio } from "@/lib/api"
+import { fetchAllChartData } from "@/lib/api-chart-data"
+import {
+  IMPORT_FIELDS,
+  attachImportConflicts,
+  buildImportRows,
+  executeImport,
+  guessColumnMapping,
+  parseSpreadsheet,
+  type ColumnMapping,
+  type ConflictResolution,
+  type DateOrder,
+  type ImportField,
+  type ImportResultEntry,
+  type ImportRow,
+  type ParsedSpreadsheet,
+} from "@/lib/chart-data-import"
+
+interface ChartDataImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  portfolio?: Portfolio
+  onCompleted?: () => void
+}
+
+type Step = "upload" | "map" | "review" | "done"
+
+const NOT_MAPPED = "__none__"
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", minimumFractionDigits: 2 }).format(value)
+
+export function ChartDataImportDialog({ open, onOpenChange, portfolio, onCompleted }: ChartDataImportDialogProps) {
+  const { toast } = useToast()
+  const [step, setStep] = useState<Step>("upload")
+  const [spreadsheet, setSpreadsheet] = useState<ParsedSpreadsheet | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [dateOrder, setDateOrder] = useState<DateOrder>("DMY")
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [resolutions, setResolutions] = useState<Record<number, ConflictResolution>>({})
+  const [results, setResults] = useState<ImportResultEntry[] | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [progress, setProgress] = useState({ completed: 0, total: 0 })
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setStep("upload")
+    setSpreadsheet(null)
+    setMapping({})
+    setRows([])
+    setResolutions({})
+    setResults(null)
+    setError(null)
+  }, [open])
+
+  const portfolioId = portfolio?.id || portfolio?._id
+
+  const missingRequired = IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field])
+
+  const summary = useMemo(() => {
+    const valid = rows.filter((row) => row.data)
+    return {
+      invalid: rows.length - valid.length,
+      created: valid.filter((row) => !row.existing).length,
+      conflicts: valid.filter((row) => row.existing).length,
+    }
+  }, [rows])
+
+  const handleFile = async (file?: File) => {
+    if (!file) return
+    setIsWorking(true)
+    setError(null)
+    try {
+      const parsed = await parseSpreadsheet(file)
+      setSpreadsheet(parsed)
+      setMapping(guessColumnMapping(parsed.headers))
+      setStep("map")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read file")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleReview = async () => {
+    if (!spreadsheet || !portfolioId) return
+    setIsWorking(true)
+    setError(null)
+    try {
+      const built = buildImportRows(spreadsheet, mapping, dateOrder)
+      const existing = await fetchAllChartData(portfolioId)
+      const withConflicts = attachImportConflicts(built, existing)
+      setRows(withConflicts)
+      setResolutions(
+        Object.fromEntries(withConflicts.filter((row) => row.existing).map((row) => [row.rowNumber, "skip" as ConflictResolution]))
+      )
+      setStep("review")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load existing price logs")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    setResolutions((prev) => Object.fromEntries(Object.keys(prev).map((rowNumber) => [rowNumber, resolution])))
+  }
+
+  const handleImport = async () => {
+    if (!portfolioId) return
+    const total = rows.filter((row) => row.data).length
+    setIsImporting(true)
+    setProgress({ completed: 0, total })
+    try {
+      const imported = await executeImport(portfolioId, rows, resolutions, (completed, total) => setProgress({ completed, total }))
+      setResults(imported)
+      setStep("done")
+      const failed = imported.filter((entry) => entry.status === "failed").length
+      toast({
+        title: failed ? "Import finished with errors" : "Success",
+        description: `${imported.length - failed} rows processed${failed ? `, ${failed} failed` : ""}.`,
+        variant: failed ? "destructive" : "default",
+      })
+      onCompleted?.()
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const countBy = (action: ImportResultEntry["action"]) =>
+    results?.filter((entry) => entry.action === action && entry.status === "ok").length || 0
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isImporting && onOpenChange(value)}>
+      <DialogContent className="max-w-[95vw] sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Price Logs{portfolio ? ` - ${portfolio.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel sheet, map its columns, then review conflicts with existing dates before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!portfolio ? (
+          <p className="text-sm text-muted-foreground">Select a single portfolio to import into.</p>
+        ) : step === "upload" ? (
+          <div className="rounded-md border border-dashed p-8 text-center space-y-3">
+            <FileSpreadsheet className="mx-auto h-10 w-10 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              The first sheet is read. The first row must contain column headers.
+            </p>
+            <Input
+              type="file"
+              accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={isWorking}
+              className="max-w-sm mx-auto"
+            />
+            {isWorking && (
+              <div className="flex items-center justify-center text-sm">
+                <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+                Reading file...
+              </div>
+            )}
+          </div>
+        ) : step === "map" && spreadsheet ? (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              {spreadsheet.fileName}: {spreadsheet.rows.length} rows, {spreadsheet.headers.length} columns
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className="text-sm font-medium">
+                    {label}
+                    {required && <span className="text-red-600"> *</span>}
+                  </label>
+                  <Select
+                    value={mapping[field] || NOT_MAPPED}
+                    onValueChange={(value) =>
+                      setMapping((prev) => ({ ...prev, [field as ImportField]: value === NOT_MAPPED ? undefined : value }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                      {spreadsheet.headers.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div>
+                <label className="text-sm font-medium">Date Format</label>
+                <Select value={dateOrder} onValueChange={(value) => setDateOrder(value as DateOrder)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="DMY">DD/MM/YYYY</SelectItem>
+                    <SelectItem value="MDY">MM/DD/YYYY</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Unmapped cash and index values are imported as 0. ISO dates (YYYY-MM-DD) are always accepted.
+            </p>
+          </div>
+        ) : step === "review" ? (
+          <div className="space-y-3">
+            {isImporting ? (
+              <div className="space-y-2">
+                <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  Processed {progress.completed} of {progress.total}
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">New: {summary.created}</Badge>
+                  <Badge variant={summary.conflicts ? "secondary" : "outline"}>Conflicts: {summary.conflicts}</Badge>
+                  <Badge variant={summary.invalid ? "destructive" : "outline"}>Invalid: {summary.invalid}</Badge>
+                  {summary.conflicts > 0 && (
+                    <Select onValueChange={(value) => setAllResolutions(value as ConflictResolution)}>
+                      <SelectTrigger className="w-48 h-8">
+                        <SelectValue placeholder="Resolve all conflicts..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="skip">Skip all</SelectItem>
+                        <SelectItem value="overwrite">Overwrite all</SelectItem>
+                        <SelectItem value="merge">Merge all</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <ScrollArea className="h-[45vh] pr-3">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-14">Row</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Portfolio Value</TableHead>
+                        <TableHead className="text-right">Cash</TableHead>
+                        <TableHead className="text-right">Index</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                          <TableCell className="font-medium">{row.dateOnly || "—"}</TableCell>
+                          <TableCell className="text-right">
+                            {row.data ? formatCurrency(row.data.portfolioValue) : "—"}
+                            {row.existing && (
+                              <div className="text-xs text-muted-foreground">was {formatCurrency(row.existing.portfolioValue)}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.data ? formatCurrency(row.data.cashRemaining) : "—"}
+                            {row.existing && (
+                              <div className="text-xs text-muted-foreground">was {formatCurrency(row.existing.cashRemaining)}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.data ? row.data.compareIndexValue.toLocaleString() : "—"}
+                            {row.existing && (
+                              <div className="text-xs text-muted-foreground">was {row.existing.compareIndexValue.toLocaleString()}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {!row.data ? (
+                              <div className="text-xs text-red-600">{row.errors.join("; ")}</div>
+                            ) : row.existing ? (
+                              <Select
+                                value={resolutions[row.rowNumber] || "skip"}
+                                onValueChange={(value) =>
+                                  setResolutions((prev) => ({ ...prev, [row.rowNumber]: value as ConflictResolution }))
+                                }
+                              >
+                                <SelectTrigger className="w-32 h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="skip">Skip</SelectItem>
+                                  <SelectItem value="overwrite">Overwrite</SelectItem>
+                                  <SelectItem value="merge">Merge</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Badge variant="outline">New</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                <p className="text-xs text-muted-foreground">
+                  Overwrite replaces every field of the existing entry. Merge only updates the columns mapped in this file.
+                </p>
+              </>
+            )}
+          </div>
+        ) : step === "done" && results ? (
+          <Alert>
+            <AlertTitle>Import results</AlertTitle>
+            <AlertDescription>
+              {countBy("created")} created, {countBy("overwritten")} overwritten, {countBy("merged")} merged, {countBy("skipped")} skipped,{" "}
+              {results.filter((entry) => entry.status === "failed").length} failed.
+              {results.filter((entry) => entry.status === "failed").map((entry) => (
+                <div key={entry.rowNumber} className="text-xs">
+                  Row {entry.rowNumber} ({entry.dateOnly}): {entry.error}
+                </div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        ) : null}
+
+        <DialogFooter className="gap-2">
+          {(step === "map" || step === "review") && (
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === "review" ? "map" : "upload")}
+              disabled={isWorking || isImporting}
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+          )}
+          {step === "map" && (
+            <Button onClick={handleReview} disabled={isWorking || missingRequired.length > 0}>
+              {isWorking && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+              Review {spreadsheet?.rows.length || 0} Rows
+            </Button>
+          )}
+          {step === "review" && (
+            <Button onClick={handleImport} disabled={isImporting || summary.created + summary.conflicts === 0}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
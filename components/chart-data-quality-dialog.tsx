@@ -0,0 +1,268 @@
+// components/chart-data-quality-dialog.tsx
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { AlertCircle, RefreshCw, Save, ShieldCheck } from "lucide-react"
+import type { Portfolio } from "@/lib/api"
+import { fetchAllChartData } from "@/lib/api-chart-data"
+import { fetchPortfolioTransactions } from "@/lib/api-portfolio-ledger"
+import { createHoldingsValuer, fetchPortfolioStocks } from "@/lib/chart-data-backfill"
+import { getChartPointDate, getChartPointId } from "@/lib/chart-data-duplicates"
+import {
+  DEFAULT_JUMP_THRESHOLD,
+  DEFAULT_VALUATION_TOLERANCE,
+  QUALITY_RULES,
+  saveQualityIssues,
+  validateChartDataSeries,
+  type QualityRule,
+  type QualitySaveResultEntry,
+  type QualityValidationReport,
+} from "@/lib/chart-data-quality"
+import { getLastHoldingsChangeDate } from "@/lib/portfolio-ledger"
+
+interface ChartDataQualityDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  portfolio?: Portfolio
+  onCompleted?: () => void
+}
+
+export function ChartDataQualityDialog({ open, onOpenChange, portfolio, onCompleted }: ChartDataQualityDialogProps) {
+  const { toast } = useToast()
+  const [jumpPercent, setJumpPercent] = useState(String(DEFAULT_JUMP_THRESHOLD * 100))
+  const [tolerancePercent, setTolerancePercent] = useState(String(DEFAULT_VALUATION_TOLERANCE * 100))
+  const [checkHoldings, setCheckHoldings] = useState(true)
+  const [report, setReport] = useState<QualityValidationReport | null>(null)
+  // Last holdings change from the ledger; undefined until a holdings check runs
+  const [holdingsSince, setHoldingsSince] = useState<string | null | undefined>(undefined)
+  const [saved, setSaved] = useState<QualitySaveResultEntry[] | null>(null)
+  const [isValidating, setIsValidating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [progress, setProgress] = useState({ completed: 0, total: 0 })
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setReport(null)
+    setHoldingsSince(undefined)
+    setSaved(null)
+    setError(null)
+  }, [open])
+
+  const portfolioId = portfolio?.id || portfolio?._id
+
+  const handleValidate = async () => {
+    if (!portfolio || !portfolioId) return
+    const jumpThreshold = parseFloat(jumpPercent) / 100
+    const valuationTolerance = parseFloat(tolerancePercent) / 100
+    if (!(jumpThreshold > 0) || !(valuationTolerance >= 0)) {
+      setError("Thresholds must be positive percentages")
+      return
+    }
+
+    setIsValidating(true)
+    setError(null)
+    setSaved(null)
+    try {
+      const points = await fetchAllChartData(portfolioId)
+      let valueHoldings: ReturnType<typeof createHoldingsValuer> | undefined
+      let lastChange: string | null | undefined
+      if (checkHoldings) {
+        valueHoldings = createHoldingsValuer(portfolio, await fetchPortfolioStocks(portfolio))
+        lastChange = getLastHoldingsChangeDate(await fetchPortfolioTransactions(portfolioId))
+      }
+      setHoldingsSince(lastChange)
+      setReport(
+        validateChartDataSeries(points, { jumpThreshold, valuationTolerance, valueHoldings, holdingsSince: lastChange })
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to validate price logs")
+    } finally {
+      setIsValidating(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!report) return
+    setIsSaving(true)
+    setProgress({ completed: 0, total: report.changed })
+    try {
+      const entries = await saveQualityIssues(report.results, (completed, total) => setProgress({ completed, total }))
+      setSaved(entries)
+      const failed = entries.filter((entry) => entry.status === "failed").length
+      toast({
+        title: failed ? "Save finished with errors" : "Success",
+        description: `${entries.length - failed} price logs updated${failed ? `, ${failed} failed` : ""}.`,
+        variant: failed ? "destructive" : "default",
+      })
+      onCompleted?.()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const flaggedResults = report?.results.filter((result) => result.issues.length > 0) || []
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+      <DialogContent className="max-w-[95vw] sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Validate Price Logs{portfolio ? ` - ${portfolio.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Checks the full series for value jumps, negative cash, missing index values, holdings mismatches and out-of-order dates.
+            Saving records the issues and clears the verified flag on flagged entries; clean entries are left as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!portfolio ? (
+          <p className="text-sm text-muted-foreground">Select a single portfolio to validate.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+              <div>
+                <label className="text-sm font-medium">Jump Threshold (%)</label>
+                <Input type="number" min="0" step="0.5" value={jumpPercent} onChange={(e) => setJumpPercent(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Holdings Tolerance (%)</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={tolerancePercent}
+                  onChange={(e) => setTolerancePercent(e.target.value)}
+                  disabled={!checkHoldings}
+                />
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Checkbox
+                  id="check-holdings"
+                  checked={checkHoldings}
+                  onCheckedChange={(checked) => setCheckHoldings(checked === true)}
+                />
+                <label htmlFor="check-holdings" className="text-sm">Compare with holdings</label>
+              </div>
+              <div className="flex items-end">
+                <Button onClick={handleValidate} disabled={isValidating || isSaving} className="w-full">
+                  <ShieldCheck className={`mr-2 h-4 w-4 ${isValidating ? "animate-pulse" : ""}`} />
+                  Validate
+                </Button>
+              </div>
+            </div>
+
+            {checkHoldings && (
+              <p className="text-xs text-muted-foreground">
+                The holdings check values current quantities at historical prices, so it only covers entries after the last
+                holdings change in the ledger.
+              </p>
+            )}
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {isValidating && (
+              <div className="flex items-center justify-center p-6 text-sm">
+                <RefreshCw className="h-5 w-5 animate-spin mr-2" />
+                Validating price logs...
+              </div>
+            )}
+
+            {isSaving && (
+              <div className="space-y-2">
+                <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  Saved {progress.completed} of {progress.total}
+                </p>
+              </div>
+            )}
+
+            {saved && (
+              <Alert>
+                <AlertTitle>Save results</AlertTitle>
+                <AlertDescription>
+                  {saved.filter((entry) => entry.status === "saved").length} updated,{" "}
+                  {saved.filter((entry) => entry.status === "failed").length} failed.
+                  {saved.filter((entry) => entry.status === "failed").map((entry) => (
+                    <div key={entry.id} className="text-xs">
+                      {entry.dateOnly} ({entry.id}): {entry.error}
+                    </div>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {report && !isValidating && !isSaving && (
+              <div className="space-y-3">
+                {holdingsSince !== undefined && (
+                  <p className="text-xs text-muted-foreground">
+                    {holdingsSince
+                      ? `Holdings compared for entries after ${holdingsSince}.`
+                      : "The ledger has no holdings changes, so the holdings check was skipped."}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">Scanned: {report.scanned}</Badge>
+                  <Badge variant={report.flagged ? "destructive" : "secondary"}>Flagged: {report.flagged}</Badge>
+                  <Badge variant="outline">To update: {report.changed}</Badge>
+                  {(Object.keys(QUALITY_RULES) as QualityRule[]).map((rule) => (
+                    <Badge key={rule} variant="secondary">
+                      {QUALITY_RULES[rule]}: {report.ruleCounts[rule]}
+                    </Badge>
+                  ))}
+                </div>
+                {flaggedResults.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">No data quality issues found.</p>
+                ) : (
+                  <ScrollArea className="h-[40vh] pr-3">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-28">Date</TableHead>
+                          <TableHead>Issues</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {flaggedResults.map((result) => (
+                          <TableRow key={getChartPointId(result.point) || getChartPointDate(result.point)}>
+                            <TableCell className="font-medium align-top">{getChartPointDate(result.point)}</TableCell>
+                            <TableCell className="text-xs space-y-1">
+                              {result.issues.map((issue) => (
+                                <div key={issue}>{issue}</div>
+                              ))}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!report || report.changed === 0 || isSaving || isValidating || !!saved}>
+            <Save className="mr-2 h-4 w-4" />
+            Save {report?.changed || 0} Updates
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,199 @@
+// components/coupon-analytics-dialog.tsx
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { AlertTriangle, RefreshCw } from "lucide-react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { fetchAdminSubscriptions, type AdminSubscription } from "@/lib/api"
+import type { Coupon } from "@/lib/api-coupons"
+import { buildCouponAnalytics } from "@/lib/coupon-analytics"
+
+interface CouponAnalyticsDialogProps {
+  coupon: Coupon | null
+  onOpenChange: (open: boolean) => void
+}
+
+const redemptionsChartConfig = {
+  redemptions: { label: "Redemptions", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(value)
+
+function Metric({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="p-3 rounded-lg border bg-muted/30">
+      <div className={`text-lg sm:text-xl font-bold ${className || ""}`}>{value}</div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+    </div>
+  )
+}
+
+/**
+ * Redemptions, discount given, revenue, products and top users for one
+ * coupon, joined from the subscriptions that used its code.
+ */
+export function CouponAnalyticsDialog({ coupon, onOpenChange }: CouponAnalyticsDialogProps) {
+  const [subscriptions, setSubscriptions] = useState<AdminSubscription[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSubscriptions = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setSubscriptions(await fetchAdminSubscriptions())
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load subscriptions")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Subscriptions are loaded once and reused for every coupon opened
+  useEffect(() => {
+    if (coupon && !subscriptions && !isLoading) loadSubscriptions()
+  }, [coupon])
+
+  const analytics = useMemo(
+    () => (coupon && subscriptions ? buildCouponAnalytics(coupon, subscriptions) : null),
+    [coupon, subscriptions]
+  )
+
+  return (
+    <Dialog open={!!coupon} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            <span className="font-mono">{coupon?.code}</span> Analytics
+          </DialogTitle>
+          <DialogDescription>{coupon?.title}</DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <div className="flex flex-col items-center gap-3 py-8 text-center">
+            <p className="text-sm text-destructive">{error}</p>
+            <Button variant="outline" size="sm" onClick={loadSubscriptions}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Retry
+            </Button>
+          </div>
+        ) : !analytics || !coupon ? (
+          <div className="text-center py-8">Loading redemptions...</div>
+        ) : (
+          <div className="space-y-6">
+            {analytics.alerts.map((alert) => (
+              <Alert key={alert.kind} variant={alert.level === "critical" ? "destructive" : "default"}>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{alert.message}</AlertDescription>
+              </Alert>
+            ))}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <Metric label="Redemptions" value={String(analytics.redemptions)} />
+              <Metric label="Total discount given" value={formatCurrency(analytics.totalDiscount)} />
+              <Metric label="Revenue brought in" value={formatCurrency(analytics.revenue)} className="text-green-600" />
+              <Metric
+                label="Usage"
+                value={
+                  analytics.usagePercent === null
+                    ? `${coupon.usedCount} / ∞`
+                    : `${coupon.usedCount} / ${coupon.usageLimit} (${Math.round(analytics.usagePercent)}%)`
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Redemptions per week</h3>
+              {analytics.redemptions > 0 ? (
+                <ChartContainer config={redemptionsChartConfig} className="h-[220px] w-full aspect-auto">
+                  <BarChart data={analytics.timeline}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="weekStart"
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) => String(value).slice(5)}
+                    />
+                    <YAxis allowDecimals={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="redemptions" fill="var(--color-redemptions)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-sm text-muted-foreground py-6 text-center">No subscriptions have used this coupon yet</p>
+              )}
+            </div>
+
+            {analytics.products.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">By product</h3>
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Redemptions</TableHead>
+                        <TableHead className="text-right">Discount</TableHead>
+                        <TableHead className="text-right">Revenue</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analytics.products.map((product) => (
+                        <TableRow key={`${product.productType}:${product.productName}`}>
+                          <TableCell>
+                            <div className="font-medium">{product.productName}</div>
+                            <div className="text-xs text-muted-foreground">{product.productType}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{product.redemptions}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(product.discount)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(product.revenue)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            {analytics.topUsers.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">Top users</h3>
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead className="text-right">Redemptions</TableHead>
+                        <TableHead className="text-right">Discount</TableHead>
+                        <TableHead className="text-right">Revenue</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analytics.topUsers.map((user) => (
+                        <TableRow key={user.email || user.name}>
+                          <TableCell>
+                            <div className="font-medium">{user.name}</div>
+                            <div className="text-xs text-muted-foreground">{user.email}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{user.redemptions}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(user.discount)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(user.revenue)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,12 +5,15 @@ import type React from "react"
 import { useState, createContext, useContext, useEffect } from "react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { BarChart, FileText, Home, Menu, Settings, Users, X, Lightbulb, Briefcase, CreditCard, Package, ChevronLeft, Bot, TrendingUp, Mail, Ticket } from "lucide-react"
+import { BarChart, FileText, Home, Menu, Settings, Users, X, Lightbulb, Briefcase, CreditCard, Package, ChevronLeft, Bot, TrendingUp, Mail, Ticket, History, MonitorSmartphone } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
 import { Logo } from "@/components/logo"
 import { useCache } from "@/components/cache-provider"
+import { useAuth } from "@/hooks/use-auth"
+import { usePermissions } from "@/hooks/use-permissions"
+import { getRoleLabel, getRoutePermission } from "@/lib/permissions"
 
 // Context for sidebar state
 const SidebarContext = createContext<{
@@ -95,6 +98,16 @@ const sidebarItems: SidebarItem[] = [
     href: "/dashboard/faqs",
     icon: FileText,
   },
+  {
+    title: "Audit Log",
+    href: "/dashboard/audit-log",
+    icon: History,
+  },
+  {
+    title: "Sessions",
+    href: "/dashboard/sessions",
+    icon: MonitorSmartphone,
+  },
   {
     title: "Settings",
     href: "/dashboard/settings",
@@ -107,6 +120,12 @@ export function DashboardSidebar() {
   const { saveSidebarState, getSidebarState } = useCache()
   const [open, setOpen] = useState(false)
   const [isCollapsed, setIsCollapsed] = useState(false)
+  const auth = useAuth()
+  const { role, can } = usePermissions()
+
+  // Only list the pages the admin's role can open
+  const visibleItems = sidebarItems.filter((item) => can(getRoutePermission(item.href)))
+  const userName = auth?.user?.username || auth?.user?.email || "Admin"
 
   // Load sidebar state from cache on mount
   useEffect(() => {
@@ -158,7 +177,7 @@ export function DashboardSidebar() {
               </div>
               <nav className="flex-1 overflow-auto py-4">
                 <ul className="grid gap-1 px-2">
-                  {sidebarItems.map((item) => (
+                  {visibleItems.map((item) => (
                     <li key={item.href}>
                       <Link
                         href={item.href}
@@ -186,8 +205,8 @@ export function DashboardSidebar() {
                     <Users className="h-5 w-5 text-sidebar-accent-foreground" />
                   </div>
                   <div>
-                    <p className="text-sm font-medium text-sidebar-foreground">Admin</p>
-                    <p className="text-xs text-sidebar-foreground/60">admin@rangaone.finance</p>
+                    <p className="text-sm font-medium text-sidebar-foreground">{userName}</p>
+                    <p className="text-xs text-sidebar-foreground/60">{getRoleLabel(role)}</p>
                   </div>
                 </div>
               </div>
@@ -224,7 +243,7 @@ export function DashboardSidebar() {
 
           <nav className="flex-1 overflow-auto py-4">
             <ul className="grid gap-1 px-2">
-              {sidebarItems.map((item) => (
+              {visibleItems.map((item) => (
                 <li key={item.href}>
                   <Link
                     href={item.href}
@@ -258,8 +277,8 @@ export function DashboardSidebar() {
               </div>
               {!isCollapsed && (
                 <div className="flex-1">
-                  <p className="text-sm font-medium text-sidebar-foreground">Admin</p>
-                  <p className="text-xs text-sidebar-foreground/60">admin@rangaone.com</p>
+                  <p className="text-sm font-medium text-sidebar-foreground truncate">{userName}</p>
+                  <p className="text-xs text-sidebar-foreground/60">{getRoleLabel(role)}</p>
                 </div>
               )}
               <Button
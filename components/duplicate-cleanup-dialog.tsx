@@ -0,0 +1,244 @@
+// components/duplicate-cleanup-dialog.tsx
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { ConfirmDialog } from "@/components/confirm-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { AlertCircle, CheckCircle2, Download, RefreshCw, Trash } from "lucide-react"
+import { fetchAllChartData } from "@/lib/api-chart-data"
+import {
+  executeDuplicateCleanup,
+  getChartPointId,
+  planDuplicateCleanup,
+  type DuplicateCleanupPlan,
+  type DuplicateCleanupReport,
+} from "@/lib/chart-data-duplicates"
+import { downloadData } from "@/lib/download-utils"
+
+interface DuplicateCleanupDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  portfolioId?: string
+  portfolioNames: Record<string, string>
+  onCompleted?: () => void
+}
+
+const formatValue = (value: unknown) => {
+  if (typeof value === "number") return value.toLocaleString("en-IN")
+  if (typeof value === "boolean") return value ? "Yes" : "No"
+  if (value === undefined || value === null || value === "") return "—"
+  return String(value)
+}
+
+export function DuplicateCleanupDialog({ open, onOpenChange, portfolioId, portfolioNames, onCompleted }: DuplicateCleanupDialogProps) {
+  const { toast } = useToast()
+  const [plan, setPlan] = useState<DuplicateCleanupPlan | null>(null)
+  const [report, setReport] = useState<DuplicateCleanupReport | null>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [progress, setProgress] = useState({ completed: 0, total: 0 })
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const scan = async () => {
+    setIsScanning(true)
+    setError(null)
+    setPlan(null)
+    setReport(null)
+    try {
+      const points = await fetchAllChartData(portfolioId && portfolioId !== "all" ? portfolioId : undefined)
+      setPlan(planDuplicateCleanup(points))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to scan price logs")
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  useEffect(() => {
+    if (open) scan()
+  }, [open, portfolioId])
+
+  const handleDelete = async () => {
+    if (!plan) return
+    setConfirmOpen(false)
+    setIsDeleting(true)
+    setProgress({ completed: 0, total: plan.toDelete })
+    try {
+      const result = await executeDuplicateCleanup(plan, (completed, total) => setProgress({ completed, total }))
+      setReport(result)
+      toast({
+        title: result.failedCount ? "Cleanup finished with errors" : "Success",
+        description: `${result.deletedCount} duplicates removed${result.failedCount ? `, ${result.failedCount} failed` : ""}.`,
+        variant: result.failedCount ? "destructive" : "default",
+      })
+      onCompleted?.()
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleDownloadReport = () => {
+    if (!report) return
+    downloadData(
+      report.entries.map((entry) => ({
+        ...entry,
+        portfolio: portfolioNames[entry.portfolio] || entry.portfolio,
+        error: entry.error || "",
+      })),
+      {
+        filename: `duplicate-cleanup-${new Date().toISOString().split("T")[0]}`,
+        customHeaders: {
+          id: "Deleted Entry ID",
+          portfolio: "Portfolio",
+          dateOnly: "Date",
+          survivorId: "Kept Entry ID",
+          portfolioValue: "Deleted Portfolio Value",
+          status: "Status",
+          error: "Error",
+        },
+      }
+    )
+  }
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(value) => !isDeleting && onOpenChange(value)}>
+        <DialogContent className="max-w-[95vw] sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Duplicate Price Logs</DialogTitle>
+            <DialogDescription>
+              Entries sharing a portfolio and date. The kept entry prefers verified data, then closing prices, then the most recent entry.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {isScanning && (
+            <div className="flex items-center justify-center p-8 text-sm">
+              <RefreshCw className="h-5 w-5 animate-spin mr-2" />
+              Scanning price logs...
+            </div>
+          )}
+
+          {isDeleting && (
+            <div className="space-y-2">
+              <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">
+                Deleted {progress.completed} of {progress.total}
+              </p>
+            </div>
+          )}
+
+          {report && (
+            <Alert variant={report.failedCount ? "destructive" : "default"}>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertTitle>Cleanup report</AlertTitle>
+              <AlertDescription>
+                {report.deletedCount} deleted, {report.failedCount} failed.
+                {report.entries.filter((entry) => entry.status === "failed").map((entry) => (
+                  <div key={entry.id} className="text-xs">
+                    {entry.dateOnly} ({entry.id}): {entry.error}
+                  </div>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {plan && !report && !isDeleting && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline">Scanned: {plan.scanned}</Badge>
+                <Badge variant="outline">Duplicated days: {plan.groups.length}</Badge>
+                <Badge variant={plan.toDelete ? "destructive" : "secondary"}>To delete: {plan.toDelete}</Badge>
+              </div>
+              {plan.groups.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">No duplicate price logs found.</p>
+              ) : (
+                <ScrollArea className="h-[50vh] pr-3">
+                  <div className="space-y-3">
+                    {plan.groups.map((group) => (
+                      <div key={group.key} className="rounded-md border p-3 space-y-2">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <div className="font-medium text-sm">
+                            {group.dateOnly} · {portfolioNames[group.portfolio] || group.portfolio}
+                          </div>
+                          <Badge variant="secondary">{group.reason}</Badge>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Keep {getChartPointId(group.survivor)}: value {formatValue(group.survivor.portfolioValue)}, index{" "}
+                          {formatValue(group.survivor.compareIndexValue)}
+                        </div>
+                        {group.losers.map(({ point, differences }) => (
+                          <div key={getChartPointId(point)} className="rounded bg-muted/40 p-2 text-xs space-y-1">
+                            <div className="font-medium text-red-600">Delete {getChartPointId(point)}</div>
+                            {differences.length === 0 ? (
+                              <div className="text-muted-foreground">Identical to the kept entry</div>
+                            ) : (
+                              differences.map((difference) => (
+                                <div key={difference.field} className="grid grid-cols-3 gap-2">
+                                  <span className="text-muted-foreground">{difference.field}</span>
+                                  <span className="line-through">{formatValue(difference.duplicate)}</span>
+                                  <span>{formatValue(difference.survivor)}</span>
+                                </div>
+                              ))
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            {report ? (
+              <Button variant="outline" onClick={handleDownloadReport} disabled={report.entries.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Download Report
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={scan} disabled={isScanning || isDeleting}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Rescan
+              </Button>
+            )}
+            {!report && (
+              <Button
+                variant="destructive"
+                onClick={() => setConfirmOpen(true)}
+                disabled={!plan || plan.toDelete === 0 || isDeleting || isScanning}
+              >
+                <Trash className="mr-2 h-4 w-4" />
+                Delete {plan?.toDelete || 0} Duplicates
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        onConfirm={handleDelete}
+        title="Delete duplicate price logs?"
+        description={`This permanently deletes ${plan?.toDelete || 0} price log entries. The kept entry for each day is not changed.`}
+        confirmText="Delete"
+      />
+    </>
+  )
+}
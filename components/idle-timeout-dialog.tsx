@@ -0,0 +1,47 @@
+// components/idle-timeout-dialog.tsx
+"use client"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useIdleTimeout } from "@/hooks/use-idle-timeout"
+
+const IDLE_TIMEOUT_MINUTES = Number(process.env.NEXT_PUBLIC_ADMIN_IDLE_TIMEOUT_MINUTES) || 30
+
+const WARNING_SECONDS = 60
+
+/**
+ * Warns the admin before logging them out for inactivity.
+ */
+export function IdleTimeoutDialog() {
+  const { warning, secondsLeft, stayActive, logoutNow } = useIdleTimeout({
+    timeoutMs: IDLE_TIMEOUT_MINUTES * 60 * 1000,
+    warningMs: WARNING_SECONDS * 1000,
+  })
+
+  return (
+    <AlertDialog open={warning} onOpenChange={(open) => !open && stayActive()}>
+      <AlertDialogContent className="max-w-[95vw] sm:max-w-[425px]">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You have been inactive for a while. For security you will be logged out in{" "}
+            <span className="font-semibold tabular-nums text-foreground">{secondsLeft}</span> second
+            {secondsLeft === 1 ? "" : "s"}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={logoutNow}>Log Out Now</AlertDialogCancel>
+          <AlertDialogAction onClick={stayActive}>Stay Signed In</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,35 @@
+// components/permission-gate.tsx
+"use client"
+
+import type { ReactNode } from "react"
+import { usePathname } from "next/navigation"
+import { ShieldAlert } from "lucide-react"
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { usePermissions } from "@/hooks/use-permissions"
+import { getRoleLabel, getRoutePermission } from "@/lib/permissions"
+
+/**
+ * Renders the current dashboard page only when the admin's role may open
+ * it. The route handlers enforce the same rules on the data.
+ */
+export function RoutePermissionGate({ children }: { children: ReactNode }) {
+  const pathname = usePathname()
+  const { role, loading, can } = usePermissions()
+  const permission = getRoutePermission(pathname ?? "")
+
+  if (!permission) return <>{children}</>
+  if (loading) return null
+  if (can(permission)) return <>{children}</>
+
+  return (
+    <Card className="max-w-lg mx-auto mt-12">
+      <CardHeader className="items-center text-center">
+        <ShieldAlert className="h-10 w-10 text-muted-foreground mb-2" />
+        <CardTitle>Access Denied</CardTitle>
+        <CardDescription>
+          Your role ({getRoleLabel(role)}) does not have access to this page. Ask a super admin if you need it.
+        </CardDescription>
+      </CardHeader>
+    </Card>
+  )
+}
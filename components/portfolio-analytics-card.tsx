@@ -0,0 +1,142 @@
+// components/portfolio-analytics-card.tsx
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Activity, Save } from "lucide-react"
+import type { PortfolioAnalytics } from "@/lib/portfolio-analytics"
+
+interface PortfolioAnalyticsCardProps {
+  analytics: PortfolioAnalytics
+  portfolioName?: string
+  onApplyGains?: () => void
+  isApplying?: boolean
+}
+
+const formatPercent = (value: number | null, digits = 2) => {
+  if (value === null || !Number.isFinite(value)) return "N/A"
+  return `${value > 0 ? "+" : ""}${value.toFixed(digits)}%`
+}
+
+const formatRatio = (value: number | null) => {
+  if (value === null || !Number.isFinite(value)) return "N/A"
+  return value.toFixed(2)
+}
+
+const toneClass = (value: number | null) => {
+  if (value === null) return "text-muted-foreground"
+  return value > 0 ? "text-green-600" : value < 0 ? "text-red-600" : "text-gray-600"
+}
+
+function Metric({ label, value, hint, className }: { label: string; value: string; hint?: string; className?: string }) {
+  return (
+    <div className="p-3 rounded-lg border bg-muted/30">
+      <div className={`text-lg sm:text-xl font-bold ${className || ""}`}>{value}</div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      {hint && <div className="text-[11px] text-muted-foreground mt-1">{hint}</div>}
+    </div>
+  )
+}
+
+export function PortfolioAnalyticsCard({ analytics, portfolioName, onApplyGains, isApplying }: PortfolioAnalyticsCardProps) {
+  const drawdown = analytics.maxDrawdown
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            Performance Analytics{portfolioName ? ` - ${portfolioName}` : ""}
+          </CardTitle>
+          <CardDescription>
+            {analytics.startDate} to {analytics.endDate} · {analytics.dataPoints} data points · {analytics.years.toFixed(1)} years
+          </CardDescription>
+        </div>
+        {onApplyGains && (
+          <Button variant="outline" size="sm" onClick={onApplyGains} disabled={isApplying}>
+            <Save className="mr-2 h-4 w-4" />
+            {isApplying ? "Saving..." : "Update Portfolio Gains"}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Metric
+            label={analytics.isAnnualized ? "CAGR" : "Return (under 1 year, not annualized)"}
+            value={formatPercent(analytics.cagr)}
+            hint={`Benchmark ${formatPercent(analytics.benchmarkCagr)}`}
+            className={toneClass(analytics.cagr)}
+          />
+          <Metric
+            label="Total Return"
+            value={formatPercent(analytics.totalReturn)}
+            hint={`Benchmark ${formatPercent(analytics.benchmarkReturn)}`}
+            className={toneClass(analytics.totalReturn)}
+          />
+          <Metric
+            label="Max Drawdown"
+            value={formatPercent(drawdown.value)}
+            hint={
+              drawdown.peakDate
+                ? `${drawdown.peakDate} → ${drawdown.troughDate}${drawdown.recoveryDate ? `, recovered ${drawdown.recoveryDate}` : ", not recovered"}`
+                : undefined
+            }
+            className={toneClass(drawdown.value)}
+          />
+          <Metric
+            label="Volatility (annualized)"
+            value={analytics.volatility === null ? "N/A" : `${analytics.volatility.toFixed(2)}%`}
+            hint={`Benchmark ${analytics.benchmarkVolatility === null ? "N/A" : `${analytics.benchmarkVolatility.toFixed(2)}%`}`}
+          />
+          <Metric label="Sharpe Ratio" value={formatRatio(analytics.sharpeRatio)} />
+          <Metric label="Beta" value={formatRatio(analytics.beta)} hint="vs compare index" />
+          <Metric
+            label="Alpha (annualized)"
+            value={formatPercent(analytics.alpha)}
+            className={toneClass(analytics.alpha)}
+          />
+          <Metric
+            label="1M / 1Y Return"
+            value={`${formatPercent(analytics.oneMonthReturn)} / ${formatPercent(analytics.oneYearReturn)}`}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Rolling Returns</div>
+          <div className="w-full overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Window</TableHead>
+                  <TableHead className="text-right">Trailing</TableHead>
+                  <TableHead className="text-right">Benchmark</TableHead>
+                  <TableHead className="text-right">Average</TableHead>
+                  <TableHead className="text-right">Worst</TableHead>
+                  <TableHead className="text-right">Best</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.rollingReturns.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell>
+                      <Badge variant="outline">{row.label}</Badge>
+                      <span className="ml-2 text-xs text-muted-foreground">{row.windows} windows</span>
+                    </TableCell>
+                    <TableCell className={`text-right ${toneClass(row.portfolio)}`}>{formatPercent(row.portfolio)}</TableCell>
+                    <TableCell className={`text-right ${toneClass(row.benchmark)}`}>{formatPercent(row.benchmark)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(row.average)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(row.min)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(row.max)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -35,12 +35,15 @@ import {
   Building,
   Activity,
   Banknote,
-
+  BookOpen,
+  History,
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 
 import { HtmlContent } from "@/components/html-content";
+import { PortfolioLedgerPanel } from "@/components/portfolio-ledger-panel";
+import { PortfolioSnapshotsPanel } from "@/components/portfolio-snapshots-panel";
 
 // Portfolio interface
 interface Portfolio {
@@ -309,7 +312,7 @@ export function PortfolioDetailsDialog({
         {/* Compact Tabs */}
         <div className="flex-1 overflow-hidden px-4">
           <Tabs defaultValue="overview" className="h-full flex flex-col">
-            <TabsList className="grid w-full grid-cols-5 my-3 h-8">
+            <TabsList className="grid w-full grid-cols-7 my-3 h-8">
               <TabsTrigger value="overview" className="gap-1 text-xs py-1">
                 <Info className="h-3 w-3" />
                 Overview
@@ -330,6 +333,14 @@ export function PortfolioDetailsDialog({
                 <FileText className="h-3 w-3" />
                 Resources
               </TabsTrigger>
+              <TabsTrigger value="ledger" className="gap-1 text-xs py-1">
+                <BookOpen className="h-3 w-3" />
+                Ledger
+              </TabsTrigger>
+              <TabsTrigger value="history" className="gap-1 text-xs py-1">
+                <History className="h-3 w-3" />
+                History
+              </TabsTrigger>
             </TabsList>
 
             <div className="flex-1 overflow-y-auto pb-16">
@@ -961,6 +972,16 @@ export function PortfolioDetailsDialog({
                   </Card>
                 )}
               </TabsContent>
+
+              {/* Ledger Tab */}
+              <TabsContent value="ledger" className="space-y-4 mt-0">
+                <PortfolioLedgerPanel portfolio={portfolio} />
+              </TabsContent>
+
+              {/* History Tab */}
+              <TabsContent value="history" className="space-y-4 mt-0">
+                <PortfolioSnapshotsPanel portfolio={portfolio} />
+              </TabsContent>
             </div>
           </Tabs>
         </div>
@@ -47,8 +47,22 @@ import {
   updateStockPrices, 
   type StockSymbol 
 } from "@/lib/api-stock-symbols";
-import { updatePortfolioHoldings } from "@/lib/api";
-import { getAdminAccessToken } from "@/lib/auth";
+import { updatePortfolioHoldings, type PortfolioHoldingChange } from "@/lib/api";
+import type { CreatePortfolioTransactionRequest } from "@/lib/api-portfolio-ledger";
+import { buildRemovalTransactions, buildTradeTransactions } from "@/lib/portfolio-ledger";
+import {
+  calculateAddonQuantity,
+  calculateAdjustedMinInvestment as calculateBufferedMinInvestment,
+  calculateHoldingTotals,
+  calculateInvestmentDetails,
+  calculatePnL,
+  applyAddonBuy,
+  applyPartialSell,
+  getActiveHoldings,
+  getWeightageCalculationBase as getWeightageBase,
+  isSoldHolding,
+  type PnLCalculation,
+} from "@/lib/portfolio-math";
 import { 
   Plus, 
   Trash2, 
@@ -87,16 +101,6 @@ interface ExtendedHolding extends PortfolioHolding {
   priceChangePercent?: number;
 }
 
-interface PnLCalculation {
-  quantitySold: number;
-  saleValue: number;
-  originalCost: number;
-  profitLoss: number;
-  profitLossPercent: number;
-  remainingQuantity: number;
-  remainingValue: number;
-}
-
 interface EditHoldingState {
   index: number;
   originalHolding: ExtendedHolding;
@@ -178,39 +182,6 @@ export function PortfolioFormDialog({
     stockDetails: undefined as StockSymbol | undefined,
   });
 
-  // === NEW: P&L CALCULATION FUNCTIONS ===
-  
-  const calculatePnL = (
-    originalQuantity: number,
-    originalBuyPrice: number,
-    currentMarketPrice: number,
-    proportionToSell: number // 0 to 1 (e.g., 0.5 for 50%)
-  ): PnLCalculation => {
-    // Indian stock market - whole shares only
-    let quantitySold = 0;
-    if (proportionToSell >= 1) {
-      quantitySold = Math.floor(originalQuantity);
-    } else if (proportionToSell > 0) {
-      quantitySold = Math.floor(originalQuantity * proportionToSell);
-    }
-    const saleValue = quantitySold * currentMarketPrice;
-    const originalCost = quantitySold * originalBuyPrice;
-    const profitLoss = saleValue - originalCost;
-    const profitLossPercent = originalCost > 0 ? (profitLoss / originalCost) * 100 : 0;
-    const remainingQuantity = Math.floor(originalQuantity) - quantitySold;
-    const remainingValue = remainingQuantity * currentMarketPrice;
-
-    return {
-      quantitySold,
-      saleValue,
-      originalCost,
-      profitLoss,
-      profitLossPercent,
-      remainingQuantity,
-      remainingValue
-    };
-  };
-
   const formatCurrency = (value: number): string => {
     return new Intl.NumberFormat("en-IN", {
       style: "currency",
@@ -224,42 +195,7 @@ export function PortfolioFormDialog({
     return date instanceof Date && !isNaN(date.getTime());
   };
 
-  const calculateInvestmentDetails = (weightPercent: number, buyPrice: number, totalInvestment: number) => {
-    const allocatedAmount = (weightPercent / 100) * totalInvestment;
-    let quantity = Math.floor(allocatedAmount / buyPrice); // Always whole number
-    let actualInvestmentAmount = quantity * buyPrice;
-    let leftoverAmount = allocatedAmount - actualInvestmentAmount;
-
-    // Tolerance: if the gap to the next share is within 10% of the share price, buy 1 extra share
-    if (buyPrice > 0 && leftoverAmount >= 0) {
-      const gapToNextShare = buyPrice - leftoverAmount;
-      if (gapToNextShare <= buyPrice * 0.1) {
-        quantity = quantity + 1; // Still whole number
-        actualInvestmentAmount = quantity * buyPrice;
-        leftoverAmount = allocatedAmount - actualInvestmentAmount;
-      }
-    }
-    
-    return {
-      allocatedAmount,
-      quantity, // Always integer
-      actualInvestmentAmount,
-      leftoverAmount,
-    };
-  };
-
-  const totalWeightUsed = holdings.reduce((sum, holding) => {
-    return holding.status === 'Sell' ? sum : sum + holding.weight;
-  }, 0);
-  const totalActualInvestment = holdings.reduce((sum, holding) => {
-    return holding.status === 'Sell' ? sum : sum + holding.minimumInvestmentValueStock;
-  }, 0);
-  const totalLeftover = holdings.reduce((sum, holding) => {
-    return holding.status === 'Sell' ? sum : sum + holding.leftoverAmount;
-  }, 0);
-  const totalAllocated = holdings.reduce((sum, holding) => {
-    return holding.status === 'Sell' ? sum : sum + holding.allocatedAmount;
-  }, 0);
+  const { totalWeightUsed, totalActualInvestment, totalLeftover, totalAllocated } = calculateHoldingTotals(holdings);
   const holdingsValue = initialData?.holdingsValue || 0;
   const cashBalance = initialData?.cashBalance || 0;
   const remainingWeight = 100 - totalWeightUsed;
@@ -267,52 +203,20 @@ export function PortfolioFormDialog({
 
 
   // Auto-adjust minimum investment based on total investment
-  const calculateAdjustedMinInvestment = () => {
-    if (totalActualInvestment > 0) {
-      // Add 10% buffer to ensure minimum investment covers all holdings
-      const adjustedMinInvestment = Math.ceil(totalActualInvestment * 1.1);
-      return adjustedMinInvestment;
-    }
-    return Number(minInvestment || 0);
-  };
+  const calculateAdjustedMinInvestment = () =>
+    calculateBufferedMinInvestment(totalActualInvestment, Number(minInvestment || 0));
 
   /**
    * Helper function to determine the correct base amount for weightage calculations
    * 
    * @returns {object} Object containing the base amount and context information
    */
-  const getWeightageCalculationBase = () => {
-    const minInvestmentAmount = Number(minInvestment || 0);
-    const hasInitialData = !!initialData;
-    const hasValidFinancialData = hasInitialData && 
-      typeof initialData.cashBalance === 'number' && 
-      typeof initialData.holdingsValue === 'number';
-    
-    // Use minimum investment if:
-    // 1. No initial data (new portfolio)
-    // 2. Initial data exists but no valid financial data
-    // 3. Holdings array is empty
-    const shouldUseMinInvestment = !hasInitialData || !hasValidFinancialData || holdings.length === 0;
-    
-    if (shouldUseMinInvestment) {
-      return {
-        baseAmount: minInvestmentAmount,
-        isFirstTimeCreation: true,
-        context: 'Using minimum investment as base',
-        description: `Using minimum investment (₹${minInvestmentAmount.toLocaleString()}) as weightage base`
-      };
-    }
-    
-    const safeCashBalance = isNaN(initialData.cashBalance || 0) ? 0 : (initialData.cashBalance || 0);
-    const safeHoldingsValue = isNaN(initialData.holdingsValue || 0) ? 0 : (initialData.holdingsValue || 0);
-    const currentPortfolioValue = safeCashBalance + safeHoldingsValue;
-    return {
-      baseAmount: currentPortfolioValue,
-      isFirstTimeCreation: false,
-      context: 'Using current portfolio value as base',
-      description: `Using current portfolio value (₹${currentPortfolioValue.toLocaleString()}) as weightage base`
-    };
-  };
+  const getWeightageCalculationBase = () =>
+    getWeightageBase({
+      minInvestment: Number(minInvestment || 0),
+      existing: initialData,
+      holdingsCount: holdings.length,
+    });
 
   const adjustedMinInvestment = calculateAdjustedMinInvestment();
   const needsMinInvestmentAdjustment = adjustedMinInvestment > Number(minInvestment || 0);
@@ -542,8 +446,8 @@ export function PortfolioFormDialog({
         if (Array.isArray(initialData.holdings)) {
           console.log("Processing holdings from initialData:", initialData.holdings);
           
-          // Filter out sold stocks (those with Sold-Date- prefix)
-          const activeHoldings = initialData.holdings.filter(h => !h.symbol.startsWith('Sold-Date-'));
+          // Filter out sold stocks (Sold-Date- prefix or sale timestamp status)
+          const activeHoldings = getActiveHoldings(initialData.holdings);
           
           const convertedHoldings: ExtendedHolding[] = activeHoldings.map(h => {
             // For old portfolios, recalculate allocation based on current logic
@@ -857,6 +761,17 @@ export function PortfolioFormDialog({
     });
   };
 
+  // Trades are kept even when their ledger entries fail to save, so the
+  // admin is told the ledger needs a manual entry
+  const warnIfLedgerNotRecorded = (ledgerRecorded: boolean) => {
+    if (ledgerRecorded) return;
+    toast({
+      title: "Ledger not updated",
+      description: "The change was saved but could not be recorded in the portfolio ledger",
+      variant: "destructive",
+    });
+  };
+
   const addHolding = async () => {
     if (!newHolding.symbol.trim()) {
       toast({
@@ -951,50 +866,27 @@ export function PortfolioFormDialog({
     // For existing portfolios, use PATCH API to add holding
     if (initialData && initialData.id) {
       try {
-        const adminToken = getAdminAccessToken();
-        if (!adminToken) {
-          throw new Error('Admin authentication required');
-        }
-        
-        const requestBody = {
-          stockAction: "add",
-          holdings: [{
-            symbol: newHolding.symbol,
-            sector: newHolding.sector || 'Unknown',
-            buyPrice: newHolding.buyPrice,
-            quantity: investmentDetails.quantity,
-            minimumInvestmentValueStock: investmentDetails.actualInvestmentAmount,
-            weight: accurateWeight,
-            stockCapType: newHolding.stockCapType || 'large cap',
-            status: 'Fresh-Buy'
-          }]
+        const holdingChange: PortfolioHoldingChange = {
+          symbol: newHolding.symbol,
+          sector: newHolding.sector || 'Unknown',
+          buyPrice: newHolding.buyPrice,
+          quantity: investmentDetails.quantity,
+          minimumInvestmentValueStock: investmentDetails.actualInvestmentAmount,
+          weight: accurateWeight,
+          stockCapType: newHolding.stockCapType || 'large cap',
+          status: 'Fresh-Buy'
         };
         
-        console.log('Adding holding - Request body:', JSON.stringify(requestBody, null, 2));
+        console.log('Adding holding:', JSON.stringify(holdingChange, null, 2));
         
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/api/portfolios/${initialData.id}`, {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${adminToken}`,
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('Add holding API error:', response.status, errorText);
-          let errorMessage = 'Failed to add holding';
-          try {
-            const errorData = JSON.parse(errorText);
-            errorMessage = errorData.error || errorData.message || errorMessage;
-          } catch (e) {
-            errorMessage = errorText || errorMessage;
-          }
-          throw new Error(errorMessage);
-        }
-
-        const result = await response.json();
+        const result = await updatePortfolioHoldings(
+          initialData.id,
+          [holdingChange],
+          "add",
+          {},
+          buildTradeTransactions("buy", holdingToAdd, investmentDetails.quantity, newHolding.buyPrice, new Date().toISOString())
+        );
+        warnIfLedgerNotRecorded(result.ledgerRecorded);
         console.log('Add holding API response:', result);
         
         // Update local state with server response
@@ -1070,43 +962,27 @@ export function PortfolioFormDialog({
     // For existing portfolios, use API to delete holding
     if (initialData && initialData.id) {
       try {
-        const adminToken = getAdminAccessToken();
-        if (!adminToken) {
-          throw new Error('Admin authentication required');
-        }
-        
         console.log('Sending delete request for:', removedHolding.symbol);
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/api/portfolios/${initialData.id}`, {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${adminToken}`,
-          },
-          body: JSON.stringify({
-            stockAction: "delete",
-            holdings: [{
-              symbol: removedHolding.symbol
-            }]
-          })
-        });
-
-        console.log('Delete response status:', response.status);
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('Delete API error:', errorText);
-          
+        let result;
+        try {
+          result = await updatePortfolioHoldings(
+            initialData.id,
+            [{ symbol: removedHolding.symbol }],
+            "delete",
+            {},
+            isSoldHolding(removedHolding) ? [] : buildRemovalTransactions(removedHolding, new Date().toISOString())
+          );
+        } catch (error) {
           // If holding not found on server, refresh from database
-          if (errorText.includes('No holdings found')) {
+          if (error instanceof Error && error.message.includes('No holdings found')) {
             console.log('Holding not found on server, refreshing from database');
             onOpenChange(false);
             return;
           }
-          
-          throw new Error(`Failed to remove holding: ${errorText}`);
+          throw error;
         }
-
-        const result = await response.json();
         console.log('Delete result:', result);
+        warnIfLedgerNotRecorded(result.ledgerRecorded);
         
         // Update local state with server response
         if (result.portfolio && result.portfolio.holdings) {
@@ -1261,8 +1137,10 @@ export function PortfolioFormDialog({
     // NEW: Calculate P&L preview for sell operations
     if ((updated.action === 'partial-sell' || updated.action === 'sell') && updated.latestPrice) {
       const holding = updated.originalHolding;
-      const originalBuyPrice = holding.originalBuyPrice || holding.buyPrice;
-      const currentQuantity = holding.totalQuantityOwned || holding.quantity;
+      // P&L is measured on the shares still held at their average buy price;
+      // totalQuantityOwned and originalBuyPrice include earlier trades
+      const averageBuyPrice = holding.buyPrice || holding.originalBuyPrice;
+      const currentQuantity = holding.quantity;
       
       let proportionToSell = 0;
       if (updated.action === 'sell') {
@@ -1276,7 +1154,7 @@ export function PortfolioFormDialog({
       if (proportionToSell > 0) {
         updated.pnlPreview = calculatePnL(
           currentQuantity,
-          originalBuyPrice,
+          averageBuyPrice,
           updated.latestPrice,
           proportionToSell
         );
@@ -1332,84 +1210,70 @@ export function PortfolioFormDialog({
     // For existing portfolios, use API for buy/sell operations only
     if (initialData && initialData.id && (action === 'buy' || action === 'addon' || action === 'sell' || action === 'partial-sell') && status !== 'Hold') {
       try {
-        const adminToken = getAdminAccessToken();
-        if (!adminToken) {
-          throw new Error('Admin authentication required');
-        }
-        
-        let requestBody: any;
+        let holdingChange: PortfolioHoldingChange;
+        let transactions: CreatePortfolioTransactionRequest[];
+        const tradePrice = editingHolding.latestPrice || originalHolding.buyPrice;
+        const tradeDate = new Date().toISOString();
         
         if (action === 'buy' || action === 'addon') {
           // Calculate additional quantity to buy
-          const currentInvestment = originalHolding.minimumInvestmentValueStock;
-          const newInvestment = (newWeight / 100) * (cashBalance + holdingsValue);
-          const additionalInvestment = newInvestment - currentInvestment;
-          const additionalQuantity = Math.floor(additionalInvestment / (editingHolding.latestPrice || originalHolding.buyPrice));
+          const additionalQuantity = calculateAddonQuantity(
+            newWeight,
+            cashBalance + holdingsValue,
+            originalHolding.minimumInvestmentValueStock,
+            editingHolding.latestPrice || originalHolding.buyPrice
+          );
           
-          requestBody = {
-            stockAction: "buy",
-            holdings: [{
-              symbol: originalHolding.symbol,
-              sector: originalHolding.sector,
-              buyPrice: editingHolding.latestPrice || originalHolding.buyPrice,
-              quantity: additionalQuantity,
-              minimumInvestmentValueStock: additionalQuantity * (editingHolding.latestPrice || originalHolding.buyPrice),
-              stockCapType: originalHolding.stockCapType,
-              status: 'addon-buy'
-            }]
+          holdingChange = {
+            symbol: originalHolding.symbol,
+            sector: originalHolding.sector,
+            buyPrice: editingHolding.latestPrice || originalHolding.buyPrice,
+            quantity: additionalQuantity,
+            minimumInvestmentValueStock: additionalQuantity * (editingHolding.latestPrice || originalHolding.buyPrice),
+            stockCapType: originalHolding.stockCapType,
+            status: 'addon-buy'
           };
+          transactions = buildTradeTransactions("addon-buy", originalHolding, additionalQuantity, tradePrice, tradeDate);
         } else {
           // Sell operations
           const sellQuantity = pnlPreview?.quantitySold || 0;
           const saleType = action === 'sell' ? 'complete' : 'partial';
           
-          requestBody = {
-            stockAction: "sell",
-            holdings: [{
-              symbol: originalHolding.symbol,
-              saleType: saleType
-            }]
+          holdingChange = {
+            symbol: originalHolding.symbol,
+            saleType: saleType
           };
           
           // Add quantity for partial sells
           if (saleType === 'partial' && sellQuantity > 0) {
-            requestBody.holdings[0].quantity = sellQuantity;
+            holdingChange.quantity = sellQuantity;
           }
+          transactions = saleType === 'complete'
+            ? buildTradeTransactions("exit", originalHolding, originalHolding.quantity, tradePrice, tradeDate)
+            : buildTradeTransactions("partial-sell", originalHolding, sellQuantity, tradePrice, tradeDate);
         }
           
-        console.log('Stock operation - Request body:', JSON.stringify(requestBody, null, 2));
+        console.log('Stock operation:', JSON.stringify(holdingChange, null, 2));
         
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/api/portfolios/${initialData.id}`, {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${adminToken}`,
-          },
-          body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('Stock operation API error:', response.status, errorText);
-          
+        let result;
+        try {
+          result = await updatePortfolioHoldings(
+            initialData.id,
+            [holdingChange],
+            action === 'buy' || action === 'addon' ? "buy" : "sell",
+            {},
+            transactions
+          );
+        } catch (error) {
           // If holding not found on server, refresh from database
-          if (errorText.includes('Holding not found')) {
+          if (error instanceof Error && error.message.includes('Holding not found')) {
             console.log('Holding not found on server, refreshing from database');
             onOpenChange(false);
             return;
           }
-          
-          let errorMessage = `Failed to ${action} holding`;
-          try {
-            const errorData = JSON.parse(errorText);
-            errorMessage = errorData.error || errorData.message || errorMessage;
-          } catch (e) {
-            errorMessage = errorText || errorMessage;
-          }
-          throw new Error(errorMessage);
+          throw error;
         }
-
-        const result = await response.json();
+        warnIfLedgerNotRecorded(result.ledgerRecorded);
         
         // Update local state with server response including sold stocks
         if (result.portfolio && result.portfolio.holdings) {
@@ -1456,29 +1320,22 @@ export function PortfolioFormDialog({
           }
         }
         
-        // Update status in database for partial sells with correct remaining quantity
-        if (action === 'partial-sell' && pnlPreview) {
+        // Update status in database for partial sells with correct remaining quantity.
+        // The sell above already captured the snapshot for this trade.
+        if (action === 'partial-sell' && pnlPreview && pnlPreview.remainingQuantity > 0) {
           try {
-            await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/api/portfolios/${initialData.id}`, {
-              method: 'PATCH',
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${adminToken}`,
-              },
-              body: JSON.stringify({
-                stockAction: "update",
-                holdings: [{
-                  symbol: originalHolding.symbol,
-                  status: 'partial-sell',
-                  buyPrice: originalHolding.buyPrice || 1,
-                  quantity: pnlPreview.remainingQuantity,
-                  minimumInvestmentValueStock: pnlPreview.remainingValue,
-                  weight: editingHolding.newWeight,
-                  sector: originalHolding.sector,
-                  stockCapType: originalHolding.stockCapType || 'large cap'
-                }]
-              })
-            });
+            const remaining = applyPartialSell(originalHolding, pnlPreview.quantitySold, tradePrice, tradeDate);
+            await updatePortfolioHoldings(initialData.id, [{
+              symbol: originalHolding.symbol,
+              status: 'partial-sell',
+              buyPrice: remaining.buyPrice || 1,
+              quantity: remaining.quantity,
+              minimumInvestmentValueStock: remaining.minimumInvestmentValueStock,
+              realizedPnL: remaining.realizedPnL,
+              weight: editingHolding.newWeight,
+              sector: originalHolding.sector,
+              stockCapType: originalHolding.stockCapType || 'large cap'
+            }], "update", {}, [], { captureSnapshot: false });
           } catch (error) {
             console.error('Failed to update status:', error);
           }
@@ -1506,38 +1363,18 @@ export function PortfolioFormDialog({
     // For local operations (non-sell actions or new portfolios) - save to backend
     if (initialData && initialData.id) {
       try {
-        const adminToken = getAdminAccessToken();
-        if (!adminToken) {
-          throw new Error('Admin authentication required');
-        }
-        
         // Update status in backend
         console.log('Updating holding status to:', status);
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/api/portfolios/${initialData.id}`, {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${adminToken}`,
-          },
-          body: JSON.stringify({
-            stockAction: "update",
-            holdings: [{
-              symbol: originalHolding.symbol,
-              status: status,
-              buyPrice: originalHolding.buyPrice || 1,
-              quantity: originalHolding.quantity || 1,
-              minimumInvestmentValueStock: originalHolding.minimumInvestmentValueStock || 1,
-              weight: originalHolding.weight,
-              sector: originalHolding.sector,
-              stockCapType: originalHolding.stockCapType || 'large cap'
-            }]
-          })
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Failed to update status: ${errorText}`);
-        }
+        await updatePortfolioHoldings(initialData.id, [{
+          symbol: originalHolding.symbol,
+          status: status,
+          buyPrice: originalHolding.buyPrice || 1,
+          quantity: originalHolding.quantity || 1,
+          minimumInvestmentValueStock: originalHolding.minimumInvestmentValueStock || 1,
+          weight: originalHolding.weight,
+          sector: originalHolding.sector,
+          stockCapType: originalHolding.stockCapType || 'large cap'
+        }], "update", {}, [], { captureSnapshot: false });
 
         // Update local state after successful API call
         const updatedHoldings = [...holdings];
@@ -1566,22 +1403,32 @@ export function PortfolioFormDialog({
         });
       }
     } else {
-      // For new portfolios, update local state
+      // For new portfolios, trade locally with the same math the ledger
+      // replays: buys average the price, sells book realised P&L
       const investmentPrice = editingHolding.latestPrice || originalHolding.buyPrice;
-      const editBase = cashBalance + holdingsValue;
-      const recomputed = calculateInvestmentDetails(newWeight, investmentPrice, editBase);
-      const accurateWeight = Number(((recomputed.actualInvestmentAmount / editBase) * 100).toFixed(2));
+      const { baseAmount: editBase } = getWeightageCalculationBase();
+      let traded: ExtendedHolding = originalHolding;
+      if (action === 'buy' || action === 'addon') {
+        traded = applyAddonBuy(
+          originalHolding,
+          calculateAddonQuantity(newWeight, editBase, originalHolding.minimumInvestmentValueStock, investmentPrice),
+          investmentPrice
+        );
+      } else if (action === 'partial-sell' || action === 'sell') {
+        const sellQuantity = action === 'sell' ? originalHolding.quantity : pnlPreview?.quantitySold || 0;
+        traded = applyPartialSell(originalHolding, sellQuantity, investmentPrice);
+      }
+      const accurateWeight = editBase > 0 ? Number(((traded.minimumInvestmentValueStock / editBase) * 100).toFixed(2)) : 0;
+      const allocatedAmount = (newWeight / 100) * editBase;
 
       const updatedHoldings = [...holdings];
       const updatedHolding: ExtendedHolding = {
-        ...originalHolding,
+        ...traded,
         weight: accurateWeight,
-        status: status,
-        buyPrice: investmentPrice,
-        quantity: recomputed.quantity,
-        minimumInvestmentValueStock: recomputed.actualInvestmentAmount,
-        allocatedAmount: recomputed.allocatedAmount,
-        leftoverAmount: Number(recomputed.leftoverAmount.toFixed(2)),
+        // A fully sold holding is dropped when the portfolio is created
+        status: traded.quantity === 0 ? 'Sell' : status,
+        allocatedAmount,
+        leftoverAmount: Number((allocatedAmount - traded.minimumInvestmentValueStock).toFixed(2)),
         currentMarketPrice: editingHolding.latestPrice,
       };
       updatedHoldings[index] = updatedHolding;
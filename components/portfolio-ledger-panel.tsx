@@ -0,0 +1,364 @@
+// components/portfolio-ledger-panel.tsx
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { AlertCircle, AlertTriangle, BookOpen, Plus, RefreshCw } from "lucide-react"
+import {
+  fetchPortfolioTransactions,
+  recordPortfolioTransactions,
+  type CreatePortfolioTransactionRequest,
+  type PortfolioTransaction,
+  type PortfolioTransactionType,
+} from "@/lib/api-portfolio-ledger"
+import {
+  buildOpeningTransactions,
+  compareLedgerWithPortfolio,
+  replayLedger,
+  sortTransactions,
+  type LedgerPortfolio,
+} from "@/lib/portfolio-ledger"
+
+interface PortfolioLedgerPanelProps {
+  portfolio: LedgerPortfolio & { id?: string; _id?: string }
+}
+
+const TYPE_LABELS: Record<PortfolioTransactionType, string> = {
+  buy: "Buy",
+  "addon-buy": "Add-on",
+  "partial-sell": "Partial Sell",
+  exit: "Full Exit",
+  "cash-adjustment": "Cash Adjustment",
+}
+
+const TYPE_STYLES: Record<PortfolioTransactionType, string> = {
+  buy: "bg-green-100 text-green-800 border-green-200",
+  "addon-buy": "bg-blue-100 text-blue-800 border-blue-200",
+  "partial-sell": "bg-orange-100 text-orange-800 border-orange-200",
+  exit: "bg-red-100 text-red-800 border-red-200",
+  "cash-adjustment": "bg-gray-100 text-gray-800 border-gray-200",
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 2 }).format(value)
+
+const today = () => new Date().toISOString().split("T")[0]
+
+const emptyEntry = () => ({
+  type: "buy" as PortfolioTransactionType,
+  date: today(),
+  symbol: "",
+  quantity: "",
+  price: "",
+  amount: "",
+  note: "",
+})
+
+export function PortfolioLedgerPanel({ portfolio }: PortfolioLedgerPanelProps) {
+  const { toast } = useToast()
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [entry, setEntry] = useState(emptyEntry())
+
+  const portfolioId = portfolio.id || portfolio._id || ""
+
+  const loadTransactions = async () => {
+    if (!portfolioId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      setTransactions(await fetchPortfolioTransactions(portfolioId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load ledger")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTransactions()
+  }, [portfolioId])
+
+  const replay = useMemo(() => replayLedger(transactions), [transactions])
+  const discrepancies = useMemo(
+    () => (transactions.length ? compareLedgerWithPortfolio(replay, portfolio) : []),
+    [replay, portfolio, transactions.length]
+  )
+  const ordered = useMemo(() => sortTransactions(transactions).reverse(), [transactions])
+
+  const record = async (entries: CreatePortfolioTransactionRequest[], successMessage: string) => {
+    setIsSaving(true)
+    try {
+      await recordPortfolioTransactions(portfolioId, entries)
+      toast({ title: "Success", description: successMessage })
+      await loadTransactions()
+      return true
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to record transaction",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSeed = () =>
+    record(
+      buildOpeningTransactions(portfolio, new Date().toISOString()),
+      "Opening balance recorded from current holdings."
+    )
+
+  const handleAdd = async () => {
+    const isCash = entry.type === "cash-adjustment"
+    const quantity = parseInt(entry.quantity)
+    const price = parseFloat(entry.price)
+    const amount = parseFloat(entry.amount)
+
+    if (!entry.date) {
+      toast({ title: "Validation Error", description: "Date is required", variant: "destructive" })
+      return
+    }
+    if (isCash ? !amount : !entry.symbol.trim() || !(price > 0) || (entry.type !== "exit" && !(quantity > 0))) {
+      toast({
+        title: "Validation Error",
+        description: isCash ? "Enter a non-zero amount" : "Symbol, a positive price and a whole quantity are required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const saved = await record(
+      [
+        {
+          type: entry.type,
+          date: new Date(`${entry.date}T00:00:00.000Z`).toISOString(),
+          ...(isCash
+            ? { amount }
+            : { symbol: entry.symbol.trim().toUpperCase(), price, ...(entry.type !== "exit" ? { quantity } : {}) }),
+          note: entry.note.trim() || undefined,
+        },
+      ],
+      `${TYPE_LABELS[entry.type]} recorded.`
+    )
+    if (saved) {
+      setEntry(emptyEntry())
+      setShowForm(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <Card>
+          <CardContent className="p-3">
+            <div className="text-xs text-muted-foreground">Entries</div>
+            <div className="text-lg font-bold">{transactions.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3">
+            <div className="text-xs text-muted-foreground">Ledger Cash</div>
+            <div className="text-lg font-bold">{formatCurrency(replay.cashBalance)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3">
+            <div className="text-xs text-muted-foreground">Realized P&L</div>
+            <div className={`text-lg font-bold ${replay.realizedPnL >= 0 ? "text-green-600" : "text-red-600"}`}>
+              {formatCurrency(replay.realizedPnL)}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3">
+            <div className="text-xs text-muted-foreground">Open / Exited</div>
+            <div className="text-lg font-bold">
+              {replay.holdings.length} / {replay.sold.length}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {(discrepancies.length > 0 || replay.warnings.length > 0) && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Ledger does not match stored holdings</AlertTitle>
+          <AlertDescription className="text-xs space-y-1">
+            {discrepancies.map((item, index) => (
+              <div key={`${item.field}-${item.symbol || ""}-${index}`}>
+                {item.symbol ? `${item.symbol} ` : ""}
+                {item.field}: ledger {item.ledger}, stored {item.stored}
+              </div>
+            ))}
+            {replay.warnings.map((warning) => (
+              <div key={warning}>{warning}</div>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <BookOpen className="h-4 w-4" />
+              Transaction Ledger
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={loadTransactions} disabled={isLoading}>
+                <RefreshCw className={`h-3 w-3 ${isLoading ? "animate-spin" : ""}`} />
+              </Button>
+              {transactions.length === 0 && !isLoading && (
+                <Button size="sm" variant="outline" onClick={handleSeed} disabled={isSaving || !portfolioId}>
+                  Record Opening Balance
+                </Button>
+              )}
+              <Button size="sm" onClick={() => setShowForm(!showForm)} disabled={!portfolioId}>
+                <Plus className="mr-1 h-3 w-3" />
+                Record Entry
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-3">
+          {showForm && (
+            <div className="rounded-md border p-3 grid grid-cols-2 md:grid-cols-6 gap-2">
+              <Select value={entry.type} onValueChange={(value) => setEntry({ ...entry, type: value as PortfolioTransactionType })}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TYPE_LABELS) as PortfolioTransactionType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input className="h-8 text-xs" type="date" value={entry.date} onChange={(e) => setEntry({ ...entry, date: e.target.value })} />
+              {entry.type === "cash-adjustment" ? (
+                <Input
+                  className="h-8 text-xs md:col-span-3"
+                  type="number"
+                  placeholder="Amount (negative for withdrawals)"
+                  value={entry.amount}
+                  onChange={(e) => setEntry({ ...entry, amount: e.target.value })}
+                />
+              ) : (
+                <>
+                  <Input
+                    className="h-8 text-xs"
+                    placeholder="Symbol"
+                    value={entry.symbol}
+                    onChange={(e) => setEntry({ ...entry, symbol: e.target.value })}
+                  />
+                  <Input
+                    className="h-8 text-xs"
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder={entry.type === "exit" ? "All shares" : "Quantity"}
+                    value={entry.quantity}
+                    disabled={entry.type === "exit"}
+                    onChange={(e) => setEntry({ ...entry, quantity: e.target.value })}
+                  />
+                  <Input
+                    className="h-8 text-xs"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Price"
+                    value={entry.price}
+                    onChange={(e) => setEntry({ ...entry, price: e.target.value })}
+                  />
+                </>
+              )}
+              <Button size="sm" className="h-8" onClick={handleAdd} disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+              <Input
+                className="h-8 text-xs col-span-2 md:col-span-6"
+                placeholder="Note (optional)"
+                value={entry.note}
+                onChange={(e) => setEntry({ ...entry, note: e.target.value })}
+              />
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center p-6 text-sm">
+              <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+              Loading ledger...
+            </div>
+          ) : ordered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No transactions recorded yet. Record the opening balance to start the ledger from current holdings.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Cash Impact</TableHead>
+                  <TableHead>Note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ordered.map((transaction, index) => {
+                  const cashImpact =
+                    transaction.type === "cash-adjustment"
+                      ? transaction.amount || 0
+                      : (transaction.type === "buy" || transaction.type === "addon-buy" ? -1 : 1) *
+                        (transaction.quantity || 0) *
+                        (transaction.price || 0)
+                  return (
+                    <TableRow key={transaction._id || transaction.id || index}>
+                      <TableCell className="text-xs">{transaction.date.split("T")[0]}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`text-[10px] ${TYPE_STYLES[transaction.type]}`}>
+                          {TYPE_LABELS[transaction.type]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs font-medium">{transaction.symbol || "—"}</TableCell>
+                      <TableCell className="text-right text-xs">{transaction.quantity ?? (transaction.type === "exit" ? "All" : "—")}</TableCell>
+                      <TableCell className="text-right text-xs">{transaction.price ? formatCurrency(transaction.price) : "—"}</TableCell>
+                      <TableCell className={`text-right text-xs ${cashImpact >= 0 ? "text-green-600" : "text-red-600"}`}>
+                        {transaction.type === "exit" && !transaction.quantity ? "—" : formatCurrency(cashImpact)}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{transaction.note || ""}</TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+// components/portfolio-rebalance-dialog.tsx
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ConfirmDialog } from "@/components/confirm-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { AlertCircle, AlertTriangle, RefreshCw, Scale } from "lucide-react"
+import { updatePortfolioHoldings, type Portfolio } from "@/lib/api"
+import type { StockSymbol } from "@/lib/api-stock-symbols"
+import { fetchPortfolioStocks } from "@/lib/chart-data-backfill"
+import { buildRebalanceTransactions } from "@/lib/portfolio-ledger"
+import {
+  applyRebalancePlan,
+  getRebalanceableHoldings,
+  planRebalance,
+  resolveHoldingPrices,
+  type RebalanceAction,
+} from "@/lib/portfolio-rebalance"
+
+interface PortfolioRebalanceDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  portfolio: Portfolio
+  onCompleted?: () => void
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", minimumFractionDigits: 2 }).format(value)
+
+const toDateInput = (date: Date) => date.toISOString().split("T")[0]
+
+// Suggests the next rebalance date from the free-text rebalancing frequency
+const suggestNextRebalanceDate = (rebalancing: string | undefined, from: string) => {
+  const text = (rebalancing || "").toLowerCase()
+  const months = text.includes("month") ? 1 : text.includes("half") || text.includes("semi") ? 6 : text.includes("year") || text.includes("annual") ? 12 : 3
+  const date = new Date(`${from}T00:00:00.000Z`)
+  date.setUTCMonth(date.getUTCMonth() + months)
+  return toDateInput(date)
+}
+
+const ACTION_STYLES: Record<RebalanceAction, string> = {
+  buy: "bg-green-100 text-green-800 border-green-200",
+  sell: "bg-orange-100 text-orange-800 border-orange-200",
+  exit: "bg-red-100 text-red-800 border-red-200",
+  hold: "bg-gray-100 text-gray-800 border-gray-200",
+}
+
+export function PortfolioRebalanceDialog({ open, onOpenChange, portfolio, onCompleted }: PortfolioRebalanceDialogProps) {
+  const { toast } = useToast()
+  const [stocks, setStocks] = useState<Record<string, StockSymbol>>({})
+  const [targets, setTargets] = useState<Record<string, string>>({})
+  const [lastRebalanceDate, setLastRebalanceDate] = useState("")
+  const [nextRebalanceDate, setNextRebalanceDate] = useState("")
+  const [isLoadingPrices, setIsLoadingPrices] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const holdings = useMemo(() => getRebalanceableHoldings(portfolio), [portfolio])
+
+  const loadPrices = async () => {
+    setIsLoadingPrices(true)
+    setError(null)
+    try {
+      setStocks(await fetchPortfolioStocks(portfolio))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load current prices")
+    } finally {
+      setIsLoadingPrices(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    const today = toDateInput(new Date())
+    setTargets(Object.fromEntries(holdings.map((holding) => [holding.symbol, String(holding.weight)])))
+    setLastRebalanceDate(today)
+    setNextRebalanceDate(suggestNextRebalanceDate(portfolio.rebalancing, today))
+    loadPrices()
+  }, [open, portfolio])
+
+  const prices = useMemo(() => resolveHoldingPrices(holdings, stocks), [holdings, stocks])
+
+  const plan = useMemo(
+    () =>
+      planRebalance(
+        holdings,
+        prices,
+        portfolio.cashBalance || 0,
+        Object.fromEntries(Object.entries(targets).map(([symbol, value]) => [symbol, parseFloat(value) || 0]))
+      ),
+    [holdings, prices, portfolio.cashBalance, targets]
+  )
+
+  const tradeCount = plan.lines.filter((line) => line.action !== "hold").length
+  const fallbackSymbols = plan.lines.filter((line) => line.priceIsFallback).map((line) => line.symbol)
+  const isOverAllocated = plan.totalTargetWeight > 100
+
+  const setEqualWeights = () => {
+    if (holdings.length === 0) return
+    const weight = Math.floor((100 / holdings.length) * 100) / 100
+    setTargets(Object.fromEntries(holdings.map((holding) => [holding.symbol, String(weight)])))
+  }
+
+  const handleSubmit = async () => {
+    setConfirmOpen(false)
+    setIsSubmitting(true)
+    try {
+      const portfolioId = portfolio.id || portfolio._id
+      const { ledgerRecorded } = await updatePortfolioHoldings(
+        portfolioId,
+        applyRebalancePlan(portfolio, plan),
+        "replace",
+        { cashBalance: plan.cashAfter, lastRebalanceDate, nextRebalanceDate },
+        buildRebalanceTransactions(plan, new Date(`${lastRebalanceDate}T00:00:00.000Z`).toISOString())
+      )
+      if (!ledgerRecorded) {
+        toast({
+          title: "Ledger not updated",
+          description: "The rebalance was saved but its trades could not be recorded in the ledger",
+          variant: "destructive",
+        })
+      }
+      toast({
+        title: "Success",
+        description: `${portfolio.name} rebalanced with ${tradeCount} trades.`,
+      })
+      onCompleted?.()
+      onOpenChange(false)
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to rebalance portfolio",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(value) => !isSubmitting && onOpenChange(value)}>
+        <DialogContent className="max-w-[95vw] sm:max-w-6xl">
+          <DialogHeader>
+            <DialogTitle>Rebalance - {portfolio.name}</DialogTitle>
+            <DialogDescription>
+              Set target weights as a percentage of total portfolio value. Trades use current market prices and whole shares;
+              unallocated value stays in cash.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {fallbackSymbols.length > 0 && !isLoadingPrices && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Missing prices</AlertTitle>
+              <AlertDescription>No current price for {fallbackSymbols.join(", ")}; their buy price is used instead.</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+            <div className="rounded-md border p-3">
+              <div className="text-muted-foreground text-xs">Portfolio Value</div>
+              <div className="font-semibold">{formatCurrency(plan.portfolioValue)}</div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-muted-foreground text-xs">Cash Before → After</div>
+              <div className="font-semibold">
+                {formatCurrency(plan.cashBefore)} → {formatCurrency(plan.cashAfter)}
+              </div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-muted-foreground text-xs">Buys / Sells</div>
+              <div className="font-semibold">
+                <span className="text-green-600">{formatCurrency(plan.totalBuyValue)}</span> /{" "}
+                <span className="text-red-600">{formatCurrency(plan.totalSellValue)}</span>
+              </div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-muted-foreground text-xs">Realized P&L</div>
+              <div className={`font-semibold ${plan.realizedPnL >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatCurrency(plan.realizedPnL)}
+              </div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-muted-foreground text-xs">Target Weight</div>
+              <div className={`font-semibold ${isOverAllocated ? "text-red-600" : ""}`}>{plan.totalTargetWeight}%</div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="text-sm font-medium">Last Rebalance Date</label>
+              <Input
+                type="date"
+                value={lastRebalanceDate}
+                onChange={(e) => {
+                  setLastRebalanceDate(e.target.value)
+                  if (e.target.value) setNextRebalanceDate(suggestNextRebalanceDate(portfolio.rebalancing, e.target.value))
+                }}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Next Rebalance Date</label>
+              <Input type="date" value={nextRebalanceDate} onChange={(e) => setNextRebalanceDate(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={setEqualWeights} disabled={holdings.length === 0}>
+              Equal Weights
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setTargets(Object.fromEntries(holdings.map((holding) => [holding.symbol, String(holding.weight)])))}
+            >
+              Reset
+            </Button>
+            <Button variant="outline" onClick={loadPrices} disabled={isLoadingPrices}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isLoadingPrices ? "animate-spin" : ""}`} />
+              Refresh Prices
+            </Button>
+          </div>
+
+          <ScrollArea className="h-[45vh] pr-3">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Qty Before</TableHead>
+                  <TableHead className="text-right">Weight Before</TableHead>
+                  <TableHead className="w-28">Target %</TableHead>
+                  <TableHead className="text-right">Qty After</TableHead>
+                  <TableHead className="text-right">Weight After</TableHead>
+                  <TableHead className="text-right">Trade</TableHead>
+                  <TableHead>Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.lines.map((line) => (
+                  <TableRow key={line.symbol}>
+                    <TableCell className="font-medium">{line.symbol}</TableCell>
+                    <TableCell className={`text-right ${line.priceIsFallback ? "text-orange-600" : ""}`}>
+                      {formatCurrency(line.price)}
+                    </TableCell>
+                    <TableCell className="text-right">{line.currentQuantity}</TableCell>
+                    <TableCell className="text-right">{line.currentWeight.toFixed(2)}%</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        className="h-8"
+                        value={targets[line.symbol] ?? ""}
+                        onChange={(e) => setTargets((prev) => ({ ...prev, [line.symbol]: e.target.value }))}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{line.targetQuantity}</TableCell>
+                    <TableCell className="text-right">{line.resultingWeight.toFixed(2)}%</TableCell>
+                    <TableCell
+                      className={`text-right ${line.quantityChange > 0 ? "text-green-600" : line.quantityChange < 0 ? "text-red-600" : ""}`}
+                    >
+                      {line.quantityChange > 0 ? "+" : ""}
+                      {line.quantityChange}
+                      <div className="text-xs text-muted-foreground">{formatCurrency(line.tradeValue)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={ACTION_STYLES[line.action]}>
+                        {line.action}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+
+          <DialogFooter>
+            <Button
+              onClick={() => setConfirmOpen(true)}
+              disabled={isSubmitting || isLoadingPrices || isOverAllocated || tradeCount === 0 || plan.cashAfter < 0 || !lastRebalanceDate}
+            >
+              <Scale className="mr-2 h-4 w-4" />
+              {isSubmitting ? "Applying..." : `Apply ${tradeCount} Trades`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        onConfirm={handleSubmit}
+        title="Apply rebalance?"
+        description={`This replaces all holdings of ${portfolio.name} with the rebalanced list and sets cash to ${formatCurrency(plan.cashAfter)}.`}
+        confirmText="Apply"
+      />
+    </>
+  )
+}
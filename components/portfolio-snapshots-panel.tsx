@@ -0,0 +1,293 @@
+// components/portfolio-snapshots-panel.tsx
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { AlertCircle, Camera, GitCompare, History, RefreshCw } from "lucide-react"
+import type { PortfolioHolding } from "@/lib/api"
+import { createPortfolioSnapshot, fetchPortfolioSnapshots, type PortfolioSnapshot } from "@/lib/api-portfolio-snapshots"
+import { getActiveHoldings } from "@/lib/portfolio-math"
+import { diffSnapshots, findSnapshotAsOf, sortSnapshots, type SnapshotChangeKind } from "@/lib/portfolio-snapshots"
+
+interface PortfolioSnapshotsPanelProps {
+  portfolio: {
+    id?: string
+    _id?: string
+    holdings?: Array<Pick<PortfolioHolding, "symbol" | "status" | "weight" | "quantity" | "buyPrice">>
+    cashBalance?: number
+    holdingsValue?: number
+  }
+}
+
+const CHANGE_STYLES: Record<SnapshotChangeKind, string> = {
+  added: "bg-green-100 text-green-800 border-green-200",
+  removed: "bg-red-100 text-red-800 border-red-200",
+  changed: "bg-blue-100 text-blue-800 border-blue-200",
+  unchanged: "bg-gray-100 text-gray-800 border-gray-200",
+}
+
+const SOURCE_LABELS: Record<PortfolioSnapshot["source"], string> = {
+  updatePortfolio: "Portfolio edit",
+  updatePortfolioHoldings: "Holdings update",
+  manual: "Manual",
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 2 }).format(value)
+
+const formatSigned = (value: number, suffix = "") => `${value > 0 ? "+" : ""}${value}${suffix}`
+
+const snapshotKey = (snapshot: PortfolioSnapshot) => snapshot._id || snapshot.id || snapshot.capturedAt
+
+const snapshotLabel = (snapshot: PortfolioSnapshot) =>
+  `${new Date(snapshot.capturedAt).toLocaleString("en-IN")} · ${SOURCE_LABELS[snapshot.source] || snapshot.source}`
+
+export function PortfolioSnapshotsPanel({ portfolio }: PortfolioSnapshotsPanelProps) {
+  const { toast } = useToast()
+  const [snapshots, setSnapshots] = useState<PortfolioSnapshot[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isCapturing, setIsCapturing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [asOfDate, setAsOfDate] = useState(new Date().toISOString().split("T")[0])
+  const [fromKey, setFromKey] = useState("")
+  const [toKey, setToKey] = useState("")
+
+  const portfolioId = portfolio.id || portfolio._id || ""
+
+  const loadSnapshots = async () => {
+    if (!portfolioId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const sorted = sortSnapshots(await fetchPortfolioSnapshots(portfolioId))
+      setSnapshots(sorted)
+      if (sorted.length >= 2) {
+        setFromKey(snapshotKey(sorted[sorted.length - 2]))
+        setToKey(snapshotKey(sorted[sorted.length - 1]))
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load snapshots")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSnapshots()
+  }, [portfolioId])
+
+  const asOf = useMemo(() => findSnapshotAsOf(snapshots, asOfDate), [snapshots, asOfDate])
+  const diff = useMemo(() => {
+    const from = snapshots.find((snapshot) => snapshotKey(snapshot) === fromKey)
+    const to = snapshots.find((snapshot) => snapshotKey(snapshot) === toKey)
+    return from && to ? diffSnapshots(from, to) : null
+  }, [snapshots, fromKey, toKey])
+
+  const handleCapture = async () => {
+    setIsCapturing(true)
+    try {
+      const holdings = (portfolio.holdings || []) as PortfolioHolding[]
+      await createPortfolioSnapshot(portfolioId, {
+        capturedAt: new Date().toISOString(),
+        holdings,
+        cashBalance: portfolio.cashBalance || 0,
+        holdingsValue:
+          portfolio.holdingsValue ??
+          Math.round(holdings.reduce((sum, holding) => sum + holding.quantity * holding.buyPrice, 0) * 100) / 100,
+        source: "manual",
+      })
+      toast({ title: "Success", description: "Snapshot captured." })
+      await loadSnapshots()
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to capture snapshot",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCapturing(false)
+    }
+  }
+
+  const diffRows = diff ? [...diff.added, ...diff.removed, ...diff.changed] : []
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <History className="h-4 w-4" />
+              View As Of Date
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                className="h-8 w-40 text-xs"
+                value={asOfDate}
+                max={new Date().toISOString().split("T")[0]}
+                onChange={(e) => setAsOfDate(e.target.value)}
+              />
+              <Button size="sm" variant="outline" onClick={loadSnapshots} disabled={isLoading}>
+                <RefreshCw className={`h-3 w-3 ${isLoading ? "animate-spin" : ""}`} />
+              </Button>
+              <Button size="sm" onClick={handleCapture} disabled={isCapturing || !portfolioId}>
+                <Camera className="mr-1 h-3 w-3" />
+                {isCapturing ? "Capturing..." : "Capture Now"}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-3">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-6 text-sm">
+              <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+              Loading snapshots...
+            </div>
+          ) : !asOf ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {snapshots.length === 0
+                ? "No snapshots yet. One is captured each time holdings are updated."
+                : "No snapshot exists on or before this date."}
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                <span>Snapshot: {snapshotLabel(asOf)}</span>
+                <span>Cash: {formatCurrency(asOf.cashBalance || 0)}</span>
+                <span>Holdings value: {formatCurrency(asOf.holdingsValue || 0)}</span>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Weight</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Buy Price</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {getActiveHoldings(asOf.holdings).map((holding) => (
+                    <TableRow key={holding.symbol}>
+                      <TableCell className="text-xs font-medium">{holding.symbol}</TableCell>
+                      <TableCell className="text-xs">{holding.status}</TableCell>
+                      <TableCell className="text-right text-xs">{holding.weight}%</TableCell>
+                      <TableCell className="text-right text-xs">{holding.quantity}</TableCell>
+                      <TableCell className="text-right text-xs">{formatCurrency(holding.buyPrice)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <GitCompare className="h-4 w-4" />
+            Compare Snapshots
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-3">
+          {snapshots.length < 2 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">At least two snapshots are needed to compare.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {[
+                  { label: "From", value: fromKey, onChange: setFromKey },
+                  { label: "To", value: toKey, onChange: setToKey },
+                ].map(({ label, value, onChange }) => (
+                  <div key={label} className="space-y-1">
+                    <Label className="text-xs">{label}</Label>
+                    <Select value={value} onValueChange={onChange}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue placeholder="Select snapshot" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {snapshots.map((snapshot) => (
+                          <SelectItem key={snapshotKey(snapshot)} value={snapshotKey(snapshot)}>
+                            {snapshotLabel(snapshot)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {diff && (
+                <>
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <Badge variant="outline" className={CHANGE_STYLES.added}>{diff.added.length} added</Badge>
+                    <Badge variant="outline" className={CHANGE_STYLES.removed}>{diff.removed.length} removed</Badge>
+                    <Badge variant="outline" className={CHANGE_STYLES.changed}>{diff.changed.length} changed</Badge>
+                    <Badge variant="outline" className={CHANGE_STYLES.unchanged}>{diff.unchanged.length} unchanged</Badge>
+                    <span className="text-muted-foreground">
+                      Cash {formatSigned(diff.cashChange)} · Holdings value {formatSigned(diff.holdingsValueChange)}
+                    </span>
+                  </div>
+                  {diffRows.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">Holdings are identical in both snapshots.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Symbol</TableHead>
+                          <TableHead>Change</TableHead>
+                          <TableHead className="text-right">Weight</TableHead>
+                          <TableHead className="text-right">Δ Weight</TableHead>
+                          <TableHead className="text-right">Qty</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {diffRows.map((row) => (
+                          <TableRow key={row.symbol}>
+                            <TableCell className="text-xs font-medium">{row.symbol}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={`text-[10px] ${CHANGE_STYLES[row.kind]}`}>
+                                {row.kind}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right text-xs">
+                              {row.weightBefore}% → {row.weightAfter}%
+                            </TableCell>
+                            <TableCell className={`text-right text-xs ${row.weightChange >= 0 ? "text-green-600" : "text-red-600"}`}>
+                              {formatSigned(row.weightChange, "%")}
+                            </TableCell>
+                            <TableCell className="text-right text-xs">
+                              {row.quantityBefore} → {row.quantityAfter}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
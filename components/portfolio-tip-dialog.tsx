@@ -34,8 +34,8 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { Search, X, Plus, Minus } from "lucide-react";
 import { searchStockSymbols, fetchStockSymbolById } from "@/lib/api-stock-symbols";
-import { fetchWithAuth } from "@/lib/auth";
 import { updateTip } from "@/lib/api-tips";
+import { fromDateTimeLocalValue, toDateTimeLocalValue, validateTipSchedule } from "@/lib/tip-publishing";
 import { RichTextEditor } from "@/components/rich-text-editor"; // Import the RichTextEditor component
 
 // Stock symbol interface
@@ -78,6 +78,8 @@ export interface Tip {
   mpWeightage?: string;
   description: string;
   pdfLink?: string;
+  status?: string;
+  publishAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -88,7 +90,8 @@ export interface CreateTipRequest {
   category: "basic" | "premium" | "social_media";
   content: Array<{ key: string; value: string }>;
   description: string;
-  status?: "Active" | "Closed";
+  status?: "Active" | "Closed" | "Draft" | "Scheduled";
+  publishAt?: string;
   action?: string;
   buyRange?: string;
   addMoreAt?: string;
@@ -118,6 +121,14 @@ const tipSchema = z.object({
   mpWeightage: z.number().min(0, "MP Weightage must be at least 0").max(100, "MP Weightage cannot exceed 100").optional(),
   description: z.string().min(1, "Description is required"),
   pdfLink: z.string().url("Must be a valid URL").optional().or(z.literal("")),
+  status: z.enum(["Active", "Closed", "Draft", "Scheduled"]),
+  // datetime-local value, only used for Scheduled tips
+  publishAt: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const scheduleError = validateTipSchedule({ status: data.status, publishAt: fromDateTimeLocalValue(data.publishAt) || data.publishAt });
+  if (scheduleError) {
+    ctx.addIssue({ code: "custom", path: ["publishAt"], message: scheduleError });
+  }
 });
 
 type TipFormValues = z.infer<typeof tipSchema>;
@@ -188,6 +199,8 @@ export function PortfolioTipDialog({
       mpWeightage: 0,
       description: "",
       pdfLink: "",
+      status: "Active",
+      publishAt: "",
     },
   });
 
@@ -303,6 +316,8 @@ export function PortfolioTipDialog({
           mpWeightage: parseFloat(initialData.mpWeightage || initialData.weightage || "0") || 0,
           description: initialData.description || ((initialData as any).content?.[0]?.value ?? ""),
           pdfLink: (initialData as any).tipUrl || "",
+          status: (initialData.status as TipFormValues["status"]) || "Active",
+          publishAt: toDateTimeLocalValue(initialData.publishAt),
         } as TipFormValues);
         setWeightageValue(initialData.mpWeightage || initialData.weightage || "");
         
@@ -350,6 +365,8 @@ export function PortfolioTipDialog({
           mpWeightage: 0,
           description: "",
           pdfLink: "",
+          status: "Active",
+          publishAt: "",
         });
         setSelectedStockDetails(null);
         setWeightageValue("");
@@ -428,6 +445,8 @@ export function PortfolioTipDialog({
       mpWeightage: 0,
       description: "",
       pdfLink: "",
+      status: "Active",
+      publishAt: "",
     });
     setSelectedStockDetails(null);
     setSearchTerm("");
@@ -662,7 +681,8 @@ export function PortfolioTipDialog({
                 category: data.category,
                 content: content,
                 description: data.description,
-                status: "Active" as const,
+                status: data.status,
+                publishAt: data.status === "Scheduled" ? fromDateTimeLocalValue(data.publishAt) : undefined,
                 action: data.action,
                 buyRange: data.buyRange,
                 addMoreAt: data.addMoreAt,
@@ -1025,6 +1045,54 @@ export function PortfolioTipDialog({
               )}
             />
 
+            {/* Publishing */}
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className={isDark ? 'text-white' : 'text-gray-900'}>Status</FormLabel>
+                    <FormControl>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
+                        <SelectTrigger className="bg-white border-gray-300 text-gray-900">
+                          <SelectValue placeholder="Select status" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-white border-gray-200">
+                          <SelectItem value="Active" className="text-gray-900 hover:bg-gray-50">Active</SelectItem>
+                          <SelectItem value="Draft" className="text-gray-900 hover:bg-gray-50">Draft</SelectItem>
+                          <SelectItem value="Scheduled" className="text-gray-900 hover:bg-gray-50">Scheduled</SelectItem>
+                          <SelectItem value="Closed" className="text-gray-900 hover:bg-gray-50">Closed</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {watch("status") === "Scheduled" && (
+                <FormField
+                  control={form.control}
+                  name="publishAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className={isDark ? 'text-white' : 'text-gray-900'}>Publish At *</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="datetime-local"
+                          {...field}
+                          disabled={isSubmitting}
+                          className="bg-white border-gray-300 text-gray-900"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
             {/* PDF Link */}
             <FormField
               control={form.control}
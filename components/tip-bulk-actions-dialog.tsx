@@ -0,0 +1,244 @@
+// components/tip-bulk-actions-dialog.tsx
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, CheckCircle2, Loader2, MinusCircle, XCircle } from "lucide-react"
+import { deleteTip, updateTip, type Tip } from "@/lib/api-tips"
+import type { Portfolio } from "@/lib/api"
+import { fetchStockSymbolById } from "@/lib/api-stock-symbols"
+import { getTipId } from "@/lib/tip-exit"
+import {
+  TIP_BULK_ACTION_LABELS,
+  buildTipBulkRequest,
+  getTipBulkSkipReason,
+  getTipLabel,
+  runTipBulkAction,
+  type TipBulkAction,
+  type TipBulkParams,
+  type TipBulkResult,
+} from "@/lib/tip-bulk"
+
+interface TipBulkActionsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  action: TipBulkAction | null
+  tips: Tip[]
+  portfolios: Portfolio[]
+  onCompleted: (results: TipBulkResult[]) => void
+}
+
+const GENERAL_PORTFOLIO = "general"
+
+const ResultIcon = ({ status }: { status: TipBulkResult["status"] }) => {
+  switch (status) {
+    case "success":
+      return <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+    case "failed":
+      return <XCircle className="h-4 w-4 text-red-600 shrink-0" />
+    case "skipped":
+      return <MinusCircle className="h-4 w-4 text-muted-foreground shrink-0" />
+    default:
+      return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground shrink-0" />
+  }
+}
+
+export function TipBulkActionsDialog({ open, onOpenChange, action, tips, portfolios, onCompleted }: TipBulkActionsDialogProps) {
+  const [exitPrices, setExitPrices] = useState<Record<string, string>>({})
+  const [category, setCategory] = useState<Tip["category"]>("basic")
+  const [portfolio, setPortfolio] = useState(GENERAL_PORTFOLIO)
+  const [results, setResults] = useState<TipBulkResult[] | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+
+  const activeTips = tips.filter((tip) => tip.status === "Active")
+
+  useEffect(() => {
+    if (!open) return
+    setResults(null)
+    setExitPrices({})
+    if (action !== "close") return
+
+    // Pre-fill each exit price with the stock's latest price
+    let cancelled = false
+    Promise.allSettled(activeTips.map((tip) => fetchStockSymbolById(tip.stockId))).then((settled) => {
+      if (cancelled) return
+      const prices: Record<string, string> = {}
+      settled.forEach((result, index) => {
+        const price = result.status === "fulfilled" ? parseFloat(result.value.currentPrice) : NaN
+        if (price > 0) prices[getTipId(activeTips[index])] = String(price)
+      })
+      setExitPrices((current) => ({ ...prices, ...current }))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [open, action])
+
+  if (!action) return null
+
+  const params: TipBulkParams = {
+    exitPrices: Object.fromEntries(Object.entries(exitPrices).map(([id, value]) => [id, parseFloat(value)])),
+    category,
+    portfolio: portfolio === GENERAL_PORTFOLIO ? null : portfolio,
+  }
+
+  const handleRun = async () => {
+    setIsRunning(true)
+    setResults(tips.map((tip) => ({ tipId: getTipId(tip), label: getTipLabel(tip), status: "pending" })))
+    const finished = await runTipBulkAction(
+      tips,
+      (tip) => getTipBulkSkipReason(action, tip, params),
+      (tip) =>
+        action === "delete"
+          ? deleteTip(getTipId(tip))
+          : updateTip(getTipId(tip), buildTipBulkRequest(action, tip, params), { previous: tip }),
+      (result, index) => setResults((current) => current && current.map((item, i) => (i === index ? result : item)))
+    )
+    setIsRunning(false)
+    onCompleted(finished)
+  }
+
+  const processed = results?.filter((result) => result.status !== "pending").length ?? 0
+  const count = (status: TipBulkResult["status"]) => results?.filter((result) => result.status === status).length ?? 0
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isRunning && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {TIP_BULK_ACTION_LABELS[action]} {tips.length} Tip{tips.length === 1 ? "" : "s"}
+          </DialogTitle>
+          <DialogDescription>
+            Tips are processed one at a time. Ineligible tips are skipped and failures do not stop the rest.
+          </DialogDescription>
+        </DialogHeader>
+
+        {results ? (
+          <div className="space-y-3">
+            <Progress value={tips.length ? (processed / tips.length) * 100 : 0} />
+            <div className="text-sm text-muted-foreground">
+              {processed} of {tips.length} processed · {count("success")} succeeded · {count("failed")} failed ·{" "}
+              {count("skipped")} skipped
+            </div>
+            <div className="rounded-md border divide-y max-h-72 overflow-y-auto">
+              {results.map((result) => (
+                <div key={result.tipId} className="flex items-start gap-2 p-2 text-sm">
+                  <ResultIcon status={result.status} />
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{result.label}</div>
+                    {result.message && <div className="text-xs text-muted-foreground">{result.message}</div>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {action === "close" && (
+              <div className="space-y-2">
+                <Label>Exit Price (₹) per Tip</Label>
+                {activeTips.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">None of the selected tips are active.</p>
+                ) : (
+                  <div className="rounded-md border divide-y max-h-72 overflow-y-auto">
+                    {activeTips.map((tip) => (
+                      <div key={getTipId(tip)} className="flex items-center gap-2 p-2">
+                        <div className="flex-1 min-w-0 text-sm">
+                          <div className="font-medium truncate">{getTipLabel(tip)}</div>
+                          <div className="text-xs text-muted-foreground">Buy range {tip.buyRange || "—"}</div>
+                        </div>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="w-32"
+                          value={exitPrices[getTipId(tip)] || ""}
+                          onChange={(e) => setExitPrices((current) => ({ ...current, [getTipId(tip)]: e.target.value }))}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {activeTips.length < tips.length && (
+                  <p className="text-xs text-muted-foreground">
+                    {tips.length - activeTips.length} selected tip(s) are not active and will be skipped.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {action === "category" && (
+              <div className="space-y-2">
+                <Label>New Category</Label>
+                <Select value={category} onValueChange={(value) => setCategory(value as Tip["category"])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="basic">Basic</SelectItem>
+                    <SelectItem value="premium">Premium</SelectItem>
+                    <SelectItem value="social_media">Social Media</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {action === "move" && (
+              <div className="space-y-2">
+                <Label>Move To</Label>
+                <Select value={portfolio} onValueChange={setPortfolio}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={GENERAL_PORTFOLIO}>RangaOne Wealth (General)</SelectItem>
+                    {portfolios.map((item) => {
+                      const id = item.id || item._id || ""
+                      return id ? (
+                        <SelectItem key={id} value={id}>
+                          {item.name}
+                        </SelectItem>
+                      ) : null
+                    })}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {action === "delete" && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  This permanently deletes {tips.length} tip{tips.length === 1 ? "" : "s"}. This cannot be undone.
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {results ? (
+            <Button onClick={() => onOpenChange(false)} disabled={isRunning}>
+              {isRunning ? "Processing..." : "Done"}
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button variant={action === "delete" ? "destructive" : "default"} onClick={handleRun} disabled={tips.length === 0}>
+                {TIP_BULK_ACTION_LABELS[action]}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -27,12 +27,15 @@ import {
 } from "lucide-react";
 import type { Tip } from "@/lib/api-tips";
 import type { Portfolio } from "@/lib/api";
+import { TipRevisionTimeline } from "@/components/tip-revision-timeline";
 
 interface TipDetailsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   tip: Tip | null;
   portfolio?: Portfolio;
+  // Called with the tip after an earlier revision was restored
+  onTipRestored?: (tip: Tip) => void;
 }
 
 export function TipDetailsModal({
@@ -40,6 +43,7 @@ export function TipDetailsModal({
   onOpenChange,
   tip,
   portfolio,
+  onTipRestored,
 }: TipDetailsModalProps) {
   if (!tip) return null;
 
@@ -404,6 +408,8 @@ export function TipDetailsModal({
               </div>
             </CardContent>
           </Card>
+
+          <TipRevisionTimeline tip={tip} onRestored={onTipRestored} />
         </div>
       </DialogContent>
     </Dialog>
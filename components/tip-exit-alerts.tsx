@@ -0,0 +1,100 @@
+// components/tip-exit-alerts.tsx
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { BellRing, X } from "lucide-react"
+import { updateTip, type Tip } from "@/lib/api-tips"
+import { buildTipExitRequest, calculateTipExit, type TipExitAlert } from "@/lib/tip-exit"
+import { formatTipPercentage } from "@/lib/tip-prices"
+
+interface TipExitAlertsProps {
+  alerts: TipExitAlert[]
+  onDismiss: (tipId: string) => void
+  onReview: (alert: TipExitAlert) => void
+  onClosed: (tipId: string, tip: Tip) => void
+}
+
+export function TipExitAlerts({ alerts, onDismiss, onReview, onClosed }: TipExitAlertsProps) {
+  const { toast } = useToast()
+  const [closingId, setClosingId] = useState<string | null>(null)
+
+  const handleClose = async (alert: TipExitAlert) => {
+    setClosingId(alert.tipId)
+    try {
+      const exit = calculateTipExit(alert.tip, alert.price)
+      const updated = await updateTip(alert.tipId, buildTipExitRequest(alert.tip, exit))
+      toast({
+        title: "Success",
+        description: `${alert.tip.stockSymbol || alert.tip.title} closed at ₹${alert.price} (${exit.exitStatus}).`,
+      })
+      onClosed(alert.tipId, updated)
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to close tip",
+        variant: "destructive",
+      })
+    } finally {
+      setClosingId(null)
+    }
+  }
+
+  if (alerts.length === 0) return null
+
+  return (
+    <Card className="border-amber-300">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <BellRing className="h-4 w-4 text-amber-600" />
+          Exit Alerts ({alerts.length})
+        </CardTitle>
+        <CardDescription>Active tips whose live price has crossed the target or stop loss.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {alerts.map((alert) => {
+          const exit = calculateTipExit(alert.tip, alert.price)
+          return (
+            <div key={alert.tipId} className="flex flex-col sm:flex-row sm:items-center gap-2 rounded-md border p-2">
+              <div className="flex-1 min-w-0 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{alert.tip.stockSymbol || alert.tip.title}</span>
+                  <Badge
+                    variant="outline"
+                    className={
+                      alert.trigger === "target"
+                        ? "bg-green-100 text-green-800 border-green-200"
+                        : "bg-red-100 text-red-800 border-red-200"
+                    }
+                  >
+                    {alert.trigger === "target" ? "Target hit" : "Stop loss hit"}
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  ₹{alert.price} · buy range {alert.tip.buyRange || "—"}
+                  {exit.exitPercentage !== null && ` · ${formatTipPercentage(exit.exitPercentage)}`}
+                  {" · "}
+                  {new Date(alert.detectedAt).toLocaleTimeString("en-IN")}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => handleClose(alert)} disabled={closingId !== null}>
+                  {closingId === alert.tipId ? "Closing..." : `Close at ₹${alert.price}`}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onReview(alert)} disabled={closingId !== null}>
+                  Review
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => onDismiss(alert.tipId)} disabled={closingId !== null} title="Dismiss">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
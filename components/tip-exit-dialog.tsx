@@ -0,0 +1,186 @@
+// components/tip-exit-dialog.tsx
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { useToast } from "@/hooks/use-toast"
+import { AlertCircle, LogOut, RefreshCw } from "lucide-react"
+import { updateTip, type Tip } from "@/lib/api-tips"
+import { fetchStockSymbolById } from "@/lib/api-stock-symbols"
+import { buildTipExitRequest, calculateTipExit, getTipId, type TipExitStatus } from "@/lib/tip-exit"
+import { formatTipPercentage } from "@/lib/tip-prices"
+
+interface TipExitDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tip: Tip | null
+  // Price to pre-fill instead of fetching the latest stock price
+  initialPrice?: number
+  onCompleted?: (tip: Tip) => void
+}
+
+export function TipExitDialog({ open, onOpenChange, tip, initialPrice, onCompleted }: TipExitDialogProps) {
+  const { toast } = useToast()
+  const [exitPrice, setExitPrice] = useState("")
+  const [statusOverride, setStatusOverride] = useState<TipExitStatus | null>(null)
+  const [isLoadingPrice, setIsLoadingPrice] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadLatestPrice = async () => {
+    if (!tip?.stockId) return
+    setIsLoadingPrice(true)
+    setError(null)
+    try {
+      const stock = await fetchStockSymbolById(tip.stockId)
+      const price = parseFloat(stock.currentPrice)
+      if (price > 0) {
+        setExitPrice(String(price))
+      } else {
+        setError("The stock has no current price. Enter the exit price manually.")
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the latest price")
+    } finally {
+      setIsLoadingPrice(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open || !tip) return
+    setStatusOverride(null)
+    setError(null)
+    if (initialPrice && initialPrice > 0) {
+      setExitPrice(String(initialPrice))
+    } else {
+      setExitPrice("")
+      loadLatestPrice()
+    }
+  }, [open, tip, initialPrice])
+
+  const price = parseFloat(exitPrice)
+  const exit = useMemo(() => (tip && price > 0 ? calculateTipExit(tip, price) : null), [tip, price])
+  const exitStatus = statusOverride || exit?.exitStatus || "Profit Booked"
+
+  const handleConfirm = async () => {
+    if (!tip || !exit) return
+    setIsSubmitting(true)
+    try {
+      const updated = await updateTip(getTipId(tip), buildTipExitRequest(tip, { ...exit, exitStatus }))
+      toast({
+        title: "Success",
+        description: `${tip.stockSymbol || tip.title} closed at ₹${exit.exitPrice} (${exitStatus}).`,
+      })
+      onCompleted?.(updated)
+      onOpenChange(false)
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to close tip",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!tip) return null
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSubmitting && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LogOut className="h-5 w-5" />
+            Exit Tip
+          </DialogTitle>
+          <DialogDescription>
+            Close {tip.stockSymbol || tip.title} and record the exit price and outcome.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <div className="rounded-md border p-2">
+              <div className="text-muted-foreground">Buy Range</div>
+              <div className="font-medium">{tip.buyRange || "—"}</div>
+            </div>
+            <div className="rounded-md border p-2">
+              <div className="text-muted-foreground">Target</div>
+              <div className="font-medium text-green-600">{tip.targetPrice || tip.targetPercentage || "—"}</div>
+            </div>
+            <div className="rounded-md border p-2">
+              <div className="text-muted-foreground">Stop Loss</div>
+              <div className="font-medium text-red-600">{tip.stopLoss || "—"}</div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tip-exit-price">Exit Price (₹)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="tip-exit-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={exitPrice}
+                onChange={(e) => setExitPrice(e.target.value)}
+                disabled={isSubmitting}
+              />
+              <Button variant="outline" size="icon" onClick={loadLatestPrice} disabled={isLoadingPrice || isSubmitting} title="Use latest price">
+                <RefreshCw className={`h-4 w-4 ${isLoadingPrice ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Exit Status</Label>
+              <Select value={exitStatus} onValueChange={(value) => setStatusOverride(value as TipExitStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Profit Booked">Profit Booked</SelectItem>
+                  <SelectItem value="Loss Booked">Loss Booked</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Exit Percentage</Label>
+              <div
+                className={`h-10 flex items-center text-sm font-medium ${
+                  (exit?.exitPercentage ?? 0) >= 0 ? "text-green-600" : "text-red-600"
+                }`}
+              >
+                {exit?.exitPercentage == null ? "—" : formatTipPercentage(exit.exitPercentage)}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!exit || isSubmitting || isLoadingPrice}>
+            {isSubmitting ? "Closing..." : "Close Tip"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
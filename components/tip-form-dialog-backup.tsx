@@ -69,7 +69,7 @@ const tipSchema = z.object({
     .min(1, "Description is required")
     .min(10, "Description must be at least 10 characters")
     .max(5000, "Description must be less than 5000 characters"),
-  status: z.enum(["Active", "Closed"], {
+  status: z.enum(["Active", "Closed", "Draft", "Scheduled"], {
     message: "Status is required",
   }),
   action: z.string()
@@ -42,6 +42,15 @@ import { z } from "zod";
 import type { CreateTipRequest, Tip } from "@/lib/api-tips";
 import { updateTip } from "@/lib/api-tips";
 import { searchStockSymbols, type StockSymbol } from "@/lib/api-stock-symbols";
+import {
+  calculateTargetPercentage,
+  formatTipPercentage,
+  getRangeMidpoint,
+  parseTipPrice,
+  parseTipPriceRange,
+  validateTipPrices,
+} from "@/lib/tip-prices";
+import { fromDateTimeLocalValue, toDateTimeLocalValue, validateTipSchedule } from "@/lib/tip-publishing";
 import { Badge } from "@/components/ui/badge";
 import { RichTextEditor } from "@/components/rich-text-editor";
 
@@ -69,9 +78,11 @@ const tipSchema = z.object({
     .min(1, "Description is required")
     .min(10, "Description must be at least 10 characters")
     .max(5000, "Description must be less than 5000 characters"),
-  status: z.enum(["Active", "Closed"], {
+  status: z.enum(["Active", "Closed", "Draft", "Scheduled"], {
     message: "Status is required",
   }),
+  // datetime-local value, only used for Scheduled tips
+  publishAt: z.string().optional(),
   action: z.string()
     .min(1, "Action is required")
     .refine((val) => ["buy", "sell", "hold", "add more"].includes(val), {
@@ -112,6 +123,15 @@ const tipSchema = z.object({
     .min(1, "Confidence score is required")
     .max(10, "Confidence score must be between 1-10")
     .int("Confidence score must be a whole number"),
+}).superRefine((data, ctx) => {
+  // Stop loss, target and add-more levels must fit the action's direction
+  validateTipPrices(data).forEach((issue) => {
+    ctx.addIssue({ code: "custom", path: [issue.field], message: issue.message });
+  });
+  const scheduleError = validateTipSchedule({ status: data.status, publishAt: fromDateTimeLocalValue(data.publishAt) || data.publishAt });
+  if (scheduleError) {
+    ctx.addIssue({ code: "custom", path: ["publishAt"], message: scheduleError });
+  }
 });
 
 type TipFormValues = z.infer<typeof tipSchema>;
@@ -171,6 +191,7 @@ export function TipFormDialog({
       stopLoss: "",
       description: "",
       status: "Active",
+      publishAt: "",
       action: "",
       buyRange: "",
       targetPrice: "",
@@ -200,29 +221,10 @@ export function TipFormDialog({
   // Auto-calculate target/exit percentage using buy range average (but not for closed tips)
   React.useEffect(() => {
     if (isAutoCalcTarget && watchedTargetPrice && watchedStatus !== "Closed") {
-      const targetPrice = parseFloat(watchedTargetPrice);
-      const buyRange = watch("buyRange");
-      
-      if (buyRange && targetPrice > 0) {
-        // Calculate buy range average
-        const rangeMatch = buyRange.match(/^(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)$/);
-        if (rangeMatch) {
-          const minPrice = parseFloat(rangeMatch[1]);
-          const maxPrice = parseFloat(rangeMatch[2]);
-          const avgBuyPrice = (minPrice + maxPrice) / 2;
-          
-          if (avgBuyPrice > 0) {
-            let percentage;
-            if (watchedAction === "sell") {
-              // For sell action, calculate exit percentage (how much to sell at)
-              percentage = ((targetPrice - avgBuyPrice) / avgBuyPrice * 100).toFixed(2);
-            } else {
-              // For buy action, calculate target percentage (expected returns)
-              percentage = ((targetPrice - avgBuyPrice) / avgBuyPrice * 100).toFixed(2);
-            }
-            setValue("targetPercentage", `${percentage}%`);
-          }
-        }
+      // Signed move from the buy range midpoint, so sell targets come out negative
+      const percentage = calculateTargetPercentage(watch("buyRange"), watchedTargetPrice);
+      if (percentage !== null) {
+        setValue("targetPercentage", formatTipPercentage(percentage));
       }
     }
   }, [watchedTargetPrice, watch("buyRange"), isAutoCalcTarget, setValue, watchedAction, watchedStatus, watch]);
@@ -230,22 +232,12 @@ export function TipFormDialog({
   // Auto-calculate exit percentage using buy range average
   React.useEffect(() => {
     if (isAutoCalcExit && watchedExitPrice) {
-      const exitPrice = parseFloat(watchedExitPrice);
-      const buyRange = watch("buyRange");
-      
-      if (buyRange && exitPrice > 0) {
-        // Calculate buy range average
-        const rangeMatch = buyRange.match(/^(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)$/);
-        if (rangeMatch) {
-          const minPrice = parseFloat(rangeMatch[1]);
-          const maxPrice = parseFloat(rangeMatch[2]);
-          const avgBuyPrice = (minPrice + maxPrice) / 2;
-          
-          if (avgBuyPrice > 0) {
-            const percentage = ((exitPrice - avgBuyPrice) / avgBuyPrice * 100).toFixed(2);
-            setValue("exitStatusPercentage", `${percentage}%`);
-          }
-        }
+      const exitPrice = parseTipPrice(watchedExitPrice);
+      const range = parseTipPriceRange(watch("buyRange"));
+
+      if (range && exitPrice !== null) {
+        const avgBuyPrice = getRangeMidpoint(range);
+        setValue("exitStatusPercentage", formatTipPercentage(((exitPrice - avgBuyPrice) / avgBuyPrice) * 100));
       }
     }
   }, [watchedExitPrice, watch("buyRange"), isAutoCalcExit, setValue, watch]);
@@ -316,6 +308,7 @@ export function TipFormDialog({
           stopLoss: stopLossContent || initialData.stopLoss || "", // Use stop loss from content array stop-loss key
           description: initialData.description || "", // Use separate description field
           status: initialData.status || "Active",
+          publishAt: toDateTimeLocalValue(initialData.publishAt),
           action: initialData.action || "",
           buyRange: initialData.buyRange || "",
           targetPrice: initialData.targetPrice || "",
@@ -338,6 +331,7 @@ export function TipFormDialog({
           stopLoss: "",
           description: "",
           status: "Active",
+          publishAt: "",
           action: "",
           buyRange: "",
           targetPrice: "",
@@ -410,6 +404,7 @@ export function TipFormDialog({
         content: contentArray,
         description: data.description,
         status: data.status,
+        publishAt: data.status === "Scheduled" ? fromDateTimeLocalValue(data.publishAt) : undefined,
         action: data.action,
         buyRange: data.buyRange,
         targetPrice: data.targetPrice,
@@ -956,6 +951,8 @@ export function TipFormDialog({
                           <SelectContent>
                             <SelectItem value="Active">Active</SelectItem>
                             <SelectItem value="Closed">Closed</SelectItem>
+                            <SelectItem value="Draft">Draft</SelectItem>
+                            <SelectItem value="Scheduled">Scheduled</SelectItem>
                           </SelectContent>
                         </Select>
                       </FormControl>
@@ -964,6 +961,25 @@ export function TipFormDialog({
                   )}
                 />
 
+                {watchedStatus === "Scheduled" && (
+                  <FormField
+                    control={control}
+                    name="publishAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm">Publish At *</FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} disabled={isSubmitting} />
+                        </FormControl>
+                        <FormDescription className="text-xs">
+                          The tip stays hidden until this time
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <FormField
                   control={control}
                   name="horizon"
@@ -0,0 +1,129 @@
+// components/tip-review-queue.tsx
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { CalendarClock, Pencil, Send } from "lucide-react"
+import { publishDueTips, updateTip, type Tip } from "@/lib/api-tips"
+import { getTipId } from "@/lib/tip-exit"
+import { buildPublishTipRequest, getTipReviewQueue, isTipDue } from "@/lib/tip-publishing"
+
+interface TipReviewQueueProps {
+  tips: Tip[]
+  getPortfolioName: (portfolioId?: string) => string
+  onEdit: (tip: Tip) => void
+  onChanged: () => void
+}
+
+export function TipReviewQueue({ tips, getPortfolioName, onEdit, onChanged }: TipReviewQueueProps) {
+  const { toast } = useToast()
+  const [publishingId, setPublishingId] = useState<string | null>(null)
+  const [isPublishingDue, setIsPublishingDue] = useState(false)
+
+  const queue = getTipReviewQueue(tips)
+  const dueCount = queue.filter((tip) => isTipDue(tip)).length
+
+  const handlePublish = async (tip: Tip) => {
+    setPublishingId(getTipId(tip))
+    try {
+      await updateTip(getTipId(tip), buildPublishTipRequest(tip))
+      toast({ title: "Success", description: `${tip.stockSymbol || tip.title} is now live.` })
+      onChanged()
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to publish tip",
+        variant: "destructive",
+      })
+    } finally {
+      setPublishingId(null)
+    }
+  }
+
+  const handlePublishDue = async () => {
+    setIsPublishingDue(true)
+    try {
+      const result = await publishDueTips()
+      toast({
+        title: result.failed.length ? "Publishing finished with errors" : "Success",
+        description: `${result.published.length} of ${result.due.length} due tips published.`,
+        variant: result.failed.length ? "destructive" : "default",
+      })
+      onChanged()
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to publish scheduled tips",
+        variant: "destructive",
+      })
+    } finally {
+      setIsPublishingDue(false)
+    }
+  }
+
+  if (queue.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 pb-2">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <CalendarClock className="h-4 w-4" />
+            Review Queue ({queue.length})
+          </CardTitle>
+          <CardDescription>Drafts and scheduled tips that members cannot see yet.</CardDescription>
+        </div>
+        {dueCount > 0 && (
+          <Button size="sm" onClick={handlePublishDue} disabled={isPublishingDue}>
+            <Send className="mr-2 h-4 w-4" />
+            {isPublishingDue ? "Publishing..." : `Publish ${dueCount} Due`}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {queue.map((tip) => {
+          const id = getTipId(tip)
+          const due = isTipDue(tip)
+          return (
+            <div key={id} className="flex flex-col sm:flex-row sm:items-center gap-2 rounded-md border p-2">
+              <div className="flex-1 min-w-0 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{tip.stockSymbol ? `${tip.stockSymbol} - ${tip.action || tip.title}` : tip.title}</span>
+                  <Badge
+                    variant="outline"
+                    className={
+                      tip.status === "Scheduled"
+                        ? "bg-purple-100 text-purple-800 border-purple-200"
+                        : "bg-yellow-100 text-yellow-800 border-yellow-200"
+                    }
+                  >
+                    {tip.status}
+                  </Badge>
+                  {due && <Badge variant="destructive">Due</Badge>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {getPortfolioName(tip.portfolio)}
+                  {tip.status === "Scheduled" && tip.publishAt
+                    ? ` · publishes ${new Date(tip.publishAt).toLocaleString("en-IN")}`
+                    : ` · edited ${new Date(tip.updatedAt).toLocaleString("en-IN")}`}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => handlePublish(tip)} disabled={publishingId !== null || isPublishingDue}>
+                  {publishingId === id ? "Publishing..." : "Publish Now"}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onEdit(tip)} disabled={publishingId !== null}>
+                  <Pencil className="mr-1 h-3 w-3" />
+                  Edit
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,154 @@
+// components/tip-revision-timeline.tsx
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ConfirmDialog } from "@/components/confirm-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { History, RefreshCw, RotateCcw } from "lucide-react"
+import { updateTip, type Tip } from "@/lib/api-tips"
+import { fetchTipRevisions, type TipRevision } from "@/lib/api-tip-revisions"
+import { getTipId } from "@/lib/tip-exit"
+import { formatRevisionValue, getRevisionAuthor, getTipFieldLabel, sortRevisions } from "@/lib/tip-revisions"
+
+interface TipRevisionTimelineProps {
+  tip: Tip
+  onRestored?: (tip: Tip) => void
+}
+
+const getRevisionId = (revision: TipRevision) => revision._id || revision.id || revision.revisedAt
+
+export function TipRevisionTimeline({ tip, onRestored }: TipRevisionTimelineProps) {
+  const { toast } = useToast()
+  const tipId = getTipId(tip)
+  const [revisions, setRevisions] = useState<TipRevision[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [restoreTarget, setRestoreTarget] = useState<TipRevision | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const loadRevisions = useCallback(async () => {
+    if (!tipId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      setRevisions(sortRevisions(await fetchTipRevisions(tipId)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load revisions")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [tipId])
+
+  useEffect(() => {
+    loadRevisions()
+  }, [loadRevisions, tip.updatedAt])
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return
+    setIsRestoring(true)
+    try {
+      const restored = await updateTip(tipId, restoreTarget.previous, {
+        previous: tip,
+        restoredFrom: getRevisionId(restoreTarget),
+      })
+      toast({
+        title: "Success",
+        description: `Restored the version from before ${new Date(restoreTarget.revisedAt).toLocaleString("en-IN")}.`,
+      })
+      onRestored?.(restored)
+      await loadRevisions()
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to restore revision",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRestoring(false)
+      setRestoreTarget(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Revision History
+            </CardTitle>
+            <CardDescription>Every change to this tip, newest first.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadRevisions} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? "Loading revisions..." : "No revisions recorded yet."}
+          </p>
+        ) : (
+          <ol className="relative border-l pl-6 space-y-6">
+            {revisions.map((revision) => (
+              <li key={getRevisionId(revision)} className="relative">
+                <span className="absolute -left-[29px] top-1 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-2">
+                  <div className="text-sm">
+                    <span className="font-medium">{new Date(revision.revisedAt).toLocaleString("en-IN")}</span>
+                    <span className="text-muted-foreground"> · {getRevisionAuthor(revision)}</span>
+                    {revision.restoredFrom && (
+                      <Badge variant="outline" className="ml-2">
+                        Restore
+                      </Badge>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRestoreTarget(revision)}
+                    disabled={isRestoring}
+                    title="Restore the tip as it was before this change"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore Previous
+                  </Button>
+                </div>
+                <div className="rounded-md border divide-y text-sm">
+                  {revision.changes.map((change) => (
+                    <div key={change.field} className="grid grid-cols-[140px_1fr_1fr] gap-2 p-2">
+                      <span className="text-muted-foreground">{getTipFieldLabel(change.field)}</span>
+                      <span className="whitespace-pre-wrap break-words text-red-700 line-through decoration-red-300">
+                        {formatRevisionValue(change.before)}
+                      </span>
+                      <span className="whitespace-pre-wrap break-words text-green-700">
+                        {formatRevisionValue(change.after)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={restoreTarget !== null}
+        onOpenChange={(open) => !open && !isRestoring && setRestoreTarget(null)}
+        onConfirm={handleRestore}
+        title="Restore Revision"
+        description="The tip will be overwritten with its values from before this change. The restore is itself recorded as a new revision."
+        confirmText="Restore"
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,199 @@
+// components/tip-scorecard-card.tsx
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { RefreshCw, Target } from "lucide-react"
+import type { Tip } from "@/lib/api-tips"
+import { fetchStockSymbolById, type StockSymbol } from "@/lib/api-stock-symbols"
+import {
+  evaluateTip,
+  getConfidenceBucket,
+  summarizeTipScorecard,
+  type ScorecardGroup,
+  type TipEvaluation,
+} from "@/lib/tip-scorecard"
+
+interface TipScorecardCardProps {
+  tips: Tip[]
+  getPortfolioName: (portfolioId?: string) => string
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  basic: "Basic",
+  premium: "Premium",
+  social_media: "Social Media",
+}
+
+const formatPercent = (value: number | null) => {
+  if (value === null || !Number.isFinite(value)) return "N/A"
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`
+}
+
+const toneClass = (value: number | null) => {
+  if (value === null) return "text-muted-foreground"
+  return value > 0 ? "text-green-600" : value < 0 ? "text-red-600" : "text-gray-600"
+}
+
+function Metric({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="p-3 rounded-lg border bg-muted/30">
+      <div className={`text-lg sm:text-xl font-bold ${className || ""}`}>{value}</div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+    </div>
+  )
+}
+
+function ScorecardTable({ groups, label }: { groups: ScorecardGroup[]; label: string }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Tips</TableHead>
+          <TableHead className="text-right">Target Hit</TableHead>
+          <TableHead className="text-right">Stop Loss</TableHead>
+          <TableHead className="text-right">Expired</TableHead>
+          <TableHead className="text-right">Open</TableHead>
+          <TableHead className="text-right">Hit Rate</TableHead>
+          <TableHead className="text-right">Avg Return</TableHead>
+          <TableHead className="text-right">Avg Days Held</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.map((group) => (
+          <TableRow key={group.key}>
+            <TableCell className="font-medium">
+              {group.key}
+              {group.unscored > 0 && (
+                <span className="ml-2 text-xs text-muted-foreground">({group.unscored} unscored)</span>
+              )}
+            </TableCell>
+            <TableCell className="text-right">{group.total}</TableCell>
+            <TableCell className="text-right text-green-600">{group.targetHit}</TableCell>
+            <TableCell className="text-right text-red-600">{group.stopLossHit}</TableCell>
+            <TableCell className="text-right">{group.expired}</TableCell>
+            <TableCell className="text-right">{group.open}</TableCell>
+            <TableCell className="text-right">{group.hitRate === null ? "N/A" : `${group.hitRate.toFixed(1)}%`}</TableCell>
+            <TableCell className={`text-right ${toneClass(group.averageReturn)}`}>{formatPercent(group.averageReturn)}</TableCell>
+            <TableCell className="text-right">{group.averageHoldingDays === null ? "N/A" : Math.round(group.averageHoldingDays)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export function TipScorecardCard({ tips, getPortfolioName }: TipScorecardCardProps) {
+  const [stocks, setStocks] = useState<Record<string, StockSymbol>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [failedStocks, setFailedStocks] = useState(0)
+
+  const stockIds = useMemo(() => Array.from(new Set(tips.map((tip) => tip.stockId).filter(Boolean))).sort(), [tips])
+
+  const loadStocks = async () => {
+    setIsLoading(true)
+    const results = await Promise.allSettled(stockIds.map((id) => fetchStockSymbolById(id)))
+    const loaded: Record<string, StockSymbol> = {}
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") loaded[stockIds[index]] = result.value
+    })
+    setStocks(loaded)
+    setFailedStocks(results.filter((result) => result.status === "rejected").length)
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    loadStocks()
+  }, [stockIds.join(",")])
+
+  const evaluations = useMemo<TipEvaluation[]>(
+    () => (isLoading ? [] : tips.map((tip) => evaluateTip(tip, stocks[tip.stockId]))),
+    [tips, stocks, isLoading]
+  )
+  const [overall] = useMemo(() => summarizeTipScorecard(evaluations, () => "All"), [evaluations])
+  const byCategory = useMemo(
+    () => summarizeTipScorecard(evaluations, ({ tip }) => CATEGORY_LABELS[tip.category] || tip.category),
+    [evaluations]
+  )
+  const byPortfolio = useMemo(
+    () => summarizeTipScorecard(evaluations, ({ tip }) => (tip.portfolio ? getPortfolioName(tip.portfolio) : "RangaOne Wealth")),
+    [evaluations, getPortfolioName]
+  )
+  const byConfidence = useMemo(
+    () => summarizeTipScorecard(evaluations, ({ tip }) => getConfidenceBucket(tip.analysistConfidence)),
+    [evaluations]
+  )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Tip Scorecard
+          </CardTitle>
+          <CardDescription>
+            {tips.length} tips across {stockIds.length} stocks · open tips are measured against the current price
+            {failedStocks > 0 && ` · ${failedStocks} stocks could not be loaded`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadStocks} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          Reload Prices
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8 text-sm">
+            <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+            Loading stock prices...
+          </div>
+        ) : !overall ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No tips match the current filters.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <Metric label="Hit Rate" value={overall.hitRate === null ? "N/A" : `${overall.hitRate.toFixed(1)}%`} />
+              <Metric label="Average Return" value={formatPercent(overall.averageReturn)} className={toneClass(overall.averageReturn)} />
+              <Metric
+                label="Average Holding Period"
+                value={overall.averageHoldingDays === null ? "N/A" : `${Math.round(overall.averageHoldingDays)} days`}
+              />
+              <Metric label="Open Tips" value={String(overall.open)} />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">{overall.targetHit} target hit</Badge>
+              <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">{overall.stopLossHit} stop loss hit</Badge>
+              <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200">{overall.expired} expired</Badge>
+              <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">{overall.open} open</Badge>
+              {overall.unscored > 0 && <Badge variant="outline">{overall.unscored} unscored</Badge>}
+            </div>
+
+            <Tabs defaultValue="category">
+              <TabsList>
+                <TabsTrigger value="category">By Category</TabsTrigger>
+                <TabsTrigger value="portfolio">By Portfolio</TabsTrigger>
+                <TabsTrigger value="confidence">By Confidence</TabsTrigger>
+              </TabsList>
+              <TabsContent value="category" className="overflow-x-auto">
+                <ScorecardTable groups={byCategory} label="Category" />
+              </TabsContent>
+              <TabsContent value="portfolio" className="overflow-x-auto">
+                <ScorecardTable groups={byPortfolio} label="Portfolio" />
+              </TabsContent>
+              <TabsContent value="confidence" className="overflow-x-auto">
+                <ScorecardTable groups={byConfidence} label="Analyst Confidence" />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,320 @@
+// components/two-factor-settings.tsx
+"use client"
+
+import { useEffect, useState } from "react"
+import { Copy, Download, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  fetchTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+} from "@/lib/api-two-factor"
+
+const TOTP_LENGTH = 6
+
+/**
+ * Six-digit entry for a code from an authenticator app.
+ */
+export function TotpCodeInput({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+}) {
+  return (
+    <InputOTP maxLength={TOTP_LENGTH} value={value} onChange={onChange} disabled={disabled} pattern="^[0-9]*$">
+      <InputOTPGroup>
+        {Array.from({ length: TOTP_LENGTH }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  )
+}
+
+const downloadRecoveryCodes = (codes: string[]) => {
+  const blob = new Blob([`Ranga One admin recovery codes\n\n${codes.join("\n")}\n`], { type: "text/plain;charset=utf-8;" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = "admin-recovery-codes.txt"
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+type PendingAction = "regenerate" | "disable" | null
+
+/**
+ * Lets the signed-in admin turn TOTP two-factor authentication on and off
+ * and manage their recovery codes.
+ */
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [code, setCode] = useState("")
+  const [password, setPassword] = useState("")
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const { toast } = useToast()
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await fetchTwoFactorStatus())
+    } catch (error) {
+      toast({
+        title: "Failed to load two-factor status",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      })
+    }
+  }
+
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  const run = async (task: () => Promise<void>, failureTitle: string) => {
+    setIsWorking(true)
+    try {
+      await task()
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleStartSetup = () =>
+    run(async () => {
+      setCode("")
+      setSetup(await startTwoFactorSetup())
+    }, "Failed to start setup")
+
+  const handleEnable = () =>
+    run(async () => {
+      const codes = await enableTwoFactor(code)
+      setSetup(null)
+      setCode("")
+      setRecoveryCodes(codes)
+      toast({ title: "Two-factor authentication enabled", description: "Save your recovery codes before leaving" })
+      await loadStatus()
+    }, "Failed to enable two-factor authentication")
+
+  const closePendingAction = () => {
+    setPendingAction(null)
+    setCode("")
+    setPassword("")
+  }
+
+  const handleConfirmAction = () =>
+    run(async () => {
+      if (pendingAction === "disable") {
+        await disableTwoFactor(password, code)
+        toast({ title: "Two-factor authentication disabled" })
+      } else {
+        setRecoveryCodes(await regenerateRecoveryCodes(code))
+        toast({ title: "New recovery codes generated", description: "Your previous codes no longer work" })
+      }
+      closePendingAction()
+      await loadStatus()
+    }, pendingAction === "disable" ? "Failed to disable two-factor authentication" : "Failed to generate recovery codes")
+
+  const copyRecoveryCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"))
+      toast({ title: "Recovery codes copied" })
+    } catch (error) {
+      toast({ title: "Copy failed", description: "Select the codes and copy them manually", variant: "destructive" })
+    }
+  }
+
+  // Recovery codes are only ever shown once, right after they are issued
+  if (recoveryCodes.length > 0) {
+    return (
+      <Card className="max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Save your recovery codes
+          </CardTitle>
+          <CardDescription>
+            Each code signs you in once if you lose your authenticator. They will not be shown again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={copyRecoveryCodes}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+          <Button variant="outline" onClick={() => downloadRecoveryCodes(recoveryCodes)}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+          <Button onClick={() => setRecoveryCodes([])}>I have saved these codes</Button>
+        </CardFooter>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="max-w-md">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          {status && (
+            <Badge variant={status.enabled ? "default" : "secondary"}>{status.enabled ? "Enabled" : "Disabled"}</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Require a code from an authenticator app such as Google Authenticator or 1Password when you log in
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!status ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : setup ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with your authenticator app, then enter the six-digit code it shows.
+            </p>
+            {setup.qrCode && (
+              <img src={setup.qrCode} alt="Two-factor QR code" className="mx-auto h-48 w-48 rounded-md border bg-white p-2" />
+            )}
+            <div className="space-y-1">
+              <Label>Or enter this key manually</Label>
+              <p className="break-all rounded-md bg-muted p-2 font-mono text-sm">{setup.secret}</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Authentication code</Label>
+              <TotpCodeInput value={code} onChange={setCode} disabled={isWorking} />
+            </div>
+          </>
+        ) : status.enabled ? (
+          <p className="text-sm text-muted-foreground">
+            Two-factor authentication is protecting this account.
+            {status.recoveryCodesRemaining !== undefined &&
+              ` You have ${status.recoveryCodesRemaining} unused recovery code${status.recoveryCodesRemaining === 1 ? "" : "s"}.`}
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Your account is protected by your password only. Anyone who learns it can act as you.
+          </p>
+        )}
+      </CardContent>
+
+      {status && (
+        <CardFooter className="flex flex-wrap gap-2">
+          {setup ? (
+            <>
+              <Button onClick={handleEnable} disabled={isWorking || code.length !== TOTP_LENGTH}>
+                {isWorking ? "Verifying..." : "Verify and Enable"}
+              </Button>
+              <Button variant="outline" onClick={() => setSetup(null)} disabled={isWorking}>
+                Cancel
+              </Button>
+            </>
+          ) : status.enabled ? (
+            <>
+              <Button variant="outline" onClick={() => setPendingAction("regenerate")}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                New Recovery Codes
+              </Button>
+              <Button variant="destructive" onClick={() => setPendingAction("disable")}>
+                <ShieldOff className="mr-2 h-4 w-4" />
+                Disable
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handleStartSetup} disabled={isWorking}>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              {isWorking ? "Starting..." : "Enable Two-Factor Authentication"}
+            </Button>
+          )}
+        </CardFooter>
+      )}
+
+      <Dialog open={pendingAction !== null} onOpenChange={(open) => !open && closePendingAction()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction === "disable" ? "Disable two-factor authentication" : "Generate new recovery codes"}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingAction === "disable"
+                ? "Confirm with your password and a code from your authenticator app."
+                : "Your current recovery codes will stop working. Confirm with a code from your authenticator app."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {pendingAction === "disable" && (
+              <div className="space-y-2">
+                <Label htmlFor="twoFactorPassword">Password</Label>
+                <Input
+                  id="twoFactorPassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={isWorking}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Authentication code</Label>
+              <TotpCodeInput value={code} onChange={setCode} disabled={isWorking} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closePendingAction} disabled={isWorking}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAction === "disable" ? "destructive" : "default"}
+              onClick={handleConfirmAction}
+              disabled={isWorking || code.length !== TOTP_LENGTH || (pendingAction === "disable" && !password)}
+            >
+              {isWorking ? "Confirming..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,110 @@
+// hooks/use-idle-timeout.ts
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { isAuthenticated, logout } from "@/lib/auth"
+
+// Shared through localStorage so activity in any tab keeps every tab alive
+const LAST_ACTIVITY_KEY = "admin_last_activity"
+
+// Tells the login page why the admin was logged out
+export const LOGOUT_REASON_KEY = "admin_logout_reason"
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart", "wheel"]
+
+// Activity is written at most this often instead of on every mousemove
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000
+
+const CHECK_INTERVAL_MS = 1000
+
+interface IdleTimeoutOptions {
+  // Inactivity after which the admin is logged out
+  timeoutMs: number
+  // How long before the logout the warning appears
+  warningMs: number
+}
+
+interface IdleTimeoutHook {
+  warning: boolean
+  secondsLeft: number
+  stayActive: () => void
+  logoutNow: () => void
+}
+
+const readLastActivity = (): number => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0
+
+const writeLastActivity = (time: number) => {
+  try {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(time))
+  } catch (error) {
+    // Storage can be full or blocked; this tab still tracks its own activity
+  }
+}
+
+/**
+ * Logs the admin out with logout() after `timeoutMs` without activity in
+ * any tab, showing a countdown for the last `warningMs`. Once the warning
+ * is up only stayActive() resets it, so a stray mouse move does not.
+ */
+export function useIdleTimeout({ timeoutMs, warningMs }: IdleTimeoutOptions): IdleTimeoutHook {
+  const [warning, setWarning] = useState(false)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+  const lastActivityRef = useRef(Date.now())
+  const lastWriteRef = useRef(0)
+  const warningRef = useRef(false)
+  const loggingOutRef = useRef(false)
+
+  const recordActivity = useCallback(() => {
+    const now = Date.now()
+    lastActivityRef.current = now
+    if (now - lastWriteRef.current >= ACTIVITY_WRITE_INTERVAL_MS) {
+      lastWriteRef.current = now
+      writeLastActivity(now)
+    }
+  }, [])
+
+  const logoutNow = useCallback(() => {
+    if (loggingOutRef.current) return
+    loggingOutRef.current = true
+    sessionStorage.setItem(LOGOUT_REASON_KEY, "idle")
+    // The auth provider sends every tab to the login page
+    logout()
+  }, [])
+
+  const stayActive = useCallback(() => {
+    lastWriteRef.current = 0
+    recordActivity()
+    warningRef.current = false
+    setWarning(false)
+  }, [recordActivity])
+
+  useEffect(() => {
+    recordActivity()
+
+    const handleActivity = () => {
+      if (!warningRef.current) recordActivity()
+    }
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }))
+
+    const timer = setInterval(() => {
+      if (!isAuthenticated()) return
+      const lastActivity = Math.max(lastActivityRef.current, readLastActivity())
+      const remaining = timeoutMs - (Date.now() - lastActivity)
+
+      if (remaining <= 0) {
+        logoutNow()
+      } else {
+        warningRef.current = remaining <= warningMs
+        setWarning(warningRef.current)
+        setSecondsLeft(Math.ceil(remaining / 1000))
+      }
+    }, CHECK_INTERVAL_MS)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+      clearInterval(timer)
+    }
+  }, [timeoutMs, warningMs, recordActivity, logoutNow])
+
+  return { warning, secondsLeft, stayActive, logoutNow }
+}
@@ -0,0 +1,27 @@
+// hooks/use-permissions.ts
+"use client"
+
+import { useCallback } from "react"
+import { useAuth } from "@/hooks/use-auth"
+import { hasPermission, normalizeRole, type AdminRole, type Permission } from "@/lib/permissions"
+
+interface PermissionsHook {
+  // Null until the session has loaded, or when the role is not recognised
+  role: AdminRole | null
+  loading: boolean
+  can: (permission: Permission | null | undefined) => boolean
+}
+
+/**
+ * The signed-in admin's role and a check against the permission matrix.
+ * Nothing is allowed while the session is still loading.
+ */
+export function usePermissions(): PermissionsHook {
+  const auth = useAuth()
+  const user = auth?.user
+  const role = user ? normalizeRole(user.role) : null
+
+  const can = useCallback((permission: Permission | null | undefined) => hasPermission(role, permission), [role])
+
+  return { role, loading: auth?.loading ?? true, can }
+}
@@ -0,0 +1,40 @@
+// hooks/use-scheduled-tip-publisher.ts
+"use client"
+
+import { useEffect, useRef } from "react"
+import { publishDueTips, type Tip, type PublishDueTipsResult } from "@/lib/api-tips"
+import { isTipDue } from "@/lib/tip-publishing"
+
+const CHECK_INTERVAL_MS = 60 * 1000
+
+/**
+ * While mounted, checks every minute for Scheduled tips past their publish
+ * time and publishes them through the publish-due queue route.
+ */
+export function useScheduledTipPublisher(tips: Tip[], onPublished: (result: PublishDueTipsResult) => void) {
+  const tipsRef = useRef(tips)
+  const onPublishedRef = useRef(onPublished)
+  const isRunningRef = useRef(false)
+
+  tipsRef.current = tips
+  onPublishedRef.current = onPublished
+
+  useEffect(() => {
+    const check = async () => {
+      if (isRunningRef.current || !tipsRef.current.some((tip) => isTipDue(tip))) return
+      isRunningRef.current = true
+      try {
+        const result = await publishDueTips()
+        if (result.published.length || result.failed.length) onPublishedRef.current(result)
+      } catch (error) {
+        console.warn("Scheduled tip publishing failed:", error)
+      } finally {
+        isRunningRef.current = false
+      }
+    }
+
+    check()
+    const interval = setInterval(check, CHECK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+}
@@ -0,0 +1,61 @@
+// hooks/use-tip-exit-alerts.ts
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { Tip } from "@/lib/api-tips"
+import { ensureRealtimeConnection, subscribeToRealtimeUpdates } from "@/lib/api-stock-symbols"
+import { findTipExitAlerts, type TipExitAlert } from "@/lib/tip-exit"
+
+interface TipExitAlertsHook {
+  alerts: TipExitAlert[]
+  dismissAlert: (tipId: string) => void
+  resolveAlert: (tipId: string) => void
+}
+
+/**
+ * Watches realtime price updates and queues an alert for each active tip
+ * that crosses its target or stop loss. A dismissed alert is not raised
+ * again for the same trigger until the page reloads.
+ */
+export function useTipExitAlerts(tips: Tip[]): TipExitAlertsHook {
+  const [alerts, setAlerts] = useState<TipExitAlert[]>([])
+  const tipsRef = useRef(tips)
+  const dismissedRef = useRef(new Set<string>())
+
+  useEffect(() => {
+    tipsRef.current = tips
+    // Drop alerts for tips that are no longer active
+    const active = new Set(tips.filter((tip) => tip.status === "Active").map((tip) => tip._id || tip.id))
+    setAlerts((prev) => prev.filter((alert) => active.has(alert.tipId)))
+  }, [tips])
+
+  useEffect(() => {
+    ensureRealtimeConnection()
+    return subscribeToRealtimeUpdates((stocks) => {
+      const found = findTipExitAlerts(tipsRef.current, stocks).filter(
+        (alert) => !dismissedRef.current.has(`${alert.tipId}:${alert.trigger}`)
+      )
+      if (found.length === 0) return
+      setAlerts((prev) => {
+        const next = new Map(prev.map((alert) => [alert.tipId, alert]))
+        found.forEach((alert) => next.set(alert.tipId, alert))
+        return Array.from(next.values())
+      })
+    })
+  }, [])
+
+  const dismissAlert = useCallback((tipId: string) => {
+    setAlerts((prev) => {
+      prev
+        .filter((alert) => alert.tipId === tipId)
+        .forEach((alert) => dismissedRef.current.add(`${alert.tipId}:${alert.trigger}`))
+      return prev.filter((alert) => alert.tipId !== tipId)
+    })
+  }, [])
+
+  const resolveAlert = useCallback((tipId: string) => {
+    setAlerts((prev) => prev.filter((alert) => alert.tipId !== tipId))
+  }, [])
+
+  return { alerts, dismissAlert, resolveAlert }
+}
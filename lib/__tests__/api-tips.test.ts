@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { normalizeTip, normalizeTips } from "@/lib/api-tips";
+
+describe("normalizeTip", () => {
+  it("fills id from _id and _id from id", () => {
+    expect(normalizeTip({ _id: "a1" })).toMatchObject({ _id: "a1", id: "a1" });
+    expect(normalizeTip({ id: "b2" })).toMatchObject({ _id: "b2", id: "b2" });
+  });
+
+  it("uses empty ids when the tip has none", () => {
+    expect(normalizeTip({ title: "No id" })).toMatchObject({ _id: "", id: "", title: "No id" });
+  });
+
+  it("tolerates a missing tip", () => {
+    expect(normalizeTip(null)).toMatchObject({ _id: "", id: "", content: [], downloadLinks: [] });
+  });
+
+  it("turns string content into a single entry", () => {
+    expect(normalizeTip({ _id: "a", content: "Buy on dips" }).content).toEqual([{ key: "Content", value: "Buy on dips" }]);
+    expect(normalizeTip({ _id: "a", content: "   " }).content).toEqual([]);
+  });
+
+  it("keeps key-value content and drops unusable items", () => {
+    const tip = normalizeTip({
+      _id: "a",
+      content: [{ key: "Entry", value: 120 }, "Note", "", null, 42, { value: "Orphan" }],
+    });
+    expect(tip.content).toEqual([
+      { key: "Entry", value: "120" },
+      { key: "Content", value: "Note" },
+      { key: "", value: "Orphan" },
+    ]);
+  });
+
+  it("defaults missing content and download links to empty arrays", () => {
+    const tip = normalizeTip({ _id: "a", downloadLinks: "not-a-list" });
+    expect(tip.content).toEqual([]);
+    expect(tip.downloadLinks).toEqual([]);
+  });
+
+  it("drops download links that are not objects", () => {
+    const link = { name: "Report", url: "https://example.com/report.pdf" };
+    expect(normalizeTip({ _id: "a", downloadLinks: [link, null, "x"] }).downloadLinks).toEqual([link]);
+  });
+
+  it("reads the portfolio from portfolio_id or a populated portfolio", () => {
+    expect(normalizeTip({ _id: "a", portfolio_id: "p1" })).not.toHaveProperty("portfolio_id");
+    expect(normalizeTip({ _id: "a", portfolio_id: "p1" }).portfolio).toBe("p1");
+    expect(normalizeTip({ _id: "a", portfolio: { _id: "p2", name: "Growth" } }).portfolio).toBe("p2");
+    expect(normalizeTip({ _id: "a", portfolio: { id: "p3" } }).portfolio).toBe("p3");
+    expect(normalizeTip({ _id: "a", portfolio: null }).portfolio).toBeUndefined();
+  });
+
+  it("stores numeric price fields as strings", () => {
+    const tip = normalizeTip({ _id: "a", targetPrice: 150, stopLoss: 0, buyRange: "100-110", exitedPrice: 142.5 });
+    expect(tip.targetPrice).toBe("150");
+    expect(tip.stopLoss).toBe("0");
+    expect(tip.buyRange).toBe("100-110");
+    expect(tip.exitedPrice).toBe("142.5");
+  });
+
+  it("parses a stringified confidence and drops one that is not a number", () => {
+    expect(normalizeTip({ _id: "a", analysistConfidence: "8" }).analysistConfidence).toBe(8);
+    expect(normalizeTip({ _id: "a", analysistConfidence: 7 }).analysistConfidence).toBe(7);
+    expect(normalizeTip({ _id: "a", analysistConfidence: "high" }).analysistConfidence).toBeUndefined();
+    expect(normalizeTip({ _id: "a", analysistConfidence: "" }).analysistConfidence).toBeUndefined();
+  });
+});
+
+describe("normalizeTips", () => {
+  const raw = [{ _id: "a" }, { id: "b", content: "Hold" }];
+
+  it("accepts a bare array", () => {
+    expect(normalizeTips(raw).map((tip) => tip.id)).toEqual(["a", "b"]);
+  });
+
+  it("accepts a list wrapped in data or tips", () => {
+    expect(normalizeTips({ data: raw }).map((tip) => tip.id)).toEqual(["a", "b"]);
+    expect(normalizeTips({ tips: raw }).map((tip) => tip.id)).toEqual(["a", "b"]);
+  });
+
+  it("normalizes every tip in the list", () => {
+    expect(normalizeTips({ data: raw })[1].content).toEqual([{ key: "Content", value: "Hold" }]);
+  });
+
+  it("returns an empty list for anything else", () => {
+    expect(normalizeTips(null)).toEqual([]);
+    expect(normalizeTips({})).toEqual([]);
+    expect(normalizeTips({ data: { _id: "a" } })).toEqual([]);
+    expect(normalizeTips("tips")).toEqual([]);
+  });
+});
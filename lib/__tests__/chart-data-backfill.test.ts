@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { findUncoveredHolidayYears, isTradingDay, listTradingDays } from "@/lib/chart-data-backfill";
+
+describe("isTradingDay", () => {
+  it("skips weekends and listed holidays", () => {
+    expect(isTradingDay("2026-01-24")).toBe(false);
+    expect(isTradingDay("2026-01-26")).toBe(false);
+    expect(isTradingDay("2026-01-27")).toBe(true);
+  });
+
+  it("uses the holidays it is given", () => {
+    expect(isTradingDay("2026-01-27", ["2026-01-27"])).toBe(false);
+  });
+});
+
+describe("listTradingDays", () => {
+  it("lists weekdays in the range that are not holidays", () => {
+    expect(listTradingDays("2025-12-24", "2025-12-29")).toEqual(["2025-12-24", "2025-12-26", "2025-12-29"]);
+  });
+});
+
+describe("findUncoveredHolidayYears", () => {
+  it("returns nothing for years with a calendar", () => {
+    expect(findUncoveredHolidayYears("2024-06-01", "2026-06-01")).toEqual([]);
+  });
+
+  it("lists every year in the range without a calendar", () => {
+    expect(findUncoveredHolidayYears("2026-11-01", "2028-02-01")).toEqual([2027, 2028]);
+    expect(findUncoveredHolidayYears("2023-12-01", "2024-01-31")).toEqual([2023]);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildImportRows,
+  parseImportDate,
+  parseImportNumber,
+  type ColumnMapping,
+  type ParsedSpreadsheet,
+} from "@/lib/chart-data-import";
+
+describe("parseImportDate", () => {
+  it("reads ISO dates and ignores a time part", () => {
+    expect(parseImportDate("2025-04-05")).toBe("2025-04-05");
+    expect(parseImportDate("2025-4-5T09:15:00Z")).toBe("2025-04-05");
+  });
+
+  it("reads slash, dash and dot dates in the chosen order", () => {
+    expect(parseImportDate("05/04/2025", "DMY")).toBe("2025-04-05");
+    expect(parseImportDate("05/04/2025", "MDY")).toBe("2025-05-04");
+    expect(parseImportDate("5-4-2025")).toBe("2025-04-05");
+    expect(parseImportDate("05.04.2025")).toBe("2025-04-05");
+  });
+
+  it("reads two-digit years as 20xx", () => {
+    expect(parseImportDate("05/04/25")).toBe("2025-04-05");
+    expect(parseImportDate("12/31/99", "MDY")).toBe("2099-12-31");
+  });
+
+  it("reads Excel serial dates and spreadsheet Date cells", () => {
+    expect(parseImportDate(45658)).toBe("2025-01-01");
+    expect(parseImportDate(new Date(2025, 3, 5))).toBe("2025-04-05");
+    expect(parseImportDate(new Date(Number.NaN))).toBeNull();
+  });
+
+  it("rejects dates that do not exist", () => {
+    expect(parseImportDate("31/02/2025")).toBeNull();
+    expect(parseImportDate("02/31/2025", "MDY")).toBeNull();
+    expect(parseImportDate("2025-13-01")).toBeNull();
+    expect(parseImportDate("29/02/2025")).toBeNull();
+    expect(parseImportDate("29/02/2024")).toBe("2024-02-29");
+  });
+
+  it("rejects text and blanks", () => {
+    expect(parseImportDate("yesterday")).toBeNull();
+    expect(parseImportDate("")).toBeNull();
+    expect(parseImportDate(undefined)).toBeNull();
+  });
+});
+
+describe("parseImportNumber", () => {
+  it("reads rupee amounts with Indian and Western grouping", () => {
+    expect(parseImportNumber("₹1,23,456")).toBe(123456);
+    expect(parseImportNumber("1,234,567.89")).toBe(1234567.89);
+    expect(parseImportNumber(" -250.5 ")).toBe(-250.5);
+    expect(parseImportNumber(".5")).toBe(0.5);
+  });
+
+  it("passes finite numbers through", () => {
+    expect(parseImportNumber(42)).toBe(42);
+    expect(parseImportNumber(Number.POSITIVE_INFINITY)).toBeNull();
+  });
+
+  it("rejects text and blanks", () => {
+    expect(parseImportNumber("12abc")).toBeNull();
+    expect(parseImportNumber("1.2.3")).toBeNull();
+    expect(parseImportNumber("")).toBeNull();
+  });
+});
+
+describe("buildImportRows", () => {
+  const mapping: ColumnMapping = {
+    date: "Date",
+    portfolioValue: "Value",
+    cashRemaining: "Cash",
+    compareIndexPriceSource: "Source",
+    dataVerified: "Verified",
+  };
+  const sheet = (rows: Record<string, unknown>[]): ParsedSpreadsheet => ({
+    fileName: "logs.csv",
+    headers: ["Date", "Value", "Cash", "Source", "Verified"],
+    rows,
+  });
+
+  it("builds a request for a valid row", () => {
+    const [row] = buildImportRows(sheet([{ Date: "05/04/2025", Value: "₹1,23,456", Cash: "1,000", Source: "", Verified: "yes" }]), mapping);
+    expect(row.rowNumber).toBe(2);
+    expect(row.errors).toEqual([]);
+    expect(row.provided).toEqual(["date", "portfolioValue", "cashRemaining", "dataVerified"]);
+    expect(row.data).toMatchObject({
+      date: "2025-04-05T00:00:00.000Z",
+      dateOnly: "2025-04-05",
+      portfolioValue: 123456,
+      cashRemaining: 1000,
+      compareIndexValue: 0,
+      compareIndexPriceSource: "closing",
+      usedClosingPrices: true,
+      dataVerified: true,
+    });
+  });
+
+  it("reports empty required fields", () => {
+    const [row] = buildImportRows(sheet([{ Date: "", Value: "" }]), mapping);
+    expect(row.errors).toEqual(["Date is empty", "Portfolio Value is empty"]);
+    expect(row.data).toBeNull();
+  });
+
+  it("reports values that do not convert", () => {
+    const [row] = buildImportRows(
+      sheet([{ Date: "31/02/2025", Value: "-5", Cash: "lots", Source: "midday", Verified: "maybe" }]),
+      mapping
+    );
+    expect(row.errors).toEqual([
+      'Invalid date "31/02/2025"',
+      'Cash Remaining "lots" is not a number',
+      'Data Verified "maybe" is not yes/no',
+      "Portfolio Value cannot be negative",
+      'Index Price Source "midday" must be closing or opening',
+    ]);
+    expect(row.data).toBeNull();
+  });
+
+  it("drops a row whose only problem is a yes/no flag", () => {
+    const [row] = buildImportRows(sheet([{ Date: "2025-04-05", Value: "100", Verified: "maybe" }]), mapping);
+    expect(row.errors).toEqual(['Data Verified "maybe" is not yes/no']);
+    expect(row.data).toBeNull();
+  });
+
+  it("flags repeated dates against the first row that used them", () => {
+    const rows = buildImportRows(
+      sheet([
+        { Date: "05/04/2025", Value: "100" },
+        { Date: "04/05/2025", Value: "101" },
+        { Date: "2025-04-05", Value: "102" },
+      ]),
+      mapping
+    );
+    expect(rows.map((row) => row.errors)).toEqual([[], [], ["Same date as row 2"]]);
+  });
+
+  it("applies the chosen date order", () => {
+    const [row] = buildImportRows(sheet([{ Date: "05/04/2025", Value: "100" }]), mapping, "MDY");
+    expect(row.dateOnly).toBe("2025-05-04");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { ChartDataPoint } from "@/lib/api-chart-data";
+import { validateChartDataSeries } from "@/lib/chart-data-quality";
+
+const point = (dateOnly: string, overrides: Partial<ChartDataPoint> = {}): ChartDataPoint => ({
+  _id: dateOnly,
+  portfolio: "p1",
+  date: `${dateOnly}T10:00:00.000Z`,
+  dateOnly,
+  portfolioValue: 10000,
+  cashRemaining: 1000,
+  compareIndexValue: 22000,
+  compareIndexPriceSource: "closing",
+  usedClosingPrices: true,
+  dataVerified: false,
+  dataQualityIssues: [],
+  ...overrides,
+});
+
+// Current holdings are worth 9000, so 10000 with 1000 cash matches them
+const valueHoldings = () => ({ holdingsValue: 9000, pricedHoldings: 1, totalHoldings: 1, missingSymbols: [] });
+
+describe("validateChartDataSeries", () => {
+  it("never marks a clean entry as verified", () => {
+    const [result] = validateChartDataSeries([point("2026-03-02")]).results;
+    expect(result.issues).toEqual([]);
+    expect(result.nextVerified).toBe(false);
+    expect(result.changed).toBe(false);
+  });
+
+  it("keeps the verified flag on clean entries and clears it on flagged ones", () => {
+    const { results } = validateChartDataSeries([
+      point("2026-03-02", { dataVerified: true }),
+      point("2026-03-03", { dataVerified: true, cashRemaining: -5 }),
+    ]);
+    expect(results[0].nextVerified).toBe(true);
+    expect(results[0].changed).toBe(false);
+    expect(results[1].rules).toContain("NEGATIVE_CASH");
+    expect(results[1].nextVerified).toBe(false);
+    expect(results[1].changed).toBe(true);
+  });
+
+  it("only compares holdings for entries after the last holdings change", () => {
+    const points = [
+      point("2026-03-02", { portfolioValue: 12000 }),
+      point("2026-03-03", { portfolioValue: 12000 }),
+      point("2026-03-04", { portfolioValue: 12000 }),
+    ];
+    const { results } = validateChartDataSeries(points, { valueHoldings, holdingsSince: "2026-03-03" });
+    expect(results.map((result) => result.rules.includes("VALUATION_MISMATCH"))).toEqual([false, false, true]);
+  });
+
+  it("skips the holdings comparison when the last change is unknown", () => {
+    const { results } = validateChartDataSeries([point("2026-03-02", { portfolioValue: 12000 })], {
+      valueHoldings,
+      holdingsSince: null,
+    });
+    expect(results[0].issues).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  ROLE_PERMISSIONS,
+  getBackendPermission,
+  getRoutePermission,
+  hasPermission,
+  normalizeRole,
+  type AdminRole,
+} from "@/lib/permissions";
+
+const ALL: AdminRole[] = ["super-admin", "research-analyst", "support", "finance"];
+const S: AdminRole = "super-admin";
+const R: AdminRole = "research-analyst";
+const P: AdminRole = "support";
+const F: AdminRole = "finance";
+
+// Whether the proxy lets the role make the call
+const canCall = (role: AdminRole | null, method: string, path: string) => {
+  const permission = getBackendPermission(method, path);
+  return permission !== false && hasPermission(role, permission);
+};
+
+// One call per backend rule, with the roles allowed to make it
+const MATRIX: [string, string, AdminRole[]][] = [
+  ["GET", "/admin/files/logs", [S]],
+  ["DELETE", "/admin/files/logs/app.log", [S]],
+  ["GET", "/admin/users/logs", [S, P, F]],
+  ["DELETE", "/admin/users/logs", [S]],
+  ["GET", "/admin/users", [S, P, F]],
+  ["GET", "/admin/users/u1", [S, P, F]],
+  ["POST", "/admin/users", [S, P]],
+  ["PUT", "/admin/users/u1", [S, P]],
+  ["DELETE", "/admin/users/u1", [S]],
+  ["GET", "/admin/subscriptions", [S, P, F]],
+  ["PATCH", "/admin/subscriptions/s1", [S, F]],
+  ["GET", "/api/subscriptions", [S, P, F]],
+  ["POST", "/api/admin/subscriptions", [S, F]],
+  ["GET", "/api/admin/audit-logs", [S]],
+  ["POST", "/api/admin/audit-logs", [S]],
+  ["GET", "/admin/sessions/all", [S]],
+  ["DELETE", "/admin/sessions/all", [S]],
+  ["POST", "/admin/admins/a1/force-logout", [S]],
+  ["GET", "/admin/sessions", ALL],
+  ["DELETE", "/admin/sessions/s1", ALL],
+  ["POST", "/admin/2fa/enable", ALL],
+  ["POST", "/admin/change-password", ALL],
+  ["GET", "/admin/portfolios/p1/snapshots", ALL],
+  ["POST", "/admin/portfolios/p1/transactions", [S, R]],
+  ["GET", "/api/admin/configs", [S]],
+  ["PUT", "/api/admin/configs/c1", [S]],
+  ["GET", "/api/admin/coupons", [S, F]],
+  ["POST", "/api/admin/coupons", [S, F]],
+  ["GET", "/api/tips", [S, R, P]],
+  ["PUT", "/api/tips/t1", [S, R]],
+  ["POST", "/api/admin/tips/t1/revisions", [S, R]],
+  ["GET", "/api/portfolios", ALL],
+  ["PATCH", "/api/portfolios/p1", [S, R]],
+  ["GET", "/api/bundles", ALL],
+  ["POST", "/api/bundles", [S, R]],
+  ["GET", "/api/chart-data", ALL],
+  ["DELETE", "/api/chart-data/c1", [S, R]],
+  ["GET", "/api/stock-symbols/search", ALL],
+  ["POST", "/api/stock-symbols", [S, R]],
+  ["GET", "/api/faqs", ALL],
+  ["PUT", "/api/faqs/f1", [S, P]],
+  ["GET", "/api/admin/telegram/products", [S, P]],
+  ["POST", "/api/admin/telegram/products", [S, P]],
+  ["POST", "/api/admin/notify", [S, P]],
+];
+
+describe("getBackendPermission", () => {
+  it.each(MATRIX)("%s %s is allowed for the listed roles only", (method, path, allowed) => {
+    ALL.forEach((role) => {
+      expect({ role, allowed: canCall(role, method, path) }).toEqual({ role, allowed: allowed.includes(role) });
+    });
+  });
+
+  it("refuses writes to unlisted paths", () => {
+    expect(getBackendPermission("POST", "/api/unknown")).toBe(false);
+    expect(getBackendPermission("delete", "/admin/change-password/extra")).toBe(false);
+    expect(canCall("super-admin", "PUT", "/api/unknown")).toBe(false);
+  });
+
+  it("leaves reads of unlisted paths open", () => {
+    expect(getBackendPermission("GET", "/api/unknown")).toBeNull();
+    expect(getBackendPermission("HEAD", "/api/unknown")).toBeNull();
+  });
+
+  it("needs users:delete only to delete a user", () => {
+    expect(getBackendPermission("DELETE", "/admin/users/u1")).toBe("users:delete");
+    expect(getBackendPermission("PUT", "/admin/users/u1")).toBe("users:manage");
+    expect(getBackendPermission("GET", "/admin/users/u1")).toBe("users:view");
+    expect(getBackendPermission("DELETE", "/admin/users/u1/sessions")).toBe("users:manage");
+  });
+
+  it("matches other admins' sessions before the admin's own", () => {
+    expect(getBackendPermission("GET", "/admin/sessions/all")).toBe("sessions:manage");
+    expect(getBackendPermission("GET", "/admin/sessions")).toBeNull();
+  });
+});
+
+describe("normalizeRole", () => {
+  it("maps known spellings to roles", () => {
+    expect(normalizeRole("Super_Admin")).toBe("super-admin");
+    expect(normalizeRole(" analyst ")).toBe("research-analyst");
+    expect(normalizeRole("finance")).toBe("finance");
+  });
+
+  it("gives a missing or unknown role no access", () => {
+    [undefined, null, "", "admin", "owner"].forEach((role) => {
+      expect(normalizeRole(role)).toBeNull();
+    });
+    const role = normalizeRole(undefined);
+    ROLE_PERMISSIONS["super-admin"].forEach((permission) => {
+      expect(hasPermission(role, permission)).toBe(false);
+    });
+    expect(canCall(role, "GET", "/api/portfolios")).toBe(false);
+    expect(canCall(role, "GET", "/admin/sessions")).toBe(true);
+  });
+});
+
+describe("hasPermission", () => {
+  it("allows calls that need no permission", () => {
+    expect(hasPermission(null, null)).toBe(true);
+    expect(hasPermission("finance", undefined)).toBe(true);
+  });
+
+  it("checks the role's permission list", () => {
+    expect(hasPermission("finance", "coupons:manage")).toBe(true);
+    expect(hasPermission("support", "coupons:view")).toBe(false);
+  });
+});
+
+describe("getRoutePermission", () => {
+  it("matches a page and its sub-pages", () => {
+    expect(getRoutePermission("/dashboard/audit-log")).toBe("audit:view");
+    expect(getRoutePermission("/dashboard/users/u1")).toBe("users:view");
+    expect(getRoutePermission("/dashboard/users-subscriptions")).toBe("users:view");
+  });
+
+  it("does not match on a shared prefix alone", () => {
+    expect(getRoutePermission("/dashboard/bundles-archive")).toBeNull();
+  });
+
+  it("leaves unlisted pages open", () => {
+    expect(getRoutePermission("/dashboard")).toBeNull();
+    expect(getRoutePermission("/dashboard/sessions")).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import type { ChartDataPoint } from "@/lib/api-chart-data";
+import { computePortfolioAnalytics, toPortfolioGainFields } from "@/lib/portfolio-analytics";
+
+const point = (dateOnly: string, portfolioValue: number): ChartDataPoint => ({
+  portfolio: "p1",
+  date: `${dateOnly}T10:00:00.000Z`,
+  dateOnly,
+  portfolioValue,
+  cashRemaining: 0,
+  compareIndexValue: 22000,
+  compareIndexPriceSource: "closing",
+  usedClosingPrices: true,
+  dataVerified: false,
+  dataQualityIssues: [],
+});
+
+const analyticsFor = (points: ChartDataPoint[]) => {
+  const analytics = computePortfolioAnalytics(points);
+  if (!analytics) throw new Error("Expected analytics");
+  return analytics;
+};
+
+describe("toPortfolioGainFields", () => {
+  it("writes CAGR once the series spans a year", () => {
+    const fields = toPortfolioGainFields(
+      analyticsFor([point("2024-01-01", 100000), point("2025-01-01", 110000), point("2025-02-03", 112000)])
+    );
+    expect(fields.CAGRSinceInception).toBeDefined();
+    expect(fields.oneYearGains).toBeDefined();
+    expect(fields.monthlyGains).toBeDefined();
+  });
+
+  it("leaves CAGR out for a series shorter than a year", () => {
+    const fields = toPortfolioGainFields(
+      analyticsFor([point("2026-01-01", 100000), point("2026-03-02", 105000), point("2026-04-06", 108000)])
+    );
+    expect(fields).not.toHaveProperty("CAGRSinceInception");
+    expect(fields).not.toHaveProperty("oneYearGains");
+    expect(fields.monthlyGains).toBeDefined();
+  });
+});
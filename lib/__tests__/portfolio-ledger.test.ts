@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import type { PortfolioTransaction } from "@/lib/api-portfolio-ledger";
+import { getLastHoldingsChangeDate } from "@/lib/portfolio-ledger";
+
+const entry = (overrides: Partial<PortfolioTransaction>): PortfolioTransaction => ({
+  portfolio: "p1",
+  type: "buy",
+  date: "2026-01-05T00:00:00.000Z",
+  symbol: "TCS",
+  quantity: 10,
+  price: 100,
+  ...overrides,
+});
+
+describe("getLastHoldingsChangeDate", () => {
+  it("returns the trade day of the latest position change in any order", () => {
+    const transactions = [
+      entry({ type: "partial-sell", date: "2026-03-10T09:30:00.000Z", quantity: 4 }),
+      entry({ type: "buy", date: "2026-01-05T00:00:00.000Z" }),
+      entry({ type: "addon-buy", date: "2026-02-02T00:00:00.000Z", quantity: 2 }),
+    ];
+    expect(getLastHoldingsChangeDate(transactions)).toBe("2026-03-10");
+  });
+
+  it("ignores cash adjustments recorded after the last trade", () => {
+    const transactions = [
+      entry({ type: "exit", date: "2026-02-02T00:00:00.000Z" }),
+      entry({ type: "cash-adjustment", date: "2026-04-01T00:00:00.000Z", symbol: undefined, amount: 5000 }),
+    ];
+    expect(getLastHoldingsChangeDate(transactions)).toBe("2026-02-02");
+  });
+
+  it("returns null when only cash has moved", () => {
+    expect(getLastHoldingsChangeDate([])).toBeNull();
+    expect(
+      getLastHoldingsChangeDate([entry({ type: "cash-adjustment", symbol: undefined, amount: 100000 })])
+    ).toBeNull();
+  });
+});
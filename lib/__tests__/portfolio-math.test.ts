@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import type { PortfolioHolding } from "@/lib/api";
+import {
+  applyAddonBuy,
+  applyPartialSell,
+  calculateAddonQuantity,
+  calculateHoldingTotals,
+  calculateInvestmentDetails,
+  calculatePnL,
+  getActiveHoldings,
+  isSoldHolding,
+  weightedAverageBuyPrice,
+} from "@/lib/portfolio-math";
+
+const holding = (overrides: Partial<PortfolioHolding> = {}): PortfolioHolding => ({
+  symbol: "TCS",
+  sector: "IT",
+  weight: 10,
+  status: "Hold",
+  buyPrice: 100,
+  quantity: 10,
+  minimumInvestmentValueStock: 1000,
+  originalBuyPrice: 100,
+  totalQuantityOwned: 10,
+  realizedPnL: 0,
+  ...overrides,
+});
+
+describe("isSoldHolding", () => {
+  it("treats Sold-Date- symbols, Sold status and sale timestamps as sold", () => {
+    expect(isSoldHolding({ symbol: "Sold-Date-2024-05-01-TCS", status: "Hold" })).toBe(true);
+    expect(isSoldHolding({ symbol: "TCS", status: "Sold" })).toBe(true);
+    expect(isSoldHolding({ symbol: "TCS", status: "2024-05-01T10:15:00.000Z" })).toBe(true);
+  });
+
+  it("keeps active statuses", () => {
+    ["Hold", "Fresh-Buy", "addon-buy", "partial-sell", "Sell"].forEach((status) => {
+      expect(isSoldHolding({ symbol: "TCS", status })).toBe(false);
+    });
+  });
+
+  it("filters sold holdings out of the active list", () => {
+    const active = getActiveHoldings([
+      holding({ symbol: "TCS" }),
+      holding({ symbol: "Sold-Date-2024-05-01-INFY" }),
+      holding({ symbol: "HDFC", status: "2024-05-01T10:15:00.000Z" }),
+    ]);
+    expect(active.map((item) => item.symbol)).toEqual(["TCS"]);
+  });
+
+  it("returns an empty list for missing holdings", () => {
+    expect(getActiveHoldings(undefined)).toEqual([]);
+  });
+});
+
+describe("calculateInvestmentDetails", () => {
+  it("buys whole shares and leaves the rest over", () => {
+    expect(calculateInvestmentDetails(10, 300, 10000)).toEqual({
+      allocatedAmount: 1000,
+      quantity: 3,
+      actualInvestmentAmount: 900,
+      leftoverAmount: 100,
+    });
+  });
+
+  it("buys one extra share when the gap to it is within the tolerance", () => {
+    // 9 shares at 101 leave 91, 10 short of a tenth share (within 10.1)
+    const tolerant = calculateInvestmentDetails(10, 101, 10000);
+    expect(tolerant.quantity).toBe(10);
+    expect(tolerant.leftoverAmount).toBeCloseTo(-10);
+    // 9 shares at 105 leave 55, 50 short of a tenth share
+    expect(calculateInvestmentDetails(10, 105, 10000).quantity).toBe(9);
+  });
+
+  it("allocates nothing without a price", () => {
+    expect(calculateInvestmentDetails(10, 0, 10000)).toEqual({
+      allocatedAmount: 1000,
+      quantity: 0,
+      actualInvestmentAmount: 0,
+      leftoverAmount: 1000,
+    });
+  });
+});
+
+describe("calculateHoldingTotals", () => {
+  it("ignores holdings being sold", () => {
+    const totals = calculateHoldingTotals([
+      { status: "Hold", weight: 20, minimumInvestmentValueStock: 2000, allocatedAmount: 2100, leftoverAmount: 100 },
+      { status: "Sell", weight: 30, minimumInvestmentValueStock: 3000, allocatedAmount: 3000, leftoverAmount: 0 },
+    ]);
+    expect(totals).toEqual({ totalWeightUsed: 20, totalActualInvestment: 2000, totalLeftover: 100, totalAllocated: 2100 });
+  });
+});
+
+describe("calculatePnL", () => {
+  it("sells a proportion in whole shares against the average price", () => {
+    expect(calculatePnL(10, 100, 120, 0.55)).toEqual({
+      quantitySold: 5,
+      saleValue: 600,
+      originalCost: 500,
+      profitLoss: 100,
+      profitLossPercent: 20,
+      remainingQuantity: 5,
+      remainingValue: 600,
+    });
+  });
+
+  it("sells everything for a proportion of one or more", () => {
+    const pnl = calculatePnL(10, 100, 80, 1);
+    expect(pnl.quantitySold).toBe(10);
+    expect(pnl.profitLoss).toBe(-200);
+    expect(pnl.remainingQuantity).toBe(0);
+  });
+
+  it("sells nothing for a zero proportion", () => {
+    expect(calculatePnL(10, 100, 120, 0).quantitySold).toBe(0);
+  });
+});
+
+describe("weightedAverageBuyPrice", () => {
+  it("averages by quantity and rounds to the paisa", () => {
+    expect(weightedAverageBuyPrice(10, 100, 5, 130)).toBe(110);
+    expect(weightedAverageBuyPrice(3, 100, 1, 101)).toBe(100.25);
+    expect(weightedAverageBuyPrice(2, 10, 1, 10.01)).toBe(10);
+  });
+
+  it("uses the added price when nothing was held", () => {
+    expect(weightedAverageBuyPrice(0, 0, 5, 130)).toBe(130);
+  });
+});
+
+describe("calculateAddonQuantity", () => {
+  it("buys the shares needed to reach the new weight", () => {
+    // 15% of 20000 is 3000; 1000 is invested, so 2000 more at 300 is 6 shares
+    expect(calculateAddonQuantity(15, 20000, 1000, 300)).toBe(6);
+  });
+
+  it("never goes negative or divides by a missing price", () => {
+    expect(calculateAddonQuantity(5, 20000, 2000, 100)).toBe(0);
+    expect(calculateAddonQuantity(15, 20000, 1000, 0)).toBe(0);
+  });
+});
+
+describe("applyAddonBuy", () => {
+  it("averages the buy price and keeps the first buy price", () => {
+    const result = applyAddonBuy(holding(), 10, 120);
+    expect(result.quantity).toBe(20);
+    expect(result.buyPrice).toBe(110);
+    expect(result.originalBuyPrice).toBe(100);
+    expect(result.totalQuantityOwned).toBe(20);
+    expect(result.minimumInvestmentValueStock).toBe(2400);
+    expect(result.status).toBe("addon-buy");
+  });
+
+  it("opens an empty position as a fresh buy", () => {
+    const result = applyAddonBuy(
+      holding({ quantity: 0, buyPrice: 0, originalBuyPrice: 0, totalQuantityOwned: 0 }),
+      4,
+      250
+    );
+    expect(result.buyPrice).toBe(250);
+    expect(result.originalBuyPrice).toBe(250);
+    expect(result.totalQuantityOwned).toBe(4);
+    expect(result.status).toBe("Fresh-Buy");
+  });
+
+  it("counts shares sold earlier in totalQuantityOwned", () => {
+    const afterSell = applyPartialSell(holding(), 4, 120);
+    expect(applyAddonBuy(afterSell, 2, 130).totalQuantityOwned).toBe(12);
+  });
+
+  it("leaves the holding alone when no shares are bought", () => {
+    const original = holding();
+    expect(applyAddonBuy(original, 0, 120)).toBe(original);
+  });
+});
+
+describe("applyPartialSell", () => {
+  it("books the gain over the average price and keeps the rest", () => {
+    const result = applyPartialSell(holding({ realizedPnL: 50 }), 4, 125);
+    expect(result.quantity).toBe(6);
+    expect(result.buyPrice).toBe(100);
+    expect(result.realizedPnL).toBe(150);
+    expect(result.minimumInvestmentValueStock).toBe(750);
+    expect(result.status).toBe("partial-sell");
+  });
+
+  it("books losses as negative realised P&L", () => {
+    expect(applyPartialSell(holding(), 5, 90).realizedPnL).toBe(-50);
+  });
+
+  it("measures a sell after an add-on against the averaged price", () => {
+    const averaged = applyAddonBuy(holding(), 10, 120);
+    expect(applyPartialSell(averaged, 10, 130).realizedPnL).toBe(200);
+  });
+
+  it("marks a position sold in full with the sale time", () => {
+    const soldAt = "2024-06-01T09:30:00.000Z";
+    const result = applyPartialSell(holding(), 10, 110, soldAt);
+    expect(result.quantity).toBe(0);
+    expect(result.weight).toBe(0);
+    expect(result.minimumInvestmentValueStock).toBe(0);
+    expect(result.realizedPnL).toBe(100);
+    expect(result.status).toBe(soldAt);
+    expect(result.soldDate).toBe(soldAt);
+    expect(isSoldHolding(result)).toBe(true);
+  });
+
+  it("caps the sale at the shares held and ignores fractions", () => {
+    expect(applyPartialSell(holding(), 25, 110).quantity).toBe(0);
+    expect(applyPartialSell(holding(), 2.9, 110).quantity).toBe(8);
+  });
+
+  it("leaves the holding alone when nothing is sold", () => {
+    const original = holding();
+    expect(applyPartialSell(original, 0.5, 110)).toBe(original);
+  });
+});
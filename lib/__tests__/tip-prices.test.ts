@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateTargetPercentage,
+  getTipDirection,
+  parseTipPercentage,
+  parseTipPrice,
+  parseTipPriceRange,
+  validateTipPrices,
+  withCalculatedTargetPercentage,
+} from "@/lib/tip-prices";
+
+const fieldsOf = (issues: { field: string }[]) => issues.map((issue) => issue.field);
+
+describe("parseTipPrice", () => {
+  it("reads plain, rupee-prefixed and comma-grouped prices", () => {
+    expect(parseTipPrice("150.75")).toBe(150.75);
+    expect(parseTipPrice("₹1,250")).toBe(1250);
+    expect(parseTipPrice("Rs 99")).toBe(99);
+    expect(parseTipPrice("rs. 1,00,000")).toBe(100000);
+    expect(parseTipPrice(" INR 42 ")).toBe(42);
+  });
+
+  it("rejects zero, negatives, ranges and text", () => {
+    ["0", "-5", "100-110", "about 100", "", undefined].forEach((value) => {
+      expect(parseTipPrice(value)).toBeNull();
+    });
+  });
+});
+
+describe("parseTipPriceRange", () => {
+  it("reads dash, en dash and 'to' ranges", () => {
+    expect(parseTipPriceRange("100-110")).toEqual({ low: 100, high: 110 });
+    expect(parseTipPriceRange("₹1,200 – ₹1,250")).toEqual({ low: 1200, high: 1250 });
+    expect(parseTipPriceRange("100 to 110")).toEqual({ low: 100, high: 110 });
+  });
+
+  it("normalises reversed bounds", () => {
+    expect(parseTipPriceRange("110-100")).toEqual({ low: 100, high: 110 });
+  });
+
+  it("treats a single price as a zero-width range", () => {
+    expect(parseTipPriceRange("Rs 99")).toEqual({ low: 99, high: 99 });
+  });
+
+  it("rejects ranges with a zero bound and text", () => {
+    expect(parseTipPriceRange("0-110")).toBeNull();
+    expect(parseTipPriceRange("100 or 110")).toBeNull();
+  });
+});
+
+describe("parseTipPercentage", () => {
+  it("reads signed values with or without a percent sign", () => {
+    expect(parseTipPercentage("25%")).toBe(25);
+    expect(parseTipPercentage("-15")).toBe(-15);
+    expect(parseTipPercentage("+12.5%")).toBe(12.5);
+  });
+
+  it("rejects ranges and text", () => {
+    expect(parseTipPercentage("10-15%")).toBeNull();
+    expect(parseTipPercentage("high")).toBeNull();
+  });
+});
+
+describe("getTipDirection", () => {
+  it("treats sell as short and buy, add more and hold as long", () => {
+    expect(getTipDirection("Sell")).toBe("short");
+    expect(getTipDirection("buy")).toBe("long");
+    expect(getTipDirection("Add More")).toBe("long");
+    expect(getTipDirection("HOLD")).toBe("long");
+    expect(getTipDirection("partial profit")).toBeNull();
+  });
+});
+
+describe("calculateTargetPercentage", () => {
+  it("measures the target from the buy range midpoint", () => {
+    expect(calculateTargetPercentage("100-110", "126")).toBe(20);
+    expect(calculateTargetPercentage("200-210", "184.5")).toBe(-10);
+  });
+
+  it("needs both a range and a target", () => {
+    expect(calculateTargetPercentage("100-110", "")).toBeNull();
+    expect(calculateTargetPercentage("soon", "126")).toBeNull();
+  });
+});
+
+describe("withCalculatedTargetPercentage", () => {
+  it("fills a blank target percentage", () => {
+    expect(withCalculatedTargetPercentage({ buyRange: "100-110", targetPrice: "126", targetPercentage: " " }).targetPercentage).toBe(
+      "20.00%"
+    );
+  });
+
+  it("keeps an entered percentage and closed tips as they are", () => {
+    const entered = { buyRange: "100-110", targetPrice: "126", targetPercentage: "18%" };
+    expect(withCalculatedTargetPercentage(entered)).toBe(entered);
+    const closed = { status: "Closed", buyRange: "100-110", targetPrice: "126" };
+    expect(withCalculatedTargetPercentage(closed)).toBe(closed);
+  });
+});
+
+describe("validateTipPrices", () => {
+  const longTip = { action: "Buy", buyRange: "100-110", targetPrice: "126", stopLoss: "90" };
+  const shortTip = { action: "Sell", buyRange: "200-210", targetPrice: "184.5", stopLoss: "220" };
+
+  it("accepts consistent long and short setups", () => {
+    expect(validateTipPrices(longTip)).toEqual([]);
+    expect(validateTipPrices(shortTip)).toEqual([]);
+  });
+
+  it("reports fields that do not parse", () => {
+    const issues = validateTipPrices({
+      buyRange: "cheap",
+      targetPrice: "0",
+      stopLoss: "-1",
+      addMoreAt: "later",
+      targetPercentage: "lots",
+    });
+    expect(fieldsOf(issues)).toEqual(["buyRange", "targetPrice", "stopLoss", "addMoreAt", "targetPercentage"]);
+  });
+
+  it("requires the stop loss below and the target above a long buy range", () => {
+    const issues = validateTipPrices({ ...longTip, stopLoss: "100", targetPrice: "110" });
+    expect(fieldsOf(issues)).toEqual(["stopLoss", "targetPrice"]);
+  });
+
+  it("requires the reverse for sell setups", () => {
+    const issues = validateTipPrices({ ...shortTip, stopLoss: "210", targetPrice: "200" });
+    expect(fieldsOf(issues)).toEqual(["stopLoss", "targetPrice"]);
+  });
+
+  it("keeps add more at between the stop loss and the buy range", () => {
+    expect(fieldsOf(validateTipPrices({ ...longTip, addMoreAt: "95-115" }))).toEqual(["addMoreAt"]);
+    expect(fieldsOf(validateTipPrices({ ...longTip, addMoreAt: "85-95" }))).toEqual(["addMoreAt"]);
+    expect(validateTipPrices({ ...longTip, addMoreAt: "92-95" })).toEqual([]);
+  });
+
+  it("allows the target percentage to be off by up to half a percent", () => {
+    expect(validateTipPrices({ ...longTip, targetPercentage: "20.5%" })).toEqual([]);
+    const issues = validateTipPrices({ ...longTip, targetPercentage: "20.6%" });
+    expect(fieldsOf(issues)).toEqual(["targetPercentage"]);
+    expect(issues[0].message).toContain("expected 20.00%");
+  });
+
+  it("expects a negative target percentage on sell setups", () => {
+    expect(validateTipPrices({ ...shortTip, targetPercentage: "-10%" })).toEqual([]);
+    expect(fieldsOf(validateTipPrices({ ...shortTip, targetPercentage: "10%" }))).toEqual(["targetPercentage"]);
+  });
+
+  it("skips the setup and percentage checks on closed tips", () => {
+    expect(validateTipPrices({ ...longTip, status: "Closed", stopLoss: "120", targetPercentage: "12-15%" })).toEqual([]);
+  });
+
+  it("only checks direction for actions that have one", () => {
+    expect(validateTipPrices({ action: "Partial Profit", buyRange: "100-110", targetPrice: "95" })).toEqual([]);
+  });
+});
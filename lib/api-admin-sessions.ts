@@ -0,0 +1,102 @@
+// lib/api-admin-sessions.ts
+// Admin login sessions as tracked by the backend, one per refresh token.
+// Revoking one invalidates its refresh token, so that browser is logged
+// out the next time its access token needs renewing.
+import { apiDelete, apiGet, apiPost, unwrapList } from "@/lib/api-client";
+import type { AdminSessionUser } from "@/lib/auth";
+
+export interface AdminSessionInfo {
+  id: string;
+  userAgent?: string;
+  // Set by the backend when it already parsed the user agent
+  device?: string;
+  ip?: string;
+  location?: string;
+  createdAt?: string;
+  lastActiveAt?: string;
+  // The session this browser is using
+  current?: boolean;
+  // Only in the list of every admin's sessions
+  admin?: AdminSessionUser;
+}
+
+const normalizeSession = (session: any): AdminSessionInfo => {
+  const admin = session.admin || session.user;
+  return {
+    ...session,
+    id: session.id || session._id,
+    ip: session.ip || session.ipAddress,
+    lastActiveAt: session.lastActiveAt || session.lastActivity || session.updatedAt,
+    admin: admin && {
+      id: admin._id || admin.id,
+      email: admin.email,
+      username: admin.username || admin.name,
+      role: admin.role,
+    },
+  };
+};
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * A readable device name such as "Chrome on Windows".
+ */
+export const describeDevice = (session: AdminSessionInfo): string => {
+  if (session.device) return session.device;
+  const userAgent = session.userAgent || "";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+};
+
+/**
+ * Fetches the signed-in admin's own sessions.
+ */
+export const fetchMySessions = async (signal?: AbortSignal): Promise<AdminSessionInfo[]> => {
+  const data = await apiGet("/admin/sessions", { signal, errorMessage: "Failed to fetch sessions" });
+  return unwrapList<any>(data, "sessions").map(normalizeSession);
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  if (!sessionId) throw new Error("Invalid session ID");
+  await apiDelete(`/admin/sessions/${sessionId}`, { errorMessage: "Failed to revoke session" });
+};
+
+/**
+ * Revokes every session of the signed-in admin except this one.
+ */
+export const revokeOtherSessions = async (): Promise<void> => {
+  await apiPost("/admin/sessions/revoke-others", undefined, { errorMessage: "Failed to log out other sessions" });
+};
+
+/**
+ * Fetches the sessions of every admin. Super admins only.
+ */
+export const fetchAllAdminSessions = async (signal?: AbortSignal): Promise<AdminSessionInfo[]> => {
+  const data = await apiGet("/admin/sessions/all", { signal, errorMessage: "Failed to fetch admin sessions" });
+  return unwrapList<any>(data, "sessions").map(normalizeSession);
+};
+
+/**
+ * Revokes every session of another admin. Super admins only.
+ */
+export const forceLogoutAdmin = async (adminId: string): Promise<void> => {
+  if (!adminId) throw new Error("Invalid admin ID");
+  await apiPost(`/admin/admins/${adminId}/force-logout`, undefined, { errorMessage: "Failed to log out admin" });
+};
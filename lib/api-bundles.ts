@@ -1,5 +1,5 @@
 // lib\api-bundles.ts  
-import { API_BASE_URL, getAdminAccessToken } from "@/lib/auth";
+import { apiDelete, apiGet, apiPost, apiPut, unwrapList } from "@/lib/api-client";
 import { Portfolio } from "./api";
 
 // Bundle Types
@@ -107,376 +107,63 @@ export const getPortfolioPrimaryFee = (
 };
 
 // Bundle API Functions
-export const fetchBundles = async (): Promise<Bundle[]> => {
-  try {
-    // Get the admin access token
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required to fetch bundles");
-    }
-
-    // Make the request with the admin token in the Authorization header
-    const headers: HeadersInit = {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${adminToken}`,
-    };
-
-    const response = await fetch(`${API_BASE_URL}/api/bundles`, {
-      method: "GET",
-      headers,
-    });
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON for bundles");
-      }
-
-      // Try to get the error message from the response
-      try {
-        const errorData = await response.json();
-        throw new Error(errorData.message || `Failed to fetch bundles: Server returned ${response.status}`);
-      } catch (jsonError) {
-        throw new Error(`Failed to fetch bundles: Server returned ${response.status}`);
-      }
-    }
-
-    const bundles = await response.json();
+const normalizeBundle = (raw: any): Bundle => {
+  const bundle = raw && raw.data && typeof raw.data === "object" && !Array.isArray(raw.data) ? raw.data : raw;
+  return bundle._id && !bundle.id ? { ...bundle, id: bundle._id } : bundle;
+};
 
-    // Check if the response is an array
-    let bundleArray = bundles;
-    if (!Array.isArray(bundleArray)) {
-      // If the response has a data property that is an array, use that
-      if (bundleArray && Array.isArray(bundleArray.data)) {
-        bundleArray = bundleArray.data;
-      } else {
-        throw new Error("API response format is not as expected");
+// Make sure we always send string[] for portfolios
+const sanitizeBundleRequest = <T extends Partial<CreateBundleRequest>>(bundleData: T): T =>
+  bundleData.portfolios
+    ? {
+        ...bundleData,
+        portfolios: bundleData.portfolios.map(portfolioItem =>
+          typeof portfolioItem === 'object' && portfolioItem !== null ? portfolioItem.id : portfolioItem
+        ),
       }
-    }
+    : bundleData;
 
-    // Ensure all bundles have valid IDs
-    const validatedBundles = bundleArray.map((bundle: Bundle) => {
-      if (!bundle.id && bundle._id) {
-        return {
-          ...bundle,
-          id: bundle._id,
-        };
-      }
-      return bundle;
-    });
-
-    return validatedBundles;
-  } catch (error) {
-    throw error;
+const requireBundleId = (id: string) => {
+  if (!id || id === "undefined") {
+    throw new Error("Invalid bundle ID");
   }
 };
 
-export const fetchBundleById = async (id: string): Promise<Bundle> => {
-  try {
-    if (!id || id === "undefined") {
-      throw new Error("Invalid bundle ID");
-    }
-
-    // Get the admin access token
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required to access bundle");
-    }
-
-    // Log the API request for debugging
-    console.log(`Fetching bundle with ID ${id} from: ${API_BASE_URL}/api/bundles/${id}`);
-    console.log(`Using admin token: ${adminToken.substring(0, 10)}...`);
-
-    // Make the request with the admin token in the Authorization header
-    const headers: HeadersInit = {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${adminToken}`,
-    };
-
-    const response = await fetch(`${API_BASE_URL}/api/bundles/${id}`, {
-      method: "GET",
-      headers,
-    });
-
-    // Log the response status for debugging
-    console.log(`Bundle detail API response status: ${response.status}`);
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON for bundle details");
-      }
-
-      // Try to get the error message from the response
-      try {
-        const errorData = await response.json();
-        throw new Error(
-          errorData.message || errorData.error || `Failed to fetch bundle: Server returned ${response.status}`,
-        );
-      } catch (jsonError) {
-        throw new Error(`Failed to fetch bundle: Server returned ${response.status}`);
-      }
-    }
-
-    // Parse the response as text first to inspect it
-    const responseText = await response.text();
-    console.log("Raw API response for bundle detail:", responseText);
-
-    let bundle;
-    try {
-      bundle = JSON.parse(responseText);
-    } catch (error) {
-      console.error("Failed to parse JSON response:", error);
-      throw new Error("Invalid JSON response from server");
-    }
-
-    console.log("Parsed bundle:", bundle);
-
-    // Check if the response has a data property
-    if (bundle && bundle.data && typeof bundle.data === "object") {
-      bundle = bundle.data;
-    }
-
-    // Ensure the bundle has an id property (API might return _id)
-    if (bundle._id && !bundle.id) {
-      console.log(`Bundle ${bundle.name} has _id (${bundle._id}) but no id, copying _id to id`);
-      bundle.id = bundle._id;
-    }
-
-    return bundle;
-  } catch (error) {
-    console.error(`Error fetching bundle with id ${id}:`, error);
-    throw error;
+export const fetchBundles = async (signal?: AbortSignal): Promise<Bundle[]> => {
+  const data = await apiGet("/api/bundles", { signal, errorMessage: "Failed to fetch bundles" });
+  if (!Array.isArray(data) && !Array.isArray(data?.data)) {
+    throw new Error("API response format is not as expected");
   }
+  return unwrapList<Bundle>(data).map(normalizeBundle);
 };
 
-export const createBundle = async (bundleData: CreateBundleRequest): Promise<Bundle> => {
-  try {
-    // Get the admin access token
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required to create bundle");
-    }
-
-    // Make sure we always send string[] for portfolios
-    const sanitizedData = {
-      ...bundleData,
-      portfolios: bundleData.portfolios.map(portfolioItem => 
-        typeof portfolioItem === 'object' && portfolioItem !== null ? portfolioItem.id : portfolioItem
-      )
-    };
-
-    // Log the API request for debugging
-    console.log(`Creating bundle at: ${API_BASE_URL}/api/bundles`);
-    console.log(`Using admin token: ${adminToken.substring(0, 10)}...`);
-    console.log("Bundle data being sent:", JSON.stringify(sanitizedData, null, 2));
-
-    // Make the request with the admin token in the Authorization header
-    const headers: HeadersInit = {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${adminToken}`,
-    };
-
-    const response = await fetch(`${API_BASE_URL}/api/bundles`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(sanitizedData),
-    });
-
-    console.log(`Create bundle response status: ${response.status}`);
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned an HTML response instead of JSON");
-      }
-
-      // Try to get the error message from the response
-      const responseText = await response.text();
-      console.error("Error response from server:", responseText);
-
-      try {
-        const errorData = JSON.parse(responseText);
-        throw new Error(errorData.message || errorData.error || "Failed to create bundle");
-      } catch (jsonError) {
-        throw new Error(`Failed to create bundle: Server returned ${response.status}`);
-      }
-    }
-
-    // Parse the response as text first to inspect it
-    const responseText = await response.text();
-    console.log("Raw API response for bundle creation:", responseText);
-
-    let bundle;
-    try {
-      bundle = JSON.parse(responseText);
-    } catch (error) {
-      console.error("Failed to parse JSON response:", error);
-      throw new Error("Invalid JSON response from server");
-    }
-
-    console.log("Created bundle response:", bundle);
-
-    // Check if the response has a data property
-    if (bundle && bundle.data && typeof bundle.data === "object") {
-      bundle = bundle.data;
-    }
-
-    // Ensure the bundle has an id property (API might return _id)
-    if (bundle._id && !bundle.id) {
-      console.log(`Created bundle has _id (${bundle._id}) but no id, copying _id to id`);
-      bundle.id = bundle._id;
-    }
+export const fetchBundleById = async (id: string, signal?: AbortSignal): Promise<Bundle> => {
+  requireBundleId(id);
+  const data = await apiGet(`/api/bundles/${id}`, { signal, errorMessage: "Failed to fetch bundle" });
+  return normalizeBundle(data);
+};
 
-    return bundle;
-  } catch (error) {
-    console.error("Error creating bundle:", error);
-    throw error;
-  }
+export const createBundle = async (bundleData: CreateBundleRequest): Promise<Bundle> => {
+  const data = await apiPost("/api/bundles", sanitizeBundleRequest(bundleData), {
+    errorMessage: "Failed to create bundle",
+  });
+  return normalizeBundle(data);
 };
 
 export const updateBundle = async (
   id: string,
   bundleData: Partial<CreateBundleRequest>
 ): Promise<Bundle> => {
-  try {
-    if (!id || id === "undefined") {
-      throw new Error("Invalid bundle ID");
-    }
-
-    // Get the admin access token
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required to update bundle");
-    }
-
-    // Ensure we sanitize portfolio IDs if they're present
-    const sanitizedData = { ...bundleData };
-    if (bundleData.portfolios) {
-      sanitizedData.portfolios = bundleData.portfolios.map(portfolioItem => 
-        typeof portfolioItem === 'object' && portfolioItem !== null ? portfolioItem.id : portfolioItem
-      );
-    }
-
-    console.log(`Updating bundle with ID: ${id}`);
-    console.log(`Using admin token: ${adminToken.substring(0, 10)}...`);
-    console.log("Bundle data being sent:", JSON.stringify(sanitizedData, null, 2));
-
-    // Make the request with the admin token in the Authorization header
-    const headers: HeadersInit = {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${adminToken}`,
-    };
-
-    const response = await fetch(`${API_BASE_URL}/api/bundles/${id}`, {
-      method: "PUT",
-      headers,
-      body: JSON.stringify(sanitizedData),
-    });
-
-    console.log(`Update response status: ${response.status}`);
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON for bundle update");
-      }
-
-      // Try to get the error message from the response
-      const responseText = await response.text();
-      console.error("Error response from server:", responseText);
-
-      try {
-        const errorData = JSON.parse(responseText);
-        throw new Error(errorData.message || errorData.error || "Failed to update bundle");
-      } catch (jsonError) {
-        throw new Error(`Failed to update bundle: Server returned ${response.status}`);
-      }
-    }
-
-    // Parse the response as text first to inspect it
-    const responseText = await response.text();
-    console.log("Raw API response for bundle update:", responseText);
-
-    let updatedBundle;
-    try {
-      updatedBundle = JSON.parse(responseText);
-    } catch (error) {
-      console.error("Failed to parse JSON response:", error);
-      throw new Error("Invalid JSON response from server");
-    }
-
-    console.log("Updated bundle response:", updatedBundle);
-
-    // Check if the response has a data property
-    if (updatedBundle && updatedBundle.data && typeof updatedBundle.data === "object") {
-      updatedBundle = updatedBundle.data;
-    }
-
-    // Ensure the bundle has an id property (API might return _id)
-    if (updatedBundle._id && !updatedBundle.id) {
-      console.log(`Updated bundle has _id (${updatedBundle._id}) but no id, copying _id to id`);
-      updatedBundle.id = updatedBundle._id;
-    }
-
-    return updatedBundle;
-  } catch (error) {
-    console.error(`Error updating bundle with id ${id}:`, error);
-    throw error;
-  }
+  requireBundleId(id);
+  const data = await apiPut(`/api/bundles/${id}`, sanitizeBundleRequest(bundleData), {
+    errorMessage: "Failed to update bundle",
+  });
+  return normalizeBundle(data);
 };
 
 export const deleteBundle = async (id: string): Promise<void> => {
-  try {
-    if (!id || id === "undefined") {
-      throw new Error("Invalid bundle ID");
-    }
-
-    // Get the admin access token
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required to delete bundle");
-    }
-
-    console.log(`Deleting bundle with ID: ${id}`);
-    console.log(`Using admin token: ${adminToken.substring(0, 10)}...`);
-
-    // Make the request with the admin token in the Authorization header
-    const headers: HeadersInit = {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${adminToken}`,
-    };
-
-    const response = await fetch(`${API_BASE_URL}/api/bundles/${id}`, {
-      method: "DELETE",
-      headers,
-    });
-
-    console.log(`Delete response status: ${response.status}`);
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned an HTML response instead of JSON. The bundle might not exist.");
-      }
-
-      // Try to get the error message from the response
-      const responseText = await response.text();
-      console.error("Error response from server:", responseText);
-
-      try {
-        const errorData = JSON.parse(responseText);
-        throw new Error(errorData.message || errorData.error || "Failed to delete bundle");
-      } catch (jsonError) {
-        throw new Error(`Failed to delete bundle: Server returned ${response.status}`);
-      }
-    }
-
-    console.log("Successfully deleted bundle with ID:", id);
-  } catch (error) {
-    console.error(`Error deleting bundle with id ${id}:`, error);
-    throw error;
-  }
+  requireBundleId(id);
+  await apiDelete(`/api/bundles/${id}`, { errorMessage: "Failed to delete bundle" });
 };
 
 // Enhanced fetch function to include portfolio details
@@ -1,4 +1,4 @@
-import { API_BASE_URL, fetchWithAuth } from "@/lib/auth";
+import { apiDelete, apiGet, apiPatch, apiPost, apiPut } from "@/lib/api-client";
 
 // Chart Data Types
 export interface ChartDataPoint {
@@ -42,231 +42,86 @@ export interface CreateChartDataRequest {
 }
 
 // Chart Data API Functions
-export const fetchChartData = async (
+export const fetchChartData = (
   portfolioId?: string,
   startDate?: string,
   endDate?: string,
   limit = 100,
-  page = 1
-): Promise<ChartDataResponse> => {
-  try {
-    const params = new URLSearchParams();
-    if (portfolioId) params.append("portfolioId", portfolioId);
-    if (startDate) params.append("startDate", startDate);
-    if (endDate) params.append("endDate", endDate);
-    params.append("limit", limit.toString());
-    params.append("page", page.toString());
-
-    const url = `${API_BASE_URL}/api/chart-data?${params.toString()}`;
-
-    const response = await fetchWithAuth(url);
-
-    if (!response.ok) {
-      console.error('API Error Response:', response.status, response.statusText);
-      try {
-        const errorText = await response.text();
-
-        const error = JSON.parse(errorText);
-        throw new Error(error.message || `HTTP ${response.status}: ${response.statusText}`);
-      } catch (parseError) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-    }
-
-    return await response.json();
-  } catch (error) {
-
-    throw error;
-  }
+  page = 1,
+  signal?: AbortSignal
+): Promise<ChartDataResponse> =>
+  apiGet<ChartDataResponse>("/api/chart-data", {
+    query: { portfolioId, startDate, endDate, limit, page },
+    signal,
+    errorMessage: "Failed to fetch chart data",
+  });
+
+// Fetches every chart data point in range by walking the paginated endpoint
+export const fetchAllChartData = async (
+  portfolioId?: string,
+  startDate?: string,
+  endDate?: string,
+  pageSize = 500,
+  signal?: AbortSignal
+): Promise<ChartDataPoint[]> => {
+  const points: ChartDataPoint[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const response = await fetchChartData(portfolioId, startDate, endDate, pageSize, page, signal);
+    points.push(...(response.data || []));
+    totalPages = response.pagination?.totalPages || 1;
+    page++;
+  } while (page <= totalPages);
+
+  return points;
 };
 
-export const fetchPortfolioChartData = async (
+export const fetchPortfolioChartData = (
   portfolioId: string,
   startDate?: string,
   endDate?: string,
   limit = 100,
-  page = 1
-): Promise<ChartDataResponse> => {
-  try {
-    const params = new URLSearchParams();
-    if (startDate) params.append("startDate", startDate);
-    if (endDate) params.append("endDate", endDate);
-    params.append("limit", limit.toString());
-    params.append("page", page.toString());
-
-    const url = `${API_BASE_URL}/admin/portfolios/${portfolioId}/chart-data?${params.toString()}`;
-    const response = await fetchWithAuth(url);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch portfolio chart data");
-    }
-
-    return await response.json();
-  } catch (error) {
-
-    throw error;
-  }
-};
-
-export const fetchPortfolioPerformance = async (
+  page = 1,
+  signal?: AbortSignal
+): Promise<ChartDataResponse> =>
+  apiGet<ChartDataResponse>(`/admin/portfolios/${portfolioId}/chart-data`, {
+    query: { startDate, endDate, limit, page },
+    signal,
+    errorMessage: "Failed to fetch portfolio chart data",
+  });
+
+export const fetchPortfolioPerformance = (
   portfolioId: string,
   startDate?: string,
   endDate?: string
-): Promise<any> => {
-  try {
-    const params = new URLSearchParams();
-    if (startDate) params.append("startDate", startDate);
-    if (endDate) params.append("endDate", endDate);
-
-    const url = `${API_BASE_URL}/api/chart-data/portfolio/${portfolioId}/performance?${params.toString()}`;
-    const response = await fetchWithAuth(url);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch portfolio performance");
-    }
-
-    return await response.json();
-  } catch (error) {
-
-    throw error;
-  }
-};
-
-export const cleanupDuplicates = async (): Promise<any> => {
-  try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/chart-data/cleanup-duplicates`, {
-      method: "POST",
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to cleanup duplicates");
-    }
-
-    return await response.json();
-  } catch (error) {
+): Promise<any> =>
+  apiGet(`/api/chart-data/portfolio/${portfolioId}/performance`, {
+    query: { startDate, endDate },
+    errorMessage: "Failed to fetch portfolio performance",
+  });
 
-    throw error;
-  }
-};
-
-export const createChartData = async (
-  data: CreateChartDataRequest
-): Promise<ChartDataPoint> => {
-  try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/chart-data`, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to create chart data");
-    }
-
-    return await response.json();
-  } catch (error) {
-
-    throw error;
-  }
-};
+export const createChartData = (data: CreateChartDataRequest): Promise<ChartDataPoint> =>
+  apiPost<ChartDataPoint>("/api/chart-data", data, { errorMessage: "Failed to create chart data" });
 
-export const createPortfolioChartData = async (
+export const createPortfolioChartData = (
   portfolioId: string,
   data: Omit<CreateChartDataRequest, 'portfolio'>
-): Promise<ChartDataPoint> => {
-  try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/portfolios/${portfolioId}/chart-data`, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to create portfolio chart data");
-    }
-
-    return await response.json();
-  } catch (error) {
-
-    throw error;
-  }
-};
-
-export const updateChartData = async (
-  id: string,
-  data: Partial<CreateChartDataRequest>
-): Promise<ChartDataPoint> => {
-  try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/chart-data/${id}`, {
-      method: "PUT",
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to update chart data");
-    }
+): Promise<ChartDataPoint> =>
+  apiPost<ChartDataPoint>(`/admin/portfolios/${portfolioId}/chart-data`, data, {
+    errorMessage: "Failed to create portfolio chart data",
+  });
 
-    return await response.json();
-  } catch (error) {
-
-    throw error;
-  }
-};
+export const updateChartData = (id: string, data: Partial<CreateChartDataRequest>): Promise<ChartDataPoint> =>
+  apiPut<ChartDataPoint>(`/api/chart-data/${id}`, data, { errorMessage: "Failed to update chart data" });
 
 export const deleteChartData = async (id: string): Promise<void> => {
-  try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/chart-data/${id}`, {
-      method: "DELETE",
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to delete chart data");
-    }
-  } catch (error) {
-
-    throw error;
-  }
+  await apiDelete(`/api/chart-data/${id}`, { errorMessage: "Failed to delete chart data" });
 };
 
-export const fetchChartDataById = async (id: string): Promise<ChartDataPoint> => {
-  try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/chart-data/${id}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch chart data");
-    }
-
-    return await response.json();
-  } catch (error) {
-
-    throw error;
-  }
-};
-
-export const patchChartData = async (
-  id: string,
-  data: Partial<CreateChartDataRequest>
-): Promise<ChartDataPoint> => {
-  try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/chart-data/${id}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to patch chart data");
-    }
-
-    return await response.json();
-  } catch (error) {
+export const fetchChartDataById = (id: string): Promise<ChartDataPoint> =>
+  apiGet<ChartDataPoint>(`/api/chart-data/${id}`, { errorMessage: "Failed to fetch chart data" });
 
-    throw error;
-  }
-};
\ No newline at end of file
+export const patchChartData = (id: string, data: Partial<CreateChartDataRequest>): Promise<ChartDataPoint> =>
+  apiPatch<ChartDataPoint>(`/api/chart-data/${id}`, data, { errorMessage: "Failed to patch chart data" });
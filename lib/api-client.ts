@@ -0,0 +1,233 @@
+// lib/api-client.ts
+import type { ZodType } from "zod";
+import { API_BASE_URL, fetchWithAuth } from "@/lib/auth";
+import {
+  ApiAuthError,
+  ApiError,
+  ApiHtmlResponseError,
+  ApiNetworkError,
+  ApiNotFoundError,
+  ApiSchemaError,
+  ApiValidationError,
+  isAbortError,
+} from "@/lib/api-errors";
+
+export type ApiMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface ApiRequestOptions<T> {
+  method?: ApiMethod;
+  // Serialized as JSON unless it is already FormData or a string
+  body?: unknown;
+  query?: Record<string, string | number | boolean | undefined | null>;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  // Defaults to the backend; pass "" for this app's own /api routes
+  baseUrl?: string;
+  // Send the admin bearer token (with refresh on 401); on by default
+  auth?: boolean;
+  // Extra attempts after the first; only idempotent requests are retried
+  retries?: number;
+  // Delay before the first retry, doubled for each one after
+  retryDelayMs?: number;
+  // Allows retrying a POST or PATCH the server treats as idempotent
+  idempotent?: boolean;
+  // Message used when the server does not send one
+  errorMessage?: string;
+  // Validates the parsed response body. Only responses whose shape the
+  // caller relies on pass one; lists and records from the domain modules are
+  // tolerated by unwrapList and their normalizers instead.
+  schema?: ZodType<T>;
+}
+
+const IDEMPOTENT_METHODS: ApiMethod[] = ["GET", "PUT", "DELETE"];
+
+// Gateway and rate-limit responses are worth another attempt
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+const DEFAULT_GET_RETRIES = 2;
+
+const DEFAULT_RETRY_DELAY_MS = 300;
+
+const buildUrl = (path: string, baseUrl: string, query?: ApiRequestOptions<unknown>["query"]) => {
+  const url = /^https?:\/\//.test(path) ? path : `${baseUrl}${path}`;
+  if (!query) return url;
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") params.append(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `${url}${url.includes("?") ? "&" : "?"}${search}` : url;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+      },
+      { once: true }
+    );
+  });
+
+const isHtml = (response: Response) => response.headers.get("content-type")?.includes("text/html") ?? false;
+
+const pickMessage = (body: any): string | undefined =>
+  [body?.message, body?.error, body?.details, body?.msg].find(
+    (value): value is string => typeof value === "string" && value.trim() !== ""
+  );
+
+// Accepts { errors: { field: message } }, { errors: [{ path|field|param, message|msg }] }
+// and zod-style { issues: [...] }
+const pickFieldErrors = (body: any): Record<string, string> => {
+  const source = body?.errors ?? body?.issues;
+  const fieldErrors: Record<string, string> = {};
+  if (Array.isArray(source)) {
+    source.forEach((item) => {
+      const field = Array.isArray(item?.path) ? item.path.join(".") : item?.path || item?.field || item?.param;
+      const message = item?.message || item?.msg;
+      if (field && message) fieldErrors[String(field)] = String(message);
+    });
+  } else if (source && typeof source === "object") {
+    Object.entries(source).forEach(([field, value]) => {
+      const message = typeof value === "string" ? value : (value as any)?.message;
+      if (message) fieldErrors[field] = String(message);
+    });
+  }
+  return fieldErrors;
+};
+
+/**
+ * Maps a failed response to the matching ApiError subclass.
+ */
+export const toApiError = async (response: Response, fallback = "Request failed"): Promise<ApiError> => {
+  const options = { status: response.status, url: response.url };
+  if (isHtml(response)) {
+    return new ApiHtmlResponseError(`${fallback}: server returned an HTML response instead of JSON`, options);
+  }
+  const body = await response.json().catch(() => undefined);
+  const message = pickMessage(body) || `${fallback}: server returned ${response.status}`;
+  const withBody = { ...options, body };
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new ApiValidationError(message, pickFieldErrors(body), withBody);
+    case 401:
+    case 403:
+      return new ApiAuthError(message, withBody);
+    case 404:
+      return new ApiNotFoundError(message, withBody);
+    default:
+      return new ApiError(message, withBody);
+  }
+};
+
+const send = async (url: string, init: RequestInit, auth: boolean): Promise<Response> => {
+  try {
+    return auth ? await fetchWithAuth(url, init) : await fetch(url, init);
+  } catch (error) {
+    if (isAbortError(error) || error instanceof ApiError) throw error;
+    // fetch rejects with a TypeError when the server cannot be reached
+    throw new ApiNetworkError(error instanceof Error ? error.message : "Network request failed", { url, cause: error });
+  }
+};
+
+/**
+ * Sends a request to the backend and returns the parsed JSON body.
+ *
+ * Failures become typed ApiErrors. GET requests are retried twice by
+ * default with exponential backoff; PUT and DELETE only when `retries` is
+ * set, and POST or PATCH only when also marked `idempotent`. Aborting
+ * `signal` cancels the request and any pending retry.
+ */
+export const apiRequest = async <T = any>(path: string, options: ApiRequestOptions<T> = {}): Promise<T> => {
+  const method = options.method || "GET";
+  const url = buildUrl(path, options.baseUrl ?? API_BASE_URL, options.query);
+  const canRetry = IDEMPOTENT_METHODS.includes(method) || options.idempotent === true;
+  const retries = canRetry ? options.retries ?? (method === "GET" ? DEFAULT_GET_RETRIES : 0) : 0;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const fallback = options.errorMessage || "Request failed";
+
+  const isRawBody = options.body instanceof FormData || typeof options.body === "string";
+  const init: RequestInit = {
+    method,
+    signal: options.signal,
+    headers: {
+      ...(options.body === undefined || isRawBody ? {} : { "Content-Type": "application/json" }),
+      ...options.headers,
+    },
+    body: options.body === undefined ? undefined : isRawBody ? (options.body as BodyInit) : JSON.stringify(options.body),
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    let error: ApiError;
+    try {
+      const response = await send(url, init, options.auth !== false);
+      if (response.ok) return await parseResponse(response, options.schema, fallback);
+      error = await toApiError(response, fallback);
+      if (!RETRYABLE_STATUSES.includes(response.status)) throw error;
+    } catch (caught) {
+      if (!(caught instanceof ApiNetworkError)) throw caught;
+      error = caught;
+    }
+    if (attempt >= retries) throw error;
+    await sleep(retryDelayMs * 2 ** attempt, options.signal);
+  }
+};
+
+const parseResponse = async <T>(response: Response, schema: ZodType<T> | undefined, fallback: string): Promise<T> => {
+  if (response.status === 204) return undefined as T;
+  if (isHtml(response)) {
+    throw new ApiHtmlResponseError(`${fallback}: server returned an HTML response instead of JSON`, {
+      status: response.status,
+      url: response.url,
+    });
+  }
+  const text = await response.text();
+  let data: unknown;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch (error) {
+    throw new ApiSchemaError(`${fallback}: response is not valid JSON`, [], { status: response.status, url: response.url, cause: error });
+  }
+  if (!schema) return data as T;
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+  const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "response"}: ${issue.message}`);
+  throw new ApiSchemaError(`${fallback}: unexpected response from the server`, issues, {
+    status: response.status,
+    url: response.url,
+    body: data,
+  });
+};
+
+type ApiShortcutOptions<T> = Omit<ApiRequestOptions<T>, "method" | "body">;
+
+export const apiGet = <T = any>(path: string, options?: ApiShortcutOptions<T>) =>
+  apiRequest<T>(path, { ...options, method: "GET" });
+
+export const apiPost = <T = any>(path: string, body?: unknown, options?: ApiShortcutOptions<T>) =>
+  apiRequest<T>(path, { ...options, method: "POST", body });
+
+export const apiPut = <T = any>(path: string, body?: unknown, options?: ApiShortcutOptions<T>) =>
+  apiRequest<T>(path, { ...options, method: "PUT", body });
+
+export const apiPatch = <T = any>(path: string, body?: unknown, options?: ApiShortcutOptions<T>) =>
+  apiRequest<T>(path, { ...options, method: "PATCH", body });
+
+export const apiDelete = <T = any>(path: string, options?: ApiShortcutOptions<T>) =>
+  apiRequest<T>(path, { ...options, method: "DELETE" });
+
+/**
+ * Unwraps list responses that come back bare or wrapped in `data` or a
+ * named key.
+ */
+export const unwrapList = <T>(data: any, key?: string): T[] => {
+  if (Array.isArray(data)) return data;
+  const list = data?.data ?? (key ? data?.[key] : undefined);
+  return Array.isArray(list) ? list : [];
+};
@@ -1,5 +1,5 @@
 // lib/api-coupons.ts
-import { getAdminAccessToken } from './auth';
+import { apiDelete, apiGet, apiPost, apiPut } from './api-client';
 
 export interface Coupon {
   _id: string;
@@ -88,69 +88,35 @@ export interface ValidateCouponResponse {
   savings: number;
 }
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
-
 export async function fetchCoupons(params?: {
   page?: number;
   limit?: number;
   status?: string;
   discountType?: string;
   search?: string;
-}): Promise<CouponsResponse> {
-  const token = getAdminAccessToken();
-  if (!token) throw new Error('Admin authentication required');
-
-  const searchParams = new URLSearchParams();
-  if (params?.page) searchParams.set('page', params.page.toString());
-  if (params?.limit) searchParams.set('limit', params.limit.toString());
-  if (params?.status) searchParams.set('status', params.status);
-  if (params?.discountType) searchParams.set('discountType', params.discountType);
-  if (params?.search) searchParams.set('search', params.search);
-
-  const response = await fetch(`${API_BASE_URL}/api/admin/coupons?${searchParams}`, {
-    headers: { 'Authorization': `Bearer ${token}` }
+}, signal?: AbortSignal): Promise<CouponsResponse> {
+  return apiGet<CouponsResponse>('/api/admin/coupons', {
+    query: {
+      page: params?.page,
+      limit: params?.limit,
+      status: params?.status,
+      discountType: params?.discountType,
+      search: params?.search,
+    },
+    signal,
+    errorMessage: 'Failed to fetch coupons',
   });
-
-  if (!response.ok) throw new Error('Failed to fetch coupons');
-  return response.json();
 }
 
 export async function fetchCouponById(id: string): Promise<{ success: boolean; coupon: Coupon }> {
-  const token = getAdminAccessToken();
-  if (!token) throw new Error('Admin authentication required');
-
-  const response = await fetch(`${API_BASE_URL}/api/admin/coupons/${id}`, {
-    headers: { 'Authorization': `Bearer ${token}` }
-  });
-
-  if (!response.ok) throw new Error('Failed to fetch coupon');
-  return response.json();
+  return apiGet(`/api/admin/coupons/${id}`, { errorMessage: 'Failed to fetch coupon' });
 }
 
 export async function createCoupon(data: CreateCouponRequest): Promise<{ success: boolean; coupon: Coupon }> {
-  const token = getAdminAccessToken();
-  if (!token) throw new Error('Admin authentication required');
-
-  const response = await fetch(`${API_BASE_URL}/api/admin/coupons`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`
-    },
-    body: JSON.stringify(data)
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to create coupon');
-  }
-  return response.json();
+  return apiPost('/api/admin/coupons', data, { errorMessage: 'Failed to create coupon' });
 }
 
 export async function updateCoupon(id: string, data: CreateCouponRequest): Promise<{ success: boolean; coupon: Coupon }> {
-  const token = getAdminAccessToken();
-  if (!token) throw new Error('Admin authentication required');
-
   // Transform data to match API specification
   const updateData = {
     code: data.code,
@@ -162,54 +128,18 @@ export async function updateCoupon(id: string, data: CreateCouponRequest): Promi
     validUntil: new Date(data.validUntil).toISOString()
   };
 
-  const response = await fetch(`${API_BASE_URL}/api/admin/coupons/${id}`, {
-    method: 'PUT',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`
-    },
-    body: JSON.stringify(updateData)
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to update coupon');
-  }
-  return response.json();
+  return apiPut(`/api/admin/coupons/${id}`, updateData, { errorMessage: 'Failed to update coupon' });
 }
 
 export async function deleteCoupon(id: string): Promise<{ success: boolean }> {
-  const token = getAdminAccessToken();
-  if (!token) throw new Error('Admin authentication required');
-
-  const response = await fetch(`${API_BASE_URL}/api/admin/coupons/${id}`, {
-    method: 'DELETE',
-    headers: { 'Authorization': `Bearer ${token}` }
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to delete coupon');
-  }
-  return response.json();
+  return apiDelete(`/api/admin/coupons/${id}`, { errorMessage: 'Failed to delete coupon' });
 }
 
 export async function validateCoupon(data: ValidateCouponRequest): Promise<ValidateCouponResponse> {
-  const token = getAdminAccessToken();
-  if (!token) throw new Error('Admin authentication required');
-
-  const response = await fetch(`${API_BASE_URL}/api/admin/coupons/validate`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`
-    },
-    body: JSON.stringify(data)
+  // Validation only reads the coupon, so a retry cannot apply it twice
+  return apiPost('/api/admin/coupons/validate', data, {
+    idempotent: true,
+    retries: 1,
+    errorMessage: 'Failed to validate coupon',
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to validate coupon');
-  }
-  return response.json();
-}
\ No newline at end of file
+}
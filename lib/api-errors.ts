@@ -0,0 +1,85 @@
+// lib/api-errors.ts
+
+export type ApiErrorKind = "auth" | "validation" | "not-found" | "network" | "html-response" | "schema" | "server";
+
+export interface ApiErrorOptions {
+  status?: number;
+  url?: string;
+  // Parsed error body, when the server sent one
+  body?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every failure raised by the API client. Subclasses keep
+ * the messages existing callers already show, so `error.message` stays
+ * usable while `instanceof` checks allow typed handling.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind = "server";
+  readonly status?: number;
+  readonly url?: string;
+  readonly body?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.url = options.url;
+    this.body = options.body;
+    if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+}
+
+// 401/403, a missing token or a refresh that failed
+export class ApiAuthError extends ApiError {
+  readonly kind = "auth";
+}
+
+// 400/422 with the server's per-field messages when it sent them
+export class ApiValidationError extends ApiError {
+  readonly kind = "validation";
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(message: string, fieldErrors: Record<string, string> = {}, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class ApiNotFoundError extends ApiError {
+  readonly kind = "not-found";
+}
+
+// The request never got a response: offline, DNS, CORS or a timeout
+export class ApiNetworkError extends ApiError {
+  readonly kind = "network";
+}
+
+// Usually a proxy error page or a wrong base URL
+export class ApiHtmlResponseError extends ApiError {
+  readonly kind = "html-response";
+}
+
+// The response parsed but did not match the expected shape
+export class ApiSchemaError extends ApiError {
+  readonly kind = "schema";
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = [], options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.issues = issues;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Aborts requested by the caller are not failures and are rethrown as-is
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === "AbortError";
+
+/**
+ * Message for a toast or an inline alert.
+ */
+export const getApiErrorMessage = (error: unknown, fallback = "An error occurred"): string =>
+  error instanceof Error && error.message ? error.message : fallback;
@@ -1,5 +1,6 @@
 // lib/api-faqs.ts
-import { fetchWithAuth, API_BASE_URL } from "@/lib/auth";
+import { apiDelete, apiGet, apiPatch, apiPost } from "@/lib/api-client";
+import { ApiValidationError } from "@/lib/api-errors";
 
 export interface FAQ {
   id: string;
@@ -22,96 +23,52 @@ export interface CreateFAQRequest {
   relatedFAQs?: string[];
 }
 
+const normalizeFAQ = (faq: any): FAQ => ({
+  ...faq,
+  id: faq._id || faq.id,
+});
+
 export const fetchFAQs = async (params?: {
   category?: string;
   tag?: string;
   search?: string;
 }): Promise<FAQ[]> => {
-  const searchParams = new URLSearchParams();
-  if (params?.category) searchParams.append('category', params.category);
-  if (params?.tag) searchParams.append('tag', params.tag);
-  if (params?.search) searchParams.append('search', params.search);
-
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/faqs?${searchParams}`);
-  if (!response.ok) {
-    throw new Error('Failed to fetch FAQs');
-  }
-  
-  const faqs = await response.json();
-  return faqs.map((faq: any) => ({
-    ...faq,
-    id: faq._id || faq.id,
-  }));
+  const faqs = await apiGet<any[]>('/api/faqs', {
+    query: { category: params?.category, tag: params?.tag, search: params?.search },
+    errorMessage: 'Failed to fetch FAQs',
+  });
+  return faqs.map(normalizeFAQ);
 };
 
 export const fetchFAQById = async (id: string): Promise<FAQ> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/faqs/${id}`);
-  if (!response.ok) {
-    throw new Error('Failed to fetch FAQ');
-  }
-  
-  const faq = await response.json();
-  return {
-    ...faq,
-    id: faq._id || faq.id,
-  };
+  return normalizeFAQ(await apiGet(`/api/faqs/${id}`, { errorMessage: 'Failed to fetch FAQ' }));
 };
 
 export const createFAQ = async (data: CreateFAQRequest): Promise<FAQ> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/faqs`, {
-    method: 'POST',
-    body: JSON.stringify(data),
-  });
-  
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ message: 'Failed to create FAQ' }));
-    console.error('Create FAQ error:', error);
-    if (error.details) {
-      console.error('Validation details:', error.details);
-      const messages = error.details.map((d: any) => {
+  try {
+    return normalizeFAQ(await apiPost('/api/faqs', data, { errorMessage: 'Failed to create FAQ' }));
+  } catch (error) {
+    // The FAQ endpoint lists validation problems under `details`
+    const details = error instanceof ApiValidationError ? (error.body as any)?.details : undefined;
+    if (Array.isArray(details)) {
+      console.error('Validation details:', details);
+      const messages = details.map((d: any) => {
         if (typeof d === 'object' && d.message) return d.message;
         if (typeof d === 'object' && d.path) return `${d.path}: ${d.msg || 'Invalid value'}`;
         return JSON.stringify(d);
       });
-      throw new Error(`Validation failed: ${messages.join(', ')}`);
+      throw new ApiValidationError(`Validation failed: ${messages.join(', ')}`, (error as ApiValidationError).fieldErrors, {
+        status: (error as ApiValidationError).status,
+        body: (error as ApiValidationError).body,
+      });
     }
-    throw new Error(error.message || 'Failed to create FAQ');
+    throw error;
   }
-  
-  const faq = await response.json();
-  return {
-    ...faq,
-    id: faq._id || faq.id,
-  };
 };
 
 export const updateFAQ = async (id: string, data: Partial<CreateFAQRequest>): Promise<FAQ> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/faqs/${id}`, {
-    method: 'PATCH',
-    body: JSON.stringify(data),
-  });
-  
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ message: 'Failed to update FAQ' }));
-    throw new Error(error.message || 'Failed to update FAQ');
-  }
-  
-  const faq = await response.json();
-  return {
-    ...faq,
-    id: faq._id || faq.id,
-  };
+  return normalizeFAQ(await apiPatch(`/api/faqs/${id}`, data, { errorMessage: 'Failed to update FAQ' }));
 };
 
-export const deleteFAQ = async (id: string): Promise<{ message: string }> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/faqs/${id}`, {
-    method: 'DELETE',
-  });
-  
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to delete FAQ');
-  }
-  
-  return response.json();
-};
\ No newline at end of file
+export const deleteFAQ = (id: string): Promise<{ message: string }> =>
+  apiDelete(`/api/faqs/${id}`, { errorMessage: 'Failed to delete FAQ' });
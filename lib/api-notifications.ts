@@ -1,5 +1,6 @@
 // lib/api-notifications.ts
-import { fetchWithAuth, API_BASE_URL } from "@/lib/auth";
+import { z } from "zod";
+import { apiPost } from "@/lib/api-client";
 
 export interface NotificationRequest {
   portfolioId: string;
@@ -7,22 +8,14 @@ export interface NotificationRequest {
   message: string;
 }
 
-export interface NotificationResponse {
-  success: boolean;
-  mailedTo: number;
-  emailsSent: string[];
-}
-
-export const sendNotification = async (data: NotificationRequest): Promise<NotificationResponse> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/notify`, {
-    method: "POST",
-    body: JSON.stringify(data),
-  });
+// The page reports mailedTo back to the admin, so the count must be present
+const notificationResponseSchema = z.looseObject({
+  success: z.boolean(),
+  mailedTo: z.number(),
+  emailsSent: z.array(z.string()).default([]),
+});
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: "Failed to send notification" }));
-    throw new Error(error.error || `Failed to send notification: ${response.status}`);
-  }
+export type NotificationResponse = z.infer<typeof notificationResponseSchema>;
 
-  return response.json();
-};
\ No newline at end of file
+export const sendNotification = (data: NotificationRequest): Promise<NotificationResponse> =>
+  apiPost("/api/admin/notify", data, { schema: notificationResponseSchema, errorMessage: "Failed to send notification" });
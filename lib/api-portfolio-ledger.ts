@@ -0,0 +1,73 @@
+// lib/api-portfolio-ledger.ts
+import type { PortfolioHolding } from "@/lib/api";
+import { apiGet, apiPost, unwrapList } from "@/lib/api-client";
+
+export type PortfolioTransactionType = "buy" | "addon-buy" | "partial-sell" | "exit" | "cash-adjustment";
+
+export interface PortfolioTransaction {
+  _id?: string;
+  id?: string;
+  portfolio: string;
+  type: PortfolioTransactionType;
+  // Trade date; entries are replayed in this order
+  date: string;
+  symbol?: string;
+  quantity?: number;
+  price?: number;
+  // Signed cash movement for cash adjustments (deposits positive)
+  amount?: number;
+  sector?: string;
+  stockCapType?: PortfolioHolding["stockCapType"];
+  note?: string;
+  createdAt?: string;
+  createdBy?: string;
+}
+
+export type CreatePortfolioTransactionRequest = Omit<PortfolioTransaction, "_id" | "id" | "portfolio" | "createdAt" | "createdBy">;
+
+/**
+ * Fetches every ledger entry for a portfolio. The ledger is append-only;
+ * corrections are recorded as new entries.
+ */
+export const fetchPortfolioTransactions = async (portfolioId: string): Promise<PortfolioTransaction[]> => {
+  if (!portfolioId) throw new Error("Invalid portfolio ID");
+  const data = await apiGet(`/api/admin/portfolios/${portfolioId}/transactions`, {
+    errorMessage: "Failed to fetch portfolio transactions",
+  });
+  return unwrapList<PortfolioTransaction>(data, "transactions");
+};
+
+/**
+ * Appends one or more entries to a portfolio's ledger.
+ */
+export const recordPortfolioTransactions = async (
+  portfolioId: string,
+  transactions: CreatePortfolioTransactionRequest[]
+): Promise<PortfolioTransaction[]> => {
+  if (!portfolioId) throw new Error("Invalid portfolio ID");
+  if (transactions.length === 0) return [];
+  const data = await apiPost(
+    `/api/admin/portfolios/${portfolioId}/transactions`,
+    { transactions },
+    { errorMessage: "Failed to record portfolio transactions" }
+  );
+  return unwrapList<PortfolioTransaction>(data, "transactions");
+};
+
+/**
+ * Appends the entries for a holdings change that was already saved.
+ * Failures are logged and reported as false rather than thrown, so they
+ * never fail the update that triggered them.
+ */
+export const appendPortfolioTransactions = async (
+  portfolioId: string,
+  transactions: CreatePortfolioTransactionRequest[]
+): Promise<boolean> => {
+  try {
+    await recordPortfolioTransactions(portfolioId, transactions);
+    return true;
+  } catch (error) {
+    console.warn("Failed to record portfolio transactions:", error);
+    return false;
+  }
+};
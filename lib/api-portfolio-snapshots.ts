@@ -0,0 +1,72 @@
+// lib/api-portfolio-snapshots.ts
+import type { PortfolioHolding } from "@/lib/api";
+import { apiGet, apiPost, unwrapList } from "@/lib/api-client";
+
+export type PortfolioSnapshotSource = "updatePortfolio" | "updatePortfolioHoldings" | "manual";
+
+export interface PortfolioSnapshot {
+  _id?: string;
+  id?: string;
+  portfolio: string;
+  // When the holdings were captured; "as of" lookups use this
+  capturedAt: string;
+  holdings: PortfolioHolding[];
+  cashBalance: number;
+  holdingsValue: number;
+  source: PortfolioSnapshotSource;
+  createdBy?: string;
+}
+
+export type CreatePortfolioSnapshotRequest = Omit<PortfolioSnapshot, "_id" | "id" | "portfolio" | "createdBy">;
+
+/**
+ * Fetches every snapshot captured for a portfolio.
+ */
+export const fetchPortfolioSnapshots = async (portfolioId: string): Promise<PortfolioSnapshot[]> => {
+  if (!portfolioId) throw new Error("Invalid portfolio ID");
+  const data = await apiGet(`/api/admin/portfolios/${portfolioId}/snapshots`, {
+    errorMessage: "Failed to fetch portfolio snapshots",
+  });
+  return unwrapList<PortfolioSnapshot>(data, "snapshots");
+};
+
+/**
+ * Stores a snapshot of a portfolio's holdings and cash.
+ */
+export const createPortfolioSnapshot = async (
+  portfolioId: string,
+  snapshot: CreatePortfolioSnapshotRequest
+): Promise<PortfolioSnapshot> => {
+  if (!portfolioId) throw new Error("Invalid portfolio ID");
+  const data = await apiPost(`/api/admin/portfolios/${portfolioId}/snapshots`, snapshot, {
+    errorMessage: "Failed to create portfolio snapshot",
+  });
+  return data.data || data.snapshot || data;
+};
+
+/**
+ * Captures the current state of a portfolio after its holdings changed.
+ * Failures are logged rather than thrown so they never fail the update
+ * that triggered them.
+ */
+export const capturePortfolioSnapshot = async (
+  portfolioId: string,
+  portfolio: { holdings?: PortfolioHolding[]; cashBalance?: number; holdingsValue?: number },
+  source: PortfolioSnapshotSource
+): Promise<PortfolioSnapshot | null> => {
+  const holdings = portfolio.holdings || [];
+  try {
+    return await createPortfolioSnapshot(portfolioId, {
+      capturedAt: new Date().toISOString(),
+      holdings,
+      cashBalance: portfolio.cashBalance || 0,
+      holdingsValue:
+        portfolio.holdingsValue ??
+        Math.round(holdings.reduce((sum, holding) => sum + holding.quantity * holding.buyPrice, 0) * 100) / 100,
+      source,
+    });
+  } catch (error) {
+    console.warn("Failed to capture portfolio snapshot:", error);
+    return null;
+  }
+};
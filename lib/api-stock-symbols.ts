@@ -1,5 +1,7 @@
 // lib\api-stock-symbols.ts
-import { API_BASE_URL, getAdminAccessToken } from "@/lib/auth";
+import { API_BASE_URL, ensureFreshSession } from "@/lib/auth";
+import { apiRequest, type ApiRequestOptions } from "@/lib/api-client";
+import { ApiNetworkError } from "@/lib/api-errors";
 
 export interface StockSymbol {
   _id?: string;
@@ -92,35 +94,44 @@ let wsReconnectTimeout: NodeJS.Timeout | null = null;
 // Real-time update callbacks
 const realtimeCallbacks = new Set<(data: StockSymbol[]) => void>();
 
-// Enhanced fetch function with connection monitoring
-const fetchWithErrorHandling = async (url: string, options?: RequestInit): Promise<Response> => {
+// Runs a request through the API client while recording connection status
+const trackedRequest = async <T = any>(path: string, options: ApiRequestOptions<T> = {}): Promise<T> => {
   const startTime = Date.now();
-  
+
   try {
-    const response = await fetch(url, {
-      ...options,
-      signal: AbortSignal.timeout(30000), // 30 second timeout
-    });
-    
-    const endTime = Date.now();
-    connectionStatus.latency = endTime - startTime;
+    const result = await apiRequest<T>(path, options);
+
+    connectionStatus.latency = Date.now() - startTime;
     connectionStatus.lastPing = new Date();
-    connectionStatus.isConnected = response.ok;
+    connectionStatus.isConnected = true;
     connectionStatus.retryCount = 0;
-    
-    return response;
+
+    return result;
   } catch (error) {
-    connectionStatus.isConnected = false;
-    connectionStatus.retryCount++;
-    
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timeout - please check your connection');
+    // Only a missing response means the connection is down
+    if (error instanceof ApiNetworkError) {
+      connectionStatus.isConnected = false;
+      connectionStatus.retryCount++;
     }
-    
+
     throw error;
   }
 };
 
+const unwrapData = <T>(result: any): T => result?.data || result;
+
+// The socket authenticates with a short-lived ticket the server requests
+// for it; the access token stays in the session cookie
+const getSocketTicket = async (): Promise<string | null> => {
+  try {
+    if (!(await ensureFreshSession())) return null;
+    const response = await fetch("/api/session/socket-ticket", { method: "POST", cache: "no-store" });
+    return response.ok ? (await response.json()).ticket : null;
+  } catch (error) {
+    return null;
+  }
+};
+
 // WebSocket connection management
 export const initializeRealtimeConnection = (onUpdate?: (data: StockSymbol[]) => void) => {
   const wsUrl = API_BASE_URL.replace('http', 'ws') + '/ws/stock-prices';
@@ -134,10 +145,11 @@ export const initializeRealtimeConnection = (onUpdate?: (data: StockSymbol[]) =>
       connectionStatus.retryCount = 0;
       
       // Send authentication
-      const token = getAdminAccessToken();
-      if (token) {
-        wsConnection?.send(JSON.stringify({ type: 'auth', token }));
-      }
+      getSocketTicket().then((ticket) => {
+        if (ticket) {
+          wsConnection?.send(JSON.stringify({ type: 'auth', ticket }));
+        }
+      });
     };
     
     wsConnection.onmessage = (event) => {
@@ -187,6 +199,17 @@ export const initializeRealtimeConnection = (onUpdate?: (data: StockSymbol[]) =>
   }
 };
 
+// Opens the price socket unless one is already open or connecting
+export const ensureRealtimeConnection = () => {
+  if (
+    wsConnection &&
+    (wsConnection.readyState === WebSocket.OPEN || wsConnection.readyState === WebSocket.CONNECTING)
+  ) {
+    return;
+  }
+  initializeRealtimeConnection();
+};
+
 export const closeRealtimeConnection = () => {
   if (wsConnection) {
     wsConnection.close();
@@ -214,372 +237,128 @@ export const getConnectionStatus = (): ConnectionStatus => {
 };
 
 // Search stock symbols by keyword
-export const searchStockSymbols = async (keyword: string): Promise<StockSymbol[]> => {
-  try {
-    if (!keyword || keyword.trim().length < 2) {
-      return [];
-    }
-
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required");
-    }
-
-    const response = await fetchWithErrorHandling(
-      `${API_BASE_URL}/api/stock-symbols/search?keyword=${encodeURIComponent(keyword)}`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${adminToken}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON - API may be unavailable");
-      }
-
-      const errorData = await response.json();
-      throw new Error(errorData.message || errorData.error || "Failed to search stocks");
-    }
-
-    const result: StockSearchResult = await response.json();
-    return result.data || [];
-  } catch (error) {
-
-    throw error;
+export const searchStockSymbols = async (keyword: string, signal?: AbortSignal): Promise<StockSymbol[]> => {
+  if (!keyword || keyword.trim().length < 2) {
+    return [];
   }
+
+  const result = await trackedRequest<StockSearchResult>("/api/stock-symbols/search", {
+    query: { keyword },
+    signal,
+    errorMessage: "Failed to search stocks",
+  });
+  return result.data || [];
 };
 
 // Get stock symbol details by symbol
-export const fetchStockSymbolBySymbol = async (symbol: string): Promise<StockSymbol> => {
-  try {
-    if (!symbol) {
-      throw new Error("Stock symbol is required");
-    }
-
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required");
-    }
-
-    const response = await fetchWithErrorHandling(
-      `${API_BASE_URL}/api/stock-symbols/ticker/${symbol}`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${adminToken}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON - API may be unavailable");
-      }
-
-      const errorData = await response.json();
-      throw new Error(errorData.message || errorData.error || "Failed to fetch stock details");
-    }
-
-    const result = await response.json();
-    return result.data || result;
-  } catch (error) {
-
-    throw error;
+export const fetchStockSymbolBySymbol = async (symbol: string, signal?: AbortSignal): Promise<StockSymbol> => {
+  if (!symbol) {
+    throw new Error("Stock symbol is required");
   }
+
+  const result = await trackedRequest(`/api/stock-symbols/ticker/${encodeURIComponent(symbol)}`, {
+    signal,
+    errorMessage: "Failed to fetch stock details",
+  });
+  return unwrapData<StockSymbol>(result);
 };
 
 // Update all stock prices with enhanced monitoring
 export const updateStockPrices = async (): Promise<StockPriceUpdateResult> => {
-  try {
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required");
-    }
-
-    const response = await fetchWithErrorHandling(
-      `${API_BASE_URL}/api/stock-symbols/update-prices`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${adminToken}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON - API may be unavailable");
-      }
-
-      const errorData = await response.json();
-      throw new Error(errorData.message || errorData.error || "Failed to update stock prices");
-    }
-
-    const result: StockPriceUpdateResult = await response.json();
-    return result;
-  } catch (error) {
-
-    throw error;
-  }
+  return trackedRequest<StockPriceUpdateResult>("/api/stock-symbols/update-prices", {
+    method: "POST",
+    errorMessage: "Failed to update stock prices",
+  });
 };
 
 // Get all stock symbols
-export const fetchAllStockSymbols = async (): Promise<StockSymbol[]> => {
-  try {
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required");
-    }
-
-    const response = await fetchWithErrorHandling(
-      `${API_BASE_URL}/api/stock-symbols`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${adminToken}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON - API may be unavailable");
-      }
-
-      const errorData = await response.json();
-      throw new Error(errorData.message || errorData.error || "Failed to fetch stock symbols");
-    }
-
-    const result = await response.json();
-    return result.data || result;
-  } catch (error) {
-
-    throw error;
-  }
+export const fetchAllStockSymbols = async (signal?: AbortSignal): Promise<StockSymbol[]> => {
+  const result = await trackedRequest("/api/stock-symbols", {
+    signal,
+    errorMessage: "Failed to fetch stock symbols",
+  });
+  return unwrapData<StockSymbol[]>(result);
 };
 
 // Create a new stock symbol
 export const createStockSymbol = async (stockData: CreateStockSymbolRequest): Promise<StockSymbol> => {
-  try {
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required");
-    }
-
-    const response = await fetchWithErrorHandling(`${API_BASE_URL}/api/stock-symbols`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${adminToken}`,
-      },
-      body: JSON.stringify(stockData),
-    });
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON - API may be unavailable");
-      }
-
-      const errorData = await response.json();
-      throw new Error(errorData.message || errorData.error || "Failed to create stock symbol");
-    }
-
-    const result = await response.json();
-    return result.data || result;
-  } catch (error) {
-
-    throw error;
-  }
+  const result = await trackedRequest("/api/stock-symbols", {
+    method: "POST",
+    body: stockData,
+    errorMessage: "Failed to create stock symbol",
+  });
+  return unwrapData<StockSymbol>(result);
 };
 
 // Get all stock symbols with pagination and enhanced metadata
-export const fetchStockSymbols = async (page: number = 1, limit: number = 50): Promise<StockSymbolsResponse> => {
-  try {
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required");
-    }
-
-    const response = await fetchWithErrorHandling(
-      `${API_BASE_URL}/api/stock-symbols?page=${page}&limit=${limit}`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${adminToken}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON - API may be unavailable");
-      }
-
-      const errorData = await response.json();
-      throw new Error(errorData.message || errorData.error || "Failed to fetch stock symbols");
-    }
-
-    const result = await response.json();
-    
-    // Add client-side metadata
-    const enhancedResult: StockSymbolsResponse = {
-      ...result,
-      lastUpdated: new Date().toISOString(),
-    };
-    
-    return enhancedResult;
-  } catch (error) {
-
-    throw error;
-  }
+export const fetchStockSymbols = async (
+  page: number = 1,
+  limit: number = 50,
+  signal?: AbortSignal
+): Promise<StockSymbolsResponse> => {
+  const result = await trackedRequest("/api/stock-symbols", {
+    query: { page, limit },
+    signal,
+    errorMessage: "Failed to fetch stock symbols",
+  });
+
+  // Add client-side metadata
+  return {
+    ...result,
+    lastUpdated: new Date().toISOString(),
+  };
 };
 
 // Get stock symbol by ID
-export const fetchStockSymbolById = async (id: string): Promise<StockSymbol> => {
-  try {
-    if (!id) {
-      throw new Error("Stock symbol ID is required");
-    }
-
-    // Validate ID format (should be a valid MongoDB ObjectId or similar)
-    if (typeof id !== 'string' || id.trim().length === 0) {
-      throw new Error("Invalid stock symbol ID format");
-    }
-
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required");
-    }
-
-
-
-    const response = await fetchWithErrorHandling(`${API_BASE_URL}/api/stock-symbols/${id}`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${adminToken}`,
-      },
-    });
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON - API may be unavailable");
-      }
-
-      const errorData = await response.json();
-      throw new Error(errorData.message || errorData.error || "Failed to fetch stock symbol");
-    }
-
-    const result = await response.json();
-    return result.data || result;
-  } catch (error) {
+export const fetchStockSymbolById = async (id: string, signal?: AbortSignal): Promise<StockSymbol> => {
+  if (!id) {
+    throw new Error("Stock symbol ID is required");
+  }
 
-    throw error;
+  // Validate ID format (should be a valid MongoDB ObjectId or similar)
+  if (typeof id !== 'string' || id.trim().length === 0) {
+    throw new Error("Invalid stock symbol ID format");
   }
+
+  const result = await trackedRequest(`/api/stock-symbols/${id}`, {
+    signal,
+    errorMessage: "Failed to fetch stock symbol",
+  });
+  return unwrapData<StockSymbol>(result);
 };
 
 // Update a stock symbol
 export const updateStockSymbol = async (id: string, stockData: UpdateStockSymbolRequest): Promise<StockSymbol> => {
-  try {
-    if (!id) {
-      throw new Error("Stock symbol ID is required");
-    }
-
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required");
-    }
-
-    const response = await fetchWithErrorHandling(`${API_BASE_URL}/api/stock-symbols/${id}`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${adminToken}`,
-      },
-      body: JSON.stringify(stockData),
-    });
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON - API may be unavailable");
-      }
-
-      const errorData = await response.json();
-      throw new Error(errorData.message || errorData.error || "Failed to update stock symbol");
-    }
-
-    const result = await response.json();
-    return result.data || result;
-  } catch (error) {
-
-    throw error;
+  if (!id) {
+    throw new Error("Stock symbol ID is required");
   }
+
+  const result = await trackedRequest(`/api/stock-symbols/${id}`, {
+    method: "PUT",
+    body: stockData,
+    errorMessage: "Failed to update stock symbol",
+  });
+  return unwrapData<StockSymbol>(result);
 };
 
 // Delete a stock symbol
 export const deleteStockSymbol = async (id: string): Promise<void> => {
-  try {
-    if (!id) {
-      throw new Error("Stock symbol ID is required");
-    }
-
-    const adminToken = getAdminAccessToken();
-    if (!adminToken) {
-      throw new Error("Admin authentication required");
-    }
-
-    const response = await fetchWithErrorHandling(`${API_BASE_URL}/api/stock-symbols/${id}`, {
-      method: "DELETE",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${adminToken}`,
-      },
-    });
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned HTML instead of JSON - API may be unavailable");
-      }
-
-      const errorData = await response.json();
-      throw new Error(errorData.message || errorData.error || "Failed to delete stock symbol");
-    }
-  } catch (error) {
-
-    throw error;
+  if (!id) {
+    throw new Error("Stock symbol ID is required");
   }
+
+  await trackedRequest(`/api/stock-symbols/${id}`, {
+    method: "DELETE",
+    errorMessage: "Failed to delete stock symbol",
+  });
 };
 
 // Health check function for API connectivity
 export const checkApiHealth = async (): Promise<boolean> => {
   try {
-    const response = await fetchWithErrorHandling(`${API_BASE_URL}/api/health`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-    
-    return response.ok;
+    await trackedRequest("/api/health", { auth: false, retries: 0 });
+    return true;
   } catch (error) {
-
     return false;
   }
-};
\ No newline at end of file
+};
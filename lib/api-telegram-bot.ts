@@ -1,7 +1,8 @@
 // lib/api-telegram-bot.ts
 "use client";
 
-import { fetchWithAuth, getAdminAccessToken } from "@/lib/auth";
+import { apiRequest as clientRequest, type ApiMethod } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
 import { API_BASE_URL } from "@/lib/config";
 
 // Use the same base URL as the main API (as confirmed by user)
@@ -94,75 +95,22 @@ export interface CancelSubscriptionRequest {
 }
 
 // API client functions
-const apiRequest = async (endpoint: string, options: RequestInit = {}) => {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}${endpoint}`;
-  
-  try {
-    console.log('Making Telegram API request to:', url);
-    console.log('Request method:', options.method || 'GET');
-    console.log('Base URL:', baseUrl);
-    console.log('Endpoint:', endpoint);
-
-    // Get authentication token
-    const token = getAdminAccessToken();
-    console.log('Authentication token available:', !!token);
-    console.log('Token preview:', token ? `${token.substring(0, 10)}...` : 'No token');
-    
-    const requestConfig = {
-      headers: {
-        'Content-Type': 'application/json',
-        ...(token && { 'Authorization': `Bearer ${token}` }),
-        ...options.headers
-      },
-      ...options,
-    };
-
-    console.log('Request config:', requestConfig);
-    
-    const response = await fetch(url, requestConfig);
-    
-    console.log('Response status:', response.status);
-    console.log('Response headers:', Object.fromEntries(response.headers.entries()));
-    
-    // Always try to get response data first
-    let responseData: any;
-    try {
-      responseData = await response.json();
-    } catch (e) {
-      console.error('Failed to parse response as JSON:', e);
-      responseData = { 
-        success: false, 
-        error: `HTTP ${response.status}: ${response.statusText}` 
-      };
-    }
-    
-    console.log('API Response data:', responseData);
-    
-    // Check if the response indicates an error (either HTTP status or success field)
-    if (!response.ok || responseData.success === false) {
-      console.error('API Error Response:', responseData);
-      
-      // Log validation errors if they exist
-      if (responseData.errors) {
-        console.error('Validation errors:', responseData.errors);
-        if (typeof responseData.errors === 'object') {
-          Object.entries(responseData.errors).forEach(([field, errors]) => {
-            console.error(`Field "${field}" errors:`, errors);
-          });
-        }
-      }
-      
-      // Return a more user-friendly error message
-      const errorMessage = responseData.error || responseData.message || responseData.detail || `Server error (${response.status})`;
-      throw new Error(errorMessage);
-    }
-    
-    return responseData;
-  } catch (error) {
-    console.error('Telegram Bot API Error:', error);
-    throw error;
+const apiRequest = async (endpoint: string, options: { method?: ApiMethod; body?: unknown } = {}) => {
+  const responseData = await clientRequest(endpoint, {
+    ...options,
+    baseUrl: getApiBaseUrl(),
+    errorMessage: "Telegram Bot API request failed",
+  });
+
+  // The bot API can report a failure with a 200 and `success: false`
+  if (responseData?.success === false) {
+    throw new ApiError(
+      responseData.error || responseData.message || responseData.detail || "Telegram Bot API request failed",
+      { body: responseData }
+    );
   }
+
+  return responseData;
 };
 
 // Products API
@@ -192,7 +140,7 @@ export const createProduct = async (data: CreateProductRequest): Promise<Product
   try {
     const response = await apiRequest('/api/admin/telegram/products', {
       method: 'POST',
-      body: JSON.stringify(productData),
+      body: productData,
     });
     
     console.log('Create product response:', response);
@@ -232,7 +180,7 @@ export const createProduct = async (data: CreateProductRequest): Promise<Product
 export const updateProduct = async (productId: string, data: UpdateProductRequest): Promise<Product> => {
   const response = await apiRequest(`/api/admin/telegram/products/${productId}`, {
     method: 'PUT',
-    body: JSON.stringify(data),
+    body: data,
   });
   
   console.log('Update product response:', response);
@@ -276,7 +224,7 @@ export const getUnmappedGroups = async (): Promise<TelegramGroup[]> => {
 export const createGroup = async (data: { name: string; description: string; telegram_group_id: string }): Promise<TelegramGroup> => {
   const response = await apiRequest('/api/admin/telegram/groups', {
     method: 'POST',
-    body: JSON.stringify(data),
+    body: data,
   });
   return response.data;
 };
@@ -290,7 +238,7 @@ export const mapProductToGroup = async (productId: string, data: MapProductReque
   
   const response = await apiRequest(`/api/admin/telegram/products/${productId}/map`, {
     method: 'POST',
-    body: JSON.stringify(data),
+    body: data,
   });
   
   console.log('Map product response:', response);
@@ -355,14 +303,14 @@ export const createSubscription = async (data: CreateSubscriptionRequest): Promi
 }> => {
   return await apiRequest('/api/admin/telegram/subscribe', {
     method: 'POST',
-    body: JSON.stringify(data),
+    body: data,
   });
 };
 
 export const cancelSubscription = async (data: { email: string; product_id: string }): Promise<{ success: boolean; message: string }> => {
   return await apiRequest('/api/admin/telegram/subscriptions', {
     method: 'DELETE',
-    body: JSON.stringify(data),
+    body: data,
   });
 };
 
@@ -426,7 +374,7 @@ export const kickUser = async (
   // Note: These endpoints may need to be implemented in the new API
   return await apiRequest('/api/admin/telegram/kick-user', {
     method: 'POST',
-    body: JSON.stringify(data),
+    body: data,
   });
 };
 
@@ -454,7 +402,7 @@ export const regenerateInvite = async (
   // Note: These endpoints may need to be implemented in the new API
   return await apiRequest('/api/admin/telegram/invite/regenerate', {
     method: 'POST',
-    body: JSON.stringify(data),
+    body: data,
   });
 };
 
@@ -523,20 +471,5 @@ export const syncWithTelegram = async (): Promise<{
   message: string;
   data: any;
 }> => {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/admin/telegram/sync-with-telegram`;
-  console.log('Sync URL:', url);
-  
-  const response = await fetchWithAuth(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-  });
-  
-  console.log('Sync response status:', response.status);
-  const data = await response.json();
-  console.log('Sync response data:', data);
-  
-  return data;
+  return apiRequest('/api/admin/telegram/sync-with-telegram', { method: 'POST' });
 };
\ No newline at end of file
@@ -0,0 +1,75 @@
+// lib/api-tip-revisions.ts
+import type { CreateTipRequest } from "@/lib/api-tips";
+import { apiGet, apiPost, unwrapList } from "@/lib/api-client";
+
+export interface TipFieldChange {
+  field: keyof CreateTipRequest;
+  before: unknown;
+  after: unknown;
+}
+
+export interface TipRevision {
+  _id?: string;
+  id?: string;
+  tip: string;
+  revisedAt: string;
+  // Stamped by the server from the admin's access token
+  revisedBy?: string | { _id?: string; username?: string; email?: string };
+  changes: TipFieldChange[];
+  // The tip as it was before this revision, used to restore it
+  previous: CreateTipRequest;
+  // Set when the revision was a restore of an earlier one
+  restoredFrom?: string;
+}
+
+export type CreateTipRevisionRequest = Omit<TipRevision, "_id" | "id" | "tip" | "revisedBy">;
+
+/**
+ * Fetches every revision recorded for a tip.
+ */
+export const fetchTipRevisions = async (tipId: string): Promise<TipRevision[]> => {
+  if (!tipId) throw new Error("Invalid tip ID");
+  const data = await apiGet(`/api/admin/tips/${tipId}/revisions`, { errorMessage: "Failed to fetch tip revisions" });
+  return unwrapList<TipRevision>(data, "revisions");
+};
+
+/**
+ * Stores a revision for a tip.
+ */
+export const createTipRevision = async (
+  tipId: string,
+  revision: CreateTipRevisionRequest
+): Promise<TipRevision> => {
+  if (!tipId) throw new Error("Invalid tip ID");
+  const data = await apiPost(`/api/admin/tips/${tipId}/revisions`, revision, {
+    errorMessage: "Failed to create tip revision",
+  });
+  return data.data || data.revision || data;
+};
+
+/**
+ * Records a revision after a tip was updated. Updates that changed nothing
+ * are skipped, and failures are logged rather than thrown so they never
+ * fail the update that triggered them. Route handlers, which cannot use
+ * the browser client, pass their own `save`.
+ */
+export const recordTipRevision = async (
+  tipId: string,
+  previous: CreateTipRequest,
+  changes: TipFieldChange[],
+  restoredFrom?: string,
+  save: (tipId: string, revision: CreateTipRevisionRequest) => Promise<TipRevision> = createTipRevision
+): Promise<TipRevision | null> => {
+  if (changes.length === 0) return null;
+  try {
+    return await save(tipId, {
+      revisedAt: new Date().toISOString(),
+      changes,
+      previous,
+      ...(restoredFrom ? { restoredFrom } : {}),
+    });
+  } catch (error) {
+    console.warn("Failed to record tip revision:", error);
+    return null;
+  }
+};
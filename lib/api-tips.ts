@@ -1,5 +1,9 @@
 // lib\api-tips.ts  
-import { API_BASE_URL, fetchWithAuth } from "@/lib/auth";
+import { z } from "zod";
+import { apiDelete, apiGet, apiPost, apiPut } from "@/lib/api-client";
+import { validateTipPrices } from "@/lib/tip-prices";
+import { recordTipRevision } from "@/lib/api-tip-revisions";
+import { diffTipFields } from "@/lib/tip-revisions";
 
 // Content for Tips (key-value pairs)
 export interface TipContent {
@@ -7,6 +11,9 @@ export interface TipContent {
   value: string;
 }
 
+// Draft and Scheduled tips are not visible to members until published
+export type TipStatus = "Active" | "Closed" | "Draft" | "Scheduled";
+
 // Tip Types
 export interface Tip {
   _id: string;
@@ -19,7 +26,9 @@ export interface Tip {
   category: "basic" | "premium" | "social_media";
   content: TipContent[];
   description: string;
-  status: "Active" | "Closed";
+  status: TipStatus;
+  // When a Scheduled tip goes live (ISO timestamp)
+  publishAt?: string;
   action?: string;
   buyRange?: string;
   targetPrice?: string;
@@ -44,6 +53,8 @@ export interface Tip {
 }
 
 export interface CreateTipRequest {
+  // Portfolio the tip belongs to; null moves it to general tips
+  portfolio?: string | null;
   title: string;
   stockId: string;
   stockSymbol?: string;
@@ -51,7 +62,8 @@ export interface CreateTipRequest {
   category: "basic" | "premium" | "social_media";
   content: TipContent[];
   description: string;
-  status?: "Active" | "Closed";
+  status?: TipStatus;
+  publishAt?: string;
   action?: string;
   buyRange?: string;
   targetPrice?: string;
@@ -72,120 +84,165 @@ export interface CreateTipRequest {
   }>;
 }
 
-// Get a single tip by ID
-export const fetchTipById = async (id: string): Promise<Tip> => {
-  try {
-    if (!id) {
-      throw new Error("Invalid tip ID");
-    }
+/**
+ * Full update payload for an existing tip, for callers that change a few
+ * fields through the PUT endpoint.
+ */
+export const tipToRequest = (tip: Tip): CreateTipRequest => ({
+  portfolio: tip.portfolio || null,
+  title: tip.title,
+  stockId: tip.stockId,
+  stockSymbol: tip.stockSymbol,
+  stockName: tip.stockName,
+  category: tip.category,
+  content: tip.content,
+  description: tip.description,
+  status: tip.status,
+  publishAt: tip.publishAt,
+  action: tip.action,
+  buyRange: tip.buyRange,
+  targetPrice: tip.targetPrice,
+  targetPercentage: tip.targetPercentage,
+  addMoreAt: tip.addMoreAt,
+  tipUrl: tip.tipUrl,
+  exitPrice: tip.exitPrice,
+  exitStatus: tip.exitStatus,
+  exitStatusPercentage: tip.exitStatusPercentage,
+  exitedPrice: tip.exitedPrice,
+  stopLoss: tip.stopLoss,
+  horizon: tip.horizon,
+  analysistConfidence: tip.analysistConfidence,
+  mpWeightage: tip.mpWeightage,
+  downloadLinks: tip.downloadLinks?.map(({ name, url }) => ({ name, url })),
+});
+
+// Tips come back from several endpoints with legacy shapes: string
+// content, missing arrays, `portfolio_id` or a populated portfolio
+const normalizeTipContent = (content: unknown): TipContent[] => {
+  if (typeof content === "string") {
+    return content.trim() ? [{ key: "Content", value: content }] : [];
+  }
+  if (!Array.isArray(content)) return [];
+  return content.flatMap((item) => {
+    if (typeof item === "string") return item.trim() ? [{ key: "Content", value: item }] : [];
+    if (!item || typeof item !== "object") return [];
+    return [{ key: String(item.key ?? ""), value: String(item.value ?? "") }];
+  });
+};
 
+const normalizeTipPortfolio = (portfolio: unknown): string | undefined => {
+  if (!portfolio) return undefined;
+  if (typeof portfolio === "object") {
+    const { _id, id } = portfolio as { _id?: string; id?: string };
+    return _id || id || undefined;
+  }
+  return String(portfolio);
+};
 
+// Price fields are text (ranges such as "100-110" are allowed), but older
+// tips stored some of them as numbers
+const TIP_TEXT_FIELDS = [
+  "buyRange",
+  "targetPrice",
+  "targetPercentage",
+  "addMoreAt",
+  "exitPrice",
+  "exitStatusPercentage",
+  "exitedPrice",
+  "stopLoss",
+  "mpWeightage",
+] as const;
+
+const normalizeTipNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
 
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${id}`);
+/**
+ * Normalizes a tip from any tips endpoint so `_id` and `id` are both set,
+ * `content` and `downloadLinks` are always arrays, `portfolio` is a plain
+ * id (undefined for general tips), price fields are strings and
+ * `analysistConfidence` is a number.
+ */
+export const normalizeTip = (raw: any): Tip => {
+  const { portfolio_id, ...tip } = raw || {};
+  const id = tip._id || tip.id || "";
+  TIP_TEXT_FIELDS.forEach((field) => {
+    if (typeof tip[field] === "number") tip[field] = String(tip[field]);
+  });
+  return {
+    ...tip,
+    _id: id,
+    id,
+    analysistConfidence: normalizeTipNumber(tip.analysistConfidence),
+    portfolio: normalizeTipPortfolio(tip.portfolio ?? portfolio_id),
+    content: normalizeTipContent(tip.content),
+    downloadLinks: Array.isArray(tip.downloadLinks)
+      ? tip.downloadLinks.filter((link: unknown) => link && typeof link === "object")
+      : [],
+  };
+};
 
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error(
-          "Server returned an HTML response instead of JSON. The tip might not exist."
-        );
-      }
+/**
+ * Normalizes a list response, bare or wrapped in `data` or `tips`.
+ */
+export const normalizeTips = (data: any): Tip[] => {
+  const tips = Array.isArray(data) ? data : data?.data || data?.tips || [];
+  return Array.isArray(tips) ? tips.map(normalizeTip) : [];
+};
 
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch tip details");
-    }
+const requireId = (value: string | undefined, message: string) => {
+  if (!value || value === "undefined") throw new Error(message);
+};
 
-    const tip = await response.json();
-    return {
-      ...tip,
-      id: tip._id || tip.id,
-      content: Array.isArray(tip.content) ? tip.content : 
-               typeof tip.content === 'string' ? [{ key: "Content", value: tip.content }] : [],
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    };
-  } catch (error) {
-
-    throw error;
-  }
+// Get a single tip by ID
+export const fetchTipById = async (id: string): Promise<Tip> => {
+  requireId(id, "Invalid tip ID");
+  return normalizeTip(await apiGet(`/api/tips/${id}`, { errorMessage: "Failed to fetch tip details" }));
 };
 
-// Update an existing tip
+export interface UpdateTipOptions {
+  // The tip as currently stored; fetched when not given
+  previous?: Tip;
+  // Revision id when this update restores an earlier revision
+  restoredFrom?: string;
+}
+
+// Update an existing tip and record a revision of the changed fields
 export const updateTip = async (
   id: string,
-  tipData: CreateTipRequest
+  tipData: CreateTipRequest,
+  options: UpdateTipOptions = {}
 ): Promise<Tip> => {
-  try {
-    if (!id) {
-      throw new Error("Invalid tip ID");
-    }
+  requireId(id, "Invalid tip ID");
 
-    // Normalize horizon field to remove extra spaces
-    const processedTipData = {
-      ...tipData,
-      horizon: tipData.horizon?.trim() || "Long Term"
-    };
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${id}`, {
-      method: "PUT",
-      body: JSON.stringify(processedTipData),
-    });
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error(
-          "Server returned an HTML response instead of JSON. The tip might not exist."
-        );
-      }
+  // Without the previous version the update still goes through, unrecorded
+  const previous = options.previous || (await fetchTipById(id).catch(() => null));
 
-      const error = await response.json();
-      throw new Error(error.message || "Failed to update tip");
-    }
+  // Normalize horizon field to remove extra spaces
+  const processedTipData = {
+    ...tipData,
+    horizon: tipData.horizon?.trim() || "Long Term",
+  };
+
+  const updated = normalizeTip(
+    await apiPut(`/api/tips/${id}`, processedTipData, { errorMessage: "Failed to update tip" })
+  );
 
-    const tip = await response.json();
-    return {
-      ...tip,
-      id: tip._id || tip.id,
-      content: Array.isArray(tip.content) ? tip.content : 
-               typeof tip.content === 'string' ? [{ key: "Content", value: tip.content }] : [],
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    };
-  } catch (error) {
-
-    throw error;
+  if (previous) {
+    const before = tipToRequest(previous);
+    await recordTipRevision(id, before, diffTipFields(before, tipToRequest(updated)), options.restoredFrom);
   }
+
+  return updated;
 };
 
 // Delete a tip
 export const deleteTip = async (id: string): Promise<{ message: string }> => {
-  try {
-    if (!id) {
-      throw new Error("Invalid tip ID");
-    }
-
-
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${id}`, {
-      method: "DELETE",
-    });
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error(
-          "Server returned an HTML response instead of JSON. The tip might not exist."
-        );
-      }
-
-      const error = await response.json();
-      throw new Error(error.message || "Failed to delete tip");
-    }
-
-    return await response.json();
-  } catch (error) {
-
-    throw error;
-  }
+  requireId(id, "Invalid tip ID");
+  const result = await apiDelete(`/api/tips/${id}`, { errorMessage: "Failed to delete tip" });
+  return result || { message: "Tip deleted" };
 };
 
 // Create a new tip under a portfolio (for portfolio-specific tips)
@@ -193,219 +250,101 @@ export const createTip = async (
   portfolioId: string,
   tipData: CreateTipRequest
 ): Promise<Tip> => {
-  try {
-    if (!portfolioId) {
-      throw new Error("Invalid portfolio ID");
-    }
-
-
-
-    // Ensure content is properly formatted as an array
-    if (!Array.isArray(tipData.content) || tipData.content.length === 0) {
-      tipData.content = [{ key: "main", value: tipData.description || "No content provided" }];
-    }
-
-    // Ensure required fields are present
-    const processedTipData = {
-      ...tipData,
-      status: tipData.status || "Active",
-      horizon: tipData.horizon?.trim() || "Long Term",
-    };
-
-    const response = await fetchWithAuth(
-      `${API_BASE_URL}/api/tips/portfolios/${portfolioId}/tips`,
-      {
-        method: "POST",
-        body: JSON.stringify(processedTipData),
-      }
-    );
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error(
-          "Server returned an HTML response instead of JSON. The portfolio might not exist."
-        );
-      }
-
-      const error = await response.json();
-
-      throw new Error(error.message || "Failed to create tip");
-    }
-
-    const tip = await response.json();
-
-    return {
-      ...tip,
-      id: tip._id || tip.id,
-      content: Array.isArray(tip.content) ? tip.content : 
-               typeof tip.content === 'string' ? [{ key: "Content", value: tip.content }] : [],
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    };
-  } catch (error) {
-
-    throw error;
-  }
+  requireId(portfolioId, "Invalid portfolio ID");
+
+  // Ensure content is properly formatted as an array
+  const content =
+    Array.isArray(tipData.content) && tipData.content.length > 0
+      ? tipData.content
+      : [{ key: "main", value: tipData.description || "No content provided" }];
+
+  // Drafts and scheduled tips keep their status; default to live
+  const processedTipData = {
+    ...tipData,
+    content,
+    status: tipData.status || "Active",
+    horizon: tipData.horizon?.trim() || "Long Term",
+  };
+
+  return normalizeTip(
+    await apiPost(`/api/tips/portfolios/${portfolioId}/tips`, processedTipData, {
+      errorMessage: "Failed to create portfolio tip",
+    })
+  );
 };
 
 // Get all tips for a portfolio (for portfolio-specific tips)
-export const fetchPortfolioTips = async (
-  portfolioId: string
-): Promise<Tip[]> => {
-  try {
-    if (!portfolioId || portfolioId === "undefined") {
-      throw new Error("Invalid portfolio ID");
-    }
-
-
-
-    const response = await fetchWithAuth(
-      `${API_BASE_URL}/api/tips/portfolios/${portfolioId}/tips`
-    );
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned an HTML response instead of JSON");
-      }
-
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch portfolio tips");
-    }
-
-    const tips = await response.json();
-    
-    // Ensure all tips have proper structure and an id property
-    return tips.map((tip: any) => ({
-      ...tip,
-      id: tip._id || tip.id,
-      content: Array.isArray(tip.content) ? tip.content : 
-               typeof tip.content === 'string' ? [{ key: "Content", value: tip.content }] : [],
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    }));
-  } catch (error) {
-
-    throw error;
-  }
+export const fetchPortfolioTips = async (portfolioId: string): Promise<Tip[]> => {
+  requireId(portfolioId, "Invalid portfolio ID");
+  return normalizeTips(
+    await apiGet(`/api/tips/portfolios/${portfolioId}/tips`, { errorMessage: "Failed to fetch portfolio tips" })
+  );
 };
 
 // Get all tips (both portfolio-specific and general) - ENHANCED FOR UNIFIED VIEW
 export const fetchAllTips = async (): Promise<Tip[]> => {
-  try {
-
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/tips`);
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error("Server returned an HTML response instead of JSON");
-      }
-
-      const error = await response.json();
-      throw new Error(error.message || "Failed to fetch tips");
-    }
-
-    const tips = await response.json();
-
-    
-    // Ensure all tips have proper structure and an id property
-    return tips.map((tip: any) => ({
-      ...tip,
-      id: tip._id || tip.id,
-      // Handle portfolio field (could be ObjectId or undefined for RangaOne Wealth)
-      portfolio: tip.portfolio || undefined,
-      content: Array.isArray(tip.content) ? tip.content : 
-               typeof tip.content === 'string' ? [{ key: "Content", value: tip.content }] : [],
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    }));
-  } catch (error) {
-
-    throw error;
-  }
+  return normalizeTips(await apiGet("/api/tips", { errorMessage: "Failed to fetch tips" }));
 };
 
 // Create a general tip (not tied to a portfolio) - ENHANCED FOR RangaOne Wealth
 export const createGeneralTip = async (
   tipData: CreateTipRequest
 ): Promise<Tip> => {
-  try {
-
-
-    // Validate required fields for RangaOne Wealth
-    if (!tipData.title?.trim()) {
-      throw new Error("Title is required");
-    }
-    
-    if (!tipData.stockId?.trim()) {
-      throw new Error("Stock symbol is required");
-    }
-    
-    if (!tipData.category) {
-      throw new Error("Category is required");
-    }
-
-    // Handle both string and array content formats
-    if (typeof tipData.content === 'string') {
-      const contentStr = tipData.content as string;
-      if (!contentStr.trim()) {
-        throw new Error("Content is required");
-      }
-      // Convert string content to array format
-      tipData.content = [{ key: "main", value: contentStr }];
-    } else if (Array.isArray(tipData.content)) {
-      if (!tipData.content.length || !tipData.content[0]?.value?.trim()) {
-        throw new Error("Content is required");
-      }
-    } else {
-      throw new Error("Content must be a string or an array of objects");
-    }
-    
-    if (!tipData.description?.trim()) {
-      throw new Error("Description is required");
-    }
-
-    // Ensure default values for RangaOne Wealth
-    const processedTipData = {
-      ...tipData,
-      status: tipData.status || "Active",
-      horizon: tipData.horizon?.trim() || "Long Term",
-      downloadLinks: tipData.downloadLinks?.filter(link => link.name?.trim() && link.url?.trim()) || [],
-    };
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/api/tips`, {
-      method: "POST",
-      body: JSON.stringify(processedTipData),
-    });
-
-    if (!response.ok) {
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("text/html")) {
-        throw new Error(
-          "Server returned an HTML response instead of JSON"
-        );
-      }
-
-      const error = await response.json();
+  // Validate required fields for RangaOne Wealth
+  if (!tipData.title?.trim()) {
+    throw new Error("Title is required");
+  }
+  
+  if (!tipData.stockId?.trim()) {
+    throw new Error("Stock symbol is required");
+  }
+  
+  if (!tipData.category) {
+    throw new Error("Category is required");
+  }
 
-      throw new Error(error.message || "Failed to create general tip");
-    }
+  // Handle both string and array content formats
+  const content =
+    typeof tipData.content === "string"
+      ? normalizeTipContent(tipData.content).map((item) => ({ ...item, key: "main" }))
+      : normalizeTipContent(tipData.content);
+  if (!content.length || !content[0]?.value?.trim()) {
+    throw new Error("Content is required");
+  }
+  
+  if (!tipData.description?.trim()) {
+    throw new Error("Description is required");
+  }
 
-    const tip = await response.json();
+  // Ensure default values for RangaOne Wealth
+  const processedTipData = {
+    ...tipData,
+    content,
+    status: tipData.status || "Active",
+    horizon: tipData.horizon?.trim() || "Long Term",
+    downloadLinks: tipData.downloadLinks?.filter(link => link.name?.trim() && link.url?.trim()) || [],
+  };
 
-    
-    return {
-      ...tip,
-      id: tip._id || tip.id,
-      content: tip.content,
-      downloadLinks: Array.isArray(tip.downloadLinks) ? tip.downloadLinks : [],
-    };
-  } catch (error) {
-
-    throw error;
-  }
+  return normalizeTip(await apiPost("/api/tips", processedTipData, { errorMessage: "Failed to create general tip" }));
 };
 
+const publishDueTipsResultSchema = z.object({
+  dryRun: z.boolean(),
+  due: z.array(z.string()),
+  published: z.array(z.string()),
+  failed: z.array(z.object({ id: z.string(), error: z.string() })),
+});
+
+export type PublishDueTipsResult = z.infer<typeof publishDueTipsResultSchema>;
+
+// Publish every Scheduled tip whose publish time has passed
+export const publishDueTips = (dryRun = false): Promise<PublishDueTipsResult> =>
+  apiPost("/api/tips/publish-due", { dryRun }, {
+    baseUrl: "",
+    schema: publishDueTipsResultSchema,
+    errorMessage: "Failed to publish scheduled tips",
+  });
+
 // Helper function for validation - ENHANCED
 export const validateTipData = (data: any): string[] => {
   const errors: string[] = [];
@@ -435,14 +374,21 @@ export const validateTipData = (data: any): string[] => {
     errors.push("Description is required");
   }
 
-  if (data.status && !["Active", "Closed"].includes(data.status)) {
+  if (data.status && !["Active", "Closed", "Draft", "Scheduled"].includes(data.status)) {
     errors.push("Invalid status value");
   }
 
+  if (data.status === "Scheduled" && (!data.publishAt || isNaN(new Date(data.publishAt).getTime()))) {
+    errors.push("Scheduled tips need a valid publish time");
+  }
+
   if (data.category && !["basic", "premium", "social_media"].includes(data.category)) {
     errors.push("Invalid category value");
   }
 
+  // Price fields must parse and agree with the action (see lib/tip-prices)
+  errors.push(...validateTipPrices(data).map((issue) => issue.message));
+
   return errors;
 };
 
@@ -0,0 +1,60 @@
+// lib/api-two-factor.ts
+// Enrollment and management of the signed-in admin's TOTP two-factor
+// authentication. The login step itself lives in lib/auth.ts.
+import { apiGet, apiPost } from "@/lib/api-client";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining?: number;
+}
+
+export interface TwoFactorSetup {
+  // Base32 secret for entering into the authenticator app by hand
+  secret: string;
+  otpauthUrl: string;
+  // QR code of the otpauth URL as an image data URL
+  qrCode?: string;
+}
+
+const unwrap = (data: any) => data?.data ?? data;
+
+const readRecoveryCodes = (data: any): string[] => {
+  const codes = unwrap(data)?.recoveryCodes;
+  return Array.isArray(codes) ? codes : [];
+};
+
+export const fetchTwoFactorStatus = async (signal?: AbortSignal): Promise<TwoFactorStatus> => {
+  const data = unwrap(await apiGet("/admin/2fa/status", { signal, errorMessage: "Failed to fetch two-factor status" }));
+  return { enabled: !!data?.enabled, recoveryCodesRemaining: data?.recoveryCodesRemaining };
+};
+
+/**
+ * Starts enrollment by generating a new secret. Two-factor authentication
+ * stays off until the secret is confirmed with enableTwoFactor.
+ */
+export const startTwoFactorSetup = async (): Promise<TwoFactorSetup> => {
+  const data = unwrap(await apiPost("/admin/2fa/setup", undefined, { errorMessage: "Failed to start two-factor setup" }));
+  if (!data?.secret || !data?.otpauthUrl) {
+    throw new Error("The server did not return a two-factor secret");
+  }
+  return { secret: data.secret, otpauthUrl: data.otpauthUrl, qrCode: data.qrCode || data.qrCodeUrl };
+};
+
+/**
+ * Confirms the pending secret with a code from the authenticator app and
+ * returns the recovery codes, which the server only sends once.
+ */
+export const enableTwoFactor = async (code: string): Promise<string[]> =>
+  readRecoveryCodes(await apiPost("/admin/2fa/enable", { code }, { errorMessage: "Invalid authentication code" }));
+
+/**
+ * Replaces the recovery codes; the old ones stop working.
+ */
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> =>
+  readRecoveryCodes(
+    await apiPost("/admin/2fa/recovery-codes", { code }, { errorMessage: "Failed to generate new recovery codes" })
+  );
+
+export const disableTwoFactor = async (password: string, code: string): Promise<void> => {
+  await apiPost("/admin/2fa/disable", { password, code }, { errorMessage: "Failed to disable two-factor authentication" });
+};
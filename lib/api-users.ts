@@ -1,5 +1,6 @@
 // lib\api-users.ts 
-import { fetchWithAuth, API_BASE_URL } from "@/lib/auth"
+import { z } from "zod"
+import { apiDelete, apiGet, apiPost, apiPut } from "@/lib/api-client"
 
 // User Types based on the actual API response
 export interface User {
@@ -44,41 +45,29 @@ export interface UpdateUserRequest {
   emailVerified?: boolean
 }
 
+// The list screens derive display names from these two fields
+const userSchema = z.looseObject({ _id: z.string(), email: z.string() })
+
+// Transform the data to match our User interface
+const normalizeUser = (user: any): User => ({
+  ...user,
+  id: user._id, // Add id field for compatibility
+  status: user.emailVerified ? "active" : "inactive", // Derive status from emailVerified
+  name: user.username || user.email.split("@")[0], // Use username or derive from email
+})
+
+const requireUserId = (id: string) => {
+  if (!id || id === "undefined") {
+    throw new Error("Invalid user ID")
+  }
+}
+
 // User API Functions
 export const fetchUsers = async (): Promise<User[]> => {
   try {
-    console.log("Fetching users from API...", `${API_BASE_URL}/admin/users`)
-
     // According to the docs, the endpoint is /admin/users
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/users`)
-    console.log("Users API response status:", response.status)
-
-    // Check if the response is HTML instead of JSON
-    const contentType = response.headers.get("content-type")
-    if (contentType && contentType.includes("text/html")) {
-      console.warn("Server returned HTML instead of JSON.")
-      throw new Error("The server returned an HTML response instead of JSON. Please check API configuration.")
-    }
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: "Failed to fetch users" }))
-      throw new Error(error.message || `Failed to fetch users: ${response.status}`)
-    }
-
-    const data = await response.json()
-
-    // If the response is empty or not an array, throw an error
-    if (!data || !Array.isArray(data)) {
-      throw new Error("API returned empty or invalid data")
-    }
-
-    // Transform the data to match our User interface
-    return data.map((user: any) => ({
-      ...user,
-      id: user._id, // Add id field for compatibility
-      status: user.emailVerified ? "active" : "inactive", // Derive status from emailVerified
-      name: user.username || user.email.split("@")[0], // Use username or derive from email
-    }))
+    const data = await apiGet("/admin/users", { schema: z.array(userSchema), errorMessage: "Failed to fetch users" })
+    return data.map(normalizeUser)
   } catch (error) {
     console.error("Error fetching users:", error)
     throw error
@@ -87,32 +76,8 @@ export const fetchUsers = async (): Promise<User[]> => {
 
 export const fetchUserById = async (id: string): Promise<User> => {
   try {
-    if (!id || id === "undefined") {
-      throw new Error("Invalid user ID")
-    }
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/users/${id}`)
-
-    // Check if the response is HTML instead of JSON
-    const contentType = response.headers.get("content-type")
-    if (contentType && contentType.includes("text/html")) {
-      throw new Error("Server returned HTML instead of JSON for user details")
-    }
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: "Failed to fetch user" }))
-      throw new Error(error.message || `Failed to fetch user: ${response.status}`)
-    }
-
-    const user = await response.json()
-
-    // Transform the data to match our User interface
-    return {
-      ...user,
-      id: user._id, // Add id field for compatibility
-      status: user.emailVerified ? "active" : "inactive", // Derive status from emailVerified
-      name: user.username || user.email.split("@")[0], // Use username or derive from email
-    }
+    requireUserId(id)
+    return normalizeUser(await apiGet(`/admin/users/${id}`, { schema: userSchema, errorMessage: "Failed to fetch user" }))
   } catch (error) {
     console.error(`Error fetching user with id ${id}:`, error)
     throw error
@@ -121,31 +86,7 @@ export const fetchUserById = async (id: string): Promise<User> => {
 
 export const createUser = async (userData: CreateUserRequest): Promise<User> => {
   try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/users`, {
-      method: "POST",
-      body: JSON.stringify(userData),
-    })
-
-    // Check if the response is HTML instead of JSON
-    const contentType = response.headers.get("content-type")
-    if (contentType && contentType.includes("text/html")) {
-      throw new Error("Server returned HTML instead of JSON")
-    }
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: "Failed to create user" }))
-      throw new Error(error.message || `Failed to create user: ${response.status}`)
-    }
-
-    const user = await response.json()
-
-    // Transform the data to match our User interface
-    return {
-      ...user,
-      id: user._id, // Add id field for compatibility
-      status: user.emailVerified ? "active" : "inactive", // Derive status from emailVerified
-      name: user.username || user.email.split("@")[0], // Use username or derive from email
-    }
+    return normalizeUser(await apiPost("/admin/users", userData, { schema: userSchema, errorMessage: "Failed to create user" }))
   } catch (error) {
     console.error("Error creating user:", error)
     throw error
@@ -154,37 +95,8 @@ export const createUser = async (userData: CreateUserRequest): Promise<User> =>
 
 export const updateUser = async (id: string, userData: UpdateUserRequest): Promise<User> => {
   try {
-    if (!id || id === "undefined") {
-      throw new Error("Invalid user ID")
-    }
-
-    console.log("Updating user:", id, userData)
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/users/${id}`, {
-      method: "PUT",
-      body: JSON.stringify(userData),
-    })
-    console.log("Update user response status:", response.status)
-
-    // Check if the response is HTML instead of JSON
-    const contentType = response.headers.get("content-type")
-    if (contentType && contentType.includes("text/html")) {
-      throw new Error("Server returned HTML instead of JSON")
-    }
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: "Failed to update user" }))
-      throw new Error(error.message || `Failed to update user: ${response.status}`)
-    }
-
-    const user = await response.json()
-
-    // Transform the data to match our User interface
-    return {
-      ...user,
-      id: user._id, // Add id field for compatibility
-      status: user.emailVerified ? "active" : "inactive", // Derive status from emailVerified
-      name: user.username || user.email.split("@")[0], // Use username or derive from email
-    }
+    requireUserId(id)
+    return normalizeUser(await apiPut(`/admin/users/${id}`, userData, { schema: userSchema, errorMessage: "Failed to update user" }))
   } catch (error) {
     console.error(`Error updating user with id ${id}:`, error)
     throw error
@@ -193,25 +105,9 @@ export const updateUser = async (id: string, userData: UpdateUserRequest): Promi
 
 export const deleteUser = async (id: string): Promise<void> => {
   try {
-    if (!id || id === "undefined") {
-      throw new Error("Invalid user ID")
-    }
-
+    requireUserId(id)
     // According to the docs, the endpoint is /admin/users/{id}
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/users/${id}`, {
-      method: "DELETE",
-    })
-
-    // Check if the response is HTML instead of JSON
-    const contentType = response.headers.get("content-type")
-    if (contentType && contentType.includes("text/html")) {
-      throw new Error("Server returned an HTML response instead of JSON. The user might not exist.")
-    }
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: "Failed to delete user" }))
-      throw new Error(error.message || `Failed to delete user: ${response.status}`)
-    }
+    await apiDelete(`/admin/users/${id}`, { errorMessage: "Failed to delete user" })
   } catch (error) {
     console.error(`Error deleting user with id ${id}:`, error)
     throw error
@@ -220,21 +116,8 @@ export const deleteUser = async (id: string): Promise<void> => {
 
 export const banUser = async (id: string, reason?: string): Promise<void> => {
   try {
-    if (!id || id === "undefined") {
-      throw new Error("Invalid user ID")
-    }
-
-    console.log("Banning user:", id, reason)
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/users/${id}/ban`, {
-      method: "POST",
-      body: JSON.stringify({ reason: reason || "Banned by admin" }),
-    })
-    console.log("Ban user response status:", response.status)
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(errorText || `Failed to ban user: ${response.status}`)
-    }
+    requireUserId(id)
+    await apiPost(`/admin/users/${id}/ban`, { reason: reason || "Banned by admin" }, { errorMessage: "Failed to ban user" })
   } catch (error) {
     console.error(`Error banning user with id ${id}:`, error)
     throw error
@@ -243,18 +126,8 @@ export const banUser = async (id: string, reason?: string): Promise<void> => {
 
 export const unbanUser = async (id: string): Promise<void> => {
   try {
-    if (!id || id === "undefined") {
-      throw new Error("Invalid user ID")
-    }
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/users/${id}/unban`, {
-      method: "POST",
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(errorText || `Failed to unban user: ${response.status}`)
-    }
+    requireUserId(id)
+    await apiPost(`/admin/users/${id}/unban`, undefined, { errorMessage: "Failed to unban user" })
   } catch (error) {
     console.error(`Error unbanning user with id ${id}:`, error)
     throw error
@@ -263,21 +136,12 @@ export const unbanUser = async (id: string): Promise<void> => {
 
 export const updateUserPAN = async (id: string, pandetails: string, reason?: string): Promise<User> => {
   try {
-    if (!id || id === "undefined") {
-      throw new Error("Invalid user ID")
-    }
-
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/users/${id}/pan`, {
-      method: "PUT",
-      body: JSON.stringify({ pandetails, reason: reason || "Admin update" }),
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: "Failed to update PAN" }))
-      throw new Error(error.message || `Failed to update PAN: ${response.status}`)
-    }
-
-    const result = await response.json()
+    requireUserId(id)
+    const result = await apiPut(
+      `/admin/users/${id}/pan`,
+      { pandetails, reason: reason || "Admin update" },
+      { errorMessage: "Failed to update PAN" }
+    )
     return result.user
   } catch (error) {
     console.error(`Error updating PAN for user ${id}:`, error)
@@ -287,14 +151,7 @@ export const updateUserPAN = async (id: string, pandetails: string, reason?: str
 
 export const deleteUserLogs = async (): Promise<void> => {
   try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/users/logs`, {
-      method: "DELETE",
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: "Failed to delete logs" }))
-      throw new Error(error.message || `Failed to delete logs: ${response.status}`)
-    }
+    await apiDelete("/admin/users/logs", { errorMessage: "Failed to delete logs" })
   } catch (error) {
     console.error("Error deleting user logs:", error)
     throw error
@@ -303,14 +160,7 @@ export const deleteUserLogs = async (): Promise<void> => {
 
 export const deleteServerLogs = async (): Promise<void> => {
   try {
-    const response = await fetchWithAuth(`${API_BASE_URL}/admin/files/logs`, {
-      method: "DELETE",
-    })
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: "Failed to delete server logs" }))
-      throw new Error(error.message || `Failed to delete server logs: ${response.status}`)
-    }
+    await apiDelete("/admin/files/logs", { errorMessage: "Failed to delete server logs" })
   } catch (error) {
     console.error("Error deleting server logs:", error)
     throw error
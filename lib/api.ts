@@ -1,7 +1,10 @@
 // lib/api.ts
 
-import { API_BASE_URL, fetchWithAuth } from "@/lib/auth";
+import { apiDelete, apiGet, apiPatch, apiPost, apiPut, unwrapList } from "@/lib/api-client";
 import { User } from "./api-users"; // Assuming api-users.ts exists
+import { capturePortfolioSnapshot } from "@/lib/api-portfolio-snapshots";
+import { appendPortfolioTransactions, type CreatePortfolioTransactionRequest } from "@/lib/api-portfolio-ledger";
+import { buildOpeningTransactions } from "@/lib/portfolio-ledger";
 
 // =================================================================
 // TYPE DEFINITIONS
@@ -36,6 +39,23 @@ export interface PortfolioHolding {
   soldDate?: string; // For tracking when stock was sold
 }
 
+// A holding as sent with a holdings update. Every action but "replace"
+// only sends the fields it needs, e.g. just the symbol for a delete.
+export type PortfolioHoldingChange = Partial<PortfolioHolding> & {
+  symbol: string;
+  // Sell actions: whether the whole position or part of it is sold
+  saleType?: "complete" | "partial";
+};
+
+// Holdings updates answer with the portfolio, on its own or wrapped with
+// the result of each stock action
+export interface PortfolioHoldingsUpdateResult {
+  portfolio: Portfolio;
+  operationResults: any[];
+  // False when the ledger entries for the change could not be recorded
+  ledgerRecorded: boolean;
+}
+
 export interface DownloadLink {
   _id?: string;
   linkType: string;
@@ -110,55 +130,6 @@ export interface CreatePortfolioRequest {
   currentValue?: number;
 }
 
-// Portfolio Tip Types
-export interface TipContent {
-  key: string;
-  value: string;
-}
-
-export interface PortfolioTip {
-  _id: string;
-  id: string;
-  portfolio_id?: string;
-  title: string;
-  stockId: string;
-  content: TipContent[];
-  description: string;
-  status: "Active" | "Closed";
-  action?: "buy" | "sell" | "partial sell" | "partial profit" | "hold";
-  buyRange?: string;
-  targetPrice?: string;
-  targetPercentage?: string;
-  addMoreAt?: string;
-  tipUrl?: string;
-  exitPrice?: string;
-  exitStatus?: string;
-  exitStatusPercentage?: string;
-  horizon?: "Short Term" | "Swing " | "Long Term";
-  downloadLinks?: Array<{ _id?: string; name: string; url: string }>;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface CreatePortfolioTipRequest {
-  title: string;
-  stockId: string;
-  content: TipContent[];
-  description: string;
-  status: "Active" | "Closed";
-  action?: "buy" | "sell" | "partial sell" | "partial profit" | "hold";
-  buyRange?: string;
-  targetPrice?: string;
-  targetPercentage?: string;
-  addMoreAt?: string;
-  tipUrl?: string;
-  exitPrice?: string;
-  exitStatus?: string;
-  exitStatusPercentage?: string;
-  horizon?: "Short Term" | "Swing " | "Long Term";
-  downloadLinks?: Array<{ name: string; url: string }>;
-}
-
 // Config Types
 export interface Config {
   key: string;
@@ -231,10 +202,7 @@ export interface VerifyPaymentRequest {
  * Fetches all portfolios.
  */
 export const fetchPortfolios = async (): Promise<Portfolio[]> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios`);
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch portfolios");
-  const data = await response.json();
-  return Array.isArray(data) ? data : data?.data || [];
+  return unwrapList<Portfolio>(await apiGet("/api/portfolios", { errorMessage: "Failed to fetch portfolios" }));
 };
 
 /**
@@ -242,33 +210,32 @@ export const fetchPortfolios = async (): Promise<Portfolio[]> => {
  */
 export const fetchPortfolioById = async (id: string): Promise<Portfolio> => {
   if (!id) throw new Error("Invalid portfolio ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios/${id}`);
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch portfolio");
-  return await response.json();
+  return apiGet(`/api/portfolios/${id}`, { errorMessage: "Failed to fetch portfolio" });
 };
 
 /**
- * Creates a new portfolio.
+ * Creates a new portfolio. Its starting holdings open the ledger with a
+ * deposit and a buy per holding.
  */
 export const createPortfolio = async (portfolioData: CreatePortfolioRequest): Promise<Portfolio> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios`, {
-    method: "POST",
-    body: JSON.stringify(portfolioData),
-  });
-  if (!response.ok) {
-    const responseText = await response.text();
-    try {
-      const errorData = JSON.parse(responseText);
-      throw new Error(errorData.error || errorData.message || `Server error: ${response.status}`);
-    } catch (jsonError) {
-      throw new Error(responseText || `Server error: ${response.status}`);
-    }
+  const response = await apiPost("/api/portfolios", portfolioData, { errorMessage: "Failed to create portfolio" });
+  const created: Portfolio = response?.portfolio || response;
+  const id = created?.id || created?._id;
+  if (id && portfolioData.holdings?.length) {
+    await appendPortfolioTransactions(
+      id,
+      buildOpeningTransactions(
+        { holdings: portfolioData.holdings, cashBalance: portfolioData.cashBalance },
+        new Date().toISOString()
+      )
+    );
   }
-  return await response.json();
+  return created;
 };
 
 /**
- * Updates an existing portfolio. Uses PATCH for flexibility.
+ * Updates an existing portfolio. Uses PATCH for flexibility. Captures a
+ * snapshot when holdings or cash were part of the update.
  */
 export const updatePortfolio = async (id: string, portfolioData: Partial<CreatePortfolioRequest>): Promise<Portfolio> => {
   if (!id) throw new Error("Invalid portfolio ID");
@@ -278,20 +245,14 @@ export const updatePortfolio = async (id: string, portfolioData: Partial<CreateP
     stockAction: "update"
   };
   console.log('UPDATE PORTFOLIO REQUEST BODY:', JSON.stringify(requestBody, null, 2));
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios/${id}`, {
-    method: "PATCH",
-    body: JSON.stringify(requestBody),
+  const response = await apiPatch(`/api/portfolios/${id}`, requestBody, {
+    errorMessage: "Failed to update portfolio",
   });
-  if (!response.ok) {
-    const responseText = await response.text();
-    try {
-      const errorData = JSON.parse(responseText);
-      throw new Error(errorData.error || errorData.message || `Server error: ${response.status}`);
-    } catch (jsonError) {
-      throw new Error(responseText || `Server error: ${response.status}`);
-    }
+  const updated: Portfolio = response?.portfolio || response;
+  if (portfolioData.holdings || portfolioData.cashBalance !== undefined) {
+    await capturePortfolioSnapshot(id, await readUpdatedPortfolio(id, updated), "updatePortfolio");
   }
-  return await response.json();
+  return updated;
 };
 
 /**
@@ -299,119 +260,32 @@ export const updatePortfolio = async (id: string, portfolioData: Partial<CreateP
  */
 export const deletePortfolio = async (id: string): Promise<void> => {
   if (!id) throw new Error("Invalid portfolio ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios/${id}`, {
-    method: "DELETE",
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to delete portfolio");
+  await apiDelete(`/api/portfolios/${id}`, { errorMessage: "Failed to delete portfolio" });
 };
 
 /**
  * Adds a YouTube link to a portfolio.
  */
-export const addPortfolioYouTubeLink = async (portfolioId: string, link: string): Promise<Portfolio> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios/${portfolioId}/youtube`, {
-    method: "POST",
-    body: JSON.stringify({ link }),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to add YouTube link");
-  return await response.json();
-};
+export const addPortfolioYouTubeLink = (portfolioId: string, link: string): Promise<Portfolio> =>
+  apiPost(`/api/portfolios/${portfolioId}/youtube`, { link }, { errorMessage: "Failed to add YouTube link" });
 
 /**
  * Removes a YouTube link from a portfolio.
  */
-export const removePortfolioYouTubeLink = async (portfolioId: string, linkId: string): Promise<Portfolio> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios/${portfolioId}/youtube/${linkId}`, {
-    method: "DELETE",
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to remove YouTube link");
-  return await response.json();
-};
+export const removePortfolioYouTubeLink = (portfolioId: string, linkId: string): Promise<Portfolio> =>
+  apiDelete(`/api/portfolios/${portfolioId}/youtube/${linkId}`, { errorMessage: "Failed to remove YouTube link" });
 
 /**
  * Adds a download link to a portfolio.
  */
-export const addPortfolioDownloadLink = async (portfolioId: string, linkData: Omit<DownloadLink, '_id' | 'createdAt'>): Promise<Portfolio> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios/${portfolioId}/downloads`, {
-    method: "POST",
-    body: JSON.stringify(linkData),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to add download link");
-  return await response.json();
-};
+export const addPortfolioDownloadLink = (portfolioId: string, linkData: Omit<DownloadLink, '_id' | 'createdAt'>): Promise<Portfolio> =>
+  apiPost(`/api/portfolios/${portfolioId}/downloads`, linkData, { errorMessage: "Failed to add download link" });
 
 /**
  * Removes a download link from a portfolio.
  */
-export const removePortfolioDownloadLink = async (portfolioId: string, linkId: string): Promise<Portfolio> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios/${portfolioId}/downloads/${linkId}`, {
-    method: "DELETE",
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to remove download link");
-  return await response.json();
-};
-
-
-// =================================================================
-// PORTFOLIO TIPS API FUNCTIONS
-// =================================================================
-
-/**
- * Fetches all tips for a specific portfolio.
- */
-export const fetchPortfolioTips = async (portfolioId: string): Promise<PortfolioTip[]> => {
-  if (!portfolioId) throw new Error("Invalid portfolio ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/portfolios/${portfolioId}/tips`);
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch portfolio tips");
-  return await response.json();
-};
-
-/**
- * Fetches a single tip by its ID.
- */
-export const fetchTipById = async (tipId: string): Promise<PortfolioTip> => {
-  if (!tipId) throw new Error("Invalid tip ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${tipId}`);
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch tip");
-  return await response.json();
-};
-
-/**
- * Creates a new tip for a portfolio.
- */
-export const createPortfolioTip = async (portfolioId: string, tipData: CreatePortfolioTipRequest): Promise<PortfolioTip> => {
-  if (!portfolioId) throw new Error("Invalid portfolio ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/portfolios/${portfolioId}/tips`, {
-    method: "POST",
-    body: JSON.stringify(tipData),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to create tip");
-  return await response.json();
-};
-
-/**
- * Updates an existing tip.
- */
-export const updateTip = async (tipId: string, tipData: Partial<CreatePortfolioTipRequest>): Promise<PortfolioTip> => {
-  if (!tipId) throw new Error("Invalid tip ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${tipId}`, {
-    method: "PUT",
-    body: JSON.stringify(tipData),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to update tip");
-  return await response.json();
-};
-
-/**
- * Deletes a tip by its ID.
- */
-export const deleteTip = async (tipId: string): Promise<void> => {
-  if (!tipId) throw new Error("Invalid tip ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/tips/${tipId}`, {
-    method: "DELETE",
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to delete tip");
-};
+export const removePortfolioDownloadLink = (portfolioId: string, linkId: string): Promise<Portfolio> =>
+  apiDelete(`/api/portfolios/${portfolioId}/downloads/${linkId}`, { errorMessage: "Failed to remove download link" });
 
 
 // =================================================================
@@ -422,69 +296,39 @@ export const deleteTip = async (tipId: string): Promise<void> => {
  * Fetches all configurations, with optional filtering by category.
  */
 export const fetchConfigs = async (category?: string): Promise<Config[]> => {
-  const url = new URL(`${API_BASE_URL}/api/admin/configs`);
-  if (category) url.searchParams.append("category", category);
-  const response = await fetchWithAuth(url.toString());
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch configurations");
-  return await response.json();
+  return apiGet<Config[]>("/api/admin/configs", { query: { category }, errorMessage: "Failed to fetch configurations" });
 };
 
 /**
  * Creates a new configuration.
  */
-export const createConfig = async (configData: Omit<Config, 'createdAt' | 'updatedAt'>): Promise<Config> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/configs`, {
-    method: "POST",
-    body: JSON.stringify(configData),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to create configuration");
-  return await response.json();
-};
+export const createConfig = (configData: Omit<Config, 'createdAt' | 'updatedAt'>): Promise<Config> =>
+  apiPost("/api/admin/configs", configData, { errorMessage: "Failed to create configuration" });
 
 /**
  * Updates an existing configuration by its key.
  */
-export const updateConfig = async (key: string, configData: Partial<Config>): Promise<Config> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/configs/${key}`, {
-    method: "PUT",
-    body: JSON.stringify(configData),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to update configuration");
-  return await response.json();
-};
+export const updateConfig = (key: string, configData: Partial<Config>): Promise<Config> =>
+  apiPut(`/api/admin/configs/${key}`, configData, { errorMessage: "Failed to update configuration" });
 
 /**
  * Deletes a configuration by its key.
  */
 export const deleteConfig = async (key: string): Promise<void> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/configs/${key}`, {
-    method: "DELETE",
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to delete configuration");
+  await apiDelete(`/api/admin/configs/${key}`, { errorMessage: "Failed to delete configuration" });
 };
 
 /**
  * Updates multiple configurations in a single batch request.
  */
-export const bulkUpdateConfigs = async (configs: { key: string; value: string }[]): Promise<Config[]> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/configs/batch`, {
-    method: "POST",
-    body: JSON.stringify({ configs }),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to bulk update configurations");
-  return await response.json();
-};
+export const bulkUpdateConfigs = (configs: { key: string; value: string }[]): Promise<Config[]> =>
+  apiPost("/api/admin/configs/batch", { configs }, { errorMessage: "Failed to bulk update configurations" });
 
 /**
  * Sends a test email to verify SMTP configuration.
  */
 export const testSmtpConfig = async (to: string): Promise<{ success: boolean; message: string }> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/configs/test/smtp`, {
-    method: "POST",
-    body: JSON.stringify({ to }),
-  });
-  const data = await response.json();
-  if (!response.ok) throw new Error(data.message || "Failed to test SMTP configuration");
+  const data = await apiPost("/api/admin/configs/test/smtp", { to }, { errorMessage: "Failed to test SMTP configuration" });
   return { success: true, message: data.message || "Test email sent successfully" };
 };
 
@@ -527,9 +371,7 @@ export interface AdminSubscription {
  * Fetches all admin subscriptions with full details.
  */
 export const fetchAdminSubscriptions = async (): Promise<AdminSubscription[]> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/subscriptions`);
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch admin subscriptions");
-  const data = await response.json();
+  const data = await apiGet("/api/admin/subscriptions", { errorMessage: "Failed to fetch admin subscriptions" });
   return data?.subscriptions || [];
 };
 
@@ -537,88 +379,55 @@ export const fetchAdminSubscriptions = async (): Promise<AdminSubscription[]> =>
  * Fetches a single admin subscription by ID with full details.
  */
 export const fetchAdminSubscriptionById = async (id: string): Promise<any> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/subscriptions/${id}`);
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch subscription");
-  const data = await response.json();
+  const data = await apiGet(`/api/admin/subscriptions/${id}`, { errorMessage: "Failed to fetch subscription" });
   return data?.subscription;
 };
 
 /**
  * Deletes an admin subscription by ID.
  */
-export const deleteAdminSubscription = async (id: string): Promise<{ message: string }> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/subscriptions/${id}`, {
-    method: "DELETE",
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to delete subscription");
-  return await response.json();
-};
+export const deleteAdminSubscription = (id: string): Promise<{ message: string }> =>
+  apiDelete(`/api/admin/subscriptions/${id}`, { errorMessage: "Failed to delete subscription" });
 
 /**
  * Processes expired subscriptions.
  */
-export const processExpiredSubscriptions = async (): Promise<{ message: string; result: any }> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/admin/subscriptions/process-expired`, {
-    method: "POST",
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to process expired subscriptions");
-  return await response.json();
-};
+export const processExpiredSubscriptions = (): Promise<{ message: string; result: any }> =>
+  apiPost("/admin/subscriptions/process-expired", undefined, { errorMessage: "Failed to process expired subscriptions" });
 
 /**
  * Fetches all user subscriptions (admin) - legacy function.
  */
 export const fetchSubscriptions = async (): Promise<Subscription[]> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/subscriptions`);
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch subscriptions");
-  const data = await response.json();
+  const data = await apiGet("/api/admin/subscriptions", { errorMessage: "Failed to fetch subscriptions" });
   // Handle both array response and object with subscriptions property
-  return Array.isArray(data) ? data : (data?.subscriptions || []);
+  return unwrapList<Subscription>(data, "subscriptions");
 };
 
 /**
  * Creates a payment order for a subscription.
  */
-export const createSubscriptionOrder = async (data: CreateOrderRequest): Promise<CreateOrderResponse> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/subscriptions/order`, {
-    method: "POST",
-    body: JSON.stringify(data),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to create subscription order");
-  return await response.json();
-};
+export const createSubscriptionOrder = (data: CreateOrderRequest): Promise<CreateOrderResponse> =>
+  apiPost("/api/subscriptions/order", data, { errorMessage: "Failed to create subscription order" });
 
 /**
  * Verifies a payment after completion.
  */
-export const verifyPayment = async (data: VerifyPaymentRequest): Promise<any> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/subscriptions/verify`, {
-    method: "POST",
-    body: JSON.stringify(data),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to verify payment");
-  return await response.json();
-};
+export const verifyPayment = (data: VerifyPaymentRequest): Promise<any> =>
+  apiPost("/api/subscriptions/verify", data, { errorMessage: "Failed to verify payment" });
 
 /**
  * Fetches the current user's payment history.
  */
-export const fetchPaymentHistory = async (): Promise<PaymentHistory[]> => {
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/subscriptions/history`);
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to fetch payment history");
-  return await response.json();
-};
+export const fetchPaymentHistory = (): Promise<PaymentHistory[]> =>
+  apiGet("/api/subscriptions/history", { errorMessage: "Failed to fetch payment history" });
 
 /**
  * Cancels a user's subscription.
  */
 export const cancelSubscription = async (subscriptionId: string): Promise<{ message: string }> => {
   if (!subscriptionId) throw new Error("Invalid subscription ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/subscriptions/${subscriptionId}/cancel`, {
-    method: "POST",
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to cancel subscription");
-  return await response.json();
+  return apiPost(`/api/subscriptions/${subscriptionId}/cancel`, undefined, { errorMessage: "Failed to cancel subscription" });
 };
 
 /**
@@ -626,29 +435,55 @@ export const cancelSubscription = async (subscriptionId: string): Promise<{ mess
  */
 export const updateSubscriptionStatus = async (subscriptionId: string, status: string): Promise<Subscription> => {
   if (!subscriptionId) throw new Error("Invalid subscription ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/admin/subscriptions/${subscriptionId}/status`, {
-    method: "PATCH",
-    body: JSON.stringify({ status }),
-  });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to update subscription status");
-  return await response.json();
+  return apiPatch(`/api/admin/subscriptions/${subscriptionId}/status`, { status }, { errorMessage: "Failed to update subscription status" });
 };
 
 
 
 /**
- * Updates portfolio holdings with specific actions
+ * The portfolio after an update, re-read when the update response does not
+ * carry its holdings (single-holding actions often answer with a summary).
+ * Falls back to the response so a failed read never fails the update.
+ */
+const readUpdatedPortfolio = async (id: string, updated: Partial<Portfolio>): Promise<Partial<Portfolio>> => {
+  if (updated?.holdings) return updated;
+  try {
+    return await fetchPortfolioById(id);
+  } catch (error) {
+    console.warn("Failed to re-read portfolio after update:", error);
+    return updated || {};
+  }
+};
+
+/**
+ * Updates portfolio holdings with specific actions. Extra portfolio fields
+ * (e.g. rebalance dates) can be sent in the same request. A snapshot of the
+ * resulting holdings is captured and the `transactions` describing the
+ * trades are appended to the ledger after every successful update, so
+ * every holdings change in the dashboard should go through here. Pass
+ * `captureSnapshot: false` for follow-ups that leave quantities and cash
+ * as they were (status or P&L corrections), so they add no empty snapshot.
  */
 export const updatePortfolioHoldings = async (
   id: string, 
-  holdings: PortfolioHolding[], 
-  stockAction: 'update' | 'add' | 'delete' | 'replace' = 'update'
-): Promise<Portfolio> => {
+  holdings: PortfolioHoldingChange[], 
+  stockAction: 'update' | 'add' | 'delete' | 'replace' | 'buy' | 'sell' = 'update',
+  fields: Partial<Pick<Portfolio, "cashBalance" | "lastRebalanceDate" | "nextRebalanceDate">> = {},
+  transactions: CreatePortfolioTransactionRequest[] = [],
+  { captureSnapshot = true }: { captureSnapshot?: boolean } = {}
+): Promise<PortfolioHoldingsUpdateResult> => {
   if (!id) throw new Error("Invalid portfolio ID");
-  const response = await fetchWithAuth(`${API_BASE_URL}/api/portfolios/${id}`, {
-    method: "PATCH",
-    body: JSON.stringify({ holdings, stockAction }),
+  const response = await apiPatch(`/api/portfolios/${id}`, { ...fields, holdings, stockAction }, {
+    errorMessage: "Failed to update portfolio holdings",
   });
-  if (!response.ok) throw new Error((await response.json()).message || "Failed to update portfolio holdings");
-  return await response.json();
+  const portfolio = (await readUpdatedPortfolio(id, response?.portfolio || response)) as Portfolio;
+  if (captureSnapshot) {
+    await capturePortfolioSnapshot(id, {
+      holdings: portfolio.holdings,
+      cashBalance: portfolio.cashBalance ?? fields.cashBalance,
+      holdingsValue: portfolio.holdingsValue,
+    }, "updatePortfolioHoldings");
+  }
+  const ledgerRecorded = await appendPortfolioTransactions(id, transactions);
+  return { portfolio, operationResults: response?.operationResults || [], ledgerRecorded };
 };
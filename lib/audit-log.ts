@@ -0,0 +1,140 @@
+// lib/audit-log.ts
+// Audit trail of the admin actions that change data. Entries are recorded
+// by the route handlers (see lib/audit-recorder.ts) and stored by the backend.
+import { apiGet, unwrapList } from "@/lib/api-client";
+import type { AdminSessionUser } from "@/lib/auth";
+
+export type AuditOutcome = "success" | "failure";
+
+export type AuditMethod = "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface AuditLogEntry {
+  _id?: string;
+  actor: AdminSessionUser;
+  method: AuditMethod;
+  // Backend path the action was sent to, without the query string
+  path: string;
+  entityType: string;
+  entityId?: string;
+  action: string;
+  // The entity before the action, when it could be read, and the payload
+  // that was sent, both with secrets redacted
+  before?: unknown;
+  after?: unknown;
+  outcome: AuditOutcome;
+  status?: number;
+  error?: string;
+  timestamp: string;
+}
+
+export interface AuditLogFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  entityType?: string;
+  outcome?: AuditOutcome;
+  // ISO dates bounding the timestamp
+  from?: string;
+  to?: string;
+}
+
+export interface AuditLogsResponse {
+  logs: AuditLogEntry[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalLogs: number;
+  };
+}
+
+export const AUDIT_LOG_PATH = "/api/admin/audit-logs";
+
+export const AUDITED_METHODS: AuditMethod[] = ["POST", "PUT", "PATCH", "DELETE"];
+
+export const isAuditedMethod = (method: string): method is AuditMethod =>
+  AUDITED_METHODS.includes(method.toUpperCase() as AuditMethod);
+
+const REDACTED = "[REDACTED]";
+
+// Matches passwords, SMTP_PASS style config keys, tokens, API keys, OTPs
+// and two-factor recovery codes
+const SECRET_KEY_PATTERN =
+  /passw(or)?d|(^|[-_])pass$|secret|token|api[-_]?key|(^|[-_])otp$|authorization|credential|recovery/i;
+
+/**
+ * Copies a payload with the values of secret-looking fields replaced.
+ */
+export const redactSecrets = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== "object") return value;
+
+  const record = value as Record<string, unknown>;
+  // Config entries name the secret in `key` and carry it in `value`
+  const holdsSecret = typeof record.key === "string" && SECRET_KEY_PATTERN.test(record.key);
+  return Object.fromEntries(
+    Object.entries(record).map(([key, item]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) || (holdsSecret && key === "value") ? REDACTED : redactSecrets(item),
+    ])
+  );
+};
+
+// Leading path segments that only namespace the backend's routes
+const NAMESPACE_SEGMENTS = ["api", "admin"];
+
+// Lowercase words such as "ban" or "process-expired" name an action;
+// anything else (ObjectIds, config keys, tickers) is taken as an id
+const ACTION_SEGMENT = /^[a-z]+(-[a-z]+)*$/;
+
+const METHOD_ACTIONS: Record<AuditMethod, string> = {
+  POST: "create",
+  PUT: "update",
+  PATCH: "update",
+  DELETE: "delete",
+};
+
+/**
+ * Works out what a mutating backend call acts on from its path, e.g.
+ * `POST /admin/users/:id/ban` is a "ban" of the user with that id.
+ * `entityPath` is where the entity itself can be read, when there is one.
+ */
+export const describeBackendCall = (
+  method: AuditMethod,
+  path: string
+): { entityType: string; entityId?: string; entityPath?: string; action: string } => {
+  const segments = path.split("?")[0].split("/").filter(Boolean);
+  let start = 0;
+  while (start < segments.length - 1 && NAMESPACE_SEGMENTS.includes(segments[start])) start++;
+
+  const [entityType = "unknown", ...rest] = segments.slice(start);
+  const entityId = rest[0] && !ACTION_SEGMENT.test(rest[0]) ? rest[0] : undefined;
+  const suffix = (entityId ? rest.slice(1) : rest).join("/");
+  const verb = METHOD_ACTIONS[method];
+
+  return {
+    entityType,
+    entityId,
+    entityPath: entityId ? `/${segments.slice(0, start + 2).join("/")}` : undefined,
+    action: !suffix ? verb : method === "POST" ? suffix : `${verb} ${suffix}`,
+  };
+};
+
+/**
+ * Fetches a page of audit log entries, newest first.
+ */
+export const fetchAuditLogs = async (filters: AuditLogFilters = {}, signal?: AbortSignal): Promise<AuditLogsResponse> => {
+  const data = await apiGet(AUDIT_LOG_PATH, {
+    query: { ...filters },
+    signal,
+    errorMessage: "Failed to fetch audit logs",
+  });
+  const logs = unwrapList<AuditLogEntry>(data, "logs");
+  return {
+    logs,
+    pagination: {
+      currentPage: data?.pagination?.currentPage ?? filters.page ?? 1,
+      totalPages: data?.pagination?.totalPages ?? 1,
+      totalLogs: data?.pagination?.totalLogs ?? data?.pagination?.total ?? logs.length,
+    },
+  };
+};
@@ -0,0 +1,127 @@
+// lib/audit-recorder.ts
+// Server-side half of the audit log. Route handlers send mutating backend
+// calls through fetchWithAudit, which records who made them and how they went.
+import { API_BASE_URL, type AdminSessionUser } from "@/lib/auth";
+import { fetchWithSession, getAdminSession } from "@/lib/session";
+import {
+  AUDIT_LOG_PATH,
+  describeBackendCall,
+  isAuditedMethod,
+  redactSecrets,
+  type AuditLogEntry,
+} from "@/lib/audit-log";
+
+const parseJson = (text: string): unknown => {
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// FormData uploads are recorded without their payload
+const readPayload = (body: RequestInit["body"]): unknown => {
+  if (typeof body === "string") return parseJson(body);
+  if (body instanceof ArrayBuffer) return parseJson(new TextDecoder().decode(body));
+  return undefined;
+};
+
+type BackendFetch = (url: string, options?: RequestInit) => Promise<Response>;
+
+export interface AuditContext {
+  // Who the entry is recorded for
+  actor: AdminSessionUser;
+  // Sends the call itself and the read of the entity's prior state
+  send: BackendFetch;
+}
+
+// Reads the entity at `path` on the same host as the call being recorded
+const readSnapshot = async (path: string, callUrl: string, send: BackendFetch): Promise<unknown> => {
+  try {
+    const url = callUrl.startsWith(API_BASE_URL) ? `${API_BASE_URL}${path}` : new URL(path, callUrl).toString();
+    const response = await send(url);
+    return response.ok ? await response.json() : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const readErrorMessage = async (response: Response): Promise<string> => {
+  const body = parseJson(await response.clone().text().catch(() => "")) as any;
+  return body?.message || body?.error || `Server returned ${response.status}`;
+};
+
+// Entries are written with a service credential only this server holds,
+// never an admin's token, so an admin cannot add or skip entries by
+// calling the backend directly
+const saveAuditEntry = async (entry: AuditLogEntry): Promise<void> => {
+  const serviceToken = process.env.AUDIT_LOG_SERVICE_TOKEN;
+  if (!serviceToken) {
+    console.warn("AUDIT_LOG_SERVICE_TOKEN is not set; audit log entry not recorded:", entry.method, entry.path);
+    return;
+  }
+  try {
+    const response = await fetch(`${API_BASE_URL}${AUDIT_LOG_PATH}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${serviceToken}` },
+      body: JSON.stringify(entry),
+    });
+    if (!response.ok) throw new Error(`Server returned ${response.status}`);
+  } catch (error) {
+    console.warn("Failed to record audit log entry:", error);
+  }
+};
+
+// Backend calls are recorded by path; other hosts (such as the bot API)
+// by the path of their URL
+const toAuditPath = (url: string): string =>
+  (url.startsWith(API_BASE_URL) ? url.slice(API_BASE_URL.length) : new URL(url).pathname).split("?")[0];
+
+/**
+ * Calls the backend like fetchWithSession and, for POST, PUT, PATCH and
+ * DELETE, records an audit entry with the admin, the entity, its state
+ * before the call, the payload sent and the outcome. Recording failures are
+ * logged rather than thrown so they never fail the action itself. Callers
+ * without a session cookie (a cron, the bot proxy) pass their own context.
+ */
+export const fetchWithAudit = async (
+  url: string,
+  options: RequestInit = {},
+  context?: AuditContext
+): Promise<Response> => {
+  const send = context?.send ?? fetchWithSession;
+  const method = (options.method || "GET").toUpperCase();
+  if (!isAuditedMethod(method)) return send(url, options);
+
+  const path = toAuditPath(url);
+  const { entityPath, ...target } = describeBackendCall(method, path);
+  const actor = context?.actor ?? (await getAdminSession())?.user ?? {};
+  const before = method !== "POST" && entityPath ? await readSnapshot(entityPath, url, send) : undefined;
+
+  const entry: AuditLogEntry = {
+    actor,
+    method,
+    path,
+    ...target,
+    before: redactSecrets(before),
+    after: method === "DELETE" ? undefined : redactSecrets(readPayload(options.body)),
+    outcome: "success",
+    timestamp: new Date().toISOString(),
+  };
+
+  try {
+    const response = await send(url, options);
+    entry.status = response.status;
+    if (!response.ok) {
+      entry.outcome = "failure";
+      entry.error = await readErrorMessage(response);
+    }
+    await saveAuditEntry(entry);
+    return response;
+  } catch (error) {
+    entry.outcome = "failure";
+    entry.error = error instanceof Error ? error.message : "Request failed";
+    await saveAuditEntry(entry);
+    throw error;
+  }
+};
@@ -1,93 +0,0 @@
-// lib\auth-config.ts  
-import { AuthOptions, DefaultSession } from "next-auth";
-import CredentialsProvider from "next-auth/providers/credentials";
-import { API_BASE_URL } from "./auth";
-
-// Extend the built-in session types
-declare module "next-auth" {
-  interface Session extends DefaultSession {
-    accessToken?: string;
-    user: {
-      id: string;
-      email: string;
-      name?: string;
-      role?: string;
-      token?: string;
-    } & DefaultSession["user"];
-  }
-
-  interface User {
-    id: string;
-    email: string;
-    name?: string;
-    role?: string;
-    token?: string;
-  }
-}
-
-export const authOptions: AuthOptions = {
-  providers: [
-    CredentialsProvider({
-      name: "Credentials",
-      credentials: {
-        email: { label: "Email", type: "text" },
-        password: { label: "Password", type: "password" }
-      },
-      async authorize(credentials) {
-        if (!credentials?.email || !credentials?.password) {
-          return null;
-        }
-
-        try {
-          const response = await fetch(`${API_BASE_URL}/api/auth/login`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              email: credentials.email,
-              password: credentials.password,
-            }),
-          });
-
-          if (!response.ok) {
-            return null;
-          }
-
-          const user = await response.json();
-          return user;
-        } catch (error) {
-          console.error("Auth error:", error);
-          return null;
-        }
-      },
-    }),
-  ],
-  session: {
-    strategy: "jwt",
-  },
-  pages: {
-    signIn: "/auth/login",
-  },
-  callbacks: {
-    async jwt({ token, user }) {
-      if (user) {
-        token.accessToken = user.token;
-        token.user = {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        };
-      }
-      return token;
-    },
-    async session({ session, token }: { session: any; token: any }) {
-      if (token.user) {
-        session.user = token.user;
-        session.accessToken = token.accessToken;
-      }
-      return session;
-    },
-  },
-}; 
\ No newline at end of file
@@ -1,144 +1,213 @@
-// lib\auth.ts  
+// lib\auth.ts
+import { ApiAuthError, ApiNetworkError } from "@/lib/api-errors"
+
 // Base URL for API from environment variable
 export const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "https://stocks-backend-cmjxc.ondigitalocean.app"
 
-// Function to get the admin access token
-export const getAdminAccessToken = (): string | null => {
-  if (typeof window === "undefined") {
-    // Server-side - try to get from environment variable if available
-    if (process.env.ADMIN_ACCESS_TOKEN) {
-      return process.env.ADMIN_ACCESS_TOKEN
-    }
+// The backend tokens live in an httpOnly cookie (see lib/session.ts), so
+// browser requests go through this proxy, which attaches them
+export const BACKEND_PROXY_PATH = "/api/backend"
+
+// Readable cookie holding only the access token expiry, so the client can
+// tell it is signed in without ever seeing the tokens
+export const SESSION_HINT_COOKIE = "admin_session_expires"
+
+export interface AdminSessionUser {
+  id?: string
+  email?: string
+  username?: string
+  role?: string
+}
+
+export interface ClientSession {
+  authenticated: boolean
+  user?: AdminSessionUser
+  // Access token expiry in milliseconds, when the token carries one
+  expiresAt?: number | null
+  // Set after a correct password when a two-factor code is still needed
+  twoFactorRequired?: boolean
+}
+
+export interface LoginResult {
+  success: boolean
+  message: string
+  // The password was accepted and verifyTwoFactorLogin must finish the login
+  twoFactorRequired?: boolean
+  // The two-factor step took too long and the login must start over
+  challengeExpired?: boolean
+  data?: ClientSession
+}
+
+// Tells the other tabs about logins, refreshes and logouts
+const SESSION_CHANNEL = "admin-session"
+
+// Name of the Web Lock that keeps tabs from refreshing at the same time
+const REFRESH_LOCK = "admin-token-refresh"
+
+// Refresh this long before the access token expires
+const REFRESH_LEEWAY_MS = 60 * 1000
+
+type SessionMessage = { type: "login" | "refresh" | "logout" }
+
+type SessionListener = (authenticated: boolean) => void
+
+const sessionListeners = new Set<SessionListener>()
+
+// The refresh in progress, shared by every caller that needs one
+let refreshPromise: Promise<boolean> | null = null
+
+let proactiveRefreshTimer: ReturnType<typeof setTimeout> | null = null
+
+let sessionChannel: BroadcastChannel | null = null
+
+/**
+ * Reads the `exp` claim of a JWT as a timestamp in milliseconds, or null
+ * when the token is not a JWT or has no expiry.
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split(".")[1]
+    if (!payload) return null
+    const claims = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")))
+    return typeof claims.exp === "number" ? claims.exp * 1000 : null
+  } catch (error) {
     return null
   }
+}
 
-  try {
-    // Get the token directly from the correct localStorage key
-    const token = localStorage.getItem("adminAccessToken")
+const readHintCookie = (): string | null => {
+  if (typeof document === "undefined") return null
+  const match = document.cookie.split("; ").find((cookie) => cookie.startsWith(`${SESSION_HINT_COOKIE}=`))
+  return match ? decodeURIComponent(match.slice(SESSION_HINT_COOKIE.length + 1)) : null
+}
 
-    if (!token) {
-  
-      return null
-    }
+/**
+ * When the current access token expires, or null when unknown.
+ */
+export const getSessionExpiry = (): number | null => {
+  const expiry = Number(readHintCookie())
+  return expiry > 0 ? expiry : null
+}
 
-    return token
-  } catch (error) {
+const isSessionExpiring = (): boolean => {
+  const expiry = getSessionExpiry()
+  return expiry !== null && expiry - Date.now() < REFRESH_LEEWAY_MS
+}
 
-    return null
+const scheduleProactiveRefresh = () => {
+  if (proactiveRefreshTimer) {
+    clearTimeout(proactiveRefreshTimer)
+    proactiveRefreshTimer = null
   }
+  const expiry = isAuthenticated() ? getSessionExpiry() : null
+  if (expiry === null) return
+
+  proactiveRefreshTimer = setTimeout(() => {
+    proactiveRefreshTimer = null
+    refreshToken().catch(() => {})
+  }, Math.max(expiry - Date.now() - REFRESH_LEEWAY_MS, 0))
 }
 
-// Function to get the admin refresh token
-export const getAdminRefreshToken = (): string | null => {
-  if (typeof window === "undefined") {
-    // Server-side - try to get from environment variable if available
-    if (process.env.ADMIN_REFRESH_TOKEN) {
-      return process.env.ADMIN_REFRESH_TOKEN
+const notifySessionChange = (message: SessionMessage, broadcast: boolean) => {
+  scheduleProactiveRefresh()
+  sessionListeners.forEach((listener) => listener(message.type !== "logout"))
+  if (broadcast) sessionChannel?.postMessage(message)
+}
+
+/**
+ * Calls `listener` whenever this tab or another one logs in, refreshes or
+ * logs out.
+ */
+export const subscribeToSessionChanges = (listener: SessionListener): (() => void) => {
+  sessionListeners.add(listener)
+  return () => {
+    sessionListeners.delete(listener)
+  }
+}
+
+/**
+ * Keeps this tab in step with the others and refreshes the access token
+ * shortly before it expires. Returns a cleanup function.
+ */
+export const startSessionSync = (): (() => void) => {
+  if (typeof window === "undefined") return () => {}
+
+  if (typeof BroadcastChannel !== "undefined") {
+    sessionChannel = new BroadcastChannel(SESSION_CHANNEL)
+    sessionChannel.onmessage = (event: MessageEvent<SessionMessage>) => notifySessionChange(event.data, false)
+  }
+  scheduleProactiveRefresh()
+
+  return () => {
+    sessionChannel?.close()
+    sessionChannel = null
+    if (proactiveRefreshTimer) {
+      clearTimeout(proactiveRefreshTimer)
+      proactiveRefreshTimer = null
     }
-    return null
   }
-  return localStorage.getItem("adminRefreshToken")
 }
 
-// Function to check if the user is authenticated
+// Function to check if the user is authenticated. Only the hint cookie is
+// checked; route handlers validate the session itself with getAdminSession
 export const isAuthenticated = (): boolean => {
-  if (typeof window === "undefined") {
-    // Server-side - check environment variable
-    return !!process.env.ADMIN_ACCESS_TOKEN
+  return readHintCookie() !== null
+}
+
+/**
+ * Asks the server for the current session.
+ */
+export const getSession = async (): Promise<ClientSession> => {
+  try {
+    const response = await fetch("/api/session", { cache: "no-store" })
+    if (!response.ok) return { authenticated: false }
+    return await response.json()
+  } catch (error) {
+    return { authenticated: false }
   }
-  return !!localStorage.getItem("adminAccessToken")
 }
 
 // Function to logout
 export const logout = async (): Promise<void> => {
   try {
-    const accessToken = getAdminAccessToken()
-    if (accessToken) {
-      // Call the logout API
-      await fetch(`${API_BASE_URL}/admin/logout`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      }).catch((error) => {
-
-        // Continue with local logout even if API call fails
-      })
-    }
+    // The server calls the backend logout and clears the session cookie
+    await fetch("/api/session", { method: "DELETE" })
   } catch (error) {
 
   } finally {
-    // Always clear local storage
-    if (typeof window !== "undefined") {
-      localStorage.removeItem("adminAccessToken")
-      localStorage.removeItem("adminRefreshToken")
-    }
+    notifySessionChange({ type: "logout" }, true)
   }
 }
 
-// Function to refresh the token
-export const refreshToken = async (): Promise<boolean> => {
-  try {
-    const refreshToken = getAdminRefreshToken()
-    if (!refreshToken) {
+// Runs the refresh while holding a lock shared across tabs, so a rotated
+// refresh token is never sent twice
+const withRefreshLock = <T>(task: () => Promise<T>): Promise<T> =>
+  typeof navigator !== "undefined" && navigator.locks
+    ? navigator.locks.request(REFRESH_LOCK, task)
+    : task()
 
-      return false
+const performRefresh = async (staleExpiry: number | null): Promise<boolean> => {
+  try {
+    // Another tab may have refreshed while this one waited for the lock
+    const currentExpiry = getSessionExpiry()
+    if (currentExpiry !== null && currentExpiry !== staleExpiry && !isSessionExpiring()) {
+      return true
     }
 
+    const response = await fetch("/api/session/refresh", { method: "POST" })
 
-
-    // According to the API docs, we should send the refresh token in the body, not as an Authorization header
-    const response = await fetch(`${API_BASE_URL}/admin/refresh`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ refreshToken }),
-    })
-
-    // Handle 403 Forbidden specifically
-    if (response.status === 403) {
-
-      // Clear tokens on 403 error as the refresh token is likely invalid or revoked
-      if (typeof window !== "undefined") {
-        localStorage.removeItem("adminAccessToken")
-        localStorage.removeItem("adminRefreshToken")
-      }
+    // 401 means the refresh token is invalid or revoked; the server has
+    // already cleared the session
+    if (response.status === 401) {
+      notifySessionChange({ type: "logout" }, true)
       return false
     }
 
     if (!response.ok) {
-
-
-      // If it's a 401, clear tokens and return false
-      if (response.status === 401) {
-
-        if (typeof window !== "undefined") {
-          localStorage.removeItem("adminAccessToken")
-          localStorage.removeItem("adminRefreshToken")
-        }
-        return false
-      }
-
-      // For other errors, try to get more information
-      try {
-        const errorData = await response.json()
-
-      } catch (e) {
-
-      }
-
       return false
     }
 
-    const data = await response.json()
-
-
-    localStorage.setItem("adminAccessToken", data.accessToken)
-    // If the API returns a new refresh token, update it
-    if (data.refreshToken) {
-      localStorage.setItem("adminRefreshToken", data.refreshToken)
-    }
+    notifySessionChange({ type: "refresh" }, true)
     return true
   } catch (error) {
 
@@ -146,23 +215,41 @@ export const refreshToken = async (): Promise<boolean> => {
   }
 }
 
+/**
+ * Refreshes the access token. Concurrent callers share a single request
+ * and its result instead of each starting their own.
+ */
+export const refreshToken = (): Promise<boolean> => {
+  if (!refreshPromise) {
+    const staleExpiry = getSessionExpiry()
+    refreshPromise = withRefreshLock(() => performRefresh(staleExpiry)).finally(() => {
+      refreshPromise = null
+    })
+  }
+  return refreshPromise
+}
+
+/**
+ * Waits for a refresh already in progress, or starts one when the access
+ * token is about to expire. Resolves to whether a session remains.
+ */
+export const ensureFreshSession = async (): Promise<boolean> => {
+  if (refreshPromise) {
+    await refreshPromise
+  } else if (isAuthenticated() && isSessionExpiring()) {
+    await refreshToken()
+  }
+  return isAuthenticated()
+}
+
 // Function to change admin password
 export const changePassword = async (
   oldPassword: string,
   newPassword: string,
 ): Promise<{ success: boolean; message: string }> => {
   try {
-    const accessToken = getAdminAccessToken()
-    if (!accessToken) {
-      return { success: false, message: "Not authenticated" }
-    }
-
-    const response = await fetch(`${API_BASE_URL}/admin/change-password`, {
+    const response = await fetchWithAuth(`${API_BASE_URL}/admin/change-password`, {
       method: "POST",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-      },
       body: JSON.stringify({ oldPassword, newPassword }),
     })
 
@@ -174,20 +261,35 @@ export const changePassword = async (
 
     return { success: true, message: "Password changed successfully" }
   } catch (error) {
-
+    if (error instanceof ApiAuthError) {
+      return { success: false, message: "Not authenticated" }
+    }
     return { success: false, message: "An error occurred while changing password" }
   }
 }
 
-// Function to make authenticated API requests
+// Backend URLs are sent through the proxy; this app's own routes read the
+// session cookie directly
+const toProxyUrl = (url: string): string =>
+  url.startsWith(API_BASE_URL) ? `${BACKEND_PROXY_PATH}${url.slice(API_BASE_URL.length)}` : url
+
+// Function to make authenticated API requests from the browser
 export const fetchWithAuth = async (url: string, options: RequestInit = {}): Promise<Response> => {
-  let accessToken = getAdminAccessToken()
+  if (typeof window === "undefined") {
+    // Route handlers have the session cookie and use fetchWithSession instead
+    throw new ApiAuthError("fetchWithAuth only runs in the browser; use fetchWithSession on the server", { url })
+  }
 
-  // Set up headers with or without the access token
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
+  // Waits for a refresh in flight and renews a token about to expire
+  if (!(await ensureFreshSession())) {
+    throw new ApiAuthError("Authentication required. Please login again.", { url })
   }
 
+  // Set up headers; FormData bodies need the browser to set their
+  // multipart boundary
+  const headers: Record<string, string> =
+    options.body instanceof FormData ? {} : { "Content-Type": "application/json" }
+
   // Add any existing headers from options
   if (options.headers) {
     if (options.headers instanceof Headers) {
@@ -199,74 +301,41 @@ export const fetchWithAuth = async (url: string, options: RequestInit = {}): Pro
     }
   }
 
-  if (accessToken) {
-    headers["Authorization"] = `Bearer ${accessToken}`
-
-  } else {
-
-    throw new Error("Authentication required. Please login again.")
-  }
-
-  // Log the request for debugging (without sensitive headers)
-
+  const requestUrl = toProxyUrl(url)
 
   try {
-    // Make the request with a timeout
+    // Make the request with a timeout, still cancellable by the caller
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
+    const abortFromCaller = () => controller.abort(options.signal?.reason)
+    if (options.signal?.aborted) abortFromCaller()
+    options.signal?.addEventListener("abort", abortFromCaller, { once: true })
 
     // Make the request
-    const response = await fetch(url, {
-      ...options,
-      headers,
-      signal: controller.signal,
-    })
-
-    clearTimeout(timeoutId)
-
-    // Log the response status for debugging
-
-
-    // If the response is 401 (Unauthorized) or 403 (Forbidden), try to refresh the token
-    if (response.status === 401 || response.status === 403) {
-
+    let response: Response
+    try {
+      response = await fetch(requestUrl, {
+        ...options,
+        headers,
+        credentials: "same-origin",
+        signal: controller.signal,
+      })
+    } finally {
+      clearTimeout(timeoutId)
+      options.signal?.removeEventListener("abort", abortFromCaller)
+    }
 
+    // The proxy refreshes expired tokens itself, so a 401 means the
+    // session is gone
+    if (response.status === 401) {
       // For development/testing, continue with the response if mock data is enabled
       if (process.env.NEXT_PUBLIC_ENABLE_MOCK_DATA === "true" || process.env.NODE_ENV === "development") {
 
         return response
       }
 
-      const refreshed = await refreshToken()
-      if (!refreshed) {
-        // Clear tokens and throw error
-        if (typeof window !== "undefined") {
-          localStorage.removeItem("adminAccessToken")
-          localStorage.removeItem("adminRefreshToken")
-        }
-        throw new Error("Session expired. Please login again.")
-      }
-
-      // Get the new access token and retry the request
-      accessToken = getAdminAccessToken()
-      if (!accessToken) {
-        throw new Error("Failed to refresh authentication. Please login again.")
-      }
-
-      headers["Authorization"] = `Bearer ${accessToken}`
-      const retryResponse = await fetch(url, { ...options, headers })
-
-      // If still unauthorized after refresh, redirect to login
-      if (retryResponse.status === 401 || retryResponse.status === 403) {
-        if (typeof window !== "undefined") {
-          localStorage.removeItem("adminAccessToken")
-          localStorage.removeItem("adminRefreshToken")
-          window.location.href = "/login"
-        }
-        throw new Error("Session expired. Please login again.")
-      }
-
-      return retryResponse
+      notifySessionChange({ type: "logout" }, true)
+      throw new ApiAuthError("Session expired. Please login again.", { url, status: response.status })
     }
 
     return response
@@ -274,8 +343,10 @@ export const fetchWithAuth = async (url: string, options: RequestInit = {}): Pro
     // Improve error logging
     if (error instanceof Error) {
       if (error.name === "AbortError") {
+        // Cancelled by the caller rather than by the timeout
+        if (options.signal?.aborted) throw error
 
-        throw new Error(`Request timeout: The server took too long to respond`)
+        throw new ApiNetworkError(`Request timeout: The server took too long to respond`, { url, cause: error })
       } else {
 
         throw error
@@ -287,14 +358,11 @@ export const fetchWithAuth = async (url: string, options: RequestInit = {}): Pro
 }
 
 // Function to login admin
-export const loginAdmin = async (
-  email: string,
-  password: string,
-): Promise<{ success: boolean; message: string; data?: any }> => {
+export const loginAdmin = async (email: string, password: string): Promise<LoginResult> => {
   try {
-
-
-    const response = await fetch(`${API_BASE_URL}/admin/login`, {
+    // The server stores the tokens in the session cookie and returns only
+    // the session summary
+    const response = await fetch("/api/session", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -309,21 +377,47 @@ export const loginAdmin = async (
       return { success: false, message: data.message || "Login failed" }
     }
 
+    if (data.twoFactorRequired) {
+      return { success: true, twoFactorRequired: true, message: "Enter the code from your authenticator app" }
+    }
 
+    notifySessionChange({ type: "login" }, true)
 
-    // Store tokens in localStorage
-    localStorage.setItem("adminAccessToken", data.accessToken)
-    localStorage.setItem("adminRefreshToken", data.refreshToken)
+    return { success: true, message: "Login successful", data }
+  } catch (error) {
 
-    // Verify tokens were stored
-    const storedAccessToken = localStorage.getItem("adminAccessToken")
-    const storedRefreshToken = localStorage.getItem("adminRefreshToken")
+    return { success: false, message: "An error occurred during login" }
+  }
+}
+
+/**
+ * Finishes a login that needs two-factor authentication, with a code from
+ * the authenticator app or one of the recovery codes.
+ */
+export const verifyTwoFactorLogin = async (code: string, isRecoveryCode = false): Promise<LoginResult> => {
+  try {
+    const response = await fetch("/api/session/two-factor", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(isRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() }),
+    })
+
+    const data = await response.json()
 
+    if (!response.ok) {
+      return {
+        success: false,
+        message: data.message || "Invalid authentication code",
+        challengeExpired: !!data.challengeExpired,
+      }
+    }
 
+    notifySessionChange({ type: "login" }, true)
 
     return { success: true, message: "Login successful", data }
   } catch (error) {
-
     return { success: false, message: "An error occurred during login" }
   }
 }
@@ -131,6 +131,7 @@ export const CACHE_KEYS = {
   PORTFOLIOS_DATA: 'portfolios_data',
   TIPS_DATA: 'tips_data',
   BUNDLES_DATA: 'bundles_data',
+  DASHBOARD_METRICS: 'dashboard_metrics',
   
   // Filters and search
   USERS_FILTERS: 'users_filters',
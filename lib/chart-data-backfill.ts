@@ -0,0 +1,272 @@
+// lib/chart-data-backfill.ts
+import type { Portfolio, PortfolioHolding } from "@/lib/api";
+import {
+  createPortfolioChartData,
+  type ChartDataPoint,
+  type CreateChartDataRequest,
+} from "@/lib/api-chart-data";
+import { fetchStockSymbolBySymbol, type PricePoint, type StockSymbol } from "@/lib/api-stock-symbols";
+import { getChartPointDate } from "@/lib/chart-data-duplicates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back a price may be carried forward before a day is left unpriced
+export const MAX_PRICE_STALENESS_DAYS = 7;
+
+// NSE trading holidays (weekday closures only). Extend per year as the
+// exchange publishes its calendar; admins can add ad-hoc closures in the UI.
+// Years missing here are reported by findUncoveredHolidayYears.
+export const NSE_HOLIDAYS: string[] = [
+  // 2024
+  "2024-01-22", "2024-01-26", "2024-03-08", "2024-03-25", "2024-03-29",
+  "2024-04-11", "2024-04-17", "2024-05-01", "2024-05-20", "2024-06-17",
+  "2024-07-17", "2024-08-15", "2024-10-02", "2024-11-01", "2024-11-15",
+  "2024-11-20", "2024-12-25",
+  // 2025
+  "2025-02-26", "2025-03-14", "2025-03-31", "2025-04-10", "2025-04-14",
+  "2025-04-18", "2025-05-01", "2025-08-15", "2025-08-27", "2025-10-02",
+  "2025-10-21", "2025-10-22", "2025-11-05", "2025-12-25",
+  // 2026
+  "2026-01-15", "2026-01-26", "2026-03-03", "2026-03-26", "2026-03-31",
+  "2026-04-03", "2026-04-14", "2026-05-01", "2026-05-28", "2026-06-26",
+  "2026-09-14", "2026-10-02", "2026-10-20", "2026-11-10", "2026-11-24",
+  "2026-12-25",
+];
+
+export interface BackfillCandidate {
+  dateOnly: string;
+  data: Omit<CreateChartDataRequest, "portfolio">;
+  holdingsValue: number;
+  pricedHoldings: number;
+  totalHoldings: number;
+  missingSymbols: string[];
+  // Candidates with unpriced holdings are previewed but not selected by default
+  isComplete: boolean;
+}
+
+export interface BackfillResultEntry {
+  dateOnly: string;
+  status: "created" | "failed";
+  error?: string;
+}
+
+// =================================================================
+// TRADING CALENDAR
+// =================================================================
+
+const toDateKey = (time: number): string => new Date(time).toISOString().split("T")[0];
+
+const parseDateKey = (date: string): number => new Date(`${date.split("T")[0]}T00:00:00.000Z`).getTime();
+
+export const isTradingDay = (date: string, holidays: Iterable<string> = NSE_HOLIDAYS): boolean => {
+  const day = new Date(parseDateKey(date)).getUTCDay();
+  if (day === 0 || day === 6) return false;
+  return !new Set(holidays).has(date.split("T")[0]);
+};
+
+export const listTradingDays = (startDate: string, endDate: string, holidays: Iterable<string> = NSE_HOLIDAYS): string[] => {
+  const holidaySet = new Set(holidays);
+  const days: string[] = [];
+  const end = parseDateKey(endDate);
+  for (let time = parseDateKey(startDate); time <= end; time += DAY_MS) {
+    const date = toDateKey(time);
+    if (isTradingDay(date, holidaySet)) days.push(date);
+  }
+  return days;
+};
+
+/**
+ * Trading days in the range that have no chart data point.
+ */
+export const findMissingTradingDays = (
+  points: ChartDataPoint[],
+  startDate: string,
+  endDate: string,
+  holidays: Iterable<string> = NSE_HOLIDAYS
+): string[] => {
+  const existing = new Set(points.map(getChartPointDate));
+  return listTradingDays(startDate, endDate, holidays).filter((date) => !existing.has(date));
+};
+
+/**
+ * Years in the range that NSE_HOLIDAYS has no calendar for. Every weekday
+ * in those years counts as a trading day unless the holidays are entered
+ * by hand, so gaps found there may include exchange closures.
+ */
+export const findUncoveredHolidayYears = (startDate: string, endDate: string): number[] => {
+  const covered = new Set(NSE_HOLIDAYS.map((date) => Number(date.slice(0, 4))));
+  const years: number[] = [];
+  for (let year = Number(startDate.slice(0, 4)); year <= Number(endDate.slice(0, 4)); year++) {
+    if (!covered.has(year)) years.push(year);
+  }
+  return years;
+};
+
+// =================================================================
+// RECONSTRUCTION
+// =================================================================
+
+const sortHistory = (history: PricePoint[] = []) =>
+  history
+    .map((point) => ({ time: new Date(point.timestamp).getTime(), price: parseFloat(point.price) }))
+    .filter((point) => !Number.isNaN(point.time) && point.price > 0)
+    .sort((a, b) => a.time - b.time);
+
+type SortedHistory = ReturnType<typeof sortHistory>;
+
+/**
+ * Last known price at or before the end of the given day, carried forward
+ * for at most MAX_PRICE_STALENESS_DAYS.
+ */
+export const priceOnDate = (history: SortedHistory, date: string): number | null => {
+  const endOfDay = parseDateKey(date) + DAY_MS - 1;
+  let found: { time: number; price: number } | null = null;
+  for (const point of history) {
+    if (point.time > endOfDay) break;
+    found = point;
+  }
+  if (!found || parseDateKey(date) - found.time > MAX_PRICE_STALENESS_DAYS * DAY_MS) return null;
+  return found.price;
+};
+
+const activeHoldings = (portfolio: Portfolio): PortfolioHolding[] =>
+  (portfolio.holdings || []).filter((holding) => holding.quantity > 0 && holding.status !== "Sold");
+
+export interface HoldingsValuation {
+  holdingsValue: number;
+  pricedHoldings: number;
+  totalHoldings: number;
+  missingSymbols: string[];
+}
+
+/**
+ * Loads stock details (with price history) for every holding and the
+ * portfolio's compare index. Symbols that fail to load are left out.
+ */
+export const fetchPortfolioStocks = async (portfolio: Portfolio): Promise<Record<string, StockSymbol>> => {
+  const symbols = Array.from(
+    new Set([...(portfolio.holdings || []).map((holding) => holding.symbol), portfolio.compareWith].filter(Boolean) as string[])
+  );
+  const results = await Promise.allSettled(symbols.map((symbol) => fetchStockSymbolBySymbol(symbol)));
+  const stocks: Record<string, StockSymbol> = {};
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled" && result.value) stocks[symbols[index]] = result.value;
+  });
+  return stocks;
+};
+
+/**
+ * Returns a function that values the portfolio's current holding quantities
+ * on any date using each stock's price history.
+ */
+export const createHoldingsValuer = (
+  portfolio: Portfolio,
+  stocks: Record<string, StockSymbol>
+): ((date: string) => HoldingsValuation) => {
+  const holdings = activeHoldings(portfolio);
+  const histories = new Map<string, SortedHistory>();
+  holdings.forEach((holding) => {
+    histories.set(holding.symbol, sortHistory(stocks[holding.symbol]?.priceHistory));
+  });
+
+  return (date) => {
+    const missingSymbols: string[] = [];
+    let holdingsValue = 0;
+    holdings.forEach((holding) => {
+      const price = priceOnDate(histories.get(holding.symbol) || [], date);
+      if (price === null) {
+        missingSymbols.push(holding.symbol);
+        return;
+      }
+      holdingsValue += price * holding.quantity;
+    });
+    return {
+      holdingsValue,
+      pricedHoldings: holdings.length - missingSymbols.length,
+      totalHoldings: holdings.length,
+      missingSymbols,
+    };
+  };
+};
+
+/**
+ * Rebuilds chart points for the missing days from the portfolio's current
+ * holding quantities and each stock's price history. Cash is carried from
+ * the nearest earlier chart point, falling back to the portfolio's balance.
+ */
+export const buildBackfillCandidates = (
+  portfolio: Portfolio,
+  missingDays: string[],
+  existingPoints: ChartDataPoint[],
+  stocks: Record<string, StockSymbol>
+): BackfillCandidate[] => {
+  const valueHoldings = createHoldingsValuer(portfolio, stocks);
+  const benchmarkHistory = portfolio.compareWith ? sortHistory(stocks[portfolio.compareWith]?.priceHistory) : [];
+
+  const earlierPoints = [...existingPoints].sort((a, b) => getChartPointDate(a).localeCompare(getChartPointDate(b)));
+  const previousPoint = (date: string) => {
+    let found: ChartDataPoint | undefined;
+    for (const point of earlierPoints) {
+      if (getChartPointDate(point) >= date) break;
+      found = point;
+    }
+    return found;
+  };
+
+  return missingDays.map((dateOnly) => {
+    const valuation = valueHoldings(dateOnly);
+    const { holdingsValue, missingSymbols } = valuation;
+
+    const previous = previousPoint(dateOnly);
+    const cashRemaining = previous?.cashRemaining ?? portfolio.cashBalance ?? 0;
+    const benchmarkPrice = priceOnDate(benchmarkHistory, dateOnly);
+    const compareIndexValue = benchmarkPrice ?? previous?.compareIndexValue ?? 0;
+
+    const issues = ["Backfilled from current holdings"];
+    if (missingSymbols.length) issues.push(`No price for ${missingSymbols.join(", ")}`);
+    if (benchmarkPrice === null) issues.push("Compare index carried forward");
+
+    return {
+      dateOnly,
+      ...valuation,
+      isComplete: missingSymbols.length === 0 && valuation.totalHoldings > 0,
+      data: {
+        date: new Date(parseDateKey(dateOnly)).toISOString(),
+        dateOnly,
+        portfolioValue: Math.round((holdingsValue + cashRemaining) * 100) / 100,
+        cashRemaining,
+        compareIndexValue,
+        compareIndexPriceSource: "closing",
+        usedClosingPrices: true,
+        dataVerified: false,
+        dataQualityIssues: issues,
+      },
+    };
+  });
+};
+
+/**
+ * Posts the selected candidates one by one so a single failure does not
+ * abort the rest of the run.
+ */
+export const createBackfillPoints = async (
+  portfolioId: string,
+  candidates: BackfillCandidate[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<BackfillResultEntry[]> => {
+  const results: BackfillResultEntry[] = [];
+  for (const candidate of candidates) {
+    try {
+      await createPortfolioChartData(portfolioId, candidate.data);
+      results.push({ dateOnly: candidate.dateOnly, status: "created" });
+    } catch (error) {
+      results.push({
+        dateOnly: candidate.dateOnly,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Failed to create chart data",
+      });
+    }
+    onProgress?.(results.length, candidates.length);
+  }
+  return results;
+};
@@ -0,0 +1,185 @@
+// lib/chart-data-duplicates.ts
+import { deleteChartData, type ChartDataPoint } from "@/lib/api-chart-data";
+
+// Fields shown in the preview diff between a survivor and each duplicate
+const DIFF_FIELDS = [
+  "date",
+  "portfolioValue",
+  "cashRemaining",
+  "compareIndexValue",
+  "compareIndexPriceSource",
+  "usedClosingPrices",
+  "dataVerified",
+] as const;
+
+type DiffField = (typeof DIFF_FIELDS)[number];
+
+export interface FieldDifference {
+  field: DiffField;
+  survivor: unknown;
+  duplicate: unknown;
+}
+
+export interface DuplicateLoser {
+  point: ChartDataPoint;
+  differences: FieldDifference[];
+}
+
+export interface DuplicateGroup {
+  key: string;
+  portfolio: string;
+  dateOnly: string;
+  survivor: ChartDataPoint;
+  // Why the survivor was picked, for the preview
+  reason: string;
+  losers: DuplicateLoser[];
+}
+
+export interface DuplicateCleanupPlan {
+  dryRun: true;
+  scanned: number;
+  groups: DuplicateGroup[];
+  toDelete: number;
+}
+
+export interface DuplicateCleanupReportEntry {
+  id: string;
+  portfolio: string;
+  dateOnly: string;
+  survivorId: string;
+  portfolioValue: number;
+  status: "deleted" | "failed";
+  error?: string;
+}
+
+export interface DuplicateCleanupReport {
+  dryRun: false;
+  startedAt: string;
+  completedAt: string;
+  deletedCount: number;
+  failedCount: number;
+  entries: DuplicateCleanupReportEntry[];
+}
+
+export const getChartPointId = (point: ChartDataPoint): string => point._id || point.id || "";
+
+// The API sometimes populates `portfolio` with the full document
+export const getChartPointPortfolioId = (point: ChartDataPoint): string => {
+  const portfolio = point.portfolio as unknown;
+  if (portfolio && typeof portfolio === "object") {
+    return (portfolio as any).id || (portfolio as any)._id || "";
+  }
+  return (portfolio as string) || "";
+};
+
+export const getChartPointDate = (point: ChartDataPoint): string => (point.dateOnly || point.date || "").split("T")[0];
+
+const timeOf = (point: ChartDataPoint): number => {
+  const time = new Date(point.date || point.dateOnly).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+/**
+ * Orders candidates so the preferred survivor comes first: verified data,
+ * then closing-price data, then the most recent entry.
+ */
+const compareSurvivorPreference = (a: ChartDataPoint, b: ChartDataPoint): number => {
+  if (!!a.dataVerified !== !!b.dataVerified) return a.dataVerified ? -1 : 1;
+  if (!!a.usedClosingPrices !== !!b.usedClosingPrices) return a.usedClosingPrices ? -1 : 1;
+  return timeOf(b) - timeOf(a);
+};
+
+const describeSurvivor = (survivor: ChartDataPoint, runnerUp: ChartDataPoint): string => {
+  if (!!survivor.dataVerified !== !!runnerUp.dataVerified) return "Only verified entry";
+  if (!!survivor.usedClosingPrices !== !!runnerUp.usedClosingPrices) return "Uses closing prices";
+  return "Most recent entry";
+};
+
+const diffPoints = (survivor: ChartDataPoint, duplicate: ChartDataPoint): FieldDifference[] =>
+  DIFF_FIELDS.filter((field) => survivor[field] !== duplicate[field]).map((field) => ({
+    field,
+    survivor: survivor[field],
+    duplicate: duplicate[field],
+  }));
+
+/**
+ * Groups chart data by portfolio and trading day and picks a survivor for
+ * every day that has more than one entry. Nothing is deleted.
+ */
+export const planDuplicateCleanup = (points: ChartDataPoint[]): DuplicateCleanupPlan => {
+  const byKey = new Map<string, ChartDataPoint[]>();
+
+  points.forEach((point) => {
+    const portfolio = getChartPointPortfolioId(point);
+    const dateOnly = getChartPointDate(point);
+    if (!portfolio || !dateOnly || !getChartPointId(point)) return;
+    const key = `${portfolio}:${dateOnly}`;
+    byKey.set(key, [...(byKey.get(key) || []), point]);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  byKey.forEach((entries, key) => {
+    if (entries.length < 2) return;
+    const [survivor, ...losers] = [...entries].sort(compareSurvivorPreference);
+    groups.push({
+      key,
+      portfolio: getChartPointPortfolioId(survivor),
+      dateOnly: getChartPointDate(survivor),
+      survivor,
+      reason: describeSurvivor(survivor, losers[0]),
+      losers: losers.map((point) => ({ point, differences: diffPoints(survivor, point) })),
+    });
+  });
+
+  groups.sort((a, b) => a.portfolio.localeCompare(b.portfolio) || a.dateOnly.localeCompare(b.dateOnly));
+
+  return {
+    dryRun: true,
+    scanned: points.length,
+    groups,
+    toDelete: groups.reduce((count, group) => count + group.losers.length, 0),
+  };
+};
+
+/**
+ * Deletes every non-surviving duplicate in the plan, one at a time, and
+ * records the outcome of each deletion.
+ */
+export const executeDuplicateCleanup = async (
+  plan: DuplicateCleanupPlan,
+  onProgress?: (completed: number, total: number) => void
+): Promise<DuplicateCleanupReport> => {
+  const startedAt = new Date().toISOString();
+  const entries: DuplicateCleanupReportEntry[] = [];
+  let completed = 0;
+
+  for (const group of plan.groups) {
+    for (const { point } of group.losers) {
+      const entry: DuplicateCleanupReportEntry = {
+        id: getChartPointId(point),
+        portfolio: group.portfolio,
+        dateOnly: group.dateOnly,
+        survivorId: getChartPointId(group.survivor),
+        portfolioValue: point.portfolioValue,
+        status: "deleted",
+      };
+      try {
+        await deleteChartData(entry.id);
+      } catch (error) {
+        entry.status = "failed";
+        entry.error = error instanceof Error ? error.message : "Failed to delete";
+      }
+      entries.push(entry);
+      onProgress?.(++completed, plan.toDelete);
+    }
+  }
+
+  return {
+    dryRun: false,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    deletedCount: entries.filter((entry) => entry.status === "deleted").length,
+    failedCount: entries.filter((entry) => entry.status === "failed").length,
+    entries,
+  };
+};
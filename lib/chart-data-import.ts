@@ -0,0 +1,332 @@
+// lib/chart-data-import.ts
+import * as XLSX from "xlsx";
+import {
+  createPortfolioChartData,
+  patchChartData,
+  updateChartData,
+  type ChartDataPoint,
+  type CreateChartDataRequest,
+} from "@/lib/api-chart-data";
+import { getChartPointDate, getChartPointId } from "@/lib/chart-data-duplicates";
+
+export type ImportField =
+  | "date"
+  | "portfolioValue"
+  | "cashRemaining"
+  | "compareIndexValue"
+  | "compareIndexPriceSource"
+  | "usedClosingPrices"
+  | "dataVerified";
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  // Lower-cased header spellings recognised when guessing the mapping
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: "date", label: "Date", required: true, aliases: ["date", "dateonly", "day", "trade date", "as of"] },
+  { field: "portfolioValue", label: "Portfolio Value", required: true, aliases: ["portfoliovalue", "portfolio value", "nav", "value", "total value"] },
+  { field: "cashRemaining", label: "Cash Remaining", required: false, aliases: ["cashremaining", "cash remaining", "cash", "cash balance"] },
+  { field: "compareIndexValue", label: "Index Value", required: false, aliases: ["compareindexvalue", "index value", "index", "benchmark", "nifty"] },
+  { field: "compareIndexPriceSource", label: "Index Price Source", required: false, aliases: ["compareindexpricesource", "price source", "index price source"] },
+  { field: "usedClosingPrices", label: "Used Closing Prices", required: false, aliases: ["usedclosingprices", "used closing prices", "closing prices"] },
+  { field: "dataVerified", label: "Data Verified", required: false, aliases: ["dataverified", "data verified", "verified"] },
+];
+
+// Column header for each field, or undefined when the field is not imported
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+// Order of day and month in slash/dash dates such as 05/04/2025
+export type DateOrder = "DMY" | "MDY";
+
+export type ConflictResolution = "skip" | "overwrite" | "merge";
+
+export interface ParsedSpreadsheet {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+type ImportData = Omit<CreateChartDataRequest, "portfolio">;
+
+export interface ImportRow {
+  // 1-based spreadsheet row including the header row
+  rowNumber: number;
+  dateOnly: string;
+  data: ImportData | null;
+  // Fields that had a value in the file; merge only sends these
+  provided: ImportField[];
+  errors: string[];
+  existing?: ChartDataPoint;
+}
+
+export interface ImportResultEntry {
+  rowNumber: number;
+  dateOnly: string;
+  action: "created" | "overwritten" | "merged" | "skipped";
+  status: "ok" | "failed";
+  error?: string;
+}
+
+// =================================================================
+// PARSING
+// =================================================================
+
+/**
+ * Reads the first sheet of a CSV or XLSX file into header-keyed rows.
+ * CSV cells are kept as text so dates are not reinterpreted by the parser.
+ */
+export const parseSpreadsheet = async (file: File): Promise<ParsedSpreadsheet> => {
+  const isCsv = /\.csv$/i.test(file.name) || file.type === "text/csv";
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: "string", raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error("The file does not contain any sheets");
+  }
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "", raw: true });
+  const headerRow = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, range: 0 })[0] || [];
+  const headers = headerRow.map((header) => String(header ?? "").trim()).filter(Boolean);
+
+  if (headers.length === 0 || rows.length === 0) {
+    throw new Error("The file has no data rows");
+  }
+
+  return { fileName: file.name, headers, rows };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-]+/g, " ").replace(/\s+/g, " ").trim();
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const match = headers.find((header) => !used.has(header) && aliases.includes(normalizeHeader(header)));
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  });
+  return mapping;
+};
+
+// =================================================================
+// VALUE CONVERSION
+// =================================================================
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toDateOnly = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Accepts spreadsheet dates, Excel serial numbers, ISO strings and
+ * slash/dash dates in the given day/month order.
+ */
+export const parseImportDate = (value: unknown, order: DateOrder = "DMY"): string | null => {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    return toDateOnly(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+
+  if (typeof value === "number") {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? toDateOnly(parsed.y, parsed.m, parsed.d) : null;
+  }
+
+  const text = String(value ?? "").trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (iso) return toDateOnly(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const local = text.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2}|\d{4})$/);
+  if (local) {
+    const [first, second] = [Number(local[1]), Number(local[2])];
+    const year = local[3].length === 2 ? 2000 + Number(local[3]) : Number(local[3]);
+    return order === "DMY" ? toDateOnly(year, second, first) : toDateOnly(year, first, second);
+  }
+
+  return null;
+};
+
+export const parseImportNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const text = String(value ?? "").replace(/[₹,\s]/g, "");
+  if (!text || !/^-?\d*\.?\d+$/.test(text)) return null;
+  return parseFloat(text);
+};
+
+const parseImportBoolean = (value: unknown): boolean | null => {
+  if (typeof value === "boolean") return value;
+  const text = String(value ?? "").trim().toLowerCase();
+  if (["true", "yes", "y", "1"].includes(text)) return true;
+  if (["false", "no", "n", "0"].includes(text)) return false;
+  return null;
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === "";
+
+// =================================================================
+// ROW BUILDING
+// =================================================================
+
+/**
+ * Converts mapped spreadsheet rows into chart data requests. Rows keep
+ * their errors instead of being dropped so the preview can show them.
+ */
+export const buildImportRows = (
+  spreadsheet: ParsedSpreadsheet,
+  mapping: ColumnMapping,
+  dateOrder: DateOrder = "DMY"
+): ImportRow[] => {
+  const seen = new Map<string, number>();
+
+  return spreadsheet.rows.map((raw, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const provided: ImportField[] = [];
+    const cell = (field: ImportField) => (mapping[field] ? raw[mapping[field] as string] : undefined);
+
+    IMPORT_FIELDS.forEach(({ field, label, required }) => {
+      if (!isBlank(cell(field))) provided.push(field);
+      else if (required) errors.push(`${label} is empty`);
+    });
+
+    const dateOnly = isBlank(cell("date")) ? "" : parseImportDate(cell("date"), dateOrder) || "";
+    if (!isBlank(cell("date")) && !dateOnly) errors.push(`Invalid date "${cell("date")}"`);
+
+    const number = (field: ImportField, label: string) => {
+      if (isBlank(cell(field))) return 0;
+      const parsed = parseImportNumber(cell(field));
+      if (parsed === null) errors.push(`${label} "${cell(field)}" is not a number`);
+      return parsed ?? 0;
+    };
+    const flag = (field: ImportField, label: string, fallback: boolean) => {
+      if (isBlank(cell(field))) return fallback;
+      const parsed = parseImportBoolean(cell(field));
+      if (parsed === null) errors.push(`${label} "${cell(field)}" is not yes/no`);
+      return parsed ?? fallback;
+    };
+
+    const portfolioValue = number("portfolioValue", "Portfolio Value");
+    const cashRemaining = number("cashRemaining", "Cash Remaining");
+    const compareIndexValue = number("compareIndexValue", "Index Value");
+    const usedClosingPrices = flag("usedClosingPrices", "Used Closing Prices", true);
+    const dataVerified = flag("dataVerified", "Data Verified", false);
+    if (portfolioValue < 0) errors.push("Portfolio Value cannot be negative");
+
+    const source = String(cell("compareIndexPriceSource") ?? "").trim().toLowerCase();
+    if (source && source !== "closing" && source !== "opening") {
+      errors.push(`Index Price Source "${cell("compareIndexPriceSource")}" must be closing or opening`);
+    }
+
+    if (dateOnly) {
+      const firstRow = seen.get(dateOnly);
+      if (firstRow) errors.push(`Same date as row ${firstRow}`);
+      else seen.set(dateOnly, rowNumber);
+    }
+
+    return {
+      rowNumber,
+      dateOnly,
+      provided,
+      errors,
+      data: errors.length
+        ? null
+        : {
+            date: `${dateOnly}T00:00:00.000Z`,
+            dateOnly,
+            portfolioValue,
+            cashRemaining,
+            compareIndexValue,
+            compareIndexPriceSource: source === "opening" ? "opening" : "closing",
+            usedClosingPrices,
+            dataVerified,
+            dataQualityIssues: [],
+          },
+    };
+  });
+};
+
+/**
+ * Attaches the existing chart point for every imported date that is
+ * already recorded for the portfolio.
+ */
+export const attachImportConflicts = (rows: ImportRow[], existingPoints: ChartDataPoint[]): ImportRow[] => {
+  const byDate = new Map<string, ChartDataPoint>();
+  existingPoints.forEach((point) => {
+    const date = getChartPointDate(point);
+    if (date && !byDate.has(date)) byDate.set(date, point);
+  });
+  return rows.map((row) => ({ ...row, existing: row.dateOnly ? byDate.get(row.dateOnly) : undefined }));
+};
+
+// Only fields present in the file, so merging keeps the stored values for the rest
+const pickProvided = (row: ImportRow): Partial<ImportData> => {
+  const data = row.data as ImportData;
+  const patch: Partial<ImportData> = {};
+  row.provided.forEach((field) => {
+    if (field === "date") {
+      patch.date = data.date;
+      patch.dateOnly = data.dateOnly;
+    } else {
+      (patch as Record<string, unknown>)[field] = data[field];
+    }
+  });
+  return patch;
+};
+
+// =================================================================
+// EXECUTION
+// =================================================================
+
+/**
+ * Creates new points and applies the chosen resolution to conflicting
+ * ones, one request at a time. Rows with errors are not sent.
+ */
+export const executeImport = async (
+  portfolioId: string,
+  rows: ImportRow[],
+  resolutions: Record<number, ConflictResolution>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<ImportResultEntry[]> => {
+  const validRows = rows.filter((row) => row.data);
+  const results: ImportResultEntry[] = [];
+
+  for (const row of validRows) {
+    const data = row.data as ImportData;
+    const resolution = row.existing ? resolutions[row.rowNumber] || "skip" : null;
+    const entry: ImportResultEntry = {
+      rowNumber: row.rowNumber,
+      dateOnly: row.dateOnly,
+      action: resolution === null ? "created" : resolution === "skip" ? "skipped" : resolution === "overwrite" ? "overwritten" : "merged",
+      status: "ok",
+    };
+
+    try {
+      if (resolution === null) {
+        await createPortfolioChartData(portfolioId, data);
+      } else if (resolution === "overwrite") {
+        await updateChartData(getChartPointId(row.existing as ChartDataPoint), { ...data, portfolio: portfolioId });
+      } else if (resolution === "merge") {
+        await patchChartData(getChartPointId(row.existing as ChartDataPoint), pickProvided(row));
+      }
+    } catch (error) {
+      entry.status = "failed";
+      entry.error = error instanceof Error ? error.message : "Failed to import row";
+    }
+
+    results.push(entry);
+    onProgress?.(results.length, validRows.length);
+  }
+
+  return results;
+};
@@ -0,0 +1,198 @@
+// lib/chart-data-quality.ts
+import { patchChartData, type ChartDataPoint } from "@/lib/api-chart-data";
+import type { HoldingsValuation } from "@/lib/chart-data-backfill";
+import { getChartPointDate, getChartPointId } from "@/lib/chart-data-duplicates";
+
+// Issues written by the validator start with one of these codes. Anything
+// else in dataQualityIssues (e.g. backfill notes) is left untouched.
+export const QUALITY_RULES = {
+  VALUE_JUMP: "Day-over-day jump",
+  NEGATIVE_CASH: "Negative cash",
+  ZERO_INDEX: "Zero index value",
+  VALUATION_MISMATCH: "Holdings mismatch",
+  DATE_ORDER: "Out-of-order date",
+} as const;
+
+export type QualityRule = keyof typeof QUALITY_RULES;
+
+export interface QualityValidationOptions {
+  // Fractional day-over-day move in portfolioValue that gets flagged
+  jumpThreshold?: number;
+  // Fractional gap allowed between portfolioValue and holdings + cash
+  valuationTolerance?: number;
+  // Values current holdings on a date; the mismatch rule is skipped without it
+  valueHoldings?: (date: string) => HoldingsValuation;
+  // Last day the holdings changed. Current quantities only describe later
+  // points, so the mismatch rule is skipped for this day and earlier ones,
+  // and entirely when the date is unknown.
+  holdingsSince?: string | null;
+}
+
+export interface QualityCheckResult {
+  point: ChartDataPoint;
+  issues: string[];
+  rules: QualityRule[];
+  nextIssues: string[];
+  nextVerified: boolean;
+  changed: boolean;
+}
+
+export interface QualityValidationReport {
+  scanned: number;
+  flagged: number;
+  changed: number;
+  ruleCounts: Record<QualityRule, number>;
+  results: QualityCheckResult[];
+}
+
+export interface QualitySaveResultEntry {
+  id: string;
+  dateOnly: string;
+  status: "saved" | "failed";
+  error?: string;
+}
+
+export const DEFAULT_JUMP_THRESHOLD = 0.1;
+export const DEFAULT_VALUATION_TOLERANCE = 0.02;
+
+const RULE_CODES = Object.keys(QUALITY_RULES) as QualityRule[];
+
+const formatIssue = (rule: QualityRule, detail: string) => `${rule}: ${detail}`;
+
+export const isValidatorIssue = (issue: string): boolean => RULE_CODES.some((rule) => issue.startsWith(`${rule}:`));
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+// Trading days are IST calendar days; timestamps may be stored in UTC
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+const dateOfTimestamp = (point: ChartDataPoint): string | null => {
+  const time = new Date(point.date).getTime();
+  return Number.isNaN(time) ? null : new Date(time + IST_OFFSET_MS).toISOString().split("T")[0];
+};
+
+const sameIssues = (a: string[] = [], b: string[] = []) => a.length === b.length && a.every((issue, index) => issue === b[index]);
+
+/**
+ * Runs every rule over one portfolio's series. Points are compared in
+ * trading-day order regardless of the order they were passed in.
+ */
+export const validateChartDataSeries = (
+  points: ChartDataPoint[],
+  {
+    jumpThreshold = DEFAULT_JUMP_THRESHOLD,
+    valuationTolerance = DEFAULT_VALUATION_TOLERANCE,
+    valueHoldings,
+    holdingsSince,
+  }: QualityValidationOptions = {}
+): QualityValidationReport => {
+  const issuesByPoint = new Map<ChartDataPoint, string[]>();
+  const add = (point: ChartDataPoint, rule: QualityRule, detail: string) => {
+    issuesByPoint.set(point, [...(issuesByPoint.get(point) || []), formatIssue(rule, detail)]);
+  };
+
+  const byDay = [...points].sort((a, b) => getChartPointDate(a).localeCompare(getChartPointDate(b)));
+  byDay.forEach((point, index) => {
+    if (point.cashRemaining < 0) {
+      add(point, "NEGATIVE_CASH", `cash remaining is ${point.cashRemaining}`);
+    }
+    if (!point.compareIndexValue) {
+      add(point, "ZERO_INDEX", "compare index value is 0");
+    }
+
+    const previous = byDay[index - 1];
+    if (previous && previous.portfolioValue > 0) {
+      const change = (point.portfolioValue - previous.portfolioValue) / previous.portfolioValue;
+      if (Math.abs(change) > jumpThreshold) {
+        add(point, "VALUE_JUMP", `portfolio value moved ${formatPercent(change)} since ${getChartPointDate(previous)}`);
+      }
+    }
+
+    if (valueHoldings && holdingsSince && getChartPointDate(point) > holdingsSince) {
+      const valuation = valueHoldings(getChartPointDate(point));
+      if (valuation.totalHoldings > 0 && valuation.missingSymbols.length === 0) {
+        const expected = valuation.holdingsValue + point.cashRemaining;
+        const gap = expected ? (point.portfolioValue - expected) / expected : 0;
+        if (Math.abs(gap) > valuationTolerance) {
+          add(point, "VALUATION_MISMATCH", `portfolio value is ${formatPercent(gap)} off holdings + cash (${expected.toFixed(2)})`);
+        }
+      }
+    }
+  });
+
+  // Entries recorded later must not carry an earlier trading day, and the
+  // timestamp should fall on the stored trading day.
+  const byTimestamp = [...points].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  byTimestamp.forEach((point, index) => {
+    const previous = byTimestamp[index - 1];
+    if (previous && getChartPointDate(point) < getChartPointDate(previous)) {
+      add(point, "DATE_ORDER", `recorded after ${getChartPointDate(previous)} but dated ${getChartPointDate(point)}`);
+    }
+    const timestampDay = dateOfTimestamp(point);
+    if (point.dateOnly && timestampDay && timestampDay !== point.dateOnly.split("T")[0]) {
+      add(point, "DATE_ORDER", `timestamp falls on ${timestampDay} but dateOnly is ${point.dateOnly.split("T")[0]}`);
+    }
+  });
+
+  const ruleCounts = RULE_CODES.reduce((counts, rule) => ({ ...counts, [rule]: 0 }), {} as Record<QualityRule, number>);
+
+  const results = byDay.map((point) => {
+    const issues = issuesByPoint.get(point) || [];
+    const rules = Array.from(new Set(issues.map((issue) => issue.split(":")[0] as QualityRule)));
+    rules.forEach((rule) => ruleCounts[rule]++);
+
+    const nextIssues = [...(point.dataQualityIssues || []).filter((issue) => !isValidatorIssue(issue)), ...issues];
+    // Passing the rules does not verify an entry; only flagged ones lose the flag
+    const nextVerified = !!point.dataVerified && issues.length === 0;
+    return {
+      point,
+      issues,
+      rules,
+      nextIssues,
+      nextVerified,
+      changed: !sameIssues(point.dataQualityIssues, nextIssues) || !!point.dataVerified !== nextVerified,
+    };
+  });
+
+  return {
+    scanned: points.length,
+    flagged: results.filter((result) => result.issues.length > 0).length,
+    changed: results.filter((result) => result.changed).length,
+    ruleCounts,
+    results,
+  };
+};
+
+/**
+ * Writes issues back, and clears the verified flag on flagged points, for
+ * every point whose stored values differ from the validation result, one
+ * request at a time.
+ */
+export const saveQualityIssues = async (
+  results: QualityCheckResult[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<QualitySaveResultEntry[]> => {
+  const toSave = results.filter((result) => result.changed && getChartPointId(result.point));
+  const entries: QualitySaveResultEntry[] = [];
+
+  for (const result of toSave) {
+    const entry: QualitySaveResultEntry = {
+      id: getChartPointId(result.point),
+      dateOnly: getChartPointDate(result.point),
+      status: "saved",
+    };
+    try {
+      await patchChartData(entry.id, {
+        dataQualityIssues: result.nextIssues,
+        dataVerified: result.nextVerified,
+      });
+    } catch (error) {
+      entry.status = "failed";
+      entry.error = error instanceof Error ? error.message : "Failed to save issues";
+    }
+    entries.push(entry);
+    onProgress?.(entries.length, toSave.length);
+  }
+
+  return entries;
+};
@@ -0,0 +1,218 @@
+// lib/coupon-analytics.ts
+import type { AdminSubscription } from "@/lib/api";
+import type { Coupon } from "@/lib/api-coupons";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the usage limit at which a coupon is flagged as running out
+export const USAGE_ALERT_RATIO = 0.8;
+
+// Days before validUntil at which a coupon is flagged as expiring
+export const EXPIRY_ALERT_DAYS = 7;
+
+// Longest stretch of weeks the redemption timeline covers
+const MAX_TIMELINE_WEEKS = 26;
+
+export interface CouponRedemptionWeek {
+  weekStart: string; // YYYY-MM-DD (Monday)
+  redemptions: number;
+  discount: number;
+  revenue: number;
+}
+
+export interface CouponProductBreakdown {
+  productName: string;
+  productType: string;
+  redemptions: number;
+  discount: number;
+  revenue: number;
+}
+
+export interface CouponTopUser {
+  email: string;
+  name: string;
+  redemptions: number;
+  discount: number;
+  revenue: number;
+}
+
+export interface CouponAlert {
+  kind: "usage" | "expiry";
+  level: "warning" | "critical";
+  message: string;
+}
+
+export interface CouponAnalytics {
+  redemptions: number;
+  totalDiscount: number;
+  // Amount paid on redeemed subscriptions, excluding cancelled ones
+  revenue: number;
+  averageDiscount: number | null;
+  // Backend usage count against the limit; null when there is no limit
+  usagePercent: number | null;
+  timeline: CouponRedemptionWeek[];
+  products: CouponProductBreakdown[];
+  topUsers: CouponTopUser[];
+  alerts: CouponAlert[];
+}
+
+const toTime = (value?: string): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const startOfWeek = (time: number): number => {
+  const date = new Date(time);
+  date.setUTCHours(0, 0, 0, 0);
+  // getUTCDay: 0 = Sunday; shift so weeks start on Monday
+  const offset = (date.getUTCDay() + 6) % 7;
+  return date.getTime() - offset * DAY_MS;
+};
+
+const normalizeCode = (code?: string) => (code || "").trim().toUpperCase();
+
+/**
+ * Subscriptions paid for with the coupon. Pending subscriptions never
+ * completed payment, so they do not count as redemptions.
+ */
+export const findCouponRedemptions = (coupon: Coupon, subscriptions: AdminSubscription[]): AdminSubscription[] => {
+  const code = normalizeCode(coupon.code);
+  return subscriptions.filter(
+    (subscription) => normalizeCode(subscription.couponCode) === code && subscription.paymentStatus !== "pending"
+  );
+};
+
+/**
+ * Flags a coupon that is close to or past its usage limit or end date.
+ */
+export const getCouponAlerts = (coupon: Coupon, now: number = Date.now()): CouponAlert[] => {
+  const alerts: CouponAlert[] = [];
+
+  if (coupon.usageLimit > 0) {
+    const remaining = coupon.usageLimit - coupon.usedCount;
+    if (remaining <= 0) {
+      alerts.push({ kind: "usage", level: "critical", message: `Usage limit of ${coupon.usageLimit} reached` });
+    } else if (coupon.usedCount / coupon.usageLimit >= USAGE_ALERT_RATIO) {
+      alerts.push({
+        kind: "usage",
+        level: "warning",
+        message: `Only ${remaining} of ${coupon.usageLimit} uses left`,
+      });
+    }
+  }
+
+  const validUntil = toTime(coupon.validUntil);
+  if (validUntil !== null && coupon.status !== "inactive") {
+    const daysLeft = Math.ceil((validUntil - now) / DAY_MS);
+    if (daysLeft <= 0) {
+      alerts.push({ kind: "expiry", level: "critical", message: "Past its valid-until date" });
+    } else if (daysLeft <= EXPIRY_ALERT_DAYS) {
+      alerts.push({
+        kind: "expiry",
+        level: "warning",
+        message: `Expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`,
+      });
+    }
+  }
+
+  return alerts;
+};
+
+const buildTimeline = (redemptions: AdminSubscription[], coupon: Coupon, now: number): CouponRedemptionWeek[] => {
+  const times = redemptions.map((subscription) => toTime(subscription.creationDate)).filter((time): time is number => time !== null);
+  const validFrom = toTime(coupon.validFrom);
+  const validUntil = toTime(coupon.validUntil);
+
+  const end = startOfWeek(Math.min(now, validUntil ?? now));
+  const earliest = Math.min(...times, validFrom ?? end, end);
+  const start = Math.max(startOfWeek(earliest), end - (MAX_TIMELINE_WEEKS - 1) * 7 * DAY_MS);
+
+  const weeks: CouponRedemptionWeek[] = [];
+  for (let week = start; week <= end; week += 7 * DAY_MS) {
+    weeks.push({ weekStart: new Date(week).toISOString().split("T")[0], redemptions: 0, discount: 0, revenue: 0 });
+  }
+
+  redemptions.forEach((subscription) => {
+    const time = toTime(subscription.creationDate);
+    if (time === null || time < start) return;
+    const week = weeks[Math.floor((startOfWeek(time) - start) / (7 * DAY_MS))];
+    if (!week) return;
+    week.redemptions++;
+    week.discount += Number(subscription.discount) || 0;
+    if (subscription.paymentStatus !== "cancelled") week.revenue += Number(subscription.amount) || 0;
+  });
+
+  return weeks;
+};
+
+const groupRedemptions = <T extends { redemptions: number; discount: number; revenue: number }>(
+  redemptions: AdminSubscription[],
+  getKey: (subscription: AdminSubscription) => string,
+  create: (subscription: AdminSubscription) => T
+): T[] => {
+  const groups = new Map<string, T>();
+  redemptions.forEach((subscription) => {
+    const key = getKey(subscription);
+    const group = groups.get(key) || create(subscription);
+    group.redemptions++;
+    group.discount += Number(subscription.discount) || 0;
+    if (subscription.paymentStatus !== "cancelled") group.revenue += Number(subscription.amount) || 0;
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+};
+
+/**
+ * Joins a coupon with the subscriptions that used it, by coupon code.
+ */
+export const buildCouponAnalytics = (
+  coupon: Coupon,
+  subscriptions: AdminSubscription[],
+  now: number = Date.now(),
+  topUserLimit = 10
+): CouponAnalytics => {
+  const redemptions = findCouponRedemptions(coupon, subscriptions);
+  const totalDiscount = redemptions.reduce((sum, subscription) => sum + (Number(subscription.discount) || 0), 0);
+  const revenue = redemptions
+    .filter((subscription) => subscription.paymentStatus !== "cancelled")
+    .reduce((sum, subscription) => sum + (Number(subscription.amount) || 0), 0);
+
+  const products = groupRedemptions(
+    redemptions,
+    (subscription) => `${subscription.productType}:${subscription.bundleName || subscription.productName}`,
+    (subscription) => ({
+      productName: subscription.bundleName || subscription.productName || "Unknown",
+      productType: subscription.productType,
+      redemptions: 0,
+      discount: 0,
+      revenue: 0,
+    })
+  ).sort((a, b) => b.redemptions - a.redemptions);
+
+  const topUsers = groupRedemptions(
+    redemptions,
+    (subscription) => (subscription.userEmail || subscription.userName || "unknown").toLowerCase(),
+    (subscription) => ({
+      email: subscription.userEmail || "",
+      name: subscription.userName || "Unknown",
+      redemptions: 0,
+      discount: 0,
+      revenue: 0,
+    })
+  )
+    .sort((a, b) => b.redemptions - a.redemptions || b.revenue - a.revenue)
+    .slice(0, topUserLimit);
+
+  return {
+    redemptions: redemptions.length,
+    totalDiscount,
+    revenue,
+    averageDiscount: redemptions.length > 0 ? totalDiscount / redemptions.length : null,
+    usagePercent: coupon.usageLimit > 0 ? (coupon.usedCount / coupon.usageLimit) * 100 : null,
+    timeline: buildTimeline(redemptions, coupon, now),
+    products,
+    topUsers,
+    alerts: getCouponAlerts(coupon, now),
+  };
+};
@@ -0,0 +1,351 @@
+// lib/dashboard-metrics.ts
+import { fetchAdminSubscriptions, fetchPortfolios, type AdminSubscription, type Portfolio } from "@/lib/api";
+import { fetchUsers, type User } from "@/lib/api-users";
+import { fetchAllTips, type Tip } from "@/lib/api-tips";
+import { cache, CACHE_KEYS, CACHE_VERSION } from "@/lib/cache";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Length of the comparison window used for "from last period" deltas
+export const METRICS_PERIOD_DAYS = 30;
+
+// Dashboard metrics are cheap to recompute but expensive to fetch
+export const METRICS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  change: number;
+  changePercent: number | null; // null when there is no previous period to compare against
+}
+
+export interface MetricCard {
+  total: number;
+  delta: MetricDelta;
+}
+
+export interface RevenueByPlanType {
+  planType: string;
+  revenue: number;
+  subscriptions: number;
+}
+
+export interface WeeklyCount {
+  weekStart: string; // YYYY-MM-DD (Monday)
+  count: number;
+}
+
+export interface CategoryCount {
+  category: string;
+  count: number;
+}
+
+export interface ProductSubscriptionCount {
+  productName: string;
+  productType: string;
+  activeSubscriptions: number;
+  revenue: number;
+}
+
+export interface MonthlySummary {
+  month: string; // YYYY-MM
+  newUsers: number;
+  newSubscriptions: number;
+  revenue: number;
+  newTips: number;
+}
+
+export interface RecentTipSummary {
+  id: string;
+  title: string;
+  stockId: string;
+  category: string;
+  status: string;
+  createdAt: string;
+}
+
+export interface DashboardMetrics {
+  generatedAt: string;
+  periodDays: number;
+  users: MetricCard;
+  portfolios: MetricCard;
+  activeSubscriptions: MetricCard;
+  activeTips: MetricCard;
+  revenueByPlanType: RevenueByPlanType[];
+  newUsersPerWeek: WeeklyCount[];
+  activeTipsByCategory: CategoryCount[];
+  subscriptionsByStatus: CategoryCount[];
+  topProducts: ProductSubscriptionCount[];
+  monthlySummary: MonthlySummary[];
+  recentTips: RecentTipSummary[];
+  // Sources that failed to load; their cards fall back to zero
+  errors: string[];
+}
+
+export interface DashboardSources {
+  users: User[];
+  portfolios: Portfolio[];
+  subscriptions: AdminSubscription[];
+  tips: Tip[];
+}
+
+// =================================================================
+// AGGREGATION HELPERS
+// =================================================================
+
+const toTime = (value?: string): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const toDateKey = (time: number): string => new Date(time).toISOString().split("T")[0];
+
+const startOfWeek = (time: number): number => {
+  const date = new Date(time);
+  date.setUTCHours(0, 0, 0, 0);
+  // getUTCDay: 0 = Sunday; shift so weeks start on Monday
+  const offset = (date.getUTCDay() + 6) % 7;
+  return date.getTime() - offset * DAY_MS;
+};
+
+/**
+ * Compares how many items were created in the latest period against the
+ * period immediately before it.
+ */
+export const computeDelta = <T>(
+  items: T[],
+  getDate: (item: T) => string | undefined,
+  now: number = Date.now(),
+  periodDays: number = METRICS_PERIOD_DAYS
+): MetricDelta => {
+  const periodMs = periodDays * DAY_MS;
+  let current = 0;
+  let previous = 0;
+
+  items.forEach((item) => {
+    const time = toTime(getDate(item));
+    if (time === null || time > now) return;
+    if (time > now - periodMs) current++;
+    else if (time > now - 2 * periodMs) previous++;
+  });
+
+  return {
+    current,
+    previous,
+    change: current - previous,
+    changePercent: previous > 0 ? ((current - previous) / previous) * 100 : null,
+  };
+};
+
+const isActiveSubscription = (subscription: AdminSubscription): boolean =>
+  subscription.paymentStatus === "active";
+
+const isActiveTip = (tip: Tip): boolean => tip.status === "Active";
+
+export const groupRevenueByPlanType = (subscriptions: AdminSubscription[]): RevenueByPlanType[] => {
+  const groups = new Map<string, RevenueByPlanType>();
+
+  subscriptions
+    .filter((subscription) => subscription.paymentStatus !== "cancelled")
+    .forEach((subscription) => {
+      const planType = subscription.planType || "unknown";
+      const group = groups.get(planType) || { planType, revenue: 0, subscriptions: 0 };
+      group.revenue += Number(subscription.amount) || 0;
+      group.subscriptions++;
+      groups.set(planType, group);
+    });
+
+  return Array.from(groups.values()).sort((a, b) => b.revenue - a.revenue);
+};
+
+export const countNewUsersPerWeek = (users: User[], weeks = 12, now: number = Date.now()): WeeklyCount[] => {
+  const currentWeek = startOfWeek(now);
+  const buckets: WeeklyCount[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    buckets.push({ weekStart: toDateKey(currentWeek - i * 7 * DAY_MS), count: 0 });
+  }
+
+  const firstWeek = currentWeek - (weeks - 1) * 7 * DAY_MS;
+  users.forEach((user) => {
+    const time = toTime(user.createdAt);
+    if (time === null || time < firstWeek || time > now) return;
+    const index = Math.floor((startOfWeek(time) - firstWeek) / (7 * DAY_MS));
+    if (buckets[index]) buckets[index].count++;
+  });
+
+  return buckets;
+};
+
+const countBy = <T>(items: T[], getKey: (item: T) => string | undefined): CategoryCount[] => {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const key = getKey(item) || "unknown";
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([category, count]) => ({ category, count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+export const rankProductsBySubscriptions = (
+  subscriptions: AdminSubscription[],
+  limit = 8
+): ProductSubscriptionCount[] => {
+  const products = new Map<string, ProductSubscriptionCount>();
+
+  subscriptions.filter(isActiveSubscription).forEach((subscription) => {
+    const productName = subscription.bundleName || subscription.productName || "Unknown";
+    const key = `${subscription.productType}:${productName}`;
+    const product = products.get(key) || {
+      productName,
+      productType: subscription.productType,
+      activeSubscriptions: 0,
+      revenue: 0,
+    };
+    product.activeSubscriptions++;
+    product.revenue += Number(subscription.amount) || 0;
+    products.set(key, product);
+  });
+
+  return Array.from(products.values())
+    .sort((a, b) => b.activeSubscriptions - a.activeSubscriptions)
+    .slice(0, limit);
+};
+
+export const summarizeByMonth = (sources: DashboardSources, months = 6, now: number = Date.now()): MonthlySummary[] => {
+  const summaries = new Map<string, MonthlySummary>();
+  const current = new Date(now);
+  for (let i = months - 1; i >= 0; i--) {
+    const date = new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - i, 1));
+    const month = date.toISOString().slice(0, 7);
+    summaries.set(month, { month, newUsers: 0, newSubscriptions: 0, revenue: 0, newTips: 0 });
+  }
+
+  const bucket = (value?: string): MonthlySummary | undefined => {
+    const time = toTime(value);
+    return time === null ? undefined : summaries.get(new Date(time).toISOString().slice(0, 7));
+  };
+
+  sources.users.forEach((user) => {
+    const summary = bucket(user.createdAt);
+    if (summary) summary.newUsers++;
+  });
+  sources.subscriptions.forEach((subscription) => {
+    const summary = bucket(subscription.creationDate);
+    if (!summary) return;
+    summary.newSubscriptions++;
+    if (subscription.paymentStatus !== "cancelled") {
+      summary.revenue += Number(subscription.amount) || 0;
+    }
+  });
+  sources.tips.forEach((tip) => {
+    const summary = bucket(tip.createdAt);
+    if (summary) summary.newTips++;
+  });
+
+  return Array.from(summaries.values());
+};
+
+/**
+ * Builds every dashboard metric from already-loaded API data.
+ */
+export const buildDashboardMetrics = (
+  sources: DashboardSources,
+  now: number = Date.now(),
+  errors: string[] = []
+): DashboardMetrics => {
+  const activeSubscriptions = sources.subscriptions.filter(isActiveSubscription);
+  const activeTips = sources.tips.filter(isActiveTip);
+
+  return {
+    generatedAt: new Date(now).toISOString(),
+    periodDays: METRICS_PERIOD_DAYS,
+    users: {
+      total: sources.users.length,
+      delta: computeDelta(sources.users, (user) => user.createdAt, now),
+    },
+    portfolios: {
+      total: sources.portfolios.length,
+      delta: computeDelta(sources.portfolios, (portfolio) => portfolio.createdAt, now),
+    },
+    activeSubscriptions: {
+      total: activeSubscriptions.length,
+      delta: computeDelta(activeSubscriptions, (subscription) => subscription.creationDate, now),
+    },
+    activeTips: {
+      total: activeTips.length,
+      delta: computeDelta(activeTips, (tip) => tip.createdAt, now),
+    },
+    revenueByPlanType: groupRevenueByPlanType(sources.subscriptions),
+    newUsersPerWeek: countNewUsersPerWeek(sources.users, 12, now),
+    activeTipsByCategory: countBy(activeTips, (tip) => tip.category),
+    subscriptionsByStatus: countBy(sources.subscriptions, (subscription) => subscription.paymentStatus),
+    topProducts: rankProductsBySubscriptions(sources.subscriptions),
+    monthlySummary: summarizeByMonth(sources, 6, now),
+    recentTips: [...sources.tips]
+      .sort((a, b) => (toTime(b.createdAt) || 0) - (toTime(a.createdAt) || 0))
+      .slice(0, 5)
+      .map((tip) => ({
+        id: tip.id || tip._id,
+        title: tip.title,
+        stockId: tip.stockId,
+        category: tip.category,
+        status: tip.status,
+        createdAt: tip.createdAt,
+      })),
+    errors,
+  };
+};
+
+// =================================================================
+// LOADER
+// =================================================================
+
+/**
+ * Loads dashboard metrics, serving from the local cache when it is fresh.
+ * Each source is fetched independently so one failing endpoint only blanks
+ * its own cards.
+ */
+export const fetchDashboardMetrics = async (options: { forceRefresh?: boolean } = {}): Promise<DashboardMetrics> => {
+  if (!options.forceRefresh) {
+    const cached = cache.get<DashboardMetrics>(CACHE_KEYS.DASHBOARD_METRICS, CACHE_VERSION);
+    if (cached) return cached;
+  }
+
+  const [users, portfolios, subscriptions, tips] = await Promise.allSettled([
+    fetchUsers(),
+    fetchPortfolios(),
+    fetchAdminSubscriptions(),
+    fetchAllTips(),
+  ]);
+
+  const errors: string[] = [];
+  const valueOf = <T>(result: PromiseSettledResult<T[]>, source: string): T[] => {
+    if (result.status === "fulfilled") return result.value || [];
+    errors.push(`${source}: ${result.reason instanceof Error ? result.reason.message : "Failed to load"}`);
+    return [];
+  };
+
+  const metrics = buildDashboardMetrics(
+    {
+      users: valueOf(users, "Users"),
+      portfolios: valueOf(portfolios, "Portfolios"),
+      subscriptions: valueOf(subscriptions, "Subscriptions"),
+      tips: valueOf(tips, "Tips"),
+    },
+    Date.now(),
+    errors
+  );
+
+  // Don't pin partial results in the cache
+  if (errors.length === 0) {
+    cache.set(CACHE_KEYS.DASHBOARD_METRICS, metrics, { ttl: METRICS_CACHE_TTL, version: CACHE_VERSION });
+  }
+
+  return metrics;
+};
+
+export const invalidateDashboardMetrics = (): void => {
+  cache.remove(CACHE_KEYS.DASHBOARD_METRICS);
+};
@@ -345,4 +345,36 @@ export function downloadFAQs(faqs: any[], format: 'csv' | 'json' = 'csv') {
       'updatedAt': 'Updated Date'
     }
   });
-}
\ No newline at end of file
+}
+export function downloadAuditLogs(logs: any[], format: 'csv' | 'json' = 'csv') {
+  // Flatten the actor and payloads so each fits in one CSV cell
+  const rows = logs.map(({ actor, before, after, ...entry }) => ({
+    ...entry,
+    actor: actor?.email || actor?.username || actor?.id || '',
+    actorRole: actor?.role || '',
+    before: before === undefined ? '' : JSON.stringify(before),
+    after: after === undefined ? '' : JSON.stringify(after),
+  }));
+
+  downloadData(rows, {
+    filename: `audit-log-${new Date().toISOString().split('T')[0]}`,
+    format,
+    excludeFields: ['__v'],
+    customHeaders: {
+      '_id': 'ID',
+      'timestamp': 'Timestamp',
+      'actor': 'Actor',
+      'actorRole': 'Actor Role',
+      'method': 'Method',
+      'path': 'Path',
+      'entityType': 'Entity Type',
+      'entityId': 'Entity ID',
+      'action': 'Action',
+      'outcome': 'Outcome',
+      'status': 'Status',
+      'error': 'Error',
+      'before': 'Before',
+      'after': 'After'
+    }
+  });
+}
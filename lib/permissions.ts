@@ -0,0 +1,187 @@
+// lib/permissions.ts
+// Role-based access control shared by the dashboard and the route handlers,
+// so hiding a control and rejecting the request follow the same matrix.
+
+export type AdminRole = "super-admin" | "research-analyst" | "support" | "finance";
+
+export type Permission =
+  | "portfolios:view"
+  | "portfolios:manage"
+  | "tips:view"
+  | "tips:manage"
+  | "stock-symbols:view"
+  | "stock-symbols:manage"
+  | "subscriptions:view"
+  | "subscriptions:manage"
+  | "coupons:view"
+  | "coupons:manage"
+  | "users:view"
+  | "users:manage"
+  | "users:delete"
+  | "logs:delete"
+  | "notifications:send"
+  | "bot:manage"
+  | "faqs:manage"
+  | "config:view"
+  | "config:edit"
+  | "audit:view"
+  | "sessions:manage";
+
+export const ADMIN_ROLES: { role: AdminRole; label: string; description: string }[] = [
+  { role: "super-admin", label: "Super Admin", description: "Full access, including deletions, configuration and the audit log" },
+  { role: "research-analyst", label: "Research Analyst", description: "Portfolios, bundles, tips and stock data" },
+  { role: "support", label: "Support", description: "Users, subscriptions, notifications, the bot and FAQs" },
+  { role: "finance", label: "Finance", description: "Subscriptions, payments and coupons" },
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  "super-admin": [
+    "portfolios:view",
+    "portfolios:manage",
+    "tips:view",
+    "tips:manage",
+    "stock-symbols:view",
+    "stock-symbols:manage",
+    "subscriptions:view",
+    "subscriptions:manage",
+    "coupons:view",
+    "coupons:manage",
+    "users:view",
+    "users:manage",
+    "users:delete",
+    "logs:delete",
+    "notifications:send",
+    "bot:manage",
+    "faqs:manage",
+    "config:view",
+    "config:edit",
+    "audit:view",
+    "sessions:manage",
+  ],
+  "research-analyst": [
+    "portfolios:view",
+    "portfolios:manage",
+    "tips:view",
+    "tips:manage",
+    "stock-symbols:view",
+    "stock-symbols:manage",
+  ],
+  support: [
+    "portfolios:view",
+    "tips:view",
+    "subscriptions:view",
+    "users:view",
+    "users:manage",
+    "notifications:send",
+    "bot:manage",
+    "faqs:manage",
+  ],
+  finance: [
+    "portfolios:view",
+    "subscriptions:view",
+    "subscriptions:manage",
+    "coupons:view",
+    "coupons:manage",
+    "users:view",
+  ],
+};
+
+const ROLE_ALIASES: Record<string, AdminRole> = {
+  "super-admin": "super-admin",
+  superadmin: "super-admin",
+  super_admin: "super-admin",
+  "research-analyst": "research-analyst",
+  research_analyst: "research-analyst",
+  analyst: "research-analyst",
+  support: "support",
+  finance: "finance",
+};
+
+/**
+ * Maps the role the backend sent to a known role. A missing or
+ * unrecognised role gets no permissions; accounts from before roles
+ * existed are given one at login (see ADMIN_LEGACY_SUPER_ADMINS).
+ */
+export const normalizeRole = (role?: string | null): AdminRole | null => {
+  if (!role) return null;
+  return ROLE_ALIASES[role.trim().toLowerCase()] ?? null;
+};
+
+export const getRoleLabel = (role: AdminRole | null): string =>
+  ADMIN_ROLES.find((item) => item.role === role)?.label ?? "No Access";
+
+export const hasPermission = (role: AdminRole | null, permission: Permission | null | undefined): boolean =>
+  !permission || (!!role && ROLE_PERMISSIONS[role].includes(permission));
+
+// Dashboard pages and the permission needed to open them; unlisted pages
+// are open to every admin
+const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: "/dashboard/portfolios", permission: "portfolios:view" },
+  { prefix: "/dashboard/bundles", permission: "portfolios:view" },
+  { prefix: "/dashboard/price-history", permission: "portfolios:view" },
+  { prefix: "/dashboard/tips", permission: "tips:view" },
+  { prefix: "/dashboard/stock-symbols", permission: "stock-symbols:view" },
+  { prefix: "/dashboard/subscriptions", permission: "subscriptions:view" },
+  { prefix: "/dashboard/coupons", permission: "coupons:view" },
+  { prefix: "/dashboard/users-subscriptions", permission: "users:view" },
+  { prefix: "/dashboard/users", permission: "users:view" },
+  { prefix: "/dashboard/notifications", permission: "notifications:send" },
+  { prefix: "/dashboard/bot", permission: "bot:manage" },
+  { prefix: "/dashboard/faqs", permission: "faqs:manage" },
+  { prefix: "/dashboard/config", permission: "config:view" },
+  { prefix: "/dashboard/api-config", permission: "config:view" },
+  { prefix: "/dashboard/api-status", permission: "config:view" },
+  { prefix: "/dashboard/audit-log", permission: "audit:view" },
+];
+
+export const getRoutePermission = (pathname: string): Permission | null =>
+  ROUTE_PERMISSIONS.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`))?.permission ??
+  null;
+
+// Backend endpoints by path, first match wins. `read` covers GET and
+// `write` every other method; null leaves it open to every admin. Writes
+// to paths not listed here are refused, so a new endpoint has to be given
+// a rule before the dashboard can change data through it.
+const BACKEND_PERMISSIONS: { pattern: RegExp; read: Permission | null; write: Permission | null; method?: string }[] = [
+  { pattern: /^\/admin\/files\/logs/, read: "config:view", write: "logs:delete" },
+  { pattern: /^\/admin\/users\/logs/, read: "users:view", write: "logs:delete" },
+  { pattern: /^\/admin\/users\/[^/]+$/, method: "DELETE", read: null, write: "users:delete" },
+  { pattern: /^\/admin\/users/, read: "users:view", write: "users:manage" },
+  { pattern: /^\/admin\/subscriptions/, read: "subscriptions:view", write: "subscriptions:manage" },
+  { pattern: /^\/api\/(admin\/)?subscriptions/, read: "subscriptions:view", write: "subscriptions:manage" },
+  // Entries are only written by the route handlers; the proxy refuses writes
+  { pattern: /^\/api\/admin\/audit-logs/, read: "audit:view", write: "audit:view" },
+  // Every admin manages their own sessions; other admins' need a super admin
+  { pattern: /^\/admin\/sessions\/all/, read: "sessions:manage", write: "sessions:manage" },
+  { pattern: /^\/admin\/admins\/[^/]+\/force-logout/, read: "sessions:manage", write: "sessions:manage" },
+  { pattern: /^\/admin\/sessions/, read: null, write: null },
+  // Two-factor enrollment and password changes act on the admin's own account
+  { pattern: /^\/admin\/2fa\//, read: null, write: null },
+  { pattern: /^\/admin\/change-password$/, read: null, write: null },
+  { pattern: /^\/admin\/portfolios/, read: "portfolios:view", write: "portfolios:manage" },
+  { pattern: /^\/api\/admin\/configs/, read: "config:view", write: "config:edit" },
+  { pattern: /^\/api\/admin\/coupons/, read: "coupons:view", write: "coupons:manage" },
+  { pattern: /^\/api\/(admin\/)?tips/, read: "tips:view", write: "tips:manage" },
+  { pattern: /^\/api\/(admin\/)?portfolios/, read: "portfolios:view", write: "portfolios:manage" },
+  { pattern: /^\/api\/bundles/, read: "portfolios:view", write: "portfolios:manage" },
+  { pattern: /^\/api\/chart-data/, read: "portfolios:view", write: "portfolios:manage" },
+  // Tip and portfolio forms search stocks, so reading stays open
+  { pattern: /^\/api\/stock-symbols/, read: null, write: "stock-symbols:manage" },
+  { pattern: /^\/api\/faqs/, read: null, write: "faqs:manage" },
+  { pattern: /^\/api\/admin\/telegram/, read: "bot:manage", write: "bot:manage" },
+  { pattern: /^\/api\/admin\/notify/, read: "notifications:send", write: "notifications:send" },
+];
+
+/**
+ * The permission a backend call needs, null when any admin may make it,
+ * or false when no admin may because the path has no rule.
+ */
+export const getBackendPermission = (method: string, path: string): Permission | null | false => {
+  const upper = method.toUpperCase();
+  const isRead = upper === "GET" || upper === "HEAD";
+  const rule = BACKEND_PERMISSIONS.find(
+    ({ pattern, method: ruleMethod }) => pattern.test(path) && (!ruleMethod || ruleMethod === upper)
+  );
+  if (!rule) return isRead ? null : false;
+  return isRead ? rule.read : rule.write;
+};
@@ -0,0 +1,369 @@
+// lib/portfolio-analytics.ts
+import type { ChartDataPoint } from "@/lib/api-chart-data";
+import type { CreatePortfolioRequest } from "@/lib/api";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365.25;
+
+// Indian markets trade roughly 250 sessions a year
+const DEFAULT_PERIODS_PER_YEAR = 252;
+
+// Annual risk-free rate used for Sharpe and alpha (approx. 91-day T-bill yield)
+export const DEFAULT_RISK_FREE_RATE = 0.065;
+
+export interface PerformancePoint {
+  date: string; // YYYY-MM-DD
+  time: number;
+  portfolioValue: number;
+  benchmarkValue: number | null;
+}
+
+export interface DrawdownResult {
+  value: number; // Percentage, negative or zero
+  peakDate: string | null;
+  troughDate: string | null;
+  recoveryDate: string | null; // null while still under water
+}
+
+export interface RollingReturnSummary {
+  label: string;
+  days: number;
+  portfolio: number | null; // Trailing return ending on the last data point
+  benchmark: number | null;
+  average: number | null; // Average of every rolling window in the series
+  min: number | null;
+  max: number | null;
+  windows: number;
+}
+
+export interface RollingReturnPoint {
+  date: string;
+  portfolio: number;
+  benchmark: number | null;
+}
+
+export interface PortfolioAnalytics {
+  startDate: string;
+  endDate: string;
+  dataPoints: number;
+  years: number;
+  totalReturn: number;
+  benchmarkReturn: number | null;
+  // Annualized once the series spans at least a year; absolute return before that
+  cagr: number;
+  benchmarkCagr: number | null;
+  isAnnualized: boolean;
+  volatility: number | null;
+  benchmarkVolatility: number | null;
+  sharpeRatio: number | null;
+  beta: number | null;
+  alpha: number | null;
+  maxDrawdown: DrawdownResult;
+  oneMonthReturn: number | null;
+  oneYearReturn: number | null;
+  rollingReturns: RollingReturnSummary[];
+}
+
+export interface AnalyticsOptions {
+  riskFreeRate?: number;
+  rollingWindows?: Array<{ label: string; days: number }>;
+}
+
+export const DEFAULT_ROLLING_WINDOWS = [
+  { label: "1M", days: 30 },
+  { label: "3M", days: 91 },
+  { label: "6M", days: 182 },
+  { label: "1Y", days: 365 },
+  { label: "3Y", days: 1095 },
+];
+
+// =================================================================
+// SERIES PREPARATION
+// =================================================================
+
+/**
+ * Converts raw chart data into a date-ordered series with one point per day.
+ * Points without a positive portfolio value are dropped; when a day has
+ * several entries the last one wins.
+ */
+export const toPerformanceSeries = (points: ChartDataPoint[]): PerformancePoint[] => {
+  const byDate = new Map<string, PerformancePoint>();
+
+  points.forEach((point) => {
+    const date = (point.dateOnly || point.date || "").split("T")[0];
+    const time = new Date(date).getTime();
+    if (!date || Number.isNaN(time)) return;
+    if (!(Number(point.portfolioValue) > 0)) return;
+
+    byDate.set(date, {
+      date,
+      time,
+      portfolioValue: Number(point.portfolioValue),
+      benchmarkValue: Number(point.compareIndexValue) > 0 ? Number(point.compareIndexValue) : null,
+    });
+  });
+
+  return Array.from(byDate.values()).sort((a, b) => a.time - b.time);
+};
+
+// =================================================================
+// STATISTICS HELPERS
+// =================================================================
+
+const percentChange = (from: number, to: number): number => ((to - from) / from) * 100;
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const sampleVariance = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1);
+};
+
+const sampleCovariance = (a: number[], b: number[]): number => {
+  if (a.length < 2 || a.length !== b.length) return 0;
+  const avgA = mean(a);
+  const avgB = mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - avgA) * (b[i] - avgB);
+  }
+  return sum / (a.length - 1);
+};
+
+/**
+ * Compound annual growth rate, as a percentage.
+ */
+export const calculateCAGR = (startValue: number, endValue: number, days: number): number => {
+  if (startValue <= 0 || endValue <= 0 || days <= 0) return 0;
+  return (Math.pow(endValue / startValue, DAYS_PER_YEAR / days) - 1) * 100;
+};
+
+/**
+ * Largest peak-to-trough fall in the series, with the dates that bound it.
+ */
+export const calculateMaxDrawdown = (series: PerformancePoint[]): DrawdownResult => {
+  const result: DrawdownResult = { value: 0, peakDate: null, troughDate: null, recoveryDate: null };
+  if (series.length === 0) return result;
+
+  let peak = series[0];
+  let candidatePeak = series[0];
+  for (const point of series) {
+    if (point.portfolioValue > candidatePeak.portfolioValue) {
+      candidatePeak = point;
+    }
+    const drawdown = percentChange(candidatePeak.portfolioValue, point.portfolioValue);
+    if (drawdown < result.value) {
+      result.value = drawdown;
+      peak = candidatePeak;
+      result.peakDate = candidatePeak.date;
+      result.troughDate = point.date;
+    }
+  }
+
+  if (result.troughDate) {
+    const troughIndex = series.findIndex((point) => point.date === result.troughDate);
+    const recovery = series.slice(troughIndex + 1).find((point) => point.portfolioValue >= peak.portfolioValue);
+    result.recoveryDate = recovery?.date || null;
+  }
+
+  return result;
+};
+
+/**
+ * Finds the last point on or before the given time.
+ */
+const pointAtOrBefore = (series: PerformancePoint[], time: number): PerformancePoint | null => {
+  let found: PerformancePoint | null = null;
+  for (const point of series) {
+    if (point.time > time) break;
+    found = point;
+  }
+  return found;
+};
+
+/**
+ * Return over the trailing window ending on the last point, or null when the
+ * series does not reach back far enough.
+ */
+export const calculateTrailingReturn = (
+  series: PerformancePoint[],
+  days: number,
+  field: "portfolioValue" | "benchmarkValue" = "portfolioValue"
+): number | null => {
+  if (series.length < 2) return null;
+  const end = series[series.length - 1];
+  const start = pointAtOrBefore(series, end.time - days * DAY_MS);
+  if (!start || start === end) return null;
+  const from = start[field];
+  const to = end[field];
+  if (!from || !to) return null;
+  return percentChange(from, to);
+};
+
+/**
+ * Rolling returns over a fixed calendar window, one entry per point that has
+ * a full window of history behind it.
+ */
+export const calculateRollingReturns = (series: PerformancePoint[], days: number): RollingReturnPoint[] => {
+  const windowMs = days * DAY_MS;
+  const results: RollingReturnPoint[] = [];
+  if (series.length < 2 || series[series.length - 1].time - series[0].time < windowMs) return results;
+
+  let startIndex = 0;
+  for (const end of series) {
+    const target = end.time - windowMs;
+    if (target < series[0].time) continue;
+    while (startIndex + 1 < series.length && series[startIndex + 1].time <= target) {
+      startIndex++;
+    }
+    const start = series[startIndex];
+    results.push({
+      date: end.date,
+      portfolio: percentChange(start.portfolioValue, end.portfolioValue),
+      benchmark:
+        start.benchmarkValue && end.benchmarkValue ? percentChange(start.benchmarkValue, end.benchmarkValue) : null,
+    });
+  }
+
+  return results;
+};
+
+const summarizeRolling = (
+  series: PerformancePoint[],
+  window: { label: string; days: number }
+): RollingReturnSummary => {
+  const rolling = calculateRollingReturns(series, window.days).map((point) => point.portfolio);
+  return {
+    label: window.label,
+    days: window.days,
+    portfolio: calculateTrailingReturn(series, window.days),
+    benchmark: calculateTrailingReturn(series, window.days, "benchmarkValue"),
+    average: rolling.length ? mean(rolling) : null,
+    min: rolling.length ? Math.min(...rolling) : null,
+    max: rolling.length ? Math.max(...rolling) : null,
+    windows: rolling.length,
+  };
+};
+
+// =================================================================
+// ANALYTICS
+// =================================================================
+
+/**
+ * Computes return and risk statistics for a portfolio's chart series against
+ * its compare index. Returns null when fewer than two usable points exist.
+ */
+export const computePortfolioAnalytics = (
+  points: ChartDataPoint[],
+  options: AnalyticsOptions = {}
+): PortfolioAnalytics | null => {
+  const series = toPerformanceSeries(points);
+  if (series.length < 2) return null;
+
+  const riskFreeRate = options.riskFreeRate ?? DEFAULT_RISK_FREE_RATE;
+  const windows = options.rollingWindows ?? DEFAULT_ROLLING_WINDOWS;
+
+  const first = series[0];
+  const last = series[series.length - 1];
+  const days = (last.time - first.time) / DAY_MS;
+  const years = days / DAYS_PER_YEAR;
+  const isAnnualized = years >= 1;
+
+  // Benchmark figures only use points where both values are present
+  const benchmarkSeries = series.filter((point) => point.benchmarkValue !== null);
+  const benchmarkFirst = benchmarkSeries[0];
+  const benchmarkLast = benchmarkSeries[benchmarkSeries.length - 1];
+  const hasBenchmark = benchmarkSeries.length >= 2;
+
+  const totalReturn = percentChange(first.portfolioValue, last.portfolioValue);
+  const benchmarkReturn = hasBenchmark
+    ? percentChange(benchmarkFirst.benchmarkValue!, benchmarkLast.benchmarkValue!)
+    : null;
+
+  // Period returns (as fractions) between consecutive points
+  const portfolioReturns: number[] = [];
+  const pairedPortfolio: number[] = [];
+  const pairedBenchmark: number[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const prev = series[i - 1];
+    const curr = series[i];
+    const r = curr.portfolioValue / prev.portfolioValue - 1;
+    portfolioReturns.push(r);
+    if (prev.benchmarkValue && curr.benchmarkValue) {
+      pairedPortfolio.push(r);
+      pairedBenchmark.push(curr.benchmarkValue / prev.benchmarkValue - 1);
+    }
+  }
+
+  // Infer sampling frequency so weekly or sparse series annualize correctly
+  const periodsPerYear = years > 0 ? Math.min(portfolioReturns.length / years, DEFAULT_PERIODS_PER_YEAR) : DEFAULT_PERIODS_PER_YEAR;
+
+  const hasVolatility = portfolioReturns.length >= 2;
+  const volatility = hasVolatility ? Math.sqrt(sampleVariance(portfolioReturns) * periodsPerYear) * 100 : null;
+  const benchmarkVolatility =
+    pairedBenchmark.length >= 2 ? Math.sqrt(sampleVariance(pairedBenchmark) * periodsPerYear) * 100 : null;
+
+  const annualMeanReturn = mean(portfolioReturns) * periodsPerYear;
+  const sharpeRatio =
+    volatility && volatility > 0 ? (annualMeanReturn - riskFreeRate) / (volatility / 100) : null;
+
+  let beta: number | null = null;
+  let alpha: number | null = null;
+  if (pairedBenchmark.length >= 2) {
+    const benchmarkVariance = sampleVariance(pairedBenchmark);
+    if (benchmarkVariance > 0) {
+      beta = sampleCovariance(pairedPortfolio, pairedBenchmark) / benchmarkVariance;
+      // Jensen's alpha on annualized mean returns
+      const portfolioAnnual = mean(pairedPortfolio) * periodsPerYear;
+      const benchmarkAnnual = mean(pairedBenchmark) * periodsPerYear;
+      alpha = (portfolioAnnual - riskFreeRate - beta * (benchmarkAnnual - riskFreeRate)) * 100;
+    }
+  }
+
+  const benchmarkDays = hasBenchmark ? (benchmarkLast.time - benchmarkFirst.time) / DAY_MS : 0;
+
+  return {
+    startDate: first.date,
+    endDate: last.date,
+    dataPoints: series.length,
+    years,
+    totalReturn,
+    benchmarkReturn,
+    cagr: isAnnualized ? calculateCAGR(first.portfolioValue, last.portfolioValue, days) : totalReturn,
+    benchmarkCagr: hasBenchmark
+      ? isAnnualized
+        ? calculateCAGR(benchmarkFirst.benchmarkValue!, benchmarkLast.benchmarkValue!, benchmarkDays)
+        : benchmarkReturn
+      : null,
+    isAnnualized,
+    volatility,
+    benchmarkVolatility,
+    sharpeRatio,
+    beta,
+    alpha,
+    maxDrawdown: calculateMaxDrawdown(series),
+    oneMonthReturn: calculateTrailingReturn(series, 30),
+    oneYearReturn: calculateTrailingReturn(series, 365),
+    rollingReturns: windows.map((window) => summarizeRolling(series, window)),
+  };
+};
+
+/**
+ * Maps analytics onto the free-text gain fields editors maintain on a
+ * portfolio. Values are stored as plain numbers ("12.34"), the UI adds "%".
+ * CAGR is left out until the series spans a year, since the return over a
+ * shorter window is not annualized.
+ */
+export const toPortfolioGainFields = (
+  analytics: PortfolioAnalytics
+): Pick<CreatePortfolioRequest, "CAGRSinceInception" | "oneYearGains" | "monthlyGains"> => {
+  const format = (value: number | null) => (value === null ? undefined : value.toFixed(2));
+  const fields: Pick<CreatePortfolioRequest, "CAGRSinceInception" | "oneYearGains" | "monthlyGains"> = {};
+  if (analytics.isAnnualized) fields.CAGRSinceInception = format(analytics.cagr);
+  const oneYear = format(analytics.oneYearReturn);
+  const monthly = format(analytics.oneMonthReturn);
+  if (oneYear !== undefined) fields.oneYearGains = oneYear;
+  if (monthly !== undefined) fields.monthlyGains = monthly;
+  return fields;
+};
@@ -0,0 +1,283 @@
+// lib/portfolio-ledger.ts
+import type { PortfolioHolding } from "@/lib/api";
+import type {
+  CreatePortfolioTransactionRequest,
+  PortfolioTransaction,
+  PortfolioTransactionType,
+} from "@/lib/api-portfolio-ledger";
+import { applyAddonBuy, applyPartialSell, getActiveHoldings } from "@/lib/portfolio-math";
+import type { RebalancePlan } from "@/lib/portfolio-rebalance";
+
+export interface LedgerReplay {
+  holdings: PortfolioHolding[];
+  sold: PortfolioHolding[];
+  cashBalance: number;
+  realizedPnL: number;
+  // Entries that could not be applied exactly as recorded
+  warnings: string[];
+}
+
+export interface LedgerDiscrepancy {
+  field: "cashBalance" | "quantity" | "buyPrice" | "missing" | "unexpected";
+  symbol?: string;
+  ledger: number | string;
+  stored: number | string;
+}
+
+// Holdings as stored on any portfolio shape the admin screens use
+type LedgerHolding = Pick<PortfolioHolding, "symbol" | "status" | "quantity" | "buyPrice" | "sector"> & {
+  stockCapType?: string;
+};
+
+export interface LedgerPortfolio {
+  holdings?: LedgerHolding[];
+  cashBalance?: number;
+}
+
+// Quantities and cash are compared to the paisa
+const TOLERANCE = 0.01;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const transactionTime = (transaction: PortfolioTransaction) => new Date(transaction.date).getTime() || 0;
+
+export const sortTransactions = (transactions: PortfolioTransaction[]): PortfolioTransaction[] =>
+  [...transactions].sort(
+    (a, b) =>
+      transactionTime(a) - transactionTime(b) ||
+      (a.createdAt || "").localeCompare(b.createdAt || "")
+  );
+
+const openPosition = (transaction: PortfolioTransaction): PortfolioHolding => ({
+  symbol: transaction.symbol as string,
+  sector: transaction.sector || "",
+  stockCapType: transaction.stockCapType,
+  weight: 0,
+  status: "Fresh-Buy",
+  quantity: 0,
+  buyPrice: transaction.price || 0,
+  originalBuyPrice: transaction.price || 0,
+  totalQuantityOwned: 0,
+  realizedPnL: 0,
+  minimumInvestmentValueStock: 0,
+});
+
+/**
+ * Rebuilds holdings, cash and realised P&L by replaying the ledger in date
+ * order. Weights are each position's cost as a share of cost plus cash.
+ */
+export const replayLedger = (transactions: PortfolioTransaction[]): LedgerReplay => {
+  const positions = new Map<string, PortfolioHolding>();
+  const sold: PortfolioHolding[] = [];
+  const warnings: string[] = [];
+  let cashBalance = 0;
+
+  sortTransactions(transactions).forEach((transaction) => {
+    const day = transaction.date.split("T")[0];
+    if (transaction.type === "cash-adjustment") {
+      cashBalance += transaction.amount || 0;
+      return;
+    }
+
+    const symbol = transaction.symbol;
+    const quantity = Math.floor(transaction.quantity || 0);
+    const price = transaction.price || 0;
+    if (!symbol || (transaction.type !== "exit" && quantity <= 0) || price <= 0) {
+      warnings.push(`${day} ${transaction.type}: missing symbol, quantity or price`);
+      return;
+    }
+
+    const position = positions.get(symbol);
+    switch (transaction.type) {
+      case "buy":
+      case "addon-buy": {
+        if (transaction.type === "addon-buy" && !position) warnings.push(`${day} ${symbol}: add-on without an open position`);
+        if (transaction.type === "buy" && position) warnings.push(`${day} ${symbol}: buy on an already open position`);
+        const next = applyAddonBuy(position || openPosition(transaction), quantity, price);
+        positions.set(symbol, {
+          ...next,
+          sector: next.sector || transaction.sector || "",
+          stockCapType: next.stockCapType || transaction.stockCapType,
+        });
+        cashBalance -= quantity * price;
+        break;
+      }
+      case "partial-sell":
+      case "exit": {
+        if (!position) {
+          warnings.push(`${day} ${symbol}: sell without an open position`);
+          return;
+        }
+        const sellQuantity = transaction.type === "exit" ? position.quantity : quantity;
+        if (sellQuantity > position.quantity) warnings.push(`${day} ${symbol}: sold ${sellQuantity} but held ${position.quantity}`);
+        const sellable = Math.min(sellQuantity, position.quantity);
+        const next = applyPartialSell(position, sellable, price, transaction.date);
+        cashBalance += sellable * price;
+        if (next.quantity === 0) {
+          positions.delete(symbol);
+          sold.push(next);
+        } else {
+          positions.set(symbol, next);
+        }
+        break;
+      }
+    }
+  });
+
+  const holdings = Array.from(positions.values()).map((holding) => ({
+    ...holding,
+    minimumInvestmentValueStock: round2(holding.quantity * holding.buyPrice),
+  }));
+  const investedCost = holdings.reduce((sum, holding) => sum + holding.minimumInvestmentValueStock, 0);
+  const base = investedCost + cashBalance;
+
+  return {
+    holdings: holdings.map((holding) => ({
+      ...holding,
+      weight: base > 0 ? round2((holding.minimumInvestmentValueStock / base) * 100) : 0,
+    })),
+    sold,
+    cashBalance: round2(cashBalance),
+    realizedPnL: round2([...holdings, ...sold].reduce((sum, holding) => sum + (holding.realizedPnL || 0), 0)),
+    warnings,
+  };
+};
+
+/**
+ * Differences between the replayed ledger and the holdings and cash stored
+ * on the portfolio.
+ */
+export const compareLedgerWithPortfolio = (replay: LedgerReplay, portfolio: LedgerPortfolio): LedgerDiscrepancy[] => {
+  const discrepancies: LedgerDiscrepancy[] = [];
+  const stored = new Map(getActiveHoldings(portfolio.holdings).map((holding) => [holding.symbol, holding]));
+
+  if (Math.abs(replay.cashBalance - (portfolio.cashBalance || 0)) > TOLERANCE) {
+    discrepancies.push({ field: "cashBalance", ledger: replay.cashBalance, stored: portfolio.cashBalance || 0 });
+  }
+
+  replay.holdings.forEach((holding) => {
+    const match = stored.get(holding.symbol);
+    if (!match) {
+      discrepancies.push({ field: "unexpected", symbol: holding.symbol, ledger: holding.quantity, stored: "—" });
+      return;
+    }
+    if (match.quantity !== holding.quantity) {
+      discrepancies.push({ field: "quantity", symbol: holding.symbol, ledger: holding.quantity, stored: match.quantity });
+    }
+    if (Math.abs(match.buyPrice - holding.buyPrice) > TOLERANCE) {
+      discrepancies.push({ field: "buyPrice", symbol: holding.symbol, ledger: holding.buyPrice, stored: match.buyPrice });
+    }
+    stored.delete(holding.symbol);
+  });
+
+  stored.forEach((holding) => {
+    discrepancies.push({ field: "missing", symbol: holding.symbol, ledger: "—", stored: holding.quantity });
+  });
+
+  return discrepancies;
+};
+
+/**
+ * Trade day of the latest entry that changed a position, or null when the
+ * ledger has none. Cash adjustments do not change holdings.
+ */
+export const getLastHoldingsChangeDate = (transactions: PortfolioTransaction[]): string | null => {
+  const trades = sortTransactions(transactions).filter((transaction) => transaction.type !== "cash-adjustment");
+  const last = trades[trades.length - 1];
+  return last?.date ? last.date.split("T")[0] : null;
+};
+
+/**
+ * Opening entries for a portfolio that predates the ledger: one deposit
+ * covering cash plus holdings cost, then a buy per active holding.
+ */
+export const buildOpeningTransactions = (portfolio: LedgerPortfolio, date: string): CreatePortfolioTransactionRequest[] => {
+  const holdings = getActiveHoldings(portfolio.holdings).filter((holding) => holding.quantity > 0);
+  const invested = holdings.reduce((sum, holding) => sum + holding.quantity * holding.buyPrice, 0);
+  return [
+    {
+      type: "cash-adjustment",
+      date,
+      amount: round2(invested + (portfolio.cashBalance || 0)),
+      note: "Opening balance from existing holdings",
+    },
+    ...holdings.map((holding) => ({
+      type: "buy" as const,
+      date,
+      symbol: holding.symbol,
+      quantity: holding.quantity,
+      price: holding.buyPrice,
+      sector: holding.sector,
+      stockCapType: holding.stockCapType as PortfolioHolding["stockCapType"],
+      note: "Opening position",
+    })),
+  ];
+};
+
+/**
+ * The ledger entry for one trade on a holding, or none when no shares
+ * changed hands.
+ */
+export const buildTradeTransactions = (
+  type: Exclude<PortfolioTransactionType, "cash-adjustment">,
+  holding: LedgerHolding,
+  quantity: number,
+  price: number,
+  date: string,
+  note?: string
+): CreatePortfolioTransactionRequest[] =>
+  Math.floor(quantity) > 0 && price > 0
+    ? [
+        {
+          type,
+          date,
+          symbol: holding.symbol,
+          quantity: Math.floor(quantity),
+          price,
+          sector: holding.sector,
+          stockCapType: holding.stockCapType as PortfolioHolding["stockCapType"],
+          note,
+        },
+      ]
+    : [];
+
+/**
+ * Entries for a holding deleted without a sale: an exit at its buy price
+ * and a cash adjustment taking that amount back out, so neither cash nor
+ * realised P&L moves.
+ */
+export const buildRemovalTransactions = (holding: LedgerHolding, date: string): CreatePortfolioTransactionRequest[] => {
+  const exit = buildTradeTransactions("exit", holding, holding.quantity, holding.buyPrice, date, "Holding removed");
+  if (exit.length === 0) return [];
+  return [
+    ...exit,
+    {
+      type: "cash-adjustment",
+      date,
+      amount: -round2(Math.floor(holding.quantity) * holding.buyPrice),
+      note: "Holding removed without a sale",
+    },
+  ];
+};
+
+/**
+ * Ledger entries for the trades in a rebalance plan.
+ */
+export const buildRebalanceTransactions = (plan: RebalancePlan, date: string): CreatePortfolioTransactionRequest[] =>
+  plan.lines
+    .filter((line) => line.action !== "hold")
+    .map((line) => ({
+      type:
+        line.action === "buy"
+          ? line.currentQuantity > 0
+            ? "addon-buy"
+            : "buy"
+          : line.action === "exit"
+          ? "exit"
+          : "partial-sell",
+      date,
+      symbol: line.symbol,
+      quantity: Math.abs(line.quantityChange),
+      price: line.price,
+      note: "Rebalance",
+    }));
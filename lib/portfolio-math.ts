@@ -0,0 +1,264 @@
+// lib/portfolio-math.ts
+import type { PortfolioHolding } from "@/lib/api";
+
+// Holdings moved out of the active list are renamed with this prefix
+export const SOLD_SYMBOL_PREFIX = "Sold-Date-";
+
+// Buy one extra share when the gap to it is within this share of the price
+export const EXTRA_SHARE_TOLERANCE = 0.1;
+
+// Buffer added on top of the invested amount when raising minInvestment
+export const MIN_INVESTMENT_BUFFER = 0.1;
+
+export interface PnLCalculation {
+  quantitySold: number;
+  saleValue: number;
+  originalCost: number;
+  profitLoss: number;
+  profitLossPercent: number;
+  remainingQuantity: number;
+  remainingValue: number;
+}
+
+export interface InvestmentDetails {
+  allocatedAmount: number;
+  quantity: number;
+  actualInvestmentAmount: number;
+  leftoverAmount: number;
+}
+
+export interface HoldingTotals {
+  totalWeightUsed: number;
+  totalActualInvestment: number;
+  totalLeftover: number;
+  totalAllocated: number;
+}
+
+export interface WeightageBase {
+  baseAmount: number;
+  isFirstTimeCreation: boolean;
+  context: string;
+  description: string;
+}
+
+type AllocatedHolding = Pick<PortfolioHolding, "status" | "weight" | "minimumInvestmentValueStock"> & {
+  allocatedAmount?: number;
+  leftoverAmount?: number;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// =================================================================
+// SOLD HOLDINGS
+// =================================================================
+
+/**
+ * Sold positions are either renamed with the "Sold-Date-" prefix, marked
+ * "Sold", or carry the sale timestamp in their status.
+ */
+export const isSoldHolding = (holding: Pick<PortfolioHolding, "symbol" | "status">): boolean =>
+  holding.symbol.startsWith(SOLD_SYMBOL_PREFIX) ||
+  holding.status === "Sold" ||
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(holding.status || "");
+
+export const getActiveHoldings = <T extends Pick<PortfolioHolding, "symbol" | "status">>(holdings: T[] = []): T[] =>
+  holdings.filter((holding) => !isSoldHolding(holding));
+
+// =================================================================
+// ALLOCATION
+// =================================================================
+
+/**
+ * Whole-share allocation of a weight of the investment base at a price.
+ */
+export const calculateInvestmentDetails = (weightPercent: number, buyPrice: number, totalInvestment: number): InvestmentDetails => {
+  const allocatedAmount = (weightPercent / 100) * totalInvestment;
+  if (!(buyPrice > 0)) {
+    return { allocatedAmount, quantity: 0, actualInvestmentAmount: 0, leftoverAmount: allocatedAmount };
+  }
+
+  let quantity = Math.floor(allocatedAmount / buyPrice);
+  let leftoverAmount = allocatedAmount - quantity * buyPrice;
+
+  if (leftoverAmount >= 0 && buyPrice - leftoverAmount <= buyPrice * EXTRA_SHARE_TOLERANCE) {
+    quantity += 1;
+    leftoverAmount = allocatedAmount - quantity * buyPrice;
+  }
+
+  return {
+    allocatedAmount,
+    quantity,
+    actualInvestmentAmount: quantity * buyPrice,
+    leftoverAmount,
+  };
+};
+
+/**
+ * Sums weight and allocation across holdings, ignoring ones being sold.
+ */
+export const calculateHoldingTotals = (holdings: AllocatedHolding[]): HoldingTotals =>
+  holdings
+    .filter((holding) => holding.status !== "Sell")
+    .reduce(
+      (totals, holding) => ({
+        totalWeightUsed: totals.totalWeightUsed + (holding.weight || 0),
+        totalActualInvestment: totals.totalActualInvestment + (holding.minimumInvestmentValueStock || 0),
+        totalLeftover: totals.totalLeftover + (holding.leftoverAmount || 0),
+        totalAllocated: totals.totalAllocated + (holding.allocatedAmount || 0),
+      }),
+      { totalWeightUsed: 0, totalActualInvestment: 0, totalLeftover: 0, totalAllocated: 0 }
+    );
+
+/**
+ * Minimum investment that covers every holding with a 10% buffer, or the
+ * current minimum when nothing is invested yet.
+ */
+export const calculateAdjustedMinInvestment = (totalActualInvestment: number, minInvestment: number): number =>
+  totalActualInvestment > 0 ? Math.ceil(totalActualInvestment * (1 + MIN_INVESTMENT_BUFFER)) : minInvestment;
+
+/**
+ * Base amount weights are applied to: the minimum investment for new or
+ * empty portfolios, otherwise the current cash plus holdings value.
+ */
+export const getWeightageCalculationBase = ({
+  minInvestment,
+  existing,
+  holdingsCount,
+}: {
+  minInvestment: number;
+  existing?: { cashBalance?: number; holdingsValue?: number };
+  holdingsCount: number;
+}): WeightageBase => {
+  const hasValidFinancialData =
+    !!existing && typeof existing.cashBalance === "number" && typeof existing.holdingsValue === "number";
+
+  if (!existing || !hasValidFinancialData || holdingsCount === 0) {
+    return {
+      baseAmount: minInvestment,
+      isFirstTimeCreation: true,
+      context: "Using minimum investment as base",
+      description: `Using minimum investment (₹${minInvestment.toLocaleString()}) as weightage base`,
+    };
+  }
+
+  const safeCashBalance = isNaN(existing.cashBalance || 0) ? 0 : existing.cashBalance || 0;
+  const safeHoldingsValue = isNaN(existing.holdingsValue || 0) ? 0 : existing.holdingsValue || 0;
+  const currentPortfolioValue = safeCashBalance + safeHoldingsValue;
+  return {
+    baseAmount: currentPortfolioValue,
+    isFirstTimeCreation: false,
+    context: "Using current portfolio value as base",
+    description: `Using current portfolio value (₹${currentPortfolioValue.toLocaleString()}) as weightage base`,
+  };
+};
+
+// =================================================================
+// TRADES
+// =================================================================
+
+/**
+ * Realised outcome of selling a proportion (0 to 1) of a position in whole
+ * shares. Cost is measured against the average buy price.
+ */
+export const calculatePnL = (
+  quantity: number,
+  averageBuyPrice: number,
+  marketPrice: number,
+  proportionToSell: number
+): PnLCalculation => {
+  const heldQuantity = Math.floor(quantity);
+  const quantitySold = proportionToSell >= 1 ? heldQuantity : proportionToSell > 0 ? Math.floor(heldQuantity * proportionToSell) : 0;
+  const saleValue = quantitySold * marketPrice;
+  const originalCost = quantitySold * averageBuyPrice;
+  const profitLoss = saleValue - originalCost;
+  const remainingQuantity = heldQuantity - quantitySold;
+
+  return {
+    quantitySold,
+    saleValue,
+    originalCost,
+    profitLoss,
+    profitLossPercent: originalCost > 0 ? (profitLoss / originalCost) * 100 : 0,
+    remainingQuantity,
+    remainingValue: remainingQuantity * marketPrice,
+  };
+};
+
+export const weightedAverageBuyPrice = (
+  currentQuantity: number,
+  currentBuyPrice: number,
+  addedQuantity: number,
+  addedPrice: number
+): number => {
+  const totalQuantity = currentQuantity + addedQuantity;
+  if (totalQuantity <= 0) return addedPrice;
+  return round2((currentQuantity * currentBuyPrice + addedQuantity * addedPrice) / totalQuantity);
+};
+
+/**
+ * Whole shares to buy so the position reaches a new weight of the
+ * portfolio value.
+ */
+export const calculateAddonQuantity = (
+  newWeight: number,
+  portfolioValue: number,
+  currentInvestment: number,
+  price: number
+): number => {
+  if (!(price > 0)) return 0;
+  return Math.max(0, Math.floor(((newWeight / 100) * portfolioValue - currentInvestment) / price));
+};
+
+/**
+ * Adds shares bought at `price`, averaging buyPrice. The first buy price is
+ * kept as originalBuyPrice and totalQuantityOwned counts every share bought.
+ */
+export const applyAddonBuy = <T extends PortfolioHolding>(holding: T, quantity: number, price: number): T => {
+  if (quantity <= 0) return holding;
+  const newQuantity = holding.quantity + quantity;
+  return {
+    ...holding,
+    quantity: newQuantity,
+    buyPrice: weightedAverageBuyPrice(holding.quantity, holding.buyPrice, quantity, price),
+    originalBuyPrice: holding.originalBuyPrice || holding.buyPrice || price,
+    totalQuantityOwned: (holding.totalQuantityOwned || holding.quantity) + quantity,
+    minimumInvestmentValueStock: round2(newQuantity * price),
+    status: holding.quantity > 0 ? "addon-buy" : "Fresh-Buy",
+  };
+};
+
+/**
+ * Sells whole shares at `price`, adding the gain over the average buy price
+ * to realizedPnL. Selling the whole position marks it sold at `soldAt`.
+ */
+export const applyPartialSell = <T extends PortfolioHolding>(
+  holding: T,
+  quantity: number,
+  price: number,
+  soldAt: string = new Date().toISOString()
+): T => {
+  const quantitySold = Math.min(Math.floor(quantity), holding.quantity);
+  if (quantitySold <= 0) return holding;
+  const remainingQuantity = holding.quantity - quantitySold;
+  const realizedPnL = round2((holding.realizedPnL || 0) + quantitySold * (price - holding.buyPrice));
+
+  if (remainingQuantity === 0) {
+    return {
+      ...holding,
+      quantity: 0,
+      weight: 0,
+      minimumInvestmentValueStock: 0,
+      realizedPnL,
+      status: soldAt,
+      soldDate: soldAt,
+    };
+  }
+
+  return {
+    ...holding,
+    quantity: remainingQuantity,
+    minimumInvestmentValueStock: round2(remainingQuantity * price),
+    realizedPnL,
+    status: "partial-sell",
+  };
+};
@@ -0,0 +1,173 @@
+// lib/portfolio-rebalance.ts
+import type { Portfolio, PortfolioHolding } from "@/lib/api";
+import type { StockSymbol } from "@/lib/api-stock-symbols";
+import {
+  applyAddonBuy,
+  applyPartialSell,
+  calculateInvestmentDetails,
+  getActiveHoldings,
+  isSoldHolding,
+} from "@/lib/portfolio-math";
+
+export type RebalanceAction = "buy" | "sell" | "exit" | "hold";
+
+export interface RebalanceLine {
+  symbol: string;
+  price: number;
+  // True when no current market price was available and buyPrice was used
+  priceIsFallback: boolean;
+  currentQuantity: number;
+  currentValue: number;
+  currentWeight: number;
+  targetWeight: number;
+  targetQuantity: number;
+  targetValue: number;
+  resultingWeight: number;
+  quantityChange: number;
+  tradeValue: number;
+  action: RebalanceAction;
+  realizedPnL: number;
+}
+
+export interface RebalancePlan {
+  portfolioValue: number;
+  cashBefore: number;
+  cashAfter: number;
+  totalTargetWeight: number;
+  totalBuyValue: number;
+  totalSellValue: number;
+  realizedPnL: number;
+  lines: RebalanceLine[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const getRebalanceableHoldings = (portfolio: Portfolio): PortfolioHolding[] => getActiveHoldings(portfolio.holdings);
+
+/**
+ * Current price for each holding, falling back to its buy price when the
+ * stock has no usable market price.
+ */
+export const resolveHoldingPrices = (
+  holdings: PortfolioHolding[],
+  stocks: Record<string, StockSymbol>
+): Record<string, { price: number; isFallback: boolean }> =>
+  Object.fromEntries(
+    holdings.map((holding) => {
+      const market = parseFloat(stocks[holding.symbol]?.currentPrice || "");
+      return [
+        holding.symbol,
+        market > 0 ? { price: market, isFallback: false } : { price: holding.buyPrice, isFallback: true },
+      ];
+    })
+  );
+
+/**
+ * Plans the trades that move current holdings to the target weights at
+ * current prices. Target weights are percentages of total portfolio value
+ * (holdings plus cash); whatever is not allocated stays in cash. Extra
+ * tolerance shares are dropped again if they would overdraw cash.
+ */
+export const planRebalance = (
+  holdings: PortfolioHolding[],
+  prices: Record<string, { price: number; isFallback: boolean }>,
+  cashBalance: number,
+  targetWeights: Record<string, number>
+): RebalancePlan => {
+  const cashBefore = cashBalance || 0;
+  const holdingsValue = holdings.reduce((sum, holding) => sum + holding.quantity * (prices[holding.symbol]?.price || 0), 0);
+  const portfolioValue = holdingsValue + cashBefore;
+
+  const draft = holdings.map((holding) => {
+    const { price, isFallback } = prices[holding.symbol] || { price: holding.buyPrice, isFallback: true };
+    const targetWeight = Math.max(0, targetWeights[holding.symbol] ?? holding.weight);
+    const targetValue = (targetWeight / 100) * portfolioValue;
+    const { quantity: targetQuantity } = calculateInvestmentDetails(targetWeight, price, portfolioValue);
+    return { holding, price, isFallback, targetWeight, targetValue, targetQuantity };
+  });
+
+  const cashAfterDraft = () =>
+    cashBefore - draft.reduce((sum, line) => sum + (line.targetQuantity - line.holding.quantity) * line.price, 0);
+
+  // Trim buys that overshoot their target the most until cash is non-negative
+  let cashAfter = cashAfterDraft();
+  while (cashAfter < 0) {
+    const candidates = draft.filter((line) => line.targetQuantity > line.holding.quantity);
+    if (candidates.length === 0) break;
+    const worst = candidates.reduce((a, b) =>
+      a.targetQuantity * a.price - a.targetValue >= b.targetQuantity * b.price - b.targetValue ? a : b
+    );
+    worst.targetQuantity -= 1;
+    cashAfter = cashAfterDraft();
+  }
+
+  const lines: RebalanceLine[] = draft.map(({ holding, price, isFallback, targetWeight, targetValue, targetQuantity }) => {
+    const quantityChange = targetQuantity - holding.quantity;
+    const currentValue = holding.quantity * price;
+    const soldQuantity = Math.max(0, -quantityChange);
+    return {
+      symbol: holding.symbol,
+      price,
+      priceIsFallback: isFallback,
+      currentQuantity: holding.quantity,
+      currentValue: round2(currentValue),
+      currentWeight: portfolioValue ? round2((currentValue / portfolioValue) * 100) : 0,
+      targetWeight,
+      targetQuantity,
+      targetValue: round2(targetValue),
+      resultingWeight: portfolioValue ? round2(((targetQuantity * price) / portfolioValue) * 100) : 0,
+      quantityChange,
+      tradeValue: round2(Math.abs(quantityChange) * price),
+      action: quantityChange > 0 ? "buy" : targetQuantity === 0 && holding.quantity > 0 ? "exit" : quantityChange < 0 ? "sell" : "hold",
+      realizedPnL: round2(soldQuantity * (price - holding.buyPrice)),
+    };
+  });
+
+  return {
+    portfolioValue: round2(portfolioValue),
+    cashBefore: round2(cashBefore),
+    cashAfter: round2(cashAfter),
+    totalTargetWeight: round2(lines.reduce((sum, line) => sum + line.targetWeight, 0)),
+    totalBuyValue: round2(lines.filter((line) => line.action === "buy").reduce((sum, line) => sum + line.tradeValue, 0)),
+    totalSellValue: round2(lines.filter((line) => line.action === "sell" || line.action === "exit").reduce((sum, line) => sum + line.tradeValue, 0)),
+    realizedPnL: round2(lines.reduce((sum, line) => sum + line.realizedPnL, 0)),
+    lines,
+  };
+};
+
+/**
+ * Builds the full holdings list for a `replace` update. Buys average into
+ * buyPrice, sells accumulate realizedPnL, exits are kept as sold entries,
+ * and previously sold holdings pass through untouched.
+ */
+export const applyRebalancePlan = (
+  portfolio: Portfolio,
+  plan: RebalancePlan,
+  executedAt: string = new Date().toISOString()
+): PortfolioHolding[] => {
+  const linesBySymbol = new Map(plan.lines.map((line) => [line.symbol, line]));
+
+  return (portfolio.holdings || []).map((holding) => {
+    const line = linesBySymbol.get(holding.symbol);
+    if (!line || isSoldHolding(holding)) return holding;
+
+    // Allocation fields reflect the planned position at current prices
+    const allocation = {
+      weight: line.resultingWeight,
+      minimumInvestmentValueStock: round2(line.targetQuantity * line.price),
+      allocatedAmount: line.targetValue,
+      actualInvestmentAmount: round2(line.targetQuantity * line.price),
+      leftoverAmount: round2(line.targetValue - line.targetQuantity * line.price),
+    };
+
+    switch (line.action) {
+      case "buy":
+        return { ...applyAddonBuy(holding, line.quantityChange, line.price), ...allocation };
+      case "sell":
+      case "exit":
+        return { ...applyPartialSell(holding, -line.quantityChange, line.price, executedAt), ...allocation };
+      default:
+        return { ...holding, ...allocation };
+    }
+  });
+};
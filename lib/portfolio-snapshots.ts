@@ -0,0 +1,95 @@
+// lib/portfolio-snapshots.ts
+import type { PortfolioHolding } from "@/lib/api";
+import type { PortfolioSnapshot } from "@/lib/api-portfolio-snapshots";
+import { getActiveHoldings } from "@/lib/portfolio-math";
+
+export type SnapshotChangeKind = "added" | "removed" | "changed" | "unchanged";
+
+export interface SnapshotHoldingChange {
+  symbol: string;
+  kind: SnapshotChangeKind;
+  weightBefore: number;
+  weightAfter: number;
+  weightChange: number;
+  quantityBefore: number;
+  quantityAfter: number;
+}
+
+export interface SnapshotDiff {
+  added: SnapshotHoldingChange[];
+  removed: SnapshotHoldingChange[];
+  changed: SnapshotHoldingChange[];
+  unchanged: SnapshotHoldingChange[];
+  cashChange: number;
+  holdingsValueChange: number;
+}
+
+// Weight moves smaller than this are treated as unchanged
+const WEIGHT_TOLERANCE = 0.01;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const snapshotTime = (snapshot: PortfolioSnapshot) => new Date(snapshot.capturedAt).getTime() || 0;
+
+/**
+ * Snapshots ordered from oldest to newest.
+ */
+export const sortSnapshots = (snapshots: PortfolioSnapshot[]): PortfolioSnapshot[] =>
+  [...snapshots].sort((a, b) => snapshotTime(a) - snapshotTime(b));
+
+/**
+ * The latest snapshot captured on or before the end of `date`
+ * (YYYY-MM-DD, local time), or null when the portfolio had none yet.
+ */
+export const findSnapshotAsOf = (snapshots: PortfolioSnapshot[], date: string): PortfolioSnapshot | null => {
+  const cutoff = new Date(`${date}T23:59:59.999`).getTime();
+  if (isNaN(cutoff)) return null;
+  const eligible = sortSnapshots(snapshots).filter((snapshot) => snapshotTime(snapshot) <= cutoff);
+  return eligible.length ? eligible[eligible.length - 1] : null;
+};
+
+/**
+ * Compares the active holdings of two snapshots by symbol.
+ */
+export const diffSnapshots = (before: PortfolioSnapshot, after: PortfolioSnapshot): SnapshotDiff => {
+  const previous = new Map<string, PortfolioHolding>(getActiveHoldings(before.holdings).map((holding) => [holding.symbol, holding]));
+  const current = new Map<string, PortfolioHolding>(getActiveHoldings(after.holdings).map((holding) => [holding.symbol, holding]));
+  const symbols = Array.from(new Set([...previous.keys(), ...current.keys()])).sort();
+
+  const diff: SnapshotDiff = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: [],
+    cashChange: round2((after.cashBalance || 0) - (before.cashBalance || 0)),
+    holdingsValueChange: round2((after.holdingsValue || 0) - (before.holdingsValue || 0)),
+  };
+
+  symbols.forEach((symbol) => {
+    const from = previous.get(symbol);
+    const to = current.get(symbol);
+    const weightBefore = from?.weight || 0;
+    const weightAfter = to?.weight || 0;
+    const quantityBefore = from?.quantity || 0;
+    const quantityAfter = to?.quantity || 0;
+    const kind: SnapshotChangeKind = !from
+      ? "added"
+      : !to
+      ? "removed"
+      : Math.abs(weightAfter - weightBefore) > WEIGHT_TOLERANCE || quantityAfter !== quantityBefore
+      ? "changed"
+      : "unchanged";
+
+    diff[kind].push({
+      symbol,
+      kind,
+      weightBefore,
+      weightAfter,
+      weightChange: round2(weightAfter - weightBefore),
+      quantityBefore,
+      quantityAfter,
+    });
+  });
+
+  return diff;
+};
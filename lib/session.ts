@@ -0,0 +1,271 @@
+// lib/session.ts
+// Server-side half of the admin session. The backend access and refresh
+// tokens live in an encrypted httpOnly cookie that only route handlers read.
+import { cookies } from "next/headers";
+import { NextResponse, type NextRequest } from "next/server";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import {
+  API_BASE_URL,
+  SESSION_HINT_COOKIE,
+  getTokenExpiry,
+  type AdminSessionUser,
+  type ClientSession,
+} from "@/lib/auth";
+import { ApiAuthError } from "@/lib/api-errors";
+import { hasPermission, normalizeRole, type Permission } from "@/lib/permissions";
+
+export interface AdminSession {
+  accessToken: string;
+  refreshToken: string;
+  user?: AdminSessionUser;
+}
+
+export const SESSION_COOKIE = "admin_session";
+
+// Holds the backend's two-factor challenge between the password step and
+// the code step of a login
+export const TWO_FACTOR_CHALLENGE_COOKIE = "admin_2fa_challenge";
+
+const TWO_FACTOR_CHALLENGE_MAX_AGE_SECONDS = 5 * 60;
+
+// Matches the backend's refresh token lifetime
+const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+// How long a finished refresh is reused for requests that still carried
+// the refresh token it replaced
+const RECENT_REFRESH_MS = 30 * 1000;
+
+const getSessionKey = () => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SESSION_SECRET must be set to sign admin sessions");
+    }
+    console.warn("SESSION_SECRET is not set; using an insecure development key");
+  }
+  return createHash("sha256").update(secret || "rangaone-admin-development-session").digest();
+};
+
+const sealSession = (session: AdminSession): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getSessionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(session), "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+};
+
+const unsealSession = (value: string): AdminSession | null => {
+  try {
+    const [iv, tag, encrypted] = value.split(".").map((part) => Buffer.from(part, "base64url"));
+    const decipher = createDecipheriv("aes-256-gcm", getSessionKey(), iv);
+    decipher.setAuthTag(tag);
+    const session = JSON.parse(Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8"));
+    return session?.accessToken && session?.refreshToken ? session : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Reads the admin session from the request cookies, or null when there is
+ * none or it was tampered with.
+ */
+export const getAdminSession = async (): Promise<AdminSession | null> => {
+  const value = (await cookies()).get(SESSION_COOKIE)?.value;
+  return value ? unsealSession(value) : null;
+};
+
+/**
+ * Reads the session and checks it grants `permission`. Returns the session,
+ * or the 401 or 403 response a route handler should send instead.
+ */
+export const authorizeRequest = async (permission?: Permission | null): Promise<AdminSession | NextResponse> => {
+  const session = await getAdminSession();
+  if (!session) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+  if (!hasPermission(normalizeRole(session.user?.role), permission)) {
+    return NextResponse.json({ message: "You do not have permission to perform this action" }, { status: 403 });
+  }
+  return session;
+};
+
+/**
+ * Writes the session cookie along with the readable hint cookie that tells
+ * the client it is signed in and when the access token expires.
+ */
+export const saveAdminSession = async (session: AdminSession): Promise<void> => {
+  const cookieStore = await cookies();
+  const options = {
+    path: "/",
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  };
+  cookieStore.set(SESSION_COOKIE, sealSession(session), { ...options, httpOnly: true });
+  cookieStore.set(SESSION_HINT_COOKIE, String(getTokenExpiry(session.accessToken) ?? 0), options);
+};
+
+/**
+ * Headers for a login request that pass on the admin's browser and IP, so
+ * the backend lists the session under their device rather than this server.
+ */
+export const getClientHeaders = (request: NextRequest): Record<string, string> => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const userAgent = request.headers.get("user-agent");
+  const forwardedFor = request.headers.get("x-forwarded-for") || request.headers.get("x-real-ip");
+  if (userAgent) headers["User-Agent"] = userAgent;
+  if (forwardedFor) headers["X-Forwarded-For"] = forwardedFor;
+  return headers;
+};
+
+// Accounts created before the backend assigned roles, listed by email in
+// ADMIN_LEGACY_SUPER_ADMINS (comma separated). They are the only accounts
+// without a role that get access.
+const getLegacySuperAdmins = (): string[] =>
+  (process.env.ADMIN_LEGACY_SUPER_ADMINS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Builds a session from a backend login response, or null when it carries
+ * no tokens. `email` is the address the password was accepted for; the
+ * two-factor step only has the one the backend sends back.
+ */
+export const createSessionFromLogin = (data: any, email?: string): AdminSession | null => {
+  if (!data?.accessToken || !data?.refreshToken) return null;
+  const account = data.admin || data.user || {};
+  const accountEmail: string | undefined = account.email || email;
+  const isLegacySuperAdmin = !!accountEmail && getLegacySuperAdmins().includes(accountEmail.trim().toLowerCase());
+  return {
+    accessToken: data.accessToken,
+    refreshToken: data.refreshToken,
+    user: {
+      id: account._id || account.id,
+      email: accountEmail,
+      username: account.username || account.name,
+      role: account.role || (isLegacySuperAdmin ? "super-admin" : undefined),
+    },
+  };
+};
+
+export const saveTwoFactorChallenge = async (challengeToken: string): Promise<void> => {
+  (await cookies()).set(TWO_FACTOR_CHALLENGE_COOKIE, challengeToken, {
+    path: "/api/session",
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: TWO_FACTOR_CHALLENGE_MAX_AGE_SECONDS,
+  });
+};
+
+export const getTwoFactorChallenge = async (): Promise<string | null> =>
+  (await cookies()).get(TWO_FACTOR_CHALLENGE_COOKIE)?.value || null;
+
+export const clearTwoFactorChallenge = async (): Promise<void> => {
+  (await cookies()).delete({ name: TWO_FACTOR_CHALLENGE_COOKIE, path: "/api/session" });
+};
+
+export const clearAdminSession = async (): Promise<void> => {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE);
+  cookieStore.delete(SESSION_HINT_COOKIE);
+};
+
+/**
+ * The parts of a session the browser may see.
+ */
+export const toClientSession = (session: AdminSession | null): ClientSession =>
+  session
+    ? { authenticated: true, user: session.user, expiresAt: getTokenExpiry(session.accessToken) }
+    : { authenticated: false };
+
+const pendingRefreshes = new Map<string, Promise<AdminSession | null>>();
+
+const recentRefreshes = new Map<string, { session: AdminSession | null; at: number }>();
+
+const requestRefresh = async (session: AdminSession): Promise<AdminSession | null> => {
+  const response = await fetch(`${API_BASE_URL}/admin/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken: session.refreshToken }),
+  });
+  // A rejected refresh token ends the session; anything else may be transient
+  if (response.status === 401 || response.status === 403) return null;
+  if (!response.ok) throw new Error(`Token refresh failed: server returned ${response.status}`);
+  const data = await response.json();
+  if (!data?.accessToken) return null;
+  return {
+    ...session,
+    accessToken: data.accessToken,
+    // The backend only sends a refresh token when it rotates it
+    refreshToken: data.refreshToken || session.refreshToken,
+  };
+};
+
+/**
+ * Exchanges the session's refresh token for new tokens and saves them.
+ * Requests refreshing the same token share one backend call, and requests
+ * that still carry a token replaced moments ago reuse that result, so a
+ * rotated refresh token is never sent twice. Clears the session and
+ * returns null when the refresh token is rejected, and throws when the
+ * backend could not be reached.
+ */
+export const refreshAdminSession = async (session: AdminSession): Promise<AdminSession | null> => {
+  const key = session.refreshToken;
+  const recent = recentRefreshes.get(key);
+  let refreshed: AdminSession | null;
+
+  if (recent && Date.now() - recent.at < RECENT_REFRESH_MS) {
+    refreshed = recent.session;
+  } else {
+    let pending = pendingRefreshes.get(key);
+    if (!pending) {
+      pending = requestRefresh(session)
+        .then((result) => {
+          recentRefreshes.set(key, { session: result, at: Date.now() });
+          setTimeout(() => recentRefreshes.delete(key), RECENT_REFRESH_MS);
+          return result;
+        })
+        .finally(() => pendingRefreshes.delete(key));
+      pendingRefreshes.set(key, pending);
+    }
+    refreshed = await pending;
+  }
+
+  if (refreshed) {
+    await saveAdminSession(refreshed);
+  } else {
+    await clearAdminSession();
+  }
+  return refreshed;
+};
+
+/**
+ * Calls the backend with the session's access token, refreshing it once
+ * on a 401 or 403. For use in route handlers only.
+ */
+export const fetchWithSession = async (url: string, options: RequestInit = {}): Promise<Response> => {
+  const session = await getAdminSession();
+  if (!session) {
+    throw new ApiAuthError("Authentication required. Please login again.", { url });
+  }
+
+  const send = (accessToken: string) => {
+    const headers = new Headers(options.headers);
+    if (!(options.body instanceof FormData) && !headers.has("Content-Type")) {
+      headers.set("Content-Type", "application/json");
+    }
+    headers.set("Authorization", `Bearer ${accessToken}`);
+    return fetch(url, { ...options, headers });
+  };
+
+  const response = await send(session.accessToken);
+  if (response.status !== 401 && response.status !== 403) return response;
+
+  const refreshed = await refreshAdminSession(session);
+  if (!refreshed) {
+    throw new ApiAuthError("Session expired. Please login again.", { url, status: response.status });
+  }
+  return send(refreshed.accessToken);
+};
@@ -0,0 +1,101 @@
+// lib/tip-bulk.ts
+import { tipToRequest, type CreateTipRequest, type Tip } from "@/lib/api-tips";
+import { buildTipExitRequest, calculateTipExit, getTipId } from "@/lib/tip-exit";
+
+export type TipBulkAction = "close" | "category" | "move" | "delete";
+
+export type TipBulkResultStatus = "pending" | "success" | "failed" | "skipped";
+
+export interface TipBulkResult {
+  tipId: string;
+  label: string;
+  status: TipBulkResultStatus;
+  message?: string;
+}
+
+export interface TipBulkParams {
+  // Exit price per tip id, for closing
+  exitPrices?: Record<string, number>;
+  category?: Tip["category"];
+  // Target portfolio id; null moves tips to general
+  portfolio?: string | null;
+}
+
+export const TIP_BULK_ACTION_LABELS: Record<TipBulkAction, string> = {
+  close: "Close",
+  category: "Change Category",
+  move: "Move",
+  delete: "Delete",
+};
+
+export const getTipLabel = (tip: Tip): string => tip.stockSymbol || tip.title;
+
+/**
+ * Why a selected tip is left out of a bulk action, or null when it is
+ * eligible.
+ */
+export const getTipBulkSkipReason = (action: TipBulkAction, tip: Tip, params: TipBulkParams): string | null => {
+  switch (action) {
+    case "close": {
+      if (tip.status !== "Active") return `Tip is ${tip.status}, only active tips can be closed`;
+      const price = params.exitPrices?.[getTipId(tip)];
+      return price && price > 0 ? null : "No exit price entered";
+    }
+    case "category":
+      return tip.category === params.category ? "Already in this category" : null;
+    case "move":
+      return (tip.portfolio || null) === (params.portfolio ?? null) ? "Already in this portfolio" : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Full update payload for an update-style bulk action.
+ */
+export const buildTipBulkRequest = (
+  action: Exclude<TipBulkAction, "delete">,
+  tip: Tip,
+  params: TipBulkParams
+): CreateTipRequest => {
+  switch (action) {
+    case "close":
+      return buildTipExitRequest(tip, calculateTipExit(tip, params.exitPrices![getTipId(tip)]));
+    case "category":
+      return { ...tipToRequest(tip), category: params.category! };
+    case "move":
+      return { ...tipToRequest(tip), portfolio: params.portfolio ?? null };
+  }
+};
+
+/**
+ * Runs `task` for each tip one at a time, reporting every result as it
+ * lands so callers can show progress. Ineligible tips are reported as
+ * skipped and a failed tip never stops the rest.
+ */
+export const runTipBulkAction = async (
+  tips: Tip[],
+  skipReason: (tip: Tip) => string | null,
+  task: (tip: Tip) => Promise<unknown>,
+  onResult: (result: TipBulkResult, index: number) => void
+): Promise<TipBulkResult[]> => {
+  const results: TipBulkResult[] = [];
+  for (const [index, tip] of tips.entries()) {
+    const base = { tipId: getTipId(tip), label: getTipLabel(tip) };
+    const reason = skipReason(tip);
+    let result: TipBulkResult;
+    if (reason) {
+      result = { ...base, status: "skipped", message: reason };
+    } else {
+      try {
+        await task(tip);
+        result = { ...base, status: "success" };
+      } catch (error) {
+        result = { ...base, status: "failed", message: error instanceof Error ? error.message : "Request failed" };
+      }
+    }
+    results.push(result);
+    onResult(result, index);
+  }
+  return results;
+};
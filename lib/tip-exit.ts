@@ -0,0 +1,98 @@
+// lib/tip-exit.ts
+import { tipToRequest, type CreateTipRequest, type Tip } from "@/lib/api-tips";
+import type { StockSymbol } from "@/lib/api-stock-symbols";
+import {
+  formatTipPercentage,
+  getRangeMidpoint,
+  getTipDirection,
+  parseTipPercentage,
+  parseTipPrice,
+  parseTipPriceRange,
+} from "@/lib/tip-prices";
+
+export type TipExitTrigger = "target" | "stop-loss";
+
+export type TipExitStatus = "Profit Booked" | "Loss Booked";
+
+export interface TipExit {
+  exitPrice: number;
+  // Signed move from the buy range midpoint; null when the range is unparseable
+  exitPercentage: number | null;
+  exitStatus: TipExitStatus;
+}
+
+export interface TipExitAlert {
+  tipId: string;
+  tip: Tip;
+  trigger: TipExitTrigger;
+  price: number;
+  detectedAt: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const getTipId = (tip: Tip): string => tip._id || tip.id;
+
+/**
+ * Exit outcome at `price`: the percentage against the buy range midpoint
+ * and whether that books a profit or a loss for the tip's direction.
+ */
+export const calculateTipExit = (tip: Tip, price: number): TipExit => {
+  const range = parseTipPriceRange(tip.buyRange);
+  const entry = range ? getRangeMidpoint(range) : null;
+  const exitPercentage = entry ? round2(((price - entry) / entry) * 100) : null;
+  const gained = exitPercentage !== null && exitPercentage * (getTipDirection(tip.action) === "short" ? -1 : 1) > 0;
+  return { exitPrice: price, exitPercentage, exitStatus: gained ? "Profit Booked" : "Loss Booked" };
+};
+
+/**
+ * Full update payload that closes a tip at the given exit.
+ */
+export const buildTipExitRequest = (tip: Tip, exit: TipExit): CreateTipRequest => ({
+  ...tipToRequest(tip),
+  status: "Closed",
+  exitPrice: String(exit.exitPrice),
+  exitedPrice: String(exit.exitPrice),
+  exitStatus: exit.exitStatus,
+  exitStatusPercentage: exit.exitPercentage === null ? "" : formatTipPercentage(exit.exitPercentage),
+});
+
+/**
+ * Which level, if any, an active tip has crossed at `price`. Targets given
+ * only as a percentage are resolved against the buy range midpoint.
+ */
+export const detectTipExitTrigger = (tip: Tip, price: number): TipExitTrigger | null => {
+  if (tip.status !== "Active" || !(price > 0)) return null;
+  const direction = getTipDirection(tip.action);
+  if (!direction) return null;
+  const sign = direction === "short" ? -1 : 1;
+
+  let target = parseTipPrice(tip.targetPrice);
+  const range = parseTipPriceRange(tip.buyRange);
+  const percentage = parseTipPercentage(tip.targetPercentage);
+  if (target === null && range && percentage !== null) {
+    target = round2(getRangeMidpoint(range) * (1 + percentage / 100));
+  }
+  const stopLoss = parseTipPrice(tip.stopLoss);
+
+  if (target !== null && (price - target) * sign >= 0) return "target";
+  if (stopLoss !== null && (price - stopLoss) * sign <= 0) return "stop-loss";
+  return null;
+};
+
+/**
+ * Alerts for active tips whose stock appears in a price update and has
+ * crossed its target or stop loss. Stocks are matched by id, then symbol.
+ */
+export const findTipExitAlerts = (tips: Tip[], stocks: StockSymbol[]): TipExitAlert[] => {
+  const byId = new Map(stocks.filter((stock) => stock._id || stock.id).map((stock) => [stock._id || stock.id, stock]));
+  const bySymbol = new Map(stocks.map((stock) => [stock.symbol, stock]));
+  const detectedAt = new Date().toISOString();
+
+  return tips.flatMap((tip) => {
+    const stock = byId.get(tip.stockId) || bySymbol.get(tip.stockSymbol || tip.stockId);
+    const price = parseFloat(stock?.currentPrice || "");
+    const trigger = stock ? detectTipExitTrigger(tip, price) : null;
+    return trigger ? [{ tipId: getTipId(tip), tip, trigger, price, detectedAt }] : [];
+  });
+};
@@ -0,0 +1,184 @@
+// lib/tip-prices.ts
+
+export interface PriceRange {
+  low: number;
+  high: number;
+}
+
+// Long setups profit when the price rises, short ones when it falls
+export type TipDirection = "long" | "short";
+
+export interface TipPriceFields {
+  action?: string;
+  status?: string;
+  buyRange?: string;
+  targetPrice?: string;
+  targetPercentage?: string;
+  stopLoss?: string;
+  addMoreAt?: string;
+}
+
+export interface TipPriceIssue {
+  field: keyof TipPriceFields;
+  message: string;
+}
+
+// Allowed gap between an entered target percentage and the calculated one
+export const TARGET_PERCENTAGE_TOLERANCE = 0.5;
+
+const NUMBER = String.raw`\d[\d,]*(?:\.\d+)?`;
+const CURRENCY = String.raw`(?:₹|rs\.?|inr)?\s*`;
+const PRICE_PATTERN = new RegExp(`^\\s*${CURRENCY}(${NUMBER})\\s*$`, "i");
+const RANGE_PATTERN = new RegExp(`^\\s*${CURRENCY}(${NUMBER})\\s*(?:-|–|to)\\s*${CURRENCY}(${NUMBER})\\s*$`, "i");
+const PERCENTAGE_PATTERN = /^\s*([+-]?\d+(?:\.\d+)?)\s*%?\s*$/;
+
+const toNumber = (value: string) => parseFloat(value.replace(/,/g, ""));
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const isBlank = (value?: string) => !value || !value.trim();
+
+/**
+ * Parses a single positive price such as "150.75", "₹1,250" or "Rs 99".
+ */
+export const parseTipPrice = (value?: string): number | null => {
+  const match = value?.match(PRICE_PATTERN);
+  if (!match) return null;
+  const price = toNumber(match[1]);
+  return price > 0 ? price : null;
+};
+
+/**
+ * Parses "100-110", "100 to 110" or a single price (a zero-width range).
+ * Reversed bounds are normalised so low never exceeds high.
+ */
+export const parseTipPriceRange = (value?: string): PriceRange | null => {
+  const match = value?.match(RANGE_PATTERN);
+  if (match) {
+    const [a, b] = [toNumber(match[1]), toNumber(match[2])];
+    if (!(a > 0 && b > 0)) return null;
+    return { low: Math.min(a, b), high: Math.max(a, b) };
+  }
+  const price = parseTipPrice(value);
+  return price === null ? null : { low: price, high: price };
+};
+
+/**
+ * Parses a signed percentage such as "25%", "-15" or "+12.5%".
+ */
+export const parseTipPercentage = (value?: string): number | null => {
+  const match = value?.match(PERCENTAGE_PATTERN);
+  return match ? parseFloat(match[1]) : null;
+};
+
+export const getRangeMidpoint = (range: PriceRange): number => round2((range.low + range.high) / 2);
+
+export const formatTipPercentage = (value: number): string => `${value.toFixed(2)}%`;
+
+/**
+ * Sell tips are short setups; buy, add more and hold are long. Other
+ * actions (partial profit, partial sell) have no fixed direction.
+ */
+export const getTipDirection = (action?: string): TipDirection | null => {
+  switch (action?.trim().toLowerCase()) {
+    case "buy":
+    case "add more":
+    case "hold":
+      return "long";
+    case "sell":
+      return "short";
+    default:
+      return null;
+  }
+};
+
+/**
+ * Signed move from the buy range midpoint to the target, in percent.
+ * Short setups therefore have negative target percentages.
+ */
+export const calculateTargetPercentage = (buyRange?: string, targetPrice?: string): number | null => {
+  const range = parseTipPriceRange(buyRange);
+  const target = parseTipPrice(targetPrice);
+  if (!range || target === null) return null;
+  const entry = getRangeMidpoint(range);
+  return round2(((target - entry) / entry) * 100);
+};
+
+/**
+ * Fills in targetPercentage from the buy range and target price when it
+ * was left blank. Closed tips keep their exit range untouched.
+ */
+export const withCalculatedTargetPercentage = <T extends TipPriceFields>(data: T): T => {
+  if (data.status === "Closed" || !isBlank(data.targetPercentage)) return data;
+  const percentage = calculateTargetPercentage(data.buyRange, data.targetPrice);
+  return percentage === null ? data : { ...data, targetPercentage: formatTipPercentage(percentage) };
+};
+
+/**
+ * Checks that every price field parses and that the setup is consistent
+ * with the action: for long tips the stop loss sits below the buy range and
+ * the target above it, and the reverse for short tips. A target
+ * percentage entered alongside a target price must agree with it. Closed
+ * tips reuse targetPercentage for the exit range, so it is not checked.
+ */
+export const validateTipPrices = (data: TipPriceFields): TipPriceIssue[] => {
+  const issues: TipPriceIssue[] = [];
+  const isClosed = data.status === "Closed";
+
+  const range = parseTipPriceRange(data.buyRange);
+  const target = parseTipPrice(data.targetPrice);
+  const stopLoss = parseTipPrice(data.stopLoss);
+  const addMoreAt = parseTipPriceRange(data.addMoreAt);
+  const percentage = parseTipPercentage(data.targetPercentage);
+
+  if (!isBlank(data.buyRange) && !range) {
+    issues.push({ field: "buyRange", message: "Buy range must be a price or a range such as 100-110" });
+  }
+  if (!isBlank(data.targetPrice) && target === null) {
+    issues.push({ field: "targetPrice", message: "Target price must be a positive number" });
+  }
+  if (!isBlank(data.stopLoss) && stopLoss === null) {
+    issues.push({ field: "stopLoss", message: "Stop loss must be a positive number" });
+  }
+  if (!isBlank(data.addMoreAt) && !addMoreAt) {
+    issues.push({ field: "addMoreAt", message: "Add more at must be a price or a range such as 90-95" });
+  }
+  if (!isClosed && !isBlank(data.targetPercentage) && percentage === null) {
+    issues.push({ field: "targetPercentage", message: "Target percentage must be a number such as 25%" });
+  }
+
+  const direction = getTipDirection(data.action);
+  if (!range || isClosed) return issues;
+
+  if (direction === "long") {
+    if (stopLoss !== null && stopLoss >= range.low) {
+      issues.push({ field: "stopLoss", message: `Stop loss (${stopLoss}) must be below the buy range (${range.low}) for a ${data.action} tip` });
+    }
+    if (target !== null && target <= range.high) {
+      issues.push({ field: "targetPrice", message: `Target price (${target}) must be above the buy range (${range.high}) for a ${data.action} tip` });
+    }
+    if (addMoreAt && addMoreAt.high > range.high) {
+      issues.push({ field: "addMoreAt", message: `Add more at (${addMoreAt.high}) must not be above the buy range (${range.high})` });
+    }
+    if (addMoreAt && stopLoss !== null && addMoreAt.low <= stopLoss) {
+      issues.push({ field: "addMoreAt", message: `Add more at (${addMoreAt.low}) must be above the stop loss (${stopLoss})` });
+    }
+  } else if (direction === "short") {
+    if (stopLoss !== null && stopLoss <= range.high) {
+      issues.push({ field: "stopLoss", message: `Stop loss (${stopLoss}) must be above the buy range (${range.high}) for a sell tip` });
+    }
+    if (target !== null && target >= range.low) {
+      issues.push({ field: "targetPrice", message: `Target price (${target}) must be below the buy range (${range.low}) for a sell tip` });
+    }
+  }
+
+  const expected = calculateTargetPercentage(data.buyRange, data.targetPrice);
+  if (expected !== null && percentage !== null && Math.abs(percentage - expected) > TARGET_PERCENTAGE_TOLERANCE) {
+    issues.push({
+      field: "targetPercentage",
+      message: `Target percentage (${formatTipPercentage(percentage)}) does not match the target price (expected ${formatTipPercentage(expected)})`,
+    });
+  }
+
+  return issues;
+};
@@ -0,0 +1,72 @@
+// lib/tip-publishing.ts
+import { tipToRequest, type CreateTipRequest, type Tip, type TipStatus } from "@/lib/api-tips";
+
+export const TIP_STATUSES: TipStatus[] = ["Active", "Closed", "Draft", "Scheduled"];
+
+// Statuses members can see; drafts and scheduled tips are still in review
+export const PUBLISHED_TIP_STATUSES: TipStatus[] = ["Active", "Closed"];
+
+export const isPublishedTip = (tip: Pick<Tip, "status">): boolean => PUBLISHED_TIP_STATUSES.includes(tip.status);
+
+/**
+ * A scheduled tip whose publish time has passed.
+ */
+export const isTipDue = (tip: Pick<Tip, "status" | "publishAt">, now: Date = new Date()): boolean => {
+  if (tip.status !== "Scheduled" || !tip.publishAt) return false;
+  const publishAt = new Date(tip.publishAt).getTime();
+  return !isNaN(publishAt) && publishAt <= now.getTime();
+};
+
+/**
+ * Drafts and scheduled tips awaiting publication: scheduled ones first in
+ * publish order, then drafts by most recently edited.
+ */
+export const getTipReviewQueue = (tips: Tip[]): Tip[] => {
+  const scheduled = tips
+    .filter((tip) => tip.status === "Scheduled")
+    .sort((a, b) => new Date(a.publishAt || 0).getTime() - new Date(b.publishAt || 0).getTime());
+  const drafts = tips
+    .filter((tip) => tip.status === "Draft")
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  return [...scheduled, ...drafts];
+};
+
+/**
+ * Error message for an invalid status/publishAt pair, or null. Only new
+ * schedules need a future time; due tips are published by the queue.
+ */
+export const validateTipSchedule = (
+  data: { status?: string; publishAt?: string },
+  now: Date = new Date()
+): string | null => {
+  if (data.status !== "Scheduled") return null;
+  if (!data.publishAt) return "Scheduled tips need a publish time";
+  const publishAt = new Date(data.publishAt).getTime();
+  if (isNaN(publishAt)) return "Publish time is not a valid date";
+  if (publishAt <= now.getTime()) return "Publish time must be in the future";
+  return null;
+};
+
+/**
+ * Full update payload that makes a draft or scheduled tip live now.
+ */
+export const buildPublishTipRequest = (tip: Tip, publishedAt: Date = new Date()): CreateTipRequest => ({
+  ...tipToRequest(tip),
+  status: "Active",
+  publishAt: publishedAt.toISOString(),
+});
+
+// <input type="datetime-local"> works in local time without a zone
+export const toDateTimeLocalValue = (iso?: string): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeLocalValue = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
@@ -0,0 +1,89 @@
+// lib/tip-revisions.ts
+import type { CreateTipRequest } from "@/lib/api-tips";
+import type { TipFieldChange, TipRevision } from "@/lib/api-tip-revisions";
+
+// Fields compared between revisions, in display order
+export const TIP_REVISION_FIELDS: Array<{ field: keyof CreateTipRequest; label: string }> = [
+  { field: "title", label: "Title" },
+  { field: "status", label: "Status" },
+  { field: "publishAt", label: "Publish At" },
+  { field: "action", label: "Action" },
+  { field: "buyRange", label: "Buy Range" },
+  { field: "targetPrice", label: "Target Price" },
+  { field: "targetPercentage", label: "Target Percentage" },
+  { field: "stopLoss", label: "Stop Loss" },
+  { field: "addMoreAt", label: "Add More At" },
+  { field: "horizon", label: "Horizon" },
+  { field: "analysistConfidence", label: "Confidence" },
+  { field: "mpWeightage", label: "MP Weightage" },
+  { field: "exitPrice", label: "Exit Price" },
+  { field: "exitedPrice", label: "Exited Price" },
+  { field: "exitStatus", label: "Exit Status" },
+  { field: "exitStatusPercentage", label: "Exit Percentage" },
+  { field: "category", label: "Category" },
+  { field: "stockId", label: "Stock" },
+  { field: "portfolio", label: "Portfolio" },
+  { field: "description", label: "Description" },
+  { field: "content", label: "Content" },
+  { field: "tipUrl", label: "Tip URL" },
+  { field: "downloadLinks", label: "Download Links" },
+];
+
+/**
+ * Blank strings, empty arrays and missing values all mean "not set", and
+ * array entries lose their database ids so re-saved content compares equal.
+ */
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string") return value.trim() || null;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return null;
+    return value.map((item) => {
+      if (!item || typeof item !== "object") return item;
+      const { _id, ...rest } = item as Record<string, unknown>;
+      return rest;
+    });
+  }
+  return value;
+};
+
+/**
+ * Field-level changes between two versions of a tip, in display order.
+ */
+export const diffTipFields = (before: CreateTipRequest, after: CreateTipRequest): TipFieldChange[] =>
+  TIP_REVISION_FIELDS.flatMap(({ field }) => {
+    const [a, b] = [normalize(before[field]), normalize(after[field])];
+    return JSON.stringify(a) === JSON.stringify(b) ? [] : [{ field, before: a, after: b }];
+  });
+
+export const getTipFieldLabel = (field: string): string =>
+  TIP_REVISION_FIELDS.find((entry) => entry.field === field)?.label || field;
+
+export const formatRevisionValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) {
+    return value
+      .map((item) =>
+        item && typeof item === "object"
+          ? "key" in item
+            ? `${(item as { key: string }).key}: ${(item as { value: string }).value}`
+            : (item as { name?: string; url?: string }).name || (item as { url?: string }).url || ""
+          : String(item)
+      )
+      .join("\n");
+  }
+  return String(value);
+};
+
+export const getRevisionAuthor = (revision: TipRevision): string => {
+  const author = revision.revisedBy;
+  if (!author) return "Unknown admin";
+  if (typeof author === "string") return author;
+  return author.username || author.email || author._id || "Unknown admin";
+};
+
+/**
+ * Newest revision first.
+ */
+export const sortRevisions = (revisions: TipRevision[]): TipRevision[] =>
+  [...revisions].sort((a, b) => new Date(b.revisedAt).getTime() - new Date(a.revisedAt).getTime());
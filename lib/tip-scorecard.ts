@@ -0,0 +1,203 @@
+// lib/tip-scorecard.ts
+import type { Tip } from "@/lib/api-tips";
+import type { StockSymbol } from "@/lib/api-stock-symbols";
+import {
+  getRangeMidpoint,
+  getTipDirection,
+  parseTipPercentage,
+  parseTipPrice,
+  parseTipPriceRange,
+} from "@/lib/tip-prices";
+
+export type TipOutcome = "target-hit" | "stop-loss-hit" | "open" | "expired" | "unscored";
+
+export interface TipEvaluation {
+  tip: Tip;
+  outcome: TipOutcome;
+  entryPrice: number | null;
+  targetPrice: number | null;
+  stopLoss: number | null;
+  // Price the outcome was measured at (exit, trigger, horizon end or current)
+  exitPrice: number | null;
+  returnPercent: number | null;
+  holdingDays: number;
+  horizonDays: number | null;
+  resolvedAt: string | null;
+  // Why a tip could not be scored, or which fallbacks were used
+  notes: string[];
+}
+
+export interface ScorecardGroup {
+  key: string;
+  total: number;
+  targetHit: number;
+  stopLossHit: number;
+  open: number;
+  expired: number;
+  unscored: number;
+  // Target hits as a share of resolved tips (hit, stopped or expired)
+  hitRate: number | null;
+  averageReturn: number | null;
+  averageHoldingDays: number | null;
+}
+
+// Calendar days a tip is given to play out for each horizon
+export const TIP_HORIZON_DAYS: Record<string, number> = {
+  Swing: 30,
+  "Short Term": 90,
+  "Long Term": 365,
+};
+
+export const CONFIDENCE_BUCKETS = [
+  { key: "High (8-10)", min: 8, max: 10 },
+  { key: "Medium (5-7)", min: 5, max: 7 },
+  { key: "Low (1-4)", min: 1, max: 4 },
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const getConfidenceBucket = (confidence?: number): string => {
+  if (!confidence) return "Unrated";
+  return CONFIDENCE_BUCKETS.find((bucket) => confidence >= bucket.min && confidence <= bucket.max)?.key || "Unrated";
+};
+
+/**
+ * Stock prices after the tip was published, oldest first, ending with the
+ * current price.
+ */
+const pricePath = (stock: StockSymbol | undefined, from: number, now: number): Array<{ time: number; price: number }> => {
+  if (!stock) return [];
+  const history = (stock.priceHistory || [])
+    .map((point) => ({ time: new Date(point.timestamp).getTime(), price: parseFloat(point.price) }))
+    .filter((point) => point.time >= from && point.time <= now && point.price > 0)
+    .sort((a, b) => a.time - b.time);
+  const current = parseFloat(stock.currentPrice);
+  if (current > 0) history.push({ time: now, price: current });
+  return history;
+};
+
+/**
+ * Scores a tip against its stock's price history. Closed tips use the
+ * recorded exit; open ones are walked forward until the target or stop
+ * loss is crossed, or marked expired once the horizon has passed. Sell
+ * tips are scored in the opposite direction.
+ */
+export const evaluateTip = (tip: Tip, stock: StockSymbol | undefined, now: Date = new Date()): TipEvaluation => {
+  const notes: string[] = [];
+  const publishedAt = new Date(tip.createdAt).getTime();
+  const nowTime = now.getTime();
+  const direction = getTipDirection(tip.action) === "short" ? -1 : 1;
+  const horizonDays = TIP_HORIZON_DAYS[tip.horizon?.trim() || ""] ?? null;
+
+  const range = parseTipPriceRange(tip.buyRange);
+  const entryPrice = range ? getRangeMidpoint(range) : null;
+  const targetPercentage = parseTipPercentage(tip.targetPercentage);
+  let targetPrice = parseTipPrice(tip.targetPrice);
+  if (targetPrice === null && entryPrice !== null && targetPercentage !== null) {
+    // Target percentages are signed moves from the buy range midpoint
+    targetPrice = round2(entryPrice * (1 + targetPercentage / 100));
+    notes.push("Target derived from target percentage");
+  }
+  const stopLoss = parseTipPrice(tip.stopLoss);
+
+  const result = (
+    outcome: TipOutcome,
+    exitPrice: number | null,
+    resolvedTime: number | null
+  ): TipEvaluation => ({
+    tip,
+    outcome,
+    entryPrice,
+    targetPrice,
+    stopLoss,
+    exitPrice,
+    returnPercent:
+      entryPrice && exitPrice ? round2(((exitPrice - entryPrice) / entryPrice) * 100 * direction) : null,
+    holdingDays: isNaN(publishedAt) ? 0 : Math.max(0, Math.round(((resolvedTime ?? nowTime) - publishedAt) / DAY_MS)),
+    horizonDays,
+    resolvedAt: resolvedTime === null ? null : new Date(resolvedTime).toISOString(),
+    notes,
+  });
+
+  if (entryPrice === null) {
+    notes.push("Buy range could not be parsed");
+    return result("unscored", null, null);
+  }
+
+  if (tip.status === "Closed") {
+    const exitPrice = parseTipPrice(tip.exitedPrice) ?? parseTipPrice(tip.exitPrice);
+    const closedAt = new Date(tip.updatedAt).getTime();
+    if (exitPrice === null) {
+      notes.push("Closed without a parseable exit price");
+      return result("unscored", null, isNaN(closedAt) ? null : closedAt);
+    }
+    const gained = (exitPrice - entryPrice) * direction > 0;
+    const outcome: TipOutcome =
+      tip.exitStatus === "Profit Booked" ? "target-hit" : tip.exitStatus === "Loss Booked" ? "stop-loss-hit" : gained ? "target-hit" : "stop-loss-hit";
+    return result(outcome, exitPrice, isNaN(closedAt) ? null : closedAt);
+  }
+
+  const path = pricePath(stock, isNaN(publishedAt) ? 0 : publishedAt, nowTime);
+  if (path.length === 0) {
+    notes.push("No current price for the stock");
+    return result("unscored", null, null);
+  }
+
+  const horizonEnd = horizonDays !== null && !isNaN(publishedAt) ? publishedAt + horizonDays * DAY_MS : null;
+  for (const point of path) {
+    if (horizonEnd !== null && point.time > horizonEnd) break;
+    if (targetPrice !== null && (point.price - targetPrice) * direction >= 0) return result("target-hit", point.price, point.time);
+    if (stopLoss !== null && (point.price - stopLoss) * direction <= 0) return result("stop-loss-hit", point.price, point.time);
+  }
+
+  if (horizonEnd !== null && nowTime > horizonEnd) {
+    // Measured at the last known price within the horizon
+    const atHorizon = [...path].reverse().find((point) => point.time <= horizonEnd) || path[0];
+    return result("expired", atHorizon.price, horizonEnd);
+  }
+
+  return result("open", path[path.length - 1].price, null);
+};
+
+const average = (values: number[]): number | null =>
+  values.length ? round2(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+/**
+ * Groups evaluations by a key and computes hit rate, average return and
+ * average holding period for each group. Averages skip unscored tips.
+ */
+export const summarizeTipScorecard = (
+  evaluations: TipEvaluation[],
+  keyOf: (evaluation: TipEvaluation) => string
+): ScorecardGroup[] => {
+  const groups = new Map<string, TipEvaluation[]>();
+  evaluations.forEach((evaluation) => {
+    const key = keyOf(evaluation);
+    groups.set(key, [...(groups.get(key) || []), evaluation]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, items]) => {
+      const count = (outcome: TipOutcome) => items.filter((item) => item.outcome === outcome).length;
+      const targetHit = count("target-hit");
+      const stopLossHit = count("stop-loss-hit");
+      const expired = count("expired");
+      const resolved = targetHit + stopLossHit + expired;
+      const scored = items.filter((item) => item.outcome !== "unscored");
+      return {
+        key,
+        total: items.length,
+        targetHit,
+        stopLossHit,
+        open: count("open"),
+        expired,
+        unscored: count("unscored"),
+        hitRate: resolved ? round2((targetHit / resolved) * 100) : null,
+        averageReturn: average(scored.map((item) => item.returnPercent).filter((value): value is number => value !== null)),
+        averageHoldingDays: average(scored.map((item) => item.holdingDays)),
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+};